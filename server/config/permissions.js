@@ -0,0 +1,74 @@
+// The role -> permission matrix. requirePermission enforces it on every route
+// and GET /api/auth/permissions hands it to the client, so this is the one
+// place to change who may do what.
+const PERMISSIONS = {
+    read_profile: 'See your own account',
+    update_own_profile: 'Change your own account and sessions',
+    view_admin_dashboard: 'Open the admin dashboard',
+    view_members: 'Browse members, units and pastors',
+    manage_members: 'Add, edit, approve and assign members',
+    customize_member_exports: 'Choose the columns of member exports',
+    merge_members: 'Find duplicate members and merge them',
+    manage_pipeline: 'Configure lifecycle pipeline stages and move members past their criteria',
+    access_all_members: 'Reach members outside your own center, units and assignments',
+    view_attendance: 'See attendance records',
+    record_attendance: 'Check members and visitors in',
+    view_analytics: 'See growth analytics',
+    view_events: 'Browse events',
+    register_for_events: 'Register for events',
+    manage_events: 'Create events and manage registrations',
+    view_messages: 'Browse sermons and series',
+    manage_messages: 'Upload sermons and curate series',
+    view_centers: 'Browse Auxano centers',
+    manage_centers: 'Create, edit and delete Auxano centers',
+    manage_donations: 'Record donations, projects and pledges',
+    manage_users: 'Invite and manage portal users',
+    view_audit_log: 'See who changed what in the audit log',
+    system_admin: 'Manage other users\' sessions and system settings',
+};
+
+const USER_PERMISSIONS = [
+    'read_profile',
+    'update_own_profile',
+    'view_events',
+    'register_for_events',
+    'view_messages',
+    'view_centers',
+];
+
+const PASTOR_PERMISSIONS = [
+    ...USER_PERMISSIONS,
+    'view_admin_dashboard',
+    'view_members',
+    'manage_members',
+    'view_attendance',
+    'record_attendance',
+    'view_analytics',
+];
+
+const ADMIN_PERMISSIONS = [
+    ...PASTOR_PERMISSIONS,
+    'access_all_members',
+    'customize_member_exports',
+    'merge_members',
+    'manage_pipeline',
+    'manage_events',
+    'manage_messages',
+    'manage_centers',
+    'manage_donations',
+    'manage_users',
+    'view_audit_log',
+];
+
+const ROLE_PERMISSIONS = {
+    user: USER_PERMISSIONS,
+    pastor: PASTOR_PERMISSIONS,
+    admin: ADMIN_PERMISSIONS,
+    superadmin: Object.keys(PERMISSIONS),
+};
+
+const permissionsForRole = (role) => ROLE_PERMISSIONS[role] || [];
+
+const hasPermission = (role, permission) => permissionsForRole(role).includes(permission);
+
+export { PERMISSIONS, ROLE_PERMISSIONS, permissionsForRole, hasPermission };
@@ -0,0 +1,278 @@
+import mongoose from 'mongoose';
+import Member from '../models/Member.js';
+import PipelineStage from '../models/PipelineStage.js';
+import StageTransition from '../models/StageTransition.js';
+import { loadMemberScope, memberScopeFilter } from '../middleware/memberScopeMiddleware.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Members may carry an explicit join date; older records only have created_at
+const JOINED_ON = { $ifNull: ['$joindate', '$created_at'] };
+
+// Start of the week (Sunday) or month containing `date`, in UTC. Mirrors
+// Mongo's $dateTrunc so JS-generated buckets line up with the aggregation.
+const truncate = (date, interval) => {
+    const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    if (interval === 'month') {
+        d.setUTCDate(1);
+    } else {
+        d.setUTCDate(d.getUTCDate() - d.getUTCDay());
+    }
+    return d;
+};
+
+const nextBucket = (date, interval) => {
+    const d = new Date(date);
+    if (interval === 'month') {
+        d.setUTCMonth(d.getUTCMonth() + 1);
+    } else {
+        d.setUTCDate(d.getUTCDate() + 7);
+    }
+    return d;
+};
+
+const bucketLabel = (date, interval) => (interval === 'month'
+    ? date.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' })
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }));
+
+// The members a user may report on, as an aggregation $match, optionally
+// narrowed to one center. Pipelines are not cast by Mongoose, so the filter is
+// cast through a query first.
+const scopeMatch = async (user, auxanoCenter) => {
+    const scope = await loadMemberScope(user);
+    if (!scope && !auxanoCenter) {
+        return {};
+    }
+
+    const conditions = [memberScopeFilter(scope)];
+    if (auxanoCenter) {
+        conditions.push({ auxanoCenter });
+    }
+    return Member.find({ $and: conditions }).cast();
+};
+
+const countBy = (field, lookupCollection) => {
+    const stages = [{ $group: { _id: `$${field}`, count: { $sum: 1 } } }];
+
+    if (lookupCollection) {
+        stages.push(
+            { $lookup: { from: lookupCollection, localField: '_id', foreignField: '_id', as: 'ref' } },
+            { $addFields: { label: { $ifNull: [{ $arrayElemAt: ['$ref.name', 0] }, 'Unassigned'] } } },
+            { $project: { ref: 0 } },
+        );
+    } else {
+        stages.push({ $addFields: { label: { $ifNull: ['$_id', 'Uncategorised'] } } });
+    }
+
+    stages.push({ $sort: { count: -1 } });
+    return stages;
+};
+
+// @desc    Member growth, churn and breakdowns over a date range
+// @route   GET /api/analytics/growth?from=&to=&interval=week|month&auxanoCenter=
+// @access  Private
+const getMemberGrowth = async (req, res) => {
+    try {
+        const interval = req.query.interval === 'week' ? 'week' : 'month';
+        const to = req.query.to ? new Date(req.query.to) : new Date();
+        const from = req.query.from ? new Date(req.query.from) : new Date(to.getTime() - 180 * DAY_MS);
+
+        if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from > to) {
+            return res.status(400).json({ message: 'Invalid date range' });
+        }
+        if (req.query.auxanoCenter && !mongoose.isValidObjectId(req.query.auxanoCenter)) {
+            return res.status(400).json({ message: 'Invalid Auxano center' });
+        }
+
+        // Comparison window of the same length immediately before `from`
+        const previousFrom = new Date(from.getTime() - (to.getTime() - from.getTime()));
+        const scope = await scopeMatch(req.user, req.query.auxanoCenter);
+
+        const [result] = await Member.aggregate([
+            { $match: scope },
+            { $addFields: { joinedOn: JOINED_ON } },
+            {
+                $facet: {
+                    joined: [
+                        { $match: { joinedOn: { $gte: from, $lte: to } } },
+                        { $group: { _id: { $dateTrunc: { date: '$joinedOn', unit: interval, startOfWeek: 'sunday' } }, count: { $sum: 1 } } },
+                    ],
+                    churned: [
+                        { $match: { deactivated_at: { $gte: from, $lte: to } } },
+                        { $group: { _id: { $dateTrunc: { date: '$deactivated_at', unit: interval, startOfWeek: 'sunday' } }, count: { $sum: 1 } } },
+                    ],
+                    // Active members at the start of the range. Members made
+                    // inactive before churn was tracked have no deactivated_at,
+                    // so it is their status that rules them out.
+                    baseline: [
+                        {
+                            $match: {
+                                joinedOn: { $lt: from },
+                                $or: [{ isactive: { $ne: false } }, { deactivated_at: { $gte: from } }],
+                            },
+                        },
+                        { $count: 'count' },
+                    ],
+                    previousJoined: [
+                        { $match: { joinedOn: { $gte: previousFrom, $lt: from } } },
+                        { $count: 'count' },
+                    ],
+                    previousChurned: [
+                        { $match: { deactivated_at: { $gte: previousFrom, $lt: from } } },
+                        { $count: 'count' },
+                    ],
+                    totals: [
+                        {
+                            $group: {
+                                _id: null,
+                                members: { $sum: 1 },
+                                active: { $sum: { $cond: [{ $ne: ['$isactive', false] }, 1, 0] } },
+                            },
+                        },
+                    ],
+                    byCategory: [
+                        { $match: { joinedOn: { $gte: from, $lte: to } } },
+                        ...countBy('category'),
+                    ],
+                    byUnit: [
+                        { $match: { joinedOn: { $gte: from, $lte: to } } },
+                        ...countBy('unit', 'units'),
+                    ],
+                    byAuxanoCenter: [
+                        { $match: { joinedOn: { $gte: from, $lte: to } } },
+                        ...countBy('auxanoCenter', 'auxanocenters'),
+                    ],
+                },
+            },
+        ]);
+
+        const joinedByBucket = new Map(result.joined.map(({ _id, count }) => [_id.getTime(), count]));
+        const churnedByBucket = new Map(result.churned.map(({ _id, count }) => [_id.getTime(), count]));
+
+        // Walk every bucket in the range so gaps show up as zero rather than missing points
+        let runningTotal = result.baseline[0]?.count || 0;
+        const series = [];
+        for (let bucket = truncate(from, interval); bucket <= to; bucket = nextBucket(bucket, interval)) {
+            const joined = joinedByBucket.get(bucket.getTime()) || 0;
+            const churned = churnedByBucket.get(bucket.getTime()) || 0;
+            runningTotal += joined - churned;
+
+            series.push({
+                period: bucket.toISOString(),
+                label: bucketLabel(bucket, interval),
+                joined,
+                churned,
+                net: joined - churned,
+                total: runningTotal,
+            });
+        }
+
+        const joined = series.reduce((sum, point) => sum + point.joined, 0);
+        const churned = series.reduce((sum, point) => sum + point.churned, 0);
+        const previousJoined = result.previousJoined[0]?.count || 0;
+        const previousChurned = result.previousChurned[0]?.count || 0;
+        const previousNet = previousJoined - previousChurned;
+
+        res.json({
+            interval,
+            from,
+            to,
+            series,
+            summary: {
+                members: result.totals[0]?.members || 0,
+                active: result.totals[0]?.active || 0,
+                joined,
+                churned,
+                net: joined - churned,
+                previousJoined,
+                previousChurned,
+                previousNet,
+                // Percentage change in new members versus the previous window; null when there is no baseline
+                joinedChange: previousJoined ? Math.round(((joined - previousJoined) / previousJoined) * 100) : null,
+            },
+            breakdowns: {
+                category: result.byCategory.map(({ _id, label, count }) => ({ key: _id, label, count })),
+                unit: result.byUnit.map(({ _id, label, count }) => ({ key: _id, label, count })),
+                auxanoCenter: result.byAuxanoCenter.map(({ _id, label, count }) => ({ key: _id, label, count })),
+            },
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+const roundDays = (days) => (days == null ? null : Math.round(days * 10) / 10);
+
+// @desc    Members in each pipeline stage now, how long they have been there,
+//          and how long members who moved on during the range had stayed
+// @route   GET /api/analytics/pipeline?from=&to=&auxanoCenter=
+// @access  Private
+const getPipelineMetrics = async (req, res) => {
+    try {
+        const to = req.query.to ? new Date(req.query.to) : new Date();
+        const from = req.query.from ? new Date(req.query.from) : new Date(to.getTime() - 180 * DAY_MS);
+
+        if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from > to) {
+            return res.status(400).json({ message: 'Invalid date range' });
+        }
+        if (req.query.auxanoCenter && !mongoose.isValidObjectId(req.query.auxanoCenter)) {
+            return res.status(400).json({ message: 'Invalid Auxano center' });
+        }
+
+        const scope = await scopeMatch(req.user, req.query.auxanoCenter);
+        // Transitions don't carry the member's assignments or unit, so they
+        // are matched to the members in scope
+        const inRange = {
+            ...(Object.keys(scope).length ? { member: { $in: await Member.distinct('_id', scope) } } : {}),
+            created_at: { $gte: from, $lte: to },
+        };
+        const now = new Date();
+
+        const [stages, current, exits, entries] = await Promise.all([
+            PipelineStage.find({}).sort({ order: 1, created_at: 1 }),
+            Member.aggregate([
+                { $match: { ...scope, stage: { $ne: null }, isactive: { $ne: false } } },
+                { $project: { stage: 1, days: { $divide: [{ $subtract: [now, '$stageEnteredAt'] }, DAY_MS] } } },
+                { $group: { _id: '$stage', count: { $sum: 1 }, averageDays: { $avg: '$days' }, days: { $push: '$days' } } },
+            ]),
+            StageTransition.aggregate([
+                { $match: { ...inRange, fromStage: { $ne: null } } },
+                { $group: { _id: '$fromStage', count: { $sum: 1 }, averageDays: { $avg: '$daysInStage' } } },
+            ]),
+            StageTransition.aggregate([
+                { $match: { ...inRange, toStage: { $ne: null } } },
+                { $group: { _id: '$toStage', count: { $sum: 1 } } },
+            ]),
+        ]);
+
+        const byStage = (rows) => new Map(rows.map((row) => [String(row._id), row]));
+        const currentByStage = byStage(current);
+        const exitsByStage = byStage(exits);
+        const entriesByStage = byStage(entries);
+
+        res.json({
+            from,
+            to,
+            stages: stages.map((stage) => {
+                const id = String(stage._id);
+                const members = currentByStage.get(id);
+                return {
+                    stage: { _id: stage._id, name: stage.name, order: stage.order, targetDays: stage.targetDays },
+                    current: members?.count || 0,
+                    averageDaysInStage: roundDays(members?.averageDays),
+                    // Members who have been in the stage longer than its target
+                    stalled: stage.targetDays
+                        ? (members?.days || []).filter((days) => days > stage.targetDays).length
+                        : 0,
+                    entered: entriesByStage.get(id)?.count || 0,
+                    movedOn: exitsByStage.get(id)?.count || 0,
+                    averageDaysBeforeMovingOn: roundDays(exitsByStage.get(id)?.averageDays),
+                };
+            }),
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export { getMemberGrowth, getPipelineMetrics };
@@ -0,0 +1,277 @@
+import mongoose from 'mongoose';
+import Attendance from '../models/Attendance.js';
+import Member from '../models/Member.js';
+import {
+    OUT_OF_SCOPE,
+    loadMemberScope,
+    memberScopeFilter,
+    scopeAllows,
+} from '../middleware/memberScopeMiddleware.js';
+
+// Normalises the fields identifying a gathering. serviceDate is truncated to
+// midnight UTC so every check-in on the same day lands in the same session.
+const parseSession = ({ serviceType, serviceDate, serviceName, event, auxanoCenter }) => {
+    const date = serviceDate ? new Date(serviceDate) : new Date();
+
+    if (Number.isNaN(date.getTime())) {
+        return null;
+    }
+    date.setUTCHours(0, 0, 0, 0);
+
+    return {
+        serviceType: serviceType || 'service',
+        serviceDate: date,
+        serviceName: serviceName || '',
+        event: event || null,
+        auxanoCenter: auxanoCenter || null,
+    };
+};
+
+// Check-ins follow the members they record: a user limited to part of the
+// directory only sees check-ins of members in it
+const attendanceScopeFilter = async (scope) => (
+    scope ? { member: { $in: await Member.distinct('_id', memberScopeFilter(scope)) } } : {}
+);
+
+// @desc    Check in one or more members for a gathering. `householdIds`
+//          checks in every active member of those households as well.
+// @route   POST /api/attendance/check-in
+// @access  Private
+const checkInMembers = async (req, res) => {
+    try {
+        const { householdIds = [] } = req.body;
+        const session = parseSession(req.body);
+
+        if (!session) {
+            return res.status(400).json({ message: 'Invalid service date' });
+        }
+
+        const scope = await loadMemberScope(req.user);
+        let memberIds = Array.isArray(req.body.memberIds) ? [...new Set(req.body.memberIds.map(String))] : [];
+
+        // Members named outright must all exist and be in reach
+        if (memberIds.length) {
+            const found = memberIds.every((id) => mongoose.isValidObjectId(id))
+                ? await Member.find({ _id: { $in: memberIds } }).select('assignedto auxanoCenter unit')
+                : [];
+            if (found.length !== memberIds.length || !found.every((member) => scopeAllows(scope, member))) {
+                return res.status(404).json({ message: 'Member not found' });
+            }
+        }
+        // Households only bring along the members the user can reach
+        if (Array.isArray(householdIds) && householdIds.length) {
+            if (!householdIds.every((id) => mongoose.isValidObjectId(id))) {
+                return res.status(404).json({ message: 'Household not found' });
+            }
+            const family = await Member.find({
+                $and: [{ household: { $in: householdIds }, isactive: { $ne: false } }, memberScopeFilter(scope)],
+            }).select('_id');
+            memberIds = [...new Set([...memberIds, ...family.map((member) => String(member._id))])];
+        }
+        if (memberIds.length === 0) {
+            return res.status(400).json({ message: 'Select at least one member to check in' });
+        }
+
+        const result = await Attendance.bulkWrite(memberIds.map((memberId) => ({
+            updateOne: {
+                filter: { member: memberId, ...session },
+                update: {
+                    $setOnInsert: {
+                        checkedInBy: req.user._id,
+                        checkedInAt: new Date(),
+                    },
+                },
+                upsert: true,
+            },
+        })));
+
+        res.status(201).json({
+            checkedIn: result.upsertedCount,
+            alreadyCheckedIn: memberIds.length - result.upsertedCount,
+        });
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Register a first-time visitor and check them in
+// @route   POST /api/attendance/visitors
+// @access  Private
+const checkInVisitor = async (req, res) => {
+    try {
+        const { fullname, email, phone } = req.body;
+        const session = parseSession(req.body);
+
+        if (!session) {
+            return res.status(400).json({ message: 'Invalid service date' });
+        }
+        if (!fullname) {
+            return res.status(400).json({ message: 'Visitor name is required' });
+        }
+
+        const scope = await loadMemberScope(req.user);
+        const member = new Member({
+            fullname,
+            email,
+            phone,
+            category: 'Visitors',
+            // Visitors a pastor checks in land in their own center unless they say otherwise
+            auxanoCenter: session.auxanoCenter || scope?.centerId || undefined,
+            isactive: true,
+        });
+        // Without a center, the pastor follows the visitor up themselves
+        if (scope && !member.auxanoCenter) {
+            member.assignedto = scope.userId;
+        }
+        if (!scopeAllows(scope, member)) {
+            return res.status(403).json({ message: OUT_OF_SCOPE });
+        }
+        await member.save();
+
+        const attendance = await Attendance.create({
+            member: member._id,
+            ...session,
+            isFirstTimeVisitor: true,
+            checkedInBy: req.user._id,
+        });
+
+        res.status(201).json({ member, attendance });
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    List check-ins for a gathering
+// @route   GET /api/attendance?serviceDate=&serviceType=&serviceName=&event=&auxanoCenter=
+// @access  Private
+const getAttendance = async (req, res) => {
+    try {
+        const session = parseSession(req.query);
+
+        if (!session) {
+            return res.status(400).json({ message: 'Invalid service date' });
+        }
+
+        const query = { ...session, ...(await attendanceScopeFilter(await loadMemberScope(req.user))) };
+
+        const records = await Attendance.find(query)
+            .populate('member', 'fullname email phone category')
+            .sort({ checkedInAt: -1 });
+
+        res.json(records);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Attendance history for a single member
+// @route   GET /api/attendance/member/:memberId
+// @access  Private
+const getMemberAttendance = async (req, res) => {
+    try {
+        // scopedMember has already checked the member is in reach, so every
+        // check-in is shown, main services included
+        const query = { member: req.member._id };
+
+        const records = await Attendance.find(query)
+            .populate('auxanoCenter', 'name')
+            .sort({ serviceDate: -1 })
+            .limit(100);
+
+        res.json({
+            records,
+            total: await Attendance.countDocuments(query),
+            lastAttended: records[0]?.serviceDate || null,
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Head counts per gathering over a date range
+// @route   GET /api/attendance/summary?from=&to=&auxanoCenter=&serviceType=
+// @access  Private
+const getAttendanceSummary = async (req, res) => {
+    try {
+        const { from, to, auxanoCenter, serviceType } = req.query;
+        const match = {};
+
+        if (from || to) {
+            match.serviceDate = {};
+            if (from) match.serviceDate.$gte = new Date(from);
+            if (to) match.serviceDate.$lte = new Date(to);
+        }
+        if (serviceType) {
+            match.serviceType = serviceType;
+        }
+        if (auxanoCenter) {
+            if (!mongoose.isValidObjectId(auxanoCenter)) {
+                return res.status(400).json({ message: 'Invalid Auxano center' });
+            }
+            // Aggregation pipelines are not cast by Mongoose, so cast the center id by hand
+            match.auxanoCenter = new mongoose.Types.ObjectId(String(auxanoCenter));
+        }
+        Object.assign(match, await attendanceScopeFilter(await loadMemberScope(req.user)));
+
+        const sessions = await Attendance.aggregate([
+            { $match: match },
+            {
+                $group: {
+                    _id: {
+                        serviceDate: '$serviceDate',
+                        serviceType: '$serviceType',
+                        serviceName: '$serviceName',
+                        auxanoCenter: '$auxanoCenter',
+                    },
+                    present: { $sum: 1 },
+                    firstTimeVisitors: { $sum: { $cond: ['$isFirstTimeVisitor', 1, 0] } },
+                },
+            },
+            { $sort: { '_id.serviceDate': -1 } },
+            { $limit: 52 },
+        ]);
+
+        res.json(sessions.map(({ _id, present, firstTimeVisitors }) => ({
+            ..._id,
+            present,
+            firstTimeVisitors,
+        })));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Undo a check-in
+// @route   DELETE /api/attendance/:id
+// @access  Private
+const deleteAttendance = async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(400).json({ message: 'Invalid attendance id' });
+        }
+
+        const record = await Attendance.findById(req.params.id);
+        const [member, scope] = await Promise.all([
+            record ? Member.findById(record.member).select('assignedto auxanoCenter unit') : null,
+            loadMemberScope(req.user),
+        ]);
+        // Check-ins of members out of reach are treated as missing
+        if (!record || (scope && !(member && scopeAllows(scope, member)))) {
+            return res.status(404).json({ message: 'Attendance record not found' });
+        }
+
+        await record.deleteOne();
+        res.json({ message: 'Check-in removed' });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export {
+    checkInMembers,
+    checkInVisitor,
+    getAttendance,
+    getMemberAttendance,
+    getAttendanceSummary,
+    deleteAttendance,
+};
@@ -0,0 +1,77 @@
+import mongoose from 'mongoose';
+import AuditLog from '../models/AuditLog.js';
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// @desc    Audit log, newest first, filtered by actor, entity, action and date
+// @route   GET /api/admin/audit-logs
+// @access  Private/Admin
+const getAuditLogs = async (req, res) => {
+    try {
+        const { actor, targetType, target, action, from, to } = req.query;
+        const page = Math.max(Number(req.query.page) || 1, 1);
+        const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+
+        const filter = {};
+        if (actor) {
+            // An account id, or part of the actor's email
+            filter[mongoose.isValidObjectId(actor) ? 'actor' : 'actorEmail'] = mongoose.isValidObjectId(actor)
+                ? actor
+                : new RegExp(escapeRegex(String(actor).trim()), 'i');
+        }
+        if (targetType) {
+            filter.targetType = String(targetType);
+        }
+        if (target && mongoose.isValidObjectId(target)) {
+            filter.target = target;
+        }
+        if (action) {
+            // "member" matches every member action, "member.update" just the one
+            filter.action = String(action).includes('.')
+                ? String(action)
+                : new RegExp(`^${escapeRegex(String(action))}\\.`);
+        }
+        if (from || to) {
+            filter.created_at = {};
+            if (from) {
+                filter.created_at.$gte = new Date(from);
+            }
+            if (to) {
+                // A bare date includes the whole of that day
+                const end = new Date(to);
+                if (/^\d{4}-\d{2}-\d{2}$/.test(String(to))) {
+                    end.setUTCDate(end.getUTCDate() + 1);
+                }
+                filter.created_at.$lt = end;
+            }
+        }
+
+        const [entries, total] = await Promise.all([
+            AuditLog.find(filter)
+                .sort({ created_at: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit),
+            AuditLog.countDocuments(filter),
+        ]);
+
+        res.json({ entries, total, page, totalPages: Math.ceil(total / limit) });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Change history of one member
+// @route   GET /api/members/:id/history
+// @access  Private
+const getMemberHistory = async (req, res) => {
+    try {
+        const entries = await AuditLog.find({ targetType: 'Member', target: req.member._id })
+            .sort({ created_at: -1 })
+            .limit(200);
+        res.json(entries);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export { getAuditLogs, getMemberHistory };
@@ -1,37 +1,114 @@
 import jwt from 'jsonwebtoken';
 import User from '../models/User.js';
 import Profile from '../models/Profile.js';
-import UserRole from '../models/UserRole.js';
+import Session from '../models/Session.js';
+import UserToken from '../models/UserToken.js';
+import LoginAttempt from '../models/LoginAttempt.js';
+import AuditLog from '../models/AuditLog.js';
+import { sendMail, appLink } from '../utils/mailer.js';
+import { PERMISSIONS, ROLE_PERMISSIONS, permissionsForRole, hasPermission } from '../config/permissions.js';
+import { twoFactorRequired, signChallenge } from '../utils/twoFactor.js';
+import { loginBlock, recordLoginFailure, recordLoginSuccess } from '../utils/loginThrottle.js';
 
-const generateToken = (id) => {
-    return jwt.sign({ id }, process.env.JWT_SECRET, {
-        expiresIn: '30d',
+const RESET_TOKEN_TTL = 60 * 60;
+const VERIFY_TOKEN_TTL = 48 * 60 * 60;
+const MIN_PASSWORD_LENGTH = 8;
+
+// Access tokens are short-lived and tied to a session, so revoking the session
+// locks the holder out straight away; the refresh token keeps users signed in
+const generateToken = (id, sessionId) => {
+    return jwt.sign({ id, sid: sessionId }, process.env.JWT_SECRET, {
+        expiresIn: process.env.ACCESS_TOKEN_TTL || '15m',
+    });
+};
+
+// Opens a session and returns the token pair for the client
+const issueTokens = async (user, req) => {
+    const { session, refreshToken } = await Session.start(user, req);
+    return { token: generateToken(user._id, session._id), refreshToken };
+};
+
+// What the client gets back once a user has fully signed in. Clears the
+// failed attempt count and logs the sign in.
+const signedInResponse = async (user, req) => {
+    await recordLoginSuccess(user);
+    await LoginAttempt.record(req, { user, reason: 'success' });
+
+    const profile = await Profile.findOne({ user: user._id });
+
+    return {
+        user: {
+            _id: user._id,
+            email: user.email,
+            emailVerified: !!user.emailVerifiedAt,
+            twoFactorEnabled: !!user.twoFactorEnabled,
+            twoFactorRequired: twoFactorRequired(user.role),
+            role: user.role,
+            assignedAuxanoCenter: user.assignedAuxanoCenter,
+            profile,
+        },
+        ...(await issueTokens(user, req)),
+    };
+};
+
+const sendVerificationEmail = async (user) => {
+    const token = await UserToken.issue(user, 'verify-email', VERIFY_TOKEN_TTL);
+    await sendMail({
+        to: user.email,
+        subject: 'Confirm your email address',
+        text: [
+            'Please confirm your email address for the Gospel Labour Ministry admin portal:',
+            '',
+            appLink('/verify-email', token),
+            '',
+            'The link is valid for 48 hours.',
+        ].join('\n'),
     });
 };
 
+// Mail problems are logged rather than failing the request that triggered them
+const sendVerificationEmailQuietly = (user) => sendVerificationEmail(user).catch((error) => {
+    console.error(`Could not send verification email to ${user.email}:`, error);
+});
+
 // @desc    Auth user & get token
 // @route   POST /api/auth/login
 // @access  Public
 const authUser = async (req, res) => {
-    const { email, password } = req.body;
+    try {
+        const { email, password } = req.body;
 
-    const user = await User.findOne({ email });
+        const user = await User.findOne({ email });
 
-    if (user && (await user.matchPassword(password))) {
-        const profile = await Profile.findOne({ user: user._id });
+        const blocked = await loginBlock(user, req.ip);
+        if (blocked) {
+            await LoginAttempt.record(req, { email, user, reason: blocked.reason });
+            res.set('Retry-After', String(blocked.retryAfter));
+            return res.status(blocked.status).json({ message: blocked.message });
+        }
 
-        res.json({
-            user: {
-                _id: user._id,
-                email: user.email,
-                role: user.role,
-                assignedAuxanoCenter: user.assignedAuxanoCenter,
-                profile,
-            },
-            token: generateToken(user._id),
-        });
-    } else {
-        res.status(401).json({ message: 'Invalid email or password' });
+        if (user && (await user.matchPassword(password))) {
+            if (user.isActive === false) {
+                await LoginAttempt.record(req, { email, user, reason: 'deactivated' });
+                return res.status(403).json({ message: 'This account has been deactivated' });
+            }
+
+            // The password alone is not enough; the client asks for a code next
+            if (user.twoFactorEnabled) {
+                return res.json({ twoFactorRequired: true, challengeToken: signChallenge(user, '2fa') });
+            }
+            if (twoFactorRequired(user.role)) {
+                return res.json({ twoFactorSetupRequired: true, challengeToken: signChallenge(user, '2fa-setup') });
+            }
+
+            res.json(await signedInResponse(user, req));
+        } else {
+            await recordLoginFailure(user);
+            await LoginAttempt.record(req, { email, user, reason: user ? 'invalid-password' : 'unknown-email' });
+            res.status(401).json({ message: 'Invalid email or password' });
+        }
+    } catch (error) {
+        res.status(500).json({ message: error.message });
     }
 };
 
@@ -39,7 +116,8 @@ const authUser = async (req, res) => {
 // @route   POST /api/auth/register
 // @access  Public
 const registerUser = async (req, res) => {
-    const { email, password, full_name, role, assignedAuxanoCenter } = req.body;
+    // Self-registration always starts as a plain user; roles are granted by invitation
+    const { email, password, full_name } = req.body;
 
     const userExists = await User.findOne({ email });
 
@@ -50,8 +128,7 @@ const registerUser = async (req, res) => {
     const user = await User.create({
         email,
         password,
-        role: role || 'user',
-        assignedAuxanoCenter
+        role: 'user',
     });
 
     if (user) {
@@ -62,27 +139,169 @@ const registerUser = async (req, res) => {
             full_name: full_name || '',
         });
 
-        // Create User Role (Keeping for backward compatibility if needed, but User.role is primary)
-        await UserRole.create({
-            user: user._id,
-            role: user.role,
-        });
+        await sendVerificationEmailQuietly(user);
 
         res.status(201).json({
             user: {
                 _id: user._id,
                 email: user.email,
+                emailVerified: !!user.emailVerifiedAt,
                 role: user.role,
                 assignedAuxanoCenter: user.assignedAuxanoCenter,
                 profile,
             },
-            token: generateToken(user._id),
+            ...(await issueTokens(user, req)),
         });
     } else {
         res.status(400).json({ message: 'Invalid user data' });
     }
 };
 
+// @desc    Exchange a refresh token for a new access and refresh token
+// @route   POST /api/auth/refresh
+// @access  Public
+const refreshSession = async (req, res) => {
+    try {
+        const rotated = await Session.rotate(req.body.refreshToken, req);
+        const user = rotated && await User.findById(rotated.session.user).select('_id isActive role twoFactorEnabled');
+
+        if (!user || user.isActive === false) {
+            return res.status(401).json({ message: 'Session expired, please log in again' });
+        }
+        // The role may have come to need a second factor since the session
+        // began; signing in again walks the user through setting one up
+        if (twoFactorRequired(user.role) && !user.twoFactorEnabled) {
+            await rotated.session.revoke('2fa-required');
+            return res.status(401).json({ message: 'Two-factor authentication is now required, please log in again' });
+        }
+
+        res.json({
+            token: generateToken(user._id, rotated.session._id),
+            refreshToken: rotated.refreshToken,
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    End the session a refresh token belongs to
+// @route   POST /api/auth/logout
+// @access  Public
+const logoutUser = async (req, res) => {
+    try {
+        const session = await Session.findByToken(req.body.refreshToken);
+        if (session && !session.revokedAt) {
+            await session.revoke('logout');
+        }
+
+        res.json({ message: 'Logged out' });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Email a password reset link
+// @route   POST /api/auth/forgot-password
+// @access  Public
+const forgotPassword = async (req, res) => {
+    try {
+        const email = String(req.body.email || '').trim();
+        const user = email && await User.findOne({ email });
+
+        if (user) {
+            const token = await UserToken.issue(user, 'reset-password', RESET_TOKEN_TTL);
+            await sendMail({
+                to: user.email,
+                subject: 'Reset your password',
+                text: [
+                    'Someone asked to reset the password for your Gospel Labour Ministry account.',
+                    'If that was you, choose a new password here:',
+                    '',
+                    appLink('/reset-password', token),
+                    '',
+                    'The link is valid for one hour and can only be used once. If you did not ask for this, ignore this email.',
+                ].join('\n'),
+            });
+        }
+
+        // Same answer either way so the endpoint can't be used to discover accounts
+        res.json({ message: 'If that email is registered, a reset link is on its way' });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Set a new password using an emailed reset token
+// @route   POST /api/auth/reset-password
+// @access  Public
+const resetPassword = async (req, res) => {
+    try {
+        const { token, password } = req.body;
+
+        if (!password || String(password).length < MIN_PASSWORD_LENGTH) {
+            return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+        }
+
+        const userId = await UserToken.consume(token, 'reset-password');
+        const user = userId && await User.findById(userId);
+
+        if (!user) {
+            return res.status(400).json({ message: 'Reset link is invalid or has expired' });
+        }
+
+        user.password = password;
+        // Following the emailed link proves the address works
+        user.emailVerifiedAt = user.emailVerifiedAt || new Date();
+        await user.save();
+
+        // Anyone signed in with the old password is signed out
+        await Session.revokeAll(user._id, 'password-change');
+
+        res.json({ message: 'Password updated, please log in' });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Confirm an email address using an emailed token
+// @route   POST /api/auth/verify-email
+// @access  Public
+const verifyEmail = async (req, res) => {
+    try {
+        const userId = await UserToken.consume(req.body.token, 'verify-email');
+        const user = userId && await User.findById(userId);
+
+        if (!user) {
+            return res.status(400).json({ message: 'Verification link is invalid or has expired' });
+        }
+
+        if (!user.emailVerifiedAt) {
+            user.emailVerifiedAt = new Date();
+            await user.save();
+        }
+
+        res.json({ message: 'Email address confirmed' });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Send a fresh verification link to the logged in user
+// @route   POST /api/auth/verify-email/resend
+// @access  Private
+const resendVerification = async (req, res) => {
+    try {
+        if (req.user.emailVerifiedAt) {
+            return res.status(400).json({ message: 'Email address is already confirmed' });
+        }
+
+        await sendVerificationEmail(req.user);
+        res.json({ message: `Verification email sent to ${req.user.email}` });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
 // @desc    Get user profile
 // @route   GET /api/auth/profile
 // @access  Private
@@ -95,6 +314,9 @@ const getUserProfile = async (req, res) => {
         res.json({
             _id: user._id,
             email: user.email,
+            emailVerified: !!user.emailVerifiedAt,
+            twoFactorEnabled: !!user.twoFactorEnabled,
+            twoFactorRequired: twoFactorRequired(user.role),
             profile,
             role: user.role,
             assignedAuxanoCenter: user.assignedAuxanoCenter,
@@ -104,12 +326,28 @@ const getUserProfile = async (req, res) => {
     }
 };
 
+// @desc    The logged in user's permissions, plus the full role matrix
+// @route   GET /api/auth/permissions
+// @access  Private
+const getPermissions = async (req, res) => {
+    res.json({
+        role: req.user.role,
+        permissions: permissionsForRole(req.user.role),
+        roles: ROLE_PERMISSIONS,
+        descriptions: PERMISSIONS,
+    });
+};
+
 // @desc    Create a new user (Admin/Superadmin only)
 // @route   POST /api/auth/create-user
 // @access  Private/Admin
 const createUser = async (req, res) => {
     const { email, password, full_name, role, assignedAuxanoCenter } = req.body;
 
+    if (role === 'superadmin' && !hasPermission(req.user.role, 'system_admin')) {
+        return res.status(403).json({ message: 'Only a super admin can create super admins' });
+    }
+
     const userExists = await User.findOne({ email });
 
     if (userExists) {
@@ -131,11 +369,7 @@ const createUser = async (req, res) => {
             full_name: full_name || '',
         });
 
-        // Create User Role (Optional, keeping consistent)
-        await UserRole.create({
-            user: user._id,
-            role: user.role,
-        });
+        await sendVerificationEmailQuietly(user);
 
         res.status(201).json({
             user: {
@@ -185,4 +419,57 @@ const getUsers = async (req, res) => {
     }
 };
 
-export { authUser, registerUser, getUserProfile, createUser, getUsers };
+// @desc    Clear a lockout and the failed login count
+// @route   POST /api/auth/users/:id/unlock
+// @access  Private/Admin
+const unlockUser = async (req, res) => {
+    try {
+        const locked = await User.findById(req.params.id).select('role failedLoginAttempts lockedUntil');
+
+        if (!locked) {
+            return res.status(404).json({ message: 'User not found' });
+        }
+        if (locked.role === 'superadmin' && !hasPermission(req.user.role, 'system_admin')) {
+            return res.status(403).json({ message: 'Only a super admin can change a super admin account' });
+        }
+
+        const changes = {
+            failedLoginAttempts: { from: locked.failedLoginAttempts || 0, to: 0 },
+            lockedUntil: { from: locked.lockedUntil || null, to: null },
+        };
+        const user = await User.findByIdAndUpdate(locked._id, {
+            failedLoginAttempts: 0,
+            $unset: { lastFailedLoginAt: 1, lockedUntil: 1 },
+        }, { new: true }).select('-password');
+
+        await AuditLog.record(req, {
+            action: 'user.unlock',
+            targetType: 'User',
+            target: user._id,
+            targetLabel: user.email,
+            changes,
+        });
+
+        res.json(user);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export {
+    signedInResponse,
+    sendVerificationEmailQuietly,
+    authUser,
+    registerUser,
+    refreshSession,
+    logoutUser,
+    forgotPassword,
+    resetPassword,
+    verifyEmail,
+    resendVerification,
+    getUserProfile,
+    getPermissions,
+    createUser,
+    getUsers,
+    unlockUser,
+};
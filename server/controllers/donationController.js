@@ -0,0 +1,315 @@
+import mongoose from 'mongoose';
+import PDFDocument from 'pdfkit';
+import Donation from '../models/Donation.js';
+import Member from '../models/Member.js';
+import Pledge from '../models/Pledge.js';
+import { toCsv } from '../utils/csv.js';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const FUND_LABELS = {
+    tithe: 'Tithe',
+    offering: 'Offering',
+    pledge: 'Pledge payment',
+    project: 'Project giving',
+};
+
+// Ids are cast up front because the same filter also feeds an aggregation,
+// which Mongoose does not cast
+const toObjectId = (id) => new mongoose.Types.ObjectId(String(id));
+
+const ID_FILTERS = ['member', 'project', 'pledge'];
+
+const buildDonationQuery = ({ from, to, fund, member, project, pledge }) => {
+    const query = {};
+
+    if (from || to) {
+        query.date = {};
+        if (from) query.date.$gte = new Date(from);
+        if (to) query.date.$lte = new Date(to);
+    }
+    if (fund) query.fund = fund;
+    if (member) query.member = toObjectId(member);
+    if (project) query.project = toObjectId(project);
+    if (pledge) query.pledge = toObjectId(pledge);
+
+    return query;
+};
+
+// Pledge payments inherit their member and project from the pledge itself;
+// other gifts are never linked to a pledge
+const applyPledge = async (data) => {
+    if (data.fund !== 'pledge') {
+        return { ...data, pledge: undefined };
+    }
+    if (!data.pledge) {
+        throw new Error('A pledge payment must reference a pledge');
+    }
+
+    const pledge = await Pledge.findById(data.pledge);
+    if (!pledge) {
+        throw new Error('Pledge not found');
+    }
+
+    return { ...data, member: pledge.member, project: pledge.project };
+};
+
+// @desc    Get donations (paginated)
+// @route   GET /api/donations?from=&to=&fund=&member=&project=&page=&pageSize=
+// @access  Private/Admin
+const getDonations = async (req, res) => {
+    try {
+        const invalid = ID_FILTERS.find((field) => req.query[field] && !mongoose.isValidObjectId(req.query[field]));
+        if (invalid) {
+            return res.status(400).json({ message: `Invalid ${invalid} id` });
+        }
+
+        const query = buildDonationQuery(req.query);
+        const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+        const pageSize = Math.min(
+            Math.max(parseInt(req.query.pageSize, 10) || DEFAULT_PAGE_SIZE, 1),
+            MAX_PAGE_SIZE
+        );
+
+        const [donations, total, sums] = await Promise.all([
+            Donation.find(query)
+                .populate('member', 'fullname email')
+                .populate('project', 'title')
+                .sort({ date: -1, _id: -1 })
+                .skip((page - 1) * pageSize)
+                .limit(pageSize),
+            Donation.countDocuments(query),
+            Donation.aggregate([
+                { $match: query },
+                { $group: { _id: '$currency', amount: { $sum: '$amount' } } },
+                { $sort: { _id: 1 } },
+            ]),
+        ]);
+
+        res.json({
+            donations,
+            page,
+            pageSize,
+            total,
+            totalPages: Math.max(Math.ceil(total / pageSize), 1),
+            // One total per currency; amounts in different currencies are never added together
+            totals: sums.map(({ _id, amount }) => ({ currency: _id, amount })),
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Get single donation
+// @route   GET /api/donations/:id
+// @access  Private/Admin
+const getDonationById = async (req, res) => {
+    try {
+        const donation = await Donation.findById(req.params.id)
+            .populate('member', 'fullname email')
+            .populate('project', 'title')
+            .populate('pledge');
+
+        if (donation) {
+            res.json(donation);
+        } else {
+            res.status(404).json({ message: 'Donation not found' });
+        }
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Record a donation
+// @route   POST /api/donations
+// @access  Private/Admin
+const createDonation = async (req, res) => {
+    try {
+        const data = await applyPledge(req.body);
+        const donation = await Donation.create({ ...data, recordedBy: req.user._id });
+
+        if (donation.pledge) {
+            await Pledge.refreshFulfilment(donation.pledge);
+        }
+
+        res.status(201).json(donation);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Update a donation
+// @route   PUT /api/donations/:id
+// @access  Private/Admin
+const updateDonation = async (req, res) => {
+    try {
+        const donation = await Donation.findById(req.params.id);
+
+        if (donation) {
+            const previousPledge = donation.pledge;
+            const data = await applyPledge({ fund: donation.fund, pledge: donation.pledge, ...req.body });
+
+            Object.assign(donation, data);
+            const updatedDonation = await donation.save();
+
+            // Keep both the old and new pledge in step if the payment moved
+            if (previousPledge) {
+                await Pledge.refreshFulfilment(previousPledge);
+            }
+            if (updatedDonation.pledge && String(updatedDonation.pledge) !== String(previousPledge)) {
+                await Pledge.refreshFulfilment(updatedDonation.pledge);
+            }
+
+            res.json(updatedDonation);
+        } else {
+            res.status(404).json({ message: 'Donation not found' });
+        }
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Delete a donation
+// @route   DELETE /api/donations/:id
+// @access  Private/Admin
+const deleteDonation = async (req, res) => {
+    try {
+        const donation = await Donation.findById(req.params.id);
+
+        if (donation) {
+            await donation.deleteOne();
+            if (donation.pledge) {
+                await Pledge.refreshFulfilment(donation.pledge);
+            }
+            res.json({ message: 'Donation removed' });
+        } else {
+            res.status(404).json({ message: 'Donation not found' });
+        }
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+const formatAmount = (amount, currency) => `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const writeStatementPdf = (res, { member, year, donations, totals }) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50 });
+    doc.pipe(res);
+
+    doc.fontSize(18).text('Gospel Labour Ministry', { align: 'center' });
+    doc.fontSize(12).text(`Giving Statement ${year}`, { align: 'center' });
+    doc.moveDown(2);
+
+    doc.fontSize(11).text(`Member: ${member.fullname || ''}`);
+    if (member.email) doc.text(`Email: ${member.email}`);
+    doc.text(`Period: 1 January ${year} - 31 December ${year}`);
+    doc.text(`Issued: ${new Date().toLocaleDateString('en-GB')}`);
+    doc.moveDown();
+
+    doc.fontSize(12).text('Contributions', { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(10);
+    donations.forEach((donation) => {
+        const label = FUND_LABELS[donation.fund] + (donation.project?.title ? ` - ${donation.project.title}` : '');
+        doc.text(
+            `${donation.date.toLocaleDateString('en-GB')}    ${label}    ${formatAmount(donation.amount, donation.currency)}`
+        );
+    });
+    if (!donations.length) {
+        doc.text('No contributions recorded for this period.');
+    }
+    doc.moveDown();
+
+    doc.fontSize(12).text('Summary', { underline: true });
+    doc.moveDown(0.5);
+    totals.forEach(({ currency, byFund, total }) => {
+        doc.fontSize(10);
+        Object.entries(byFund).forEach(([fund, amount]) => {
+            doc.text(`${FUND_LABELS[fund]}: ${formatAmount(amount, currency)}`);
+        });
+        doc.moveDown(0.5);
+        doc.fontSize(12).text(`Total: ${formatAmount(total, currency)}`);
+        doc.moveDown();
+    });
+    doc.moveDown();
+
+    doc.fontSize(9).fillColor('#555555').text(
+        'No goods or services were provided in exchange for these contributions.',
+        { align: 'center' }
+    );
+
+    doc.end();
+};
+
+// @desc    Per-member giving statement for a calendar year
+// @route   GET /api/donations/statements/:memberId?year=2025&format=json|csv|pdf
+// @access  Private/Admin
+const getGivingStatement = async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.memberId)) {
+            return res.status(400).json({ message: 'Invalid member id' });
+        }
+
+        const member = await Member.findById(req.params.memberId);
+
+        if (!member) {
+            return res.status(404).json({ message: 'Member not found' });
+        }
+
+        const year = parseInt(req.query.year, 10) || new Date().getFullYear();
+        const format = req.query.format || 'json';
+        const from = new Date(Date.UTC(year, 0, 1));
+        const to = new Date(Date.UTC(year + 1, 0, 1));
+
+        const donations = await Donation.find({ member: member._id, date: { $gte: from, $lt: to } })
+            .populate('project', 'title')
+            .sort({ date: 1 });
+
+        // Amounts in different currencies are never added together
+        const totals = Object.values(donations.reduce((byCurrency, donation) => {
+            if (!byCurrency[donation.currency]) {
+                byCurrency[donation.currency] = { currency: donation.currency, byFund: {}, total: 0 };
+            }
+            const entry = byCurrency[donation.currency];
+            entry.byFund[donation.fund] = (entry.byFund[donation.fund] || 0) + donation.amount;
+            entry.total += donation.amount;
+            return byCurrency;
+        }, {}));
+        const filename = `giving-statement-${year}-${(member.fullname || 'member').replace(/[^a-z0-9]+/gi, '-').toLowerCase()}`;
+
+        if (format === 'csv') {
+            const csv = toCsv(donations, [
+                { header: 'Date', value: (d) => d.date.toISOString().split('T')[0] },
+                { header: 'Fund', value: (d) => FUND_LABELS[d.fund] },
+                { header: 'Project', value: (d) => d.project?.title || '' },
+                { header: 'Method', value: (d) => d.method },
+                { header: 'Reference', value: (d) => d.reference || '' },
+                { header: 'Currency', value: (d) => d.currency },
+                { header: 'Amount', value: (d) => d.amount.toFixed(2) },
+            ]);
+            res.setHeader('Content-Type', 'text/csv');
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+            return res.send(csv);
+        }
+
+        if (format === 'pdf') {
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+            return writeStatementPdf(res, { member, year, donations, totals });
+        }
+
+        res.json({ member, year, donations, totals });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export {
+    getDonations,
+    getDonationById,
+    createDonation,
+    updateDonation,
+    deleteDonation,
+    getGivingStatement,
+};
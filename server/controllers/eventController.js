@@ -0,0 +1,402 @@
+import fs from 'fs';
+import Event from '../models/Event.js';
+import EventRegistration from '../models/EventRegistration.js';
+import { publicUploadUrl, uploadPathFromUrl } from '../middleware/uploadMiddleware.js';
+import { toDay, dayKey, occurrenceDates, expandEvent } from '../utils/recurrence.js';
+import { registrationClosedReason } from './eventRegistrationController.js';
+import { hasPermission } from '../config/permissions.js';
+
+// Longest window the occurrences endpoint will expand in one request
+const MAX_RANGE_DAYS = 400;
+
+const EDITABLE_FIELDS = [
+    'title',
+    'description',
+    'event_date',
+    'event_time',
+    'end_date',
+    'end_time',
+    'location',
+    'image_url',
+    'event_type',
+    'is_recurring',
+    'recurrence',
+    'recurrence_pattern',
+    'max_attendees',
+    'registration_required',
+    'is_published',
+];
+
+// Fields an occurrence exception may override
+const EXCEPTION_FIELDS = ['cancelled', 'event_date', 'title', 'event_time', 'end_time', 'location', 'note'];
+
+const canManageEvents = (user) => user && hasPermission(user.role, 'manage_events');
+
+const startOfToday = () => {
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    return today;
+};
+
+// Copies the editable fields from a request body; empty strings become null
+// so optional fields can be cleared from the form
+const pickEventFields = (body) => EDITABLE_FIELDS.reduce((data, field) => {
+    if (body[field] !== undefined) {
+        data[field] = body[field] === '' ? null : body[field];
+    }
+    return data;
+}, {});
+
+// Removes an uploaded image from disk; external image URLs are left alone
+const removeUploadedImage = (url) => {
+    const file = uploadPathFromUrl(url);
+    if (file) {
+        fs.promises.unlink(file).catch(() => {});
+    }
+};
+
+// @desc    Get events
+// @route   GET /api/events?searchTerm=&status=published|draft&when=upcoming|past&from=&to=
+// @access  Private
+const getEvents = async (req, res) => {
+    try {
+        const { searchTerm, status, when, from, to, eventType } = req.query;
+        const conditions = [];
+
+        if (searchTerm) {
+            conditions.push({
+                $or: [
+                    { title: { $regex: searchTerm, $options: 'i' } },
+                    { description: { $regex: searchTerm, $options: 'i' } },
+                    { location: { $regex: searchTerm, $options: 'i' } },
+                ],
+            });
+        }
+
+        // Only admins get to see drafts
+        if (!canManageEvents(req.user) || status === 'published') {
+            conditions.push({ is_published: true });
+        } else if (status === 'draft') {
+            conditions.push({ is_published: false });
+        }
+
+        if (eventType) {
+            conditions.push({ event_type: eventType });
+        }
+
+        // Multi-day events stay upcoming until their end date has passed, and
+        // recurring series until their rule runs out
+        const ongoingSeries = {
+            is_recurring: true,
+            $or: [{ 'recurrence.until': null }, { 'recurrence.until': { $gte: startOfToday() } }],
+        };
+        if (when === 'upcoming') {
+            conditions.push({
+                $or: [{ event_date: { $gte: startOfToday() } }, { end_date: { $gte: startOfToday() } }, ongoingSeries],
+            });
+        } else if (when === 'past') {
+            conditions.push({ event_date: { $lt: startOfToday() } });
+            conditions.push({ $or: [{ end_date: null }, { end_date: { $lt: startOfToday() } }] });
+            conditions.push({ $nor: [ongoingSeries] });
+        }
+
+        if (from || to) {
+            const range = {};
+            if (from) range.$gte = new Date(from);
+            if (to) range.$lte = new Date(to);
+            conditions.push({ event_date: range });
+        }
+
+        const events = await Event.find(conditions.length ? { $and: conditions } : {})
+            .sort({ event_date: when === 'past' ? -1 : 1, event_time: 1 });
+
+        res.json(events);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Concrete occurrences of all events in a date range, with recurring
+//          events expanded and per-occurrence exceptions applied
+// @route   GET /api/events/occurrences?from=&to=&status=&searchTerm=
+// @access  Private
+const getEventOccurrences = async (req, res) => {
+    try {
+        const { searchTerm, status } = req.query;
+        const from = req.query.from ? new Date(req.query.from) : startOfToday();
+        const to = req.query.to ? new Date(req.query.to) : new Date(from.getTime() + 31 * 24 * 60 * 60 * 1000);
+
+        if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from > to) {
+            return res.status(400).json({ message: 'Invalid date range' });
+        }
+        if ((to - from) / (24 * 60 * 60 * 1000) > MAX_RANGE_DAYS) {
+            return res.status(400).json({ message: `Date range cannot exceed ${MAX_RANGE_DAYS} days` });
+        }
+
+        const conditions = [
+            { event_date: { $lte: to } },
+            // One-off events must overlap the window; recurring ones are filtered after expansion
+            {
+                $or: [
+                    { is_recurring: true },
+                    { event_date: { $gte: toDay(from) } },
+                    { end_date: { $gte: toDay(from) } },
+                ],
+            },
+        ];
+
+        if (searchTerm) {
+            conditions.push({
+                $or: [
+                    { title: { $regex: searchTerm, $options: 'i' } },
+                    { location: { $regex: searchTerm, $options: 'i' } },
+                ],
+            });
+        }
+        if (!canManageEvents(req.user) || status === 'published') {
+            conditions.push({ is_published: true });
+        } else if (status === 'draft') {
+            conditions.push({ is_published: false });
+        }
+
+        const events = await Event.find({ $and: conditions });
+        const occurrences = events
+            .flatMap((event) => expandEvent(event, from, to))
+            .sort((a, b) => (a.event_date - b.event_date) || (a.event_time || '').localeCompare(b.event_time || ''));
+
+        res.json(occurrences);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Get single event
+// @route   GET /api/events/:id
+// @access  Private
+const getEventById = async (req, res) => {
+    try {
+        const event = await Event.findById(req.params.id);
+
+        if (event && (event.is_published || canManageEvents(req.user))) {
+            res.json(event);
+        } else {
+            res.status(404).json({ message: 'Event not found' });
+        }
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// Public view of an event with how many seats are left at its next occurrence
+const toPublicEvent = (event) => {
+    const { created_by, registered_count, seats, exceptions, ...fields } = event.toJSON();
+    const closedReason = registrationClosedReason(event);
+
+    return {
+        ...fields,
+        registration_open: !closedReason,
+        spots_left: event.max_attendees ? Math.max(event.max_attendees - registered_count, 0) : null,
+    };
+};
+
+// @desc    Upcoming published events
+// @route   GET /api/public/events
+// @access  Public
+const getPublicEvents = async (req, res) => {
+    try {
+        const events = await Event.find({
+            is_published: true,
+            $or: [
+                { event_date: { $gte: startOfToday() } },
+                { end_date: { $gte: startOfToday() } },
+                { is_recurring: true, $or: [{ 'recurrence.until': null }, { 'recurrence.until': { $gte: startOfToday() } }] },
+            ],
+        }).sort({ event_date: 1, event_time: 1 });
+
+        res.json(events.map(toPublicEvent));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Single published event
+// @route   GET /api/public/events/:id
+// @access  Public
+const getPublicEventById = async (req, res) => {
+    try {
+        const event = await Event.findById(req.params.id);
+
+        if (event && event.is_published) {
+            res.json(toPublicEvent(event));
+        } else {
+            res.status(404).json({ message: 'Event not found' });
+        }
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Create an event
+// @route   POST /api/events
+// @access  Private/Admin
+const createEvent = async (req, res) => {
+    try {
+        const event = await Event.create({ ...pickEventFields(req.body), created_by: req.user._id });
+        res.status(201).json(event);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Update an event
+// @route   PUT /api/events/:id
+// @access  Private/Admin
+const updateEvent = async (req, res) => {
+    try {
+        const event = await Event.findById(req.params.id);
+
+        if (event) {
+            const previousImage = event.image_url;
+            const previousCapacity = event.max_attendees;
+            const previousDay = toDay(event.event_date);
+
+            Object.assign(event, pickEventFields(req.body));
+            const updatedEvent = await event.save();
+
+            // A one-off event's only occurrence is its date, so registrations
+            // and their seats move with it
+            const day = toDay(updatedEvent.event_date);
+            if (!updatedEvent.is_recurring && day.getTime() !== previousDay.getTime()) {
+                await EventRegistration.updateMany({ event: updatedEvent._id, occurrenceDate: previousDay }, { occurrenceDate: day });
+                await Event.updateOne(
+                    { _id: updatedEvent._id, 'seats.date': previousDay },
+                    { $set: { 'seats.$.date': day } }
+                );
+            }
+
+            // Raising or removing the cap frees seats for the waitlist
+            if (!updatedEvent.max_attendees || updatedEvent.max_attendees > (previousCapacity || 0)) {
+                await EventRegistration.fillFromWaitlist(updatedEvent._id);
+            }
+
+            if (previousImage && previousImage !== updatedEvent.image_url) {
+                removeUploadedImage(previousImage);
+            }
+
+            res.json(updatedEvent);
+        } else {
+            res.status(404).json({ message: 'Event not found' });
+        }
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Delete an event
+// @route   DELETE /api/events/:id
+// @access  Private/Admin
+const deleteEvent = async (req, res) => {
+    try {
+        const event = await Event.findById(req.params.id);
+
+        if (event) {
+            await event.deleteOne();
+            await EventRegistration.deleteMany({ event: event._id });
+            removeUploadedImage(event.image_url);
+            res.json({ message: 'Event removed' });
+        } else {
+            res.status(404).json({ message: 'Event not found' });
+        }
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Cancel or change a single occurrence of a recurring event
+// @route   PUT /api/events/:id/exceptions
+// @access  Private/Admin
+const setEventException = async (req, res) => {
+    try {
+        const event = await Event.findById(req.params.id);
+
+        if (!event) {
+            return res.status(404).json({ message: 'Event not found' });
+        }
+        if (!event.is_recurring) {
+            return res.status(400).json({ message: 'Only recurring events have occurrences to change' });
+        }
+
+        const date = req.body.date ? toDay(req.body.date) : null;
+        const isOccurrence = date && !Number.isNaN(date.getTime())
+            && occurrenceDates(event.recurrence, toDay(event.event_date), date, date).some((d) => d.getTime() === date.getTime());
+
+        if (!isOccurrence) {
+            return res.status(400).json({ message: 'The event does not occur on that date' });
+        }
+
+        const changes = EXCEPTION_FIELDS.reduce((data, field) => {
+            if (req.body[field] !== undefined && req.body[field] !== '') {
+                data[field] = req.body[field];
+            }
+            return data;
+        }, {});
+
+        const existing = event.exceptions.find((exception) => dayKey(toDay(exception.date)) === dayKey(date));
+        if (existing) {
+            Object.assign(existing, changes);
+        } else {
+            event.exceptions.push({ date, ...changes });
+        }
+
+        const updatedEvent = await event.save();
+        res.json(updatedEvent);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Restore an occurrence to follow the event's rule again
+// @route   DELETE /api/events/:id/exceptions/:date
+// @access  Private/Admin
+const deleteEventException = async (req, res) => {
+    try {
+        const event = await Event.findById(req.params.id);
+
+        if (!event) {
+            return res.status(404).json({ message: 'Event not found' });
+        }
+
+        const key = req.params.date.split('T')[0];
+        event.exceptions = event.exceptions.filter((exception) => dayKey(toDay(exception.date)) !== key);
+
+        const updatedEvent = await event.save();
+        res.json(updatedEvent);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Upload an event flyer/image
+// @route   POST /api/events/upload
+// @access  Private/Admin
+const uploadEventImage = async (req, res) => {
+    if (!req.file) {
+        return res.status(400).json({ message: 'No image uploaded' });
+    }
+
+    res.status(201).json({ url: publicUploadUrl(req, 'events', req.file.filename) });
+};
+
+export {
+    getEvents,
+    getEventOccurrences,
+    getEventById,
+    getPublicEvents,
+    getPublicEventById,
+    createEvent,
+    updateEvent,
+    deleteEvent,
+    setEventException,
+    deleteEventException,
+    uploadEventImage,
+};
@@ -0,0 +1,359 @@
+import Event from '../models/Event.js';
+import EventRegistration from '../models/EventRegistration.js';
+import Member from '../models/Member.js';
+import Attendance from '../models/Attendance.js';
+import { toCsv } from '../utils/csv.js';
+import { toDay, dayKey } from '../utils/recurrence.js';
+import { hasPermission } from '../config/permissions.js';
+
+const ACTIVE_STATUSES = ['registered', 'waitlisted'];
+
+const canManageEvents = (user) => user && hasPermission(user.role, 'manage_events');
+
+// Why an event cannot take registrations right now, or null when it can
+const registrationClosedReason = (event) => {
+    if (!event.registration_required) {
+        return 'This event does not take registrations';
+    }
+
+    const lastDay = toDay(event.end_date || event.event_date);
+    const series = event.is_recurring && (!event.recurrence?.until || toDay(event.recurrence.until) >= toDay(new Date()));
+    if (!series && lastDay < toDay(new Date())) {
+        return 'Registration for this event has closed';
+    }
+    return null;
+};
+
+// The day a registration's occurrence takes place, following it if it was moved
+const occurrenceDay = (event, registration) => {
+    const date = toDay(registration.occurrenceDate || event.event_date);
+    const moved = event.exceptionOn(date)?.event_date;
+    return moved ? toDay(moved) : date;
+};
+
+// The date is only named for a series, where each occurrence takes its own registration
+const alreadyRegistered = (status, occurrence) => ({
+    status: 400,
+    body: { message: `Already ${status === 'waitlisted' ? 'on the waitlist' : 'registered'} for this event${occurrence ? ` on ${dayKey(occurrence)}` : ''}` },
+});
+
+const registrationCounts = async (match) => {
+    const rows = await EventRegistration.aggregate([
+        { $match: match },
+        {
+            $group: {
+                _id: '$status',
+                count: { $sum: 1 },
+                checkedIn: { $sum: { $cond: ['$checkedIn', 1, 0] } },
+            },
+        },
+    ]);
+    const byStatus = Object.fromEntries(rows.map((row) => [row._id, row]));
+
+    return {
+        registered: byStatus.registered?.count || 0,
+        waitlisted: byStatus.waitlisted?.count || 0,
+        cancelled: byStatus.cancelled?.count || 0,
+        checkedIn: byStatus.registered?.checkedIn || 0,
+    };
+};
+
+// Shared by the member and public endpoints: validates the event, rejects
+// duplicates and registers or waitlists
+const registerAttendee = async (event, { occurrenceDate, ...details }) => {
+    const reason = registrationClosedReason(event);
+    if (reason) {
+        return { status: 400, body: { message: reason } };
+    }
+    if (!details.name || !details.email) {
+        return { status: 400, body: { message: 'Name and email are required' } };
+    }
+
+    const occurrence = event.occurrenceOn(occurrenceDate);
+    if (!occurrence) {
+        return {
+            status: 400,
+            body: { message: occurrenceDate ? 'The event does not occur on that date' : 'Registration for this event has closed' },
+        };
+    }
+
+    const email = details.email.toLowerCase().trim();
+    const active = { event: event._id, occurrenceDate: occurrence, email, status: { $in: ACTIVE_STATUSES } };
+    const series = event.is_recurring ? occurrence : null;
+    const existing = await EventRegistration.findOne(active);
+    if (existing) {
+        return alreadyRegistered(existing.status, series);
+    }
+
+    const member = details.member ? null : await Member.findOne({ email }).select('_id');
+    try {
+        const registration = await EventRegistration.register(event, {
+            ...details,
+            email,
+            member: details.member || member?._id,
+            occurrenceDate: occurrence,
+        });
+        return { status: 201, body: registration };
+    } catch (error) {
+        // A simultaneous registration with the same email got there first
+        if (error.code === 11000) {
+            const winner = await EventRegistration.findOne(active);
+            return alreadyRegistered(winner?.status, series);
+        }
+        throw error;
+    }
+};
+
+// @desc    Register for an event (yourself, or anyone when called by an admin)
+// @route   POST /api/events/:id/registrations
+// @access  Private
+const registerForEvent = async (req, res) => {
+    try {
+        const event = await Event.findById(req.params.id);
+
+        if (!event || (!event.is_published && !canManageEvents(req.user))) {
+            return res.status(404).json({ message: 'Event not found' });
+        }
+
+        let details;
+        if (canManageEvents(req.user) && (req.body.email || req.body.member)) {
+            const member = req.body.member ? await Member.findById(req.body.member) : null;
+            details = {
+                member: member?._id,
+                name: req.body.name || member?.fullname,
+                email: req.body.email || member?.email,
+                phone: req.body.phone || member?.phone,
+                occurrenceDate: req.body.occurrenceDate,
+            };
+        } else {
+            const member = await Member.findOne({ email: req.user.email });
+            details = {
+                member: member?._id,
+                user: req.user._id,
+                name: member?.fullname || req.body.name || req.user.email,
+                email: req.user.email,
+                phone: member?.phone || req.body.phone,
+                occurrenceDate: req.body.occurrenceDate,
+            };
+        }
+
+        const { status, body } = await registerAttendee(event, details);
+        res.status(status).json(body);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Register a visitor for a published event
+// @route   POST /api/public/events/:id/register
+// @access  Public
+const registerPublic = async (req, res) => {
+    try {
+        const event = await Event.findById(req.params.id);
+
+        if (!event || !event.is_published) {
+            return res.status(404).json({ message: 'Event not found' });
+        }
+
+        const { name, email, phone, occurrenceDate } = req.body;
+        const { status, body } = await registerAttendee(event, { name, email, phone, occurrenceDate });
+
+        // The cancel token is only ever handed to the person who registered
+        res.status(status).json(status === 201
+            ? { _id: body._id, status: body.status, cancelToken: body.cancelToken }
+            : body);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Active registrations of the logged in user for occurrences still to
+//          come, soonest first
+// @route   GET /api/events/registrations/mine
+// @access  Private
+const getMyRegistrations = async (req, res) => {
+    try {
+        const registrations = await EventRegistration.find({
+            $or: [{ user: req.user._id }, { email: req.user.email.toLowerCase() }],
+            status: { $in: ACTIVE_STATUSES },
+            occurrenceDate: { $gte: toDay(new Date()) },
+        })
+            .select('-cancelToken')
+            .sort({ occurrenceDate: 1 });
+
+        res.json(registrations);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Cancel a registration; the first person on the waitlist takes the seat
+// @route   DELETE /api/events/:id/registrations/:registrationId
+// @access  Private (own registration) / Admin
+const cancelRegistration = async (req, res) => {
+    try {
+        const registration = await EventRegistration.findOne({
+            _id: req.params.registrationId,
+            event: req.params.id,
+        });
+
+        const ownsRegistration = registration && (
+            String(registration.user) === String(req.user._id) || registration.email === req.user.email.toLowerCase()
+        );
+
+        if (!registration || (!ownsRegistration && !canManageEvents(req.user))) {
+            return res.status(404).json({ message: 'Registration not found' });
+        }
+        if (registration.status === 'cancelled') {
+            return res.status(400).json({ message: 'Registration is already cancelled' });
+        }
+
+        const promoted = await EventRegistration.cancel(registration);
+        res.json({ message: 'Registration cancelled', promoted: promoted ? promoted.name : null });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Cancel a visitor registration from its confirmation link
+// @route   POST /api/public/registrations/:token/cancel
+// @access  Public
+const cancelRegistrationByToken = async (req, res) => {
+    try {
+        const registration = await EventRegistration.findOne({ cancelToken: req.params.token });
+
+        if (!registration) {
+            return res.status(404).json({ message: 'Registration not found' });
+        }
+        if (registration.status !== 'cancelled') {
+            await EventRegistration.cancel(registration);
+        }
+
+        res.json({ message: 'Registration cancelled' });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Attendee list for an event, as JSON or CSV
+// @route   GET /api/events/:id/registrations?status=&occurrenceDate=&format=json|csv
+// @access  Private/Admin
+const getEventRegistrations = async (req, res) => {
+    try {
+        const event = await Event.findById(req.params.id);
+
+        if (!event) {
+            return res.status(404).json({ message: 'Event not found' });
+        }
+
+        const scope = { event: event._id };
+        if (req.query.occurrenceDate) {
+            const occurrence = toDay(req.query.occurrenceDate);
+            if (Number.isNaN(occurrence.getTime())) {
+                return res.status(400).json({ message: 'Invalid occurrence date' });
+            }
+            scope.occurrenceDate = occurrence;
+        }
+
+        const query = { ...scope };
+        if (req.query.status) {
+            query.status = req.query.status;
+        }
+
+        const registrations = await EventRegistration.find(query)
+            .select('-cancelToken')
+            .populate('member', 'fullname')
+            .sort({ created_at: 1 });
+
+        if (req.query.format === 'csv') {
+            const csv = toCsv(registrations, [
+                { header: 'Name', value: (r) => r.name },
+                { header: 'Email', value: (r) => r.email },
+                { header: 'Phone', value: (r) => r.phone || '' },
+                { header: 'Status', value: (r) => r.status },
+                { header: 'Date', value: (r) => (r.occurrenceDate ? dayKey(r.occurrenceDate) : '') },
+                { header: 'Member', value: (r) => (r.member ? 'Yes' : 'No') },
+                { header: 'Checked In', value: (r) => (r.checkedIn ? 'Yes' : 'No') },
+                { header: 'Registered At', value: (r) => r.created_at.toISOString() },
+            ]);
+            const filename = `${event.title.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-attendees.csv`;
+            res.setHeader('Content-Type', 'text/csv');
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+            return res.send(csv);
+        }
+
+        res.json({
+            event: {
+                id: event._id,
+                title: event.title,
+                event_date: event.event_date,
+                max_attendees: event.max_attendees,
+            },
+            counts: await registrationCounts(scope),
+            registrations,
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Toggle check-in for a registration. Members are also marked present
+//          in the attendance register for the event.
+// @route   PATCH /api/events/:id/registrations/:registrationId/check-in
+// @access  Private/Admin
+const setRegistrationCheckIn = async (req, res) => {
+    try {
+        const registration = await EventRegistration.findOne({
+            _id: req.params.registrationId,
+            event: req.params.id,
+        }).populate('event', 'title event_date exceptions');
+
+        if (!registration) {
+            return res.status(404).json({ message: 'Registration not found' });
+        }
+        if (registration.status !== 'registered') {
+            return res.status(400).json({ message: 'Only confirmed registrations can be checked in' });
+        }
+
+        const checkedIn = req.body.checkedIn !== false;
+        registration.checkedIn = checkedIn;
+        registration.checkedInAt = checkedIn ? new Date() : undefined;
+        await registration.save();
+
+        if (registration.member) {
+            const session = {
+                member: registration.member,
+                serviceType: 'event',
+                serviceDate: occurrenceDay(registration.event, registration),
+                serviceName: registration.event.title,
+                event: registration.event._id,
+                auxanoCenter: null,
+            };
+
+            if (checkedIn) {
+                await Attendance.updateOne(
+                    session,
+                    { $setOnInsert: { checkedInBy: req.user._id, checkedInAt: new Date() } },
+                    { upsert: true }
+                );
+            } else {
+                await Attendance.deleteOne(session);
+            }
+        }
+
+        res.json(registration);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+export {
+    registrationClosedReason,
+    registerForEvent,
+    registerPublic,
+    getMyRegistrations,
+    cancelRegistration,
+    cancelRegistrationByToken,
+    getEventRegistrations,
+    setRegistrationCheckIn,
+};
@@ -0,0 +1,414 @@
+import mongoose from 'mongoose';
+import Household from '../models/Household.js';
+import Member from '../models/Member.js';
+import AuditLog from '../models/AuditLog.js';
+import {
+    OUT_OF_SCOPE,
+    loadMemberScope,
+    memberScopeFilter,
+    scopeAllows,
+} from '../middleware/memberScopeMiddleware.js';
+
+const ADDRESS_FIELDS = ['line1', 'line2', 'city', 'state', 'postalCode', 'country'];
+// What each relationship makes the other member, seen from their side
+const INVERSE_RELATIONSHIPS = {
+    spouse: 'spouse',
+    parent: 'child',
+    child: 'parent',
+    guardian: 'ward',
+    ward: 'guardian',
+};
+// Enough of each member to list them and check them against a scope
+const MEMBER_SUMMARY_FIELDS = 'fullname email phone category isactive relationships auxanoCenter assignedto unit';
+
+const recordQuietly = (req, details) => AuditLog.record(req, details).catch((error) => {
+    console.error(`Could not record ${details.action} in the audit log:`, error);
+});
+
+// Applies the editable household fields in the request body
+const applyHouseholdFields = (household, { name, phone, address }) => {
+    if (name !== undefined) {
+        household.name = name;
+    }
+    if (phone !== undefined) {
+        household.phone = phone;
+    }
+    if (address) {
+        ADDRESS_FIELDS.forEach((field) => {
+            if (address[field] !== undefined) {
+                household.set(`address.${field}`, address[field]);
+            }
+        });
+    }
+};
+
+// Deletes whichever of these households members have moved out of entirely
+const deleteEmptyHouseholds = async (ids) => {
+    const unique = [...new Set(ids.filter(Boolean).map(String))];
+    for (const id of unique) {
+        if (!(await Member.exists({ household: id }))) {
+            await Household.deleteOne({ _id: id });
+        }
+    }
+};
+
+// Loads the household named in the route with its members. Answers 404 when
+// it doesn't exist and 403 when none of its members are in the user's scope
+// (so an empty household is only open to users who see every member);
+// returns null in both cases.
+const loadHousehold = async (req, res) => {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+        res.status(404).json({ message: 'Household not found' });
+        return null;
+    }
+
+    const [household, members, scope] = await Promise.all([
+        Household.findById(id),
+        Member.find({ household: id }).select(MEMBER_SUMMARY_FIELDS).sort({ fullname: 1 }),
+        loadMemberScope(req.user),
+    ]);
+    if (!household) {
+        res.status(404).json({ message: 'Household not found' });
+        return null;
+    }
+    if (scope && !members.some((member) => scopeAllows(scope, member))) {
+        res.status(403).json({ message: OUT_OF_SCOPE });
+        return null;
+    }
+
+    return { household, members, scope };
+};
+
+// Loads a member named in the request body, answering 404 or 403 like
+// scopedMember does for route parameters
+const loadOtherMember = async (req, res, id, scope) => {
+    const member = mongoose.isValidObjectId(id) ? await Member.findById(id) : null;
+    if (!member) {
+        res.status(404).json({ message: 'Member not found' });
+        return null;
+    }
+    if (!scopeAllows(scope, member)) {
+        res.status(403).json({ message: OUT_OF_SCOPE });
+        return null;
+    }
+    return member;
+};
+
+// @desc    List households, optionally by name
+// @route   GET /api/households?searchTerm=
+// @access  Private
+const getHouseholds = async (req, res) => {
+    try {
+        const query = {};
+        if (req.query.searchTerm) {
+            query.name = { $regex: req.query.searchTerm, $options: 'i' };
+        }
+
+        const scope = await loadMemberScope(req.user);
+        if (scope) {
+            query._id = { $in: await Member.distinct('household', memberScopeFilter(scope)) };
+        }
+
+        const households = await Household.find(query).sort({ name: 1 }).limit(50);
+        res.json(households);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Get a household and its members
+// @route   GET /api/households/:id
+// @access  Private
+const getHouseholdById = async (req, res) => {
+    try {
+        const loaded = await loadHousehold(req, res);
+        if (!loaded) {
+            return;
+        }
+        res.json({ ...loaded.household.toJSON(), members: loaded.members });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Create a household for one or more members, moving them out of
+//          any household they were in
+// @route   POST /api/households
+// @access  Private
+const createHousehold = async (req, res) => {
+    try {
+        const { memberIds } = req.body;
+        if (!Array.isArray(memberIds) || memberIds.length === 0) {
+            return res.status(400).json({ message: 'Add at least one member to the household' });
+        }
+
+        const scope = await loadMemberScope(req.user);
+        const members = [];
+        for (const id of memberIds) {
+            const member = await loadOtherMember(req, res, id, scope);
+            if (!member) {
+                return;
+            }
+            members.push(member);
+        }
+
+        const household = new Household();
+        applyHouseholdFields(household, req.body);
+        const createdHousehold = await household.save();
+
+        const previous = members.map((member) => member.household);
+        await Member.updateMany(
+            { _id: { $in: members.map((member) => member._id) } },
+            { $set: { household: createdHousehold._id } }
+        );
+        await deleteEmptyHouseholds(previous);
+
+        res.status(201).json(createdHousehold);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Update a household's name, address or phone
+// @route   PUT /api/households/:id
+// @access  Private
+const updateHousehold = async (req, res) => {
+    try {
+        const loaded = await loadHousehold(req, res);
+        if (!loaded) {
+            return;
+        }
+
+        applyHouseholdFields(loaded.household, req.body);
+        const updatedHousehold = await loaded.household.save();
+        res.json(updatedHousehold);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Delete a household; its members stay in the directory
+// @route   DELETE /api/households/:id
+// @access  Private
+const deleteHousehold = async (req, res) => {
+    try {
+        const loaded = await loadHousehold(req, res);
+        if (!loaded) {
+            return;
+        }
+
+        await Member.updateMany({ household: loaded.household._id }, { $unset: { household: 1 } });
+        await loaded.household.deleteOne();
+        res.json({ message: 'Household removed' });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Add a member to a household, moving them out of any other
+// @route   POST /api/households/:id/members
+// @access  Private
+const addHouseholdMember = async (req, res) => {
+    try {
+        const loaded = await loadHousehold(req, res);
+        if (!loaded) {
+            return;
+        }
+        const member = await loadOtherMember(req, res, req.body.memberId, loaded.scope);
+        if (!member) {
+            return;
+        }
+
+        const previous = member.household;
+        member.household = loaded.household._id;
+        const updatedMember = await member.save();
+        if (previous && String(previous) !== String(loaded.household._id)) {
+            await deleteEmptyHouseholds([previous]);
+        }
+
+        await recordQuietly(req, {
+            action: 'member.household',
+            targetType: 'Member',
+            target: member._id,
+            targetLabel: member.fullname,
+            changes: { household: { from: previous ? String(previous) : null, to: loaded.household.name } },
+        });
+
+        res.json(updatedMember);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Take a member out of a household. A household left empty is deleted.
+// @route   DELETE /api/households/:id/members/:memberId
+// @access  Private
+const removeHouseholdMember = async (req, res) => {
+    try {
+        const loaded = await loadHousehold(req, res);
+        if (!loaded) {
+            return;
+        }
+        const member = loaded.members.find((candidate) => String(candidate._id) === req.params.memberId);
+        if (!member) {
+            return res.status(404).json({ message: 'Member is not in this household' });
+        }
+        if (!scopeAllows(loaded.scope, member)) {
+            return res.status(403).json({ message: OUT_OF_SCOPE });
+        }
+
+        await Member.updateOne({ _id: member._id }, { $unset: { household: 1 } });
+        if (loaded.members.length === 1) {
+            await loaded.household.deleteOne();
+        }
+
+        await recordQuietly(req, {
+            action: 'member.household',
+            targetType: 'Member',
+            target: member._id,
+            targetLabel: member.fullname,
+            changes: { household: { from: loaded.household.name, to: null } },
+        });
+
+        res.json({ message: 'Member removed from household' });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    A member's household, its other members, and the member's
+//          relationships. Household members outside the user's scope are
+//          left out, and relatives outside it are named without their contact
+//          details.
+// @route   GET /api/members/:id/family
+// @access  Private
+const getMemberFamily = async (req, res) => {
+    try {
+        const { member, memberScope } = req;
+        const relatedIds = (member.relationships || []).map((relationship) => relationship.member);
+
+        const [household, householdMembers, related] = await Promise.all([
+            member.household ? Household.findById(member.household) : null,
+            member.household
+                ? Member.find({ household: member.household }).select(MEMBER_SUMMARY_FIELDS).sort({ fullname: 1 })
+                : [],
+            relatedIds.length ? Member.find({ _id: { $in: relatedIds } }).select(MEMBER_SUMMARY_FIELDS) : [],
+        ]);
+
+        const relatedSummary = (other) => (scopeAllows(memberScope, other)
+            ? { _id: other._id, fullname: other.fullname, email: other.email, phone: other.phone }
+            : { _id: other._id, fullname: other.fullname });
+
+        res.json({
+            household,
+            householdMembers: householdMembers.filter((other) => scopeAllows(memberScope, other)),
+            relationships: (member.relationships || []).map((relationship) => {
+                const other = related.find((candidate) => String(candidate._id) === String(relationship.member));
+                return {
+                    type: relationship.type,
+                    member: other ? relatedSummary(other) : { _id: relationship.member },
+                };
+            }),
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// Replaces whatever relationship `member` has with `other` by `type`, or
+// drops it when there is no type
+const setRelationship = (member, other, type) => {
+    member.relationships = [
+        ...(member.relationships || []).filter((relationship) => String(relationship.member) !== String(other._id)),
+        ...(type ? [{ member: other._id, type }] : []),
+    ];
+};
+
+// @desc    Record how another member is related to this one; the other
+//          member gets the matching relationship back
+// @route   POST /api/members/:id/relationships
+// @access  Private
+const addRelationship = async (req, res) => {
+    try {
+        const { member } = req;
+        const { memberId, type } = req.body;
+
+        if (!INVERSE_RELATIONSHIPS[type]) {
+            return res.status(400).json({
+                message: `Relationship must be one of ${Object.keys(INVERSE_RELATIONSHIPS).join(', ')}`,
+            });
+        }
+        if (String(memberId) === String(member._id)) {
+            return res.status(400).json({ message: 'A member cannot be related to themselves' });
+        }
+        const other = await loadOtherMember(req, res, memberId, req.memberScope);
+        if (!other) {
+            return;
+        }
+
+        setRelationship(member, other, type);
+        setRelationship(other, member, INVERSE_RELATIONSHIPS[type]);
+        await member.save();
+        await other.save();
+
+        await recordQuietly(req, {
+            action: 'member.relationship',
+            targetType: 'Member',
+            target: member._id,
+            targetLabel: member.fullname,
+            changes: { [type]: { from: null, to: other.fullname } },
+        });
+
+        res.status(201).json(member);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Remove the relationship between two members, on both sides
+// @route   DELETE /api/members/:id/relationships/:relatedId
+// @access  Private
+const removeRelationship = async (req, res) => {
+    try {
+        const { member } = req;
+        const relationship = (member.relationships || [])
+            .find((candidate) => String(candidate.member) === req.params.relatedId);
+        if (!relationship) {
+            return res.status(404).json({ message: 'Relationship not found' });
+        }
+
+        const other = await Member.findById(relationship.member);
+        setRelationship(member, { _id: relationship.member }, null);
+        await member.save();
+        if (other) {
+            setRelationship(other, member, null);
+            await other.save();
+        }
+
+        await recordQuietly(req, {
+            action: 'member.relationship',
+            targetType: 'Member',
+            target: member._id,
+            targetLabel: member.fullname,
+            changes: { [relationship.type]: { from: other?.fullname || String(relationship.member), to: null } },
+        });
+
+        res.json(member);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export {
+    getHouseholds,
+    getHouseholdById,
+    createHousehold,
+    updateHousehold,
+    deleteHousehold,
+    addHouseholdMember,
+    removeHouseholdMember,
+    getMemberFamily,
+    addRelationship,
+    removeRelationship,
+};
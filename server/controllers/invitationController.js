@@ -0,0 +1,268 @@
+import mongoose from 'mongoose';
+import Invitation from '../models/Invitation.js';
+import User from '../models/User.js';
+import Profile from '../models/Profile.js';
+import AuxanoCenter from '../models/AuxanoCenter.js';
+import { sendMail, appLink } from '../utils/mailer.js';
+import { hasPermission } from '../config/permissions.js';
+
+const MIN_PASSWORD_LENGTH = 8;
+const ROLES = ['superadmin', 'admin', 'pastor', 'user'];
+const PROFILE_FIELDS = ['full_name', 'phone', 'address', 'genotype', 'date_of_birth'];
+
+const ROLE_LABELS = {
+    superadmin: 'a super admin',
+    admin: 'an admin',
+    pastor: 'a pastor',
+    user: 'a user',
+};
+
+// Super admin invitations, like super admin accounts, are for super admins only
+const mayInviteAs = (user, role) => role !== 'superadmin' || hasPermission(user.role, 'system_admin');
+
+const sendInvitationEmail = async (invitation, token, inviter) => {
+    const center = invitation.assignedAuxanoCenter
+        && await AuxanoCenter.findById(invitation.assignedAuxanoCenter).select('name');
+
+    await sendMail({
+        to: invitation.email,
+        subject: 'You have been invited to the Gospel Labour Ministry admin portal',
+        text: [
+            `${inviter?.email || 'An administrator'} has invited you to join the admin portal as ${ROLE_LABELS[invitation.role]}`
+                + (center ? ` for ${center.name}.` : '.'),
+            '',
+            'Choose your password and complete your profile here:',
+            '',
+            appLink('/accept-invite', token),
+            '',
+            `The link expires on ${invitation.expiresAt.toUTCString()}.`,
+        ].join('\n'),
+    });
+};
+
+// @desc    Invite someone to create an account
+// @route   POST /api/auth/invitations
+// @access  Private/Admin
+const createInvitation = async (req, res) => {
+    try {
+        const email = String(req.body.email || '').trim().toLowerCase();
+        const role = req.body.role || 'user';
+        const { assignedAuxanoCenter, full_name } = req.body;
+
+        if (!email) {
+            return res.status(400).json({ message: 'Email is required' });
+        }
+        if (!ROLES.includes(role)) {
+            return res.status(400).json({ message: 'Invalid role' });
+        }
+        if (!mayInviteAs(req.user, role)) {
+            return res.status(403).json({ message: 'Only a super admin can invite super admins' });
+        }
+        if (assignedAuxanoCenter && !mongoose.isValidObjectId(assignedAuxanoCenter)) {
+            return res.status(400).json({ message: 'Invalid Auxano center' });
+        }
+
+        if (await User.findOne({ email })) {
+            return res.status(400).json({ message: 'User already exists' });
+        }
+
+        const pending = await Invitation.find({ email, acceptedAt: null, revokedAt: null });
+        if (pending.some((invitation) => invitation.status === 'pending')) {
+            return res.status(400).json({ message: 'An invitation is already pending for this email' });
+        }
+
+        const invitation = new Invitation({
+            email,
+            role,
+            assignedAuxanoCenter: assignedAuxanoCenter || undefined,
+            full_name,
+            invitedBy: req.user._id,
+        });
+        const token = await invitation.renew();
+        await sendInvitationEmail(invitation, token, req.user);
+
+        res.status(201).json(invitation);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    List invitations, pending ones by default
+// @route   GET /api/auth/invitations?status=pending|accepted|revoked|expired|all
+// @access  Private/Admin
+const getInvitations = async (req, res) => {
+    try {
+        const status = req.query.status || 'pending';
+        const query = {};
+
+        if (status === 'pending' || status === 'expired') {
+            query.acceptedAt = null;
+            query.revokedAt = null;
+            query.expiresAt = status === 'pending' ? { $gt: new Date() } : { $lte: new Date() };
+        } else if (status === 'accepted') {
+            query.acceptedAt = { $ne: null };
+        } else if (status === 'revoked') {
+            query.revokedAt = { $ne: null };
+        }
+
+        const invitations = await Invitation.find(query)
+            .populate('assignedAuxanoCenter', 'name')
+            .populate('invitedBy', 'email')
+            .sort({ created_at: -1 });
+
+        res.json(invitations);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Send an invitation again with a fresh link and expiry
+// @route   POST /api/auth/invitations/:id/resend
+// @access  Private/Admin
+const resendInvitation = async (req, res) => {
+    try {
+        const invitation = await Invitation.findById(req.params.id);
+
+        if (!invitation) {
+            return res.status(404).json({ message: 'Invitation not found' });
+        }
+        if (!mayInviteAs(req.user, invitation.role)) {
+            return res.status(403).json({ message: 'Only a super admin can manage super admin invitations' });
+        }
+        if (invitation.acceptedAt || invitation.revokedAt) {
+            return res.status(400).json({ message: `Invitation has been ${invitation.status}` });
+        }
+
+        const token = await invitation.renew();
+        await sendInvitationEmail(invitation, token, req.user);
+
+        res.json(invitation);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Withdraw an invitation so its link stops working
+// @route   DELETE /api/auth/invitations/:id
+// @access  Private/Admin
+const revokeInvitation = async (req, res) => {
+    try {
+        const invitation = await Invitation.findById(req.params.id);
+
+        if (!invitation) {
+            return res.status(404).json({ message: 'Invitation not found' });
+        }
+        if (!mayInviteAs(req.user, invitation.role)) {
+            return res.status(403).json({ message: 'Only a super admin can manage super admin invitations' });
+        }
+        if (invitation.acceptedAt) {
+            return res.status(400).json({ message: 'Invitation has already been accepted' });
+        }
+
+        if (!invitation.revokedAt) {
+            invitation.revokedAt = new Date();
+            await invitation.save();
+        }
+        res.json({ message: 'Invitation revoked' });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    What an invite link is for, so the accept form can greet the invitee
+// @route   POST /api/auth/invitations/lookup
+// @access  Public
+const lookupInvitation = async (req, res) => {
+    try {
+        const invitation = await Invitation.findPendingByToken(req.body.token);
+
+        if (!invitation) {
+            return res.status(404).json({ message: 'This invitation is invalid, has expired or was already used' });
+        }
+
+        await invitation.populate('assignedAuxanoCenter', 'name');
+        res.json({
+            email: invitation.email,
+            role: invitation.role,
+            full_name: invitation.full_name,
+            assignedAuxanoCenter: invitation.assignedAuxanoCenter,
+            expiresAt: invitation.expiresAt,
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Create the invited account with the invitee's own password and profile
+// @route   POST /api/auth/invitations/accept
+// @access  Public
+const acceptInvitation = async (req, res) => {
+    try {
+        const { token, password } = req.body;
+
+        if (!password || String(password).length < MIN_PASSWORD_LENGTH) {
+            return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+        }
+        if (!String(req.body.full_name || '').trim()) {
+            return res.status(400).json({ message: 'Full name is required' });
+        }
+
+        const invitation = await Invitation.findPendingByToken(token);
+        if (!invitation) {
+            return res.status(400).json({ message: 'This invitation is invalid, has expired or was already used' });
+        }
+
+        if (await User.findOne({ email: invitation.email })) {
+            return res.status(400).json({ message: 'User already exists' });
+        }
+
+        // Claim the invitation first so the same link cannot create two accounts
+        const claimed = await Invitation.findOneAndUpdate(
+            { _id: invitation._id, tokenHash: invitation.tokenHash, acceptedAt: null, revokedAt: null },
+            { acceptedAt: new Date() },
+            { new: true }
+        );
+        if (!claimed) {
+            return res.status(400).json({ message: 'This invitation is invalid, has expired or was already used' });
+        }
+
+        let user;
+        try {
+            user = await User.create({
+                email: invitation.email,
+                password,
+                role: invitation.role,
+                assignedAuxanoCenter: invitation.assignedAuxanoCenter,
+                // The invite link was delivered to this address
+                emailVerifiedAt: new Date(),
+            });
+        } catch (error) {
+            await Invitation.updateOne({ _id: invitation._id }, { acceptedAt: null });
+            throw error;
+        }
+
+        const profile = { user: user._id, email: user.email };
+        PROFILE_FIELDS.forEach((field) => {
+            if (req.body[field] !== undefined && req.body[field] !== '') {
+                profile[field] = req.body[field];
+            }
+        });
+        await Profile.create(profile);
+
+        claimed.acceptedUser = user._id;
+        await claimed.save();
+
+        res.status(201).json({ message: 'Account created', email: user.email });
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+export {
+    createInvitation,
+    getInvitations,
+    resendInvitation,
+    revokeInvitation,
+    lookupInvitation,
+    acceptInvitation,
+};
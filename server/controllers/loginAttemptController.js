@@ -0,0 +1,78 @@
+import LoginAttempt from '../models/LoginAttempt.js';
+import User from '../models/User.js';
+
+const SUMMARY_TOP = 5;
+
+// @desc    Login log, newest first
+// @route   GET /api/auth/login-attempts
+// @access  Private/SuperAdmin
+const getLoginAttempts = async (req, res) => {
+    try {
+        const { success, email, ip } = req.query;
+        const page = Math.max(Number(req.query.page) || 1, 1);
+        const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+
+        const filter = {};
+        if (success === 'true' || success === 'false') {
+            filter.success = success === 'true';
+        }
+        if (email) {
+            filter.email = String(email).toLowerCase().trim();
+        }
+        if (ip) {
+            filter.ip = String(ip);
+        }
+
+        const [attempts, total] = await Promise.all([
+            LoginAttempt.find(filter)
+                .sort({ created_at: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit),
+            LoginAttempt.countDocuments(filter),
+        ]);
+
+        res.json({ attempts, total, page, totalPages: Math.ceil(total / limit) });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    What looks suspicious over the last day: failures by address and
+//          by account, and the accounts locked right now
+// @route   GET /api/auth/login-attempts/summary
+// @access  Private/SuperAdmin
+const getLoginSummary = async (req, res) => {
+    try {
+        const hours = Math.min(Math.max(Number(req.query.hours) || 24, 1), 24 * 30);
+        const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+        const failed = { created_at: { $gte: since }, success: false };
+
+        const topBy = (field) => LoginAttempt.aggregate([
+            { $match: { ...failed, [field]: { $ne: null } } },
+            { $group: { _id: `$${field}`, failures: { $sum: 1 }, lastAt: { $max: '$created_at' } } },
+            { $sort: { failures: -1 } },
+            { $limit: SUMMARY_TOP },
+        ]);
+
+        const [succeeded, failures, byIp, byEmail, lockedUsers] = await Promise.all([
+            LoginAttempt.countDocuments({ created_at: { $gte: since }, success: true }),
+            LoginAttempt.countDocuments(failed),
+            topBy('ip'),
+            topBy('email'),
+            User.find({ lockedUntil: { $gt: new Date() } }).select('email role lockedUntil'),
+        ]);
+
+        res.json({
+            hours,
+            succeeded,
+            failed: failures,
+            topIps: byIp.map(({ _id, ...rest }) => ({ ip: _id, ...rest })),
+            topEmails: byEmail.map(({ _id, ...rest }) => ({ email: _id, ...rest })),
+            lockedUsers,
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export { getLoginAttempts, getLoginSummary };
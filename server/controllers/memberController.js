@@ -1,67 +1,311 @@
+import mongoose from 'mongoose';
 import Member from '../models/Member.js';
+import Household from '../models/Household.js';
+import AuditLog from '../models/AuditLog.js';
+import StageTransition from '../models/StageTransition.js';
+import { hasPermission } from '../config/permissions.js';
+import { toCsv } from '../utils/csv.js';
+import { toXlsx } from '../utils/xlsx.js';
+import { toVcf } from '../utils/vcard.js';
+import {
+    OUT_OF_SCOPE,
+    MOVED_OUT_OF_SCOPE,
+    loadMemberScope,
+    memberScopeFilter,
+    scopeAllows,
+} from '../middleware/memberScopeMiddleware.js';
 
-// @desc    Get all members
-// @route   GET /api/members
-// @access  Private
-const getMembers = async (req, res) => {
-    try {
-        const { searchTerm, category, churchUnit, pastorId, isActive, status, auxanoCenter } = req.query;
-        let query = {};
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Fields the list endpoint may sort on or project. Anything else in `sort`
+// or `fields` is ignored rather than passed straight to Mongo.
+const SORTABLE_FIELDS = ['fullname', 'email', 'category', 'status', 'isactive', 'created_at', 'updated_at'];
+const PROJECTABLE_FIELDS = [
+    'fullname', 'email', 'phone', 'category', 'churchunit', 'churchunits', 'assignedto',
+    'status', 'auxanoCenter', 'unit', 'household', 'discipleshipStatus', 'isactive', 'created_at', 'updated_at',
+];
+
+// Kept in step by their own endpoints rather than a plain create or update:
+// relationships are mirrored on both members, households are managed from
+// /api/households and pipeline stages are moved through PUT /:id/stage
+const PROTECTED_FIELDS = ['relationships', 'household', 'stage', 'stageEnteredAt', 'completedSteps'];
+
+const editableFields = (body) => Object.fromEntries(
+    Object.entries(body || {}).filter(([field]) => !PROTECTED_FIELDS.includes(field))
+);
 
-        // Search term filter
-        if (searchTerm) {
-            const term = searchTerm.toLowerCase();
-            query.$or = [
+const formatDate = (date) => (date ? new Date(date).toISOString().split('T')[0] : '');
+
+const ADDRESS_PARTS = ['line1', 'line2', 'city', 'state', 'postalCode', 'country'];
+const formatAddress = (address) => ADDRESS_PARTS.map((part) => address?.[part]).filter(Boolean).join(', ');
+
+// Columns a CSV or XLSX export can carry, in the order they appear
+const EXPORT_COLUMNS = {
+    fullname: { header: 'Full Name', value: (m) => m.fullname },
+    email: { header: 'Email', value: (m) => m.email },
+    phone: { header: 'Phone', value: (m) => m.phone },
+    category: { header: 'Category', value: (m) => m.category },
+    churchunits: {
+        header: 'Church Units',
+        value: (m) => (m.churchunits?.length ? m.churchunits : [m.churchunit].filter(Boolean)).join('; '),
+    },
+    assignedto: { header: 'Assigned To', value: (m) => m.assignedto },
+    auxanoCenter: { header: 'Auxano Center', value: (m) => m.auxanoCenter?.name },
+    unit: { header: 'Unit', value: (m) => m.unit?.name },
+    household: { header: 'Household', value: (m) => m.household?.name },
+    address: { header: 'Address', value: (m) => formatAddress(m.household?.address) },
+    status: { header: 'Status', value: (m) => m.status },
+    discipleshipStatus: { header: 'Discipleship', value: (m) => (m.discipleshipStatus ? 'Yes' : 'No') },
+    isactive: { header: 'Active', value: (m) => (m.isactive === false ? 'No' : 'Yes') },
+    joindate: { header: 'Join Date', value: (m) => formatDate(m.joindate) },
+    created_at: { header: 'Added', value: (m) => formatDate(m.created_at) },
+};
+// What everyone gets; users who may customise exports pick from EXPORT_COLUMNS
+const DEFAULT_EXPORT_COLUMNS = ['fullname', 'email', 'phone', 'category', 'churchunits', 'auxanoCenter', 'status'];
+const EXPORT_FORMATS = ['csv', 'xlsx', 'vcf', 'labels'];
+
+// Mailing label columns, for a mail merge; one row per household
+const LABEL_COLUMNS = [
+    { header: 'Addressee', value: (h) => h.name },
+    { header: 'Address Line 1', value: (h) => h.address?.line1 },
+    { header: 'Address Line 2', value: (h) => h.address?.line2 },
+    { header: 'City', value: (h) => h.address?.city },
+    { header: 'State', value: (h) => h.address?.state },
+    { header: 'Postal Code', value: (h) => h.address?.postalCode },
+    { header: 'Country', value: (h) => h.address?.country },
+];
+
+// The households of the given members that have an address, each once
+const householdsToLabel = (members) => {
+    const households = new Map();
+    members.forEach((member) => {
+        if (member.household?.address?.line1) {
+            households.set(String(member.household._id), member.household);
+        }
+    });
+    return [...households.values()];
+};
+
+// Builds the Mongo filter shared by every member listing. The caller's member
+// scope (see loadMemberScope) always applies, whatever the query string says.
+const buildMemberQuery = (queryParams, scope) => {
+    const { searchTerm, category, churchUnit, pastorId, isActive, status, auxanoCenter, discipleshipStatus } = queryParams;
+    const conditions = [];
+
+    // Search term filter
+    if (searchTerm) {
+        const term = searchTerm.toLowerCase();
+        conditions.push({
+            $or: [
                 { fullname: { $regex: term, $options: 'i' } },
                 { email: { $regex: term, $options: 'i' } },
                 { phone: { $regex: term, $options: 'i' } }
-            ];
-        }
+            ]
+        });
+    }
 
-        // Category filter
-        if (category) {
-            query.category = category;
+    // Category filter
+    if (category) {
+        conditions.push({ category });
+    }
+
+    // Church unit filter
+    if (churchUnit) {
+        const unitConditions = [
+            { churchunit: churchUnit },
+            { churchunits: churchUnit }
+        ];
+        if (mongoose.isValidObjectId(churchUnit)) {
+            unitConditions.push({ unit: churchUnit });
         }
+        conditions.push({ $or: unitConditions });
+    }
+
+    // Pastor filter
+    if (pastorId) {
+        conditions.push({ assignedto: pastorId });
+    }
+
+    // Active status filter
+    if (isActive !== undefined) {
+        conditions.push({ isactive: isActive === 'true' });
+    }
+
+    // Status filter (pending/approved)
+    if (status) {
+        conditions.push({ status });
+    }
+
+    // Discipleship request filter
+    if (discipleshipStatus !== undefined) {
+        conditions.push({ discipleshipStatus: discipleshipStatus === 'true' });
+    }
+
+    // Auxano Center filter (explicit)
+    if (auxanoCenter) {
+        conditions.push({ auxanoCenter });
+    }
+
+    if (scope) {
+        conditions.push(memberScopeFilter(scope));
+    }
+
+    return conditions.length ? { $and: conditions } : {};
+};
+
+// Turns `sort=-created_at,fullname` into a Mongo sort object.
+const parseSort = (sortParam) => {
+    const sort = {};
+
+    if (sortParam) {
+        sortParam.split(',').forEach((key) => {
+            const trimmed = key.trim();
+            const field = trimmed.replace(/^-/, '');
+            if (SORTABLE_FIELDS.includes(field)) {
+                sort[field] = trimmed.startsWith('-') ? -1 : 1;
+            }
+        });
+    }
+
+    if (!Object.keys(sort).length) {
+        sort.created_at = -1;
+    }
+
+    // Tie-break on _id so pages stay stable when the sort key repeats
+    sort._id = sort._id || -1;
+
+    return sort;
+};
+
+// Turns `fields=fullname,email` into a projection string, or null for all fields.
+const parseFields = (fieldsParam) => {
+    if (!fieldsParam) return null;
 
-        // Church unit filter
-        if (churchUnit) {
-            query.$or = [
-                { unit: churchUnit }, // Assuming churchUnit query param is ID
-                { churchunit: churchUnit },
-                { churchunits: churchUnit }
-            ];
+    const fields = fieldsParam
+        .split(',')
+        .map((field) => field.trim())
+        .filter((field) => PROJECTABLE_FIELDS.includes(field));
+
+    return fields.length ? fields : null;
+};
+
+// @desc    Get members (paginated)
+// @route   GET /api/members?page=1&pageSize=20&sort=-created_at&fields=fullname,email
+// @access  Private
+const getMembers = async (req, res) => {
+    try {
+        const query = buildMemberQuery(req.query, await loadMemberScope(req.user));
+
+        const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+        const pageSize = Math.min(
+            Math.max(parseInt(req.query.pageSize, 10) || DEFAULT_PAGE_SIZE, 1),
+            MAX_PAGE_SIZE
+        );
+        const sort = parseSort(req.query.sort);
+        const fields = parseFields(req.query.fields);
+
+        let membersQuery = Member.find(query)
+            .sort(sort)
+            .skip((page - 1) * pageSize)
+            .limit(pageSize);
+
+        if (fields) {
+            membersQuery = membersQuery.select(fields.join(' '));
+        }
+        if (!fields || fields.includes('auxanoCenter')) {
+            membersQuery = membersQuery.populate('auxanoCenter');
+        }
+        if (!fields || fields.includes('unit')) {
+            membersQuery = membersQuery.populate('unit');
         }
 
-        // Pastor filter
-        if (pastorId) {
-            query.assignedto = pastorId;
+        const [members, total] = await Promise.all([
+            membersQuery,
+            Member.countDocuments(query),
+        ]);
+
+        res.json({
+            members,
+            page,
+            pageSize,
+            total,
+            totalPages: Math.max(Math.ceil(total / pageSize), 1),
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Download the members matching the list filters as CSV, XLSX or
+//          vCard, or their households' mailing labels as CSV
+// @route   GET /api/members/export?format=csv&columns=fullname,email&searchTerm=...
+// @access  Private
+const exportMembers = async (req, res) => {
+    try {
+        const format = req.query.format || 'csv';
+        if (!EXPORT_FORMATS.includes(format)) {
+            return res.status(400).json({ message: `Format must be one of ${EXPORT_FORMATS.join(', ')}` });
         }
 
-        // Active status filter
-        if (isActive !== undefined) {
-            query.isactive = isActive === 'true';
+        let columnKeys = DEFAULT_EXPORT_COLUMNS;
+        if (req.query.columns && hasPermission(req.user.role, 'customize_member_exports')) {
+            const picked = String(req.query.columns).split(',')
+                .map((key) => key.trim())
+                .filter((key) => EXPORT_COLUMNS[key]);
+            if (picked.length) {
+                columnKeys = picked;
+            }
         }
 
-        // Status filter (pending/approved)
-        if (status) {
-            query.status = status;
+        const query = buildMemberQuery(req.query, await loadMemberScope(req.user));
+        const members = await Member.find(query)
+            .sort(parseSort(req.query.sort))
+            .populate('auxanoCenter', 'name')
+            .populate('unit', 'name')
+            .populate('household', 'name address');
+
+        const filename = `${format === 'labels' ? 'mailing-labels' : 'members'}-${formatDate(new Date())}`;
+
+        await AuditLog.record(req, {
+            action: 'member.export',
+            targetType: 'Member',
+            targetLabel: `${members.length} members as ${format}`,
+        }).catch((error) => {
+            console.error('Could not record member.export in the audit log:', error);
+        });
+
+        if (format === 'labels') {
+            res.setHeader('Content-Type', 'text/csv');
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+            return res.send(toCsv(householdsToLabel(members), LABEL_COLUMNS));
         }
 
-        // Auxano Center filter (explicit)
-        if (auxanoCenter) {
-            query.auxanoCenter = auxanoCenter;
+        if (format === 'vcf') {
+            const vcf = toVcf(members.map((member) => ({
+                fullname: member.fullname,
+                email: member.email,
+                phone: member.phone,
+                organization: member.auxanoCenter?.name,
+                address: member.household?.address,
+                categories: [member.category, ...(member.churchunits || [])].filter(Boolean),
+            })));
+            res.setHeader('Content-Type', 'text/vcard; charset=utf-8');
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}.vcf"`);
+            return res.send(vcf);
         }
 
-        // Role-based filtering: Pastors only see members in their Assigned Auxano Center
-        if (req.user && req.user.role === 'pastor' && req.user.assignedAuxanoCenter) {
-            query.auxanoCenter = req.user.assignedAuxanoCenter;
+        const columns = columnKeys.map((key) => EXPORT_COLUMNS[key]);
+
+        if (format === 'xlsx') {
+            res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}.xlsx"`);
+            return res.send(toXlsx(members, columns, 'Members'));
         }
 
-        const members = await Member.find(query)
-            .populate('auxanoCenter')
-            .populate('unit')
-            .sort({ created_at: -1 });
-        res.json(members);
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+        res.send(toCsv(members, columns));
     } catch (error) {
         res.status(500).json({ message: error.message });
     }
@@ -71,16 +315,7 @@ const getMembers = async (req, res) => {
 // @route   GET /api/members/:id
 // @access  Private
 const getMemberById = async (req, res) => {
-    try {
-        const member = await Member.findById(req.params.id);
-        if (member) {
-            res.json(member);
-        } else {
-            res.status(404).json({ message: 'Member not found' });
-        }
-    } catch (error) {
-        res.status(500).json({ message: error.message });
-    }
+    res.json(req.member);
 };
 
 // @desc    Create a member
@@ -88,7 +323,17 @@ const getMemberById = async (req, res) => {
 // @access  Private
 const createMember = async (req, res) => {
     try {
-        const member = new Member(req.body);
+        const scope = await loadMemberScope(req.user);
+        const member = new Member(editableFields(req.body));
+
+        // Members a pastor adds land in their own center unless they say otherwise
+        if (scope && scope.centerId && !member.auxanoCenter) {
+            member.auxanoCenter = scope.centerId;
+        }
+        if (!scopeAllows(scope, member)) {
+            return res.status(403).json({ message: OUT_OF_SCOPE });
+        }
+
         const createdMember = await member.save();
         res.status(201).json(createdMember);
     } catch (error) {
@@ -101,15 +346,28 @@ const createMember = async (req, res) => {
 // @access  Private
 const updateMember = async (req, res) => {
     try {
-        const member = await Member.findById(req.params.id);
+        const { member } = req;
+        const previousCategory = member.category;
+
+        Object.assign(member, editableFields(req.body));
+        if (!scopeAllows(req.memberScope, member)) {
+            return res.status(403).json({ message: MOVED_OUT_OF_SCOPE });
+        }
+
+        const updatedMember = await member.save();
 
-        if (member) {
-            Object.assign(member, req.body);
-            const updatedMember = await member.save();
-            res.json(updatedMember);
-        } else {
-            res.status(404).json({ message: 'Member not found' });
+        // A category changed by hand still belongs in the member's lifecycle history
+        if (updatedMember.category !== previousCategory) {
+            await StageTransition.create({
+                member: member._id,
+                fromCategory: previousCategory,
+                toCategory: updatedMember.category,
+                auxanoCenter: member.auxanoCenter,
+                movedBy: req.user._id,
+            });
         }
+
+        res.json(updatedMember);
     } catch (error) {
         res.status(400).json({ message: error.message });
     }
@@ -120,14 +378,20 @@ const updateMember = async (req, res) => {
 // @access  Private
 const deleteMember = async (req, res) => {
     try {
-        const member = await Member.findById(req.params.id);
+        const { member } = req;
+        await member.deleteOne();
 
-        if (member) {
-            await member.deleteOne();
-            res.json({ message: 'Member removed' });
-        } else {
-            res.status(404).json({ message: 'Member not found' });
+        // Nobody stays related to a member who is gone, and a household
+        // nobody lives in goes too
+        await Member.updateMany(
+            { 'relationships.member': member._id },
+            { $pull: { relationships: { member: member._id } } }
+        );
+        if (member.household && !(await Member.exists({ household: member.household }))) {
+            await Household.deleteOne({ _id: member.household });
         }
+
+        res.json({ message: 'Member removed' });
     } catch (error) {
         res.status(500).json({ message: error.message });
     }
@@ -135,6 +399,7 @@ const deleteMember = async (req, res) => {
 
 export {
     getMembers,
+    exportMembers,
     getMemberById,
     createMember,
     updateMember,
@@ -179,15 +444,11 @@ const registerPublicMember = async (req, res) => {
 // @access  Private/Admin
 const approveMember = async (req, res) => {
     try {
-        const member = await Member.findById(req.params.id);
+        const { member } = req;
 
-        if (member) {
-            member.status = 'approved';
-            const updatedMember = await member.save();
-            res.json(updatedMember);
-        } else {
-            res.status(404).json({ message: 'Member not found' });
-        }
+        member.status = 'approved';
+        const updatedMember = await member.save();
+        res.json(updatedMember);
     } catch (error) {
         res.status(400).json({ message: error.message });
     }
@@ -198,16 +459,15 @@ const approveMember = async (req, res) => {
 // @access  Private/Admin
 const assignToUnit = async (req, res) => {
     try {
-        const { unitId } = req.body;
-        const member = await Member.findById(req.params.id);
+        const { member } = req;
 
-        if (member) {
-            member.unit = unitId;
-            const updatedMember = await member.save();
-            res.json(updatedMember);
-        } else {
-            res.status(404).json({ message: 'Member not found' });
+        member.unit = req.body.unitId;
+        if (!scopeAllows(req.memberScope, member)) {
+            return res.status(403).json({ message: MOVED_OUT_OF_SCOPE });
         }
+
+        const updatedMember = await member.save();
+        res.json(updatedMember);
     } catch (error) {
         res.status(400).json({ message: error.message });
     }
@@ -218,16 +478,15 @@ const assignToUnit = async (req, res) => {
 // @access  Private/Pastor/Admin
 const assignToAuxanoCenter = async (req, res) => {
     try {
-        const { auxanoCenterId } = req.body;
-        const member = await Member.findById(req.params.id);
+        const { member } = req;
 
-        if (member) {
-            member.auxanoCenter = auxanoCenterId;
-            const updatedMember = await member.save();
-            res.json(updatedMember);
-        } else {
-            res.status(404).json({ message: 'Member not found' });
+        member.auxanoCenter = req.body.auxanoCenterId;
+        if (!scopeAllows(req.memberScope, member)) {
+            return res.status(403).json({ message: MOVED_OUT_OF_SCOPE });
         }
+
+        const updatedMember = await member.save();
+        res.json(updatedMember);
     } catch (error) {
         res.status(400).json({ message: error.message });
     }
@@ -0,0 +1,295 @@
+import mongoose from 'mongoose';
+import Member from '../models/Member.js';
+import AuditLog from '../models/AuditLog.js';
+import StageTransition from '../models/StageTransition.js';
+import { diff } from '../middleware/auditMiddleware.js';
+import { OUT_OF_SCOPE, loadMemberScope, scopeAllows } from '../middleware/memberScopeMiddleware.js';
+import { emailKey, localPhoneKey, localPhonePattern } from '../utils/memberMatching.js';
+import { withTransaction } from '../utils/transaction.js';
+
+const MAX_IMPORT_ROWS = 5000;
+// Stored emails weren't always lower-cased, so they are looked up ignoring case
+const CASE_INSENSITIVE = { locale: 'en', strength: 2 };
+
+// Columns an import may set. The wizard validates rows against the client's
+// member schema; the server checks them again against the Member model.
+const IMPORT_FIELDS = ['fullname', 'email', 'phone', 'category', 'churchunit', 'churchunits', 'assignedto', 'joindate', 'isactive'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isBlank = (value) => value === undefined || value === null || value === ''
+    || (Array.isArray(value) && value.length === 0);
+
+// The importable fields of a row, blanks dropped
+const memberFields = (row) => {
+    const fields = {};
+    IMPORT_FIELDS.forEach((field) => {
+        if (!isBlank(row[field])) {
+            fields[field] = typeof row[field] === 'string' ? row[field].trim() : row[field];
+        }
+    });
+    if (fields.email) {
+        fields.email = emailKey(fields.email);
+    }
+    if (fields.churchunits && !fields.churchunit) {
+        fields.churchunit = fields.churchunits[0];
+    }
+    return fields;
+};
+
+// Mongoose's own messages, except for values that could not be cast
+const schemaMessage = (error) => (error.name === 'CastError'
+    ? `${error.path} "${error.value}" is not a valid ${error.kind.toLowerCase()}`
+    : error.message);
+
+const rowErrors = (fields) => {
+    const errors = [];
+    if (!fields.fullname || fields.fullname.length < 2) {
+        errors.push('Full name is required');
+    }
+    if (!EMAIL_PATTERN.test(fields.email || '')) {
+        errors.push('Valid email is required');
+    }
+    const invalid = new Member(fields).validateSync();
+    if (invalid) {
+        errors.push(...Object.values(invalid.errors).map(schemaMessage));
+    }
+    return errors;
+};
+
+// The fields of an existing member the row would change. Church units are
+// added to the member's, never removed.
+const updatesFor = (member, fields) => {
+    const set = {};
+    Object.entries(fields).forEach(([field, value]) => {
+        if (field === 'churchunits') {
+            const merged = [...new Set([...(member.churchunits || []), ...value])];
+            if (merged.length !== (member.churchunits || []).length) {
+                set.churchunits = merged;
+            }
+        } else if (field === 'churchunit' && member.churchunit) {
+            // Keep the member's primary unit
+        } else if (field === 'joindate') {
+            if (!member.joindate || new Date(value).getTime() !== new Date(member.joindate).getTime()) {
+                set.joindate = value;
+            }
+        } else if (member[field] !== value) {
+            set[field] = value;
+        }
+    });
+    return set;
+};
+
+// Works out what each row would do: create a member, update the one it
+// duplicates (by email or phone), leave it unchanged, or fail.
+const planImport = async (rows, { auxanoCenter, scope }) => {
+    const plan = rows.map((row, index) => {
+        const fields = memberFields(row);
+        return {
+            row: Number(row.row) || index + 1,
+            fullname: fields.fullname,
+            email: fields.email,
+            fields,
+            errors: rowErrors(fields),
+        };
+    });
+
+    // Duplicates within the file: the first occurrence wins
+    const seenEmails = new Map();
+    const seenPhones = new Map();
+    plan.forEach((entry) => {
+        if (entry.errors.length) {
+            return;
+        }
+        const email = entry.fields.email;
+        const phone = localPhoneKey(entry.fields.phone);
+        if (seenEmails.has(email)) {
+            entry.errors.push(`Same email as row ${seenEmails.get(email)}`);
+        } else if (phone && seenPhones.has(phone)) {
+            entry.errors.push(`Same phone number as row ${seenPhones.get(phone)}`);
+        } else {
+            seenEmails.set(email, entry.row);
+            if (phone) {
+                seenPhones.set(phone, entry.row);
+            }
+        }
+    });
+
+    const valid = plan.filter((entry) => !entry.errors.length);
+    const emails = valid.map((entry) => entry.fields.email);
+    // Stored numbers are written every which way, so the query only narrows
+    // them down and localPhoneKey makes the match below
+    const phones = [...new Set(valid.map((entry) => localPhoneKey(entry.fields.phone)).filter(Boolean))];
+
+    const existing = valid.length === 0 ? [] : await Member.find({
+        $or: [
+            { email: { $in: emails } },
+            ...(phones.length ? [{ phone: { $in: phones.map(localPhonePattern) } }] : []),
+        ],
+    }).collation(CASE_INSENSITIVE);
+    const byEmail = new Map(existing.filter((member) => member.email).map((member) => [emailKey(member.email), member]));
+    const byPhone = new Map(existing.filter((member) => localPhoneKey(member.phone)).map((member) => [localPhoneKey(member.phone), member]));
+
+    valid.forEach((entry) => {
+        const emailMatch = byEmail.get(entry.fields.email);
+        const phoneMatch = byPhone.get(localPhoneKey(entry.fields.phone));
+
+        if (emailMatch && phoneMatch && String(emailMatch._id) !== String(phoneMatch._id)) {
+            entry.errors.push(`Email matches ${emailMatch.fullname} but phone matches ${phoneMatch.fullname}`);
+            return;
+        }
+
+        const member = emailMatch || phoneMatch;
+        if (member) {
+            if (!scopeAllows(scope, member)) {
+                entry.errors.push(OUT_OF_SCOPE);
+                return;
+            }
+            entry.member = member;
+            entry.set = updatesFor(member, entry.fields);
+            entry.changes = diff(
+                Object.fromEntries(Object.keys(entry.set).map((field) => [field, member[field]])),
+                entry.set
+            );
+            entry.action = Object.keys(entry.set).length ? 'update' : 'unchanged';
+            return;
+        }
+
+        const created = { ...entry.fields };
+        const center = auxanoCenter || scope?.centerId;
+        if (center) {
+            created.auxanoCenter = center;
+        }
+        if (!scopeAllows(scope, created)) {
+            entry.errors.push(OUT_OF_SCOPE);
+            return;
+        }
+        entry.create = created;
+        entry.action = 'create';
+    });
+
+    plan.forEach((entry) => {
+        if (entry.errors.length) {
+            entry.action = 'error';
+        }
+    });
+
+    return plan;
+};
+
+// What the client sees of a plan
+const describePlan = (plan) => ({
+    summary: ['create', 'update', 'unchanged', 'error'].reduce((counts, action) => ({
+        ...counts,
+        [action]: plan.filter((entry) => entry.action === action).length,
+    }), {}),
+    rows: plan.map((entry) => ({
+        row: entry.row,
+        action: entry.action,
+        fullname: entry.fullname,
+        email: entry.email,
+        memberId: entry.member?._id,
+        changes: entry.changes,
+        errors: entry.errors.length ? entry.errors : undefined,
+    })),
+});
+
+// @desc    Import members from spreadsheet rows. With dryRun, only reports
+//          what would be created, updated or rejected; otherwise applies the
+//          creates and updates, in one transaction where the server has them.
+// @route   POST /api/members/import
+// @access  Private
+const importMembers = async (req, res) => {
+    try {
+        const { rows, auxanoCenter, dryRun } = req.body;
+
+        if (!Array.isArray(rows) || rows.length === 0) {
+            return res.status(400).json({ message: 'No rows to import' });
+        }
+        if (rows.length > MAX_IMPORT_ROWS) {
+            return res.status(400).json({ message: `Import at most ${MAX_IMPORT_ROWS} rows at a time` });
+        }
+        if (auxanoCenter && !mongoose.isValidObjectId(auxanoCenter)) {
+            return res.status(400).json({ message: 'Invalid Auxano center' });
+        }
+
+        const scope = await loadMemberScope(req.user);
+        const plan = await planImport(rows, { auxanoCenter, scope });
+
+        if (dryRun) {
+            return res.json({ dryRun: true, ...describePlan(plan) });
+        }
+
+        const creates = plan.filter((entry) => entry.action === 'create');
+        const updates = plan.filter((entry) => entry.action === 'update');
+
+        // Member's pre('save') hook dates deactivations, but insertMany and
+        // bulkWrite bypass it, so the same is done for them here
+        const now = new Date();
+        const newMembers = creates.map((entry) => {
+            const member = new Member(entry.create);
+            if (!member.isactive) {
+                member.deactivated_at = now;
+            }
+            return member;
+        });
+        const writes = updates.map((entry) => {
+            const previousCategory = entry.member.category;
+            entry.member.set(entry.set);
+
+            const update = { $set: { ...entry.set } };
+            if (entry.member.isModified('isactive')) {
+                if (entry.member.isactive) {
+                    update.$unset = { deactivated_at: '' };
+                } else {
+                    update.$set.deactivated_at = now;
+                }
+            }
+            return { entry, update, previousCategory };
+        });
+        // A category changed by the import still belongs in the member's lifecycle history
+        const transitions = writes
+            .filter(({ entry, previousCategory }) => entry.member.category !== previousCategory)
+            .map(({ entry, previousCategory }) => ({
+                member: entry.member._id,
+                fromCategory: previousCategory,
+                toCategory: entry.member.category,
+                auxanoCenter: entry.member.auxanoCenter,
+                movedBy: req.user._id,
+            }));
+
+        await withTransaction(async (session) => {
+            const created = newMembers.length ? await Member.insertMany(newMembers, { session }) : [];
+            if (writes.length) {
+                await Member.bulkWrite(writes.map(({ entry, update }) => ({
+                    updateOne: { filter: { _id: entry.member._id }, update },
+                })), { session });
+            }
+            if (transitions.length) {
+                await StageTransition.insertMany(transitions, { session });
+            }
+
+            await AuditLog.recordMany(req, [
+                ...created.map((member) => ({
+                    action: 'member.import',
+                    targetType: 'Member',
+                    target: member._id,
+                    targetLabel: member.fullname,
+                    changes: diff(null, member.toJSON()),
+                })),
+                ...updates.map((entry) => ({
+                    action: 'member.import',
+                    targetType: 'Member',
+                    target: entry.member._id,
+                    targetLabel: entry.member.fullname,
+                    changes: entry.changes,
+                })),
+            ], { session });
+        });
+
+        res.status(201).json({ dryRun: false, ...describePlan(plan) });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export { importMembers };
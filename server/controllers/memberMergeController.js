@@ -0,0 +1,331 @@
+import mongoose from 'mongoose';
+import Member from '../models/Member.js';
+import Attendance from '../models/Attendance.js';
+import Donation from '../models/Donation.js';
+import Pledge from '../models/Pledge.js';
+import EventRegistration from '../models/EventRegistration.js';
+import Household from '../models/Household.js';
+import StageTransition from '../models/StageTransition.js';
+import AuditLog from '../models/AuditLog.js';
+import { diff } from '../middleware/auditMiddleware.js';
+import {
+    OUT_OF_SCOPE,
+    MOVED_OUT_OF_SCOPE,
+    loadMemberScope,
+    memberScopeFilter,
+    scopeAllows,
+} from '../middleware/memberScopeMiddleware.js';
+import { localPhoneKey, mailboxKey, nameSimilarity, nameTokens } from '../utils/memberMatching.js';
+import { withTransaction } from '../utils/transaction.js';
+
+const DEFAULT_DUPLICATE_LIMIT = 100;
+const MAX_DUPLICATE_LIMIT = 500;
+// Names at least this alike count as a match on their own
+const NAME_MATCH = 0.75;
+// Members sharing a name-word prefix are only compared when there are at
+// most this many of them, so very common names don't make the scan quadratic
+const MAX_NAME_BLOCK = 500;
+const SCORE_WEIGHTS = { email: 0.4, phone: 0.3, name: 0.3 };
+// All the matching needs of each member
+const MATCH_FIELDS = 'fullname email phone created_at';
+
+// Fields a merge takes from one record or the other. Church units and
+// relationships are always combined.
+const MERGE_FIELDS = [
+    'fullname', 'email', 'phone', 'category', 'churchunit', 'assignedto', 'status',
+    'auxanoCenter', 'unit', 'household', 'discipleshipStatus', 'isactive', 'joindate', 'stage',
+];
+// Fields that come from whichever record the field they belong to was taken from
+const FOLLOWING_FIELDS = { stage: ['stageEnteredAt', 'completedSteps'] };
+
+const isBlank = (value) => value === undefined || value === null || value === '';
+
+const idOf = (value) => (value ? String(value._id ?? value) : null);
+
+// Why two members look like the same person, and how sure we are
+const matchMembers = (a, b) => {
+    const reasons = [];
+    if (a.mailbox && a.mailbox === b.mailbox) {
+        reasons.push('email');
+    }
+    if (a.phone && a.phone === b.phone) {
+        reasons.push('phone');
+    }
+    const similarity = nameSimilarity(a.member.fullname, b.member.fullname);
+    if (similarity >= NAME_MATCH) {
+        reasons.push('name');
+    }
+    if (!reasons.length) {
+        return null;
+    }
+
+    const score = (reasons.includes('email') ? SCORE_WEIGHTS.email : 0)
+        + (reasons.includes('phone') ? SCORE_WEIGHTS.phone : 0)
+        + similarity * SCORE_WEIGHTS.name;
+
+    return { score: Math.round(score * 100) / 100, reasons, nameSimilarity: Math.round(similarity * 100) / 100 };
+};
+
+// Candidate pairs of records for the same person. Members are only compared
+// with others sharing a mailbox, a phone number or the start of a name word.
+const findDuplicatePairs = (members) => {
+    const entries = members.map((member) => ({
+        member,
+        mailbox: mailboxKey(member.email),
+        phone: localPhoneKey(member.phone),
+    }));
+
+    const blocks = new Map();
+    const addTo = (key, index) => {
+        if (!blocks.has(key)) {
+            blocks.set(key, []);
+        }
+        blocks.get(key).push(index);
+    };
+    entries.forEach((entry, index) => {
+        if (entry.mailbox) {
+            addTo(`email:${entry.mailbox}`, index);
+        }
+        if (entry.phone) {
+            addTo(`phone:${entry.phone}`, index);
+        }
+        new Set(nameTokens(entry.member.fullname)
+            .filter((token) => token.length > 1)
+            .map((token) => token.slice(0, 3)))
+            .forEach((prefix) => addTo(`name:${prefix}`, index));
+    });
+
+    const compared = new Set();
+    const pairs = [];
+    blocks.forEach((indexes, key) => {
+        if (key.startsWith('name:') && indexes.length > MAX_NAME_BLOCK) {
+            return;
+        }
+        for (let i = 0; i < indexes.length; i += 1) {
+            for (let j = i + 1; j < indexes.length; j += 1) {
+                const pairKey = `${indexes[i]}:${indexes[j]}`;
+                if (compared.has(pairKey)) {
+                    continue;
+                }
+                compared.add(pairKey);
+
+                const match = matchMembers(entries[indexes[i]], entries[indexes[j]]);
+                if (match) {
+                    // Older record first: it is usually the one to keep
+                    const pair = [entries[indexes[i]].member, entries[indexes[j]].member]
+                        .sort((a, b) => new Date(a.created_at || 0) - new Date(b.created_at || 0));
+                    pairs.push({ ...match, members: pair });
+                }
+            }
+        }
+    });
+
+    return pairs.sort((a, b) => b.score - a.score);
+};
+
+// @desc    List pairs of members that are probably the same person, by name
+//          similarity, phone number and mailbox
+// @route   GET /api/members/duplicates?limit=100
+// @access  Private
+const findDuplicates = async (req, res) => {
+    try {
+        const limit = Math.min(
+            Math.max(parseInt(req.query.limit, 10) || DEFAULT_DUPLICATE_LIMIT, 1),
+            MAX_DUPLICATE_LIMIT
+        );
+
+        const scope = await loadMemberScope(req.user);
+        const members = await Member.find(memberScopeFilter(scope)).select(MATCH_FIELDS);
+        const pairs = findDuplicatePairs(members);
+        const shown = pairs.slice(0, limit);
+
+        // Only the members on show are loaded in full, for the merge dialog
+        const ids = [...new Set(shown.flatMap((pair) => pair.members.map((member) => String(member._id))))];
+        const records = ids.length
+            ? await Member.find({ _id: { $in: ids } })
+                .populate('auxanoCenter', 'name')
+                .populate('unit', 'name')
+                .populate('household', 'name')
+                .populate('stage', 'name')
+            : [];
+        const byId = new Map(records.map((record) => [String(record._id), record]));
+
+        res.json({
+            pairs: shown.map((pair) => ({
+                ...pair,
+                members: pair.members.map((member) => byId.get(String(member._id)) || member),
+            })),
+            total: pairs.length,
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+const attendanceKey = (visit) => [
+    visit.serviceType,
+    visit.serviceDate && new Date(visit.serviceDate).toISOString(),
+    visit.serviceName,
+    idOf(visit.event),
+    idOf(visit.auxanoCenter),
+].join('|');
+
+// Points everything recorded against one member at another: attendance,
+// donations, pledges, event registrations and pipeline history. Check-ins the
+// kept member already has for the same gathering are dropped, since a member
+// can only be checked in once, and so are relationships other members already
+// have with the kept one.
+const moveReferences = async (fromId, toId, session) => {
+    const kept = await Attendance.find({ member: toId }).session(session);
+    const taken = new Set(kept.map(attendanceKey));
+    const moving = await Attendance.find({ member: fromId }).session(session);
+    const clashing = moving.filter((visit) => taken.has(attendanceKey(visit))).map((visit) => visit._id);
+    if (clashing.length) {
+        await Attendance.deleteMany({ _id: { $in: clashing } }, { session });
+    }
+
+    const move = (Model) => Model.updateMany({ member: fromId }, { $set: { member: toId } }, { session });
+    const attendance = await move(Attendance);
+    const donations = await move(Donation);
+    const pledges = await move(Pledge);
+    const registrations = await move(EventRegistration);
+    const transitions = await move(StageTransition);
+
+    await Member.updateMany(
+        { 'relationships.member': { $all: [fromId, toId] } },
+        { $pull: { relationships: { member: fromId } } },
+        { session }
+    );
+    await Member.updateMany(
+        { 'relationships.member': fromId },
+        { $set: { 'relationships.$[related].member': toId } },
+        { arrayFilters: [{ 'related.member': fromId }], session }
+    );
+
+    return {
+        attendance: attendance.modifiedCount,
+        duplicateCheckIns: clashing.length,
+        donations: donations.modifiedCount,
+        pledges: pledges.modifiedCount,
+        eventRegistrations: registrations.modifiedCount,
+        stageTransitions: transitions.modifiedCount,
+    };
+};
+
+// @desc    Merge a duplicate member into another. `fields` names, per field,
+//          which record's value to keep ('primary' or 'duplicate'); unnamed
+//          fields keep the primary's value unless it is blank. Church units
+//          and relationships are combined, attendance, donations, pledges,
+//          event registrations and pipeline history move to the primary, and
+//          the duplicate is deleted, along with its household if that is left
+//          empty.
+// @route   POST /api/members/merge
+// @access  Private
+const mergeMembers = async (req, res) => {
+    try {
+        const { primaryId, duplicateId, fields = {} } = req.body;
+
+        if (!mongoose.isValidObjectId(primaryId) || !mongoose.isValidObjectId(duplicateId)) {
+            return res.status(404).json({ message: 'Member not found' });
+        }
+        if (String(primaryId) === String(duplicateId)) {
+            return res.status(400).json({ message: 'Choose two different members to merge' });
+        }
+
+        const [primary, duplicate, scope] = await Promise.all([
+            Member.findById(primaryId),
+            Member.findById(duplicateId),
+            loadMemberScope(req.user),
+        ]);
+        if (!primary || !duplicate) {
+            return res.status(404).json({ message: 'Member not found' });
+        }
+        if (!scopeAllows(scope, primary) || !scopeAllows(scope, duplicate)) {
+            return res.status(403).json({ message: OUT_OF_SCOPE });
+        }
+
+        const before = primary.toJSON();
+        MERGE_FIELDS.forEach((field) => {
+            const useDuplicate = fields[field] === 'duplicate'
+                || (fields[field] !== 'primary' && isBlank(primary[field]));
+            if (useDuplicate) {
+                [field, ...(FOLLOWING_FIELDS[field] || [])].forEach((taken) => {
+                    primary[taken] = duplicate[taken];
+                });
+            }
+        });
+        primary.churchunits = [...new Set([...(primary.churchunits || []), ...(duplicate.churchunits || [])])];
+        if (!primary.churchunit && primary.churchunits.length) {
+            primary.churchunit = primary.churchunits[0];
+        }
+        // Relationships of both, except with each other; the primary's win
+        const relatedIds = new Set([String(primary._id), String(duplicate._id)]);
+        primary.relationships = [...(primary.relationships || []), ...(duplicate.relationships || [])]
+            .filter((relationship) => {
+                const id = String(relationship.member);
+                if (relatedIds.has(id)) {
+                    return false;
+                }
+                relatedIds.add(id);
+                return true;
+            });
+
+        if (!scopeAllows(scope, primary)) {
+            return res.status(403).json({ message: MOVED_OUT_OF_SCOPE });
+        }
+
+        const moved = await withTransaction(async (session) => {
+            const references = await moveReferences(duplicate._id, primary._id, session);
+            await primary.save({ session });
+            await duplicate.deleteOne({ session });
+
+            // A category taken from the duplicate belongs in the lifecycle history
+            if (primary.category !== before.category) {
+                await StageTransition.insertMany([{
+                    member: primary._id,
+                    fromCategory: before.category,
+                    toCategory: primary.category,
+                    auxanoCenter: primary.auxanoCenter,
+                    movedBy: req.user._id,
+                }], { session });
+            }
+
+            const emptyHousehold = duplicate.household
+                && !(await Member.exists({ household: duplicate.household }).session(session));
+            if (emptyHousehold) {
+                await Household.deleteOne({ _id: duplicate.household }, { session });
+            }
+
+            await AuditLog.recordMany(req, [
+                {
+                    action: 'member.merge',
+                    targetType: 'Member',
+                    target: primary._id,
+                    targetLabel: primary.fullname,
+                    changes: {
+                        ...diff(before, primary.toJSON()),
+                        mergedFrom: { from: null, to: `${duplicate.fullname} (${duplicate._id})` },
+                    },
+                },
+                {
+                    action: 'member.merge',
+                    targetType: 'Member',
+                    target: duplicate._id,
+                    targetLabel: duplicate.fullname,
+                    changes: {
+                        ...diff(duplicate.toJSON(), null),
+                        mergedInto: { from: null, to: `${primary.fullname} (${primary._id})` },
+                    },
+                },
+            ], { session });
+
+            return references;
+        });
+
+        res.json({ member: primary, moved });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export { findDuplicates, mergeMembers };
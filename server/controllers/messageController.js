@@ -0,0 +1,347 @@
+import mongoose from 'mongoose';
+import fs from 'fs';
+import path from 'path';
+import Message from '../models/Message.js';
+import Series from '../models/Series.js';
+import { UPLOAD_ROOT } from '../middleware/uploadMiddleware.js';
+import { hasPermission } from '../config/permissions.js';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const MEDIA_FOLDER = 'messages';
+
+const EDITABLE_FIELDS = [
+    'title',
+    'preacher',
+    'date',
+    'duration',
+    'mediaType',
+    'scriptureReferences',
+    'tags',
+    'description',
+    'mediaUrl',
+    'isPublished',
+];
+
+// Multipart forms send lists as one string. Scripture references contain commas
+// ("John 3:16, 18") so they are separated by semicolons instead.
+const LIST_SEPARATORS = {
+    scriptureReferences: /[;\n]/,
+    tags: /[,\n]/,
+};
+
+const toList = (value, separator) => {
+    const items = Array.isArray(value) ? value : String(value).split(separator);
+    return items.map((item) => String(item).trim()).filter(Boolean);
+};
+
+// Copies the editable fields from a JSON or multipart body; empty strings clear a field
+const pickMessageFields = (body) => {
+    const data = {};
+
+    EDITABLE_FIELDS.forEach((field) => {
+        if (body[field] === undefined) return;
+
+        if (LIST_SEPARATORS[field]) {
+            data[field] = toList(body[field], LIST_SEPARATORS[field]);
+        } else {
+            data[field] = body[field] === '' ? null : body[field];
+        }
+    });
+
+    return data;
+};
+
+const canManageMessages = (user) => user && hasPermission(user.role, 'manage_messages');
+
+const mediaPath = (filename) => path.join(UPLOAD_ROOT, MEDIA_FOLDER, filename);
+
+const removeMediaFile = (filename) => {
+    if (filename) {
+        fs.promises.unlink(mediaPath(filename)).catch(() => {});
+    }
+};
+
+const fileInfo = (file) => ({
+    filename: file.filename,
+    originalName: file.originalname,
+    mimetype: file.mimetype,
+    size: file.size,
+});
+
+// Parses a single "bytes=start-end" range against a file size. Returns null when
+// there is no usable Range header and false when the range cannot be satisfied.
+const parseRange = (header, size) => {
+    const match = /^bytes=(\d*)-(\d*)$/.exec(header || '');
+    if (!match || (match[1] === '' && match[2] === '')) {
+        return null;
+    }
+
+    let start;
+    let end;
+    if (match[1] === '') {
+        // Suffix range: the last N bytes
+        start = Math.max(size - parseInt(match[2], 10), 0);
+        end = size - 1;
+    } else {
+        start = parseInt(match[1], 10);
+        end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+    }
+
+    if (start >= size || start > end) {
+        return false;
+    }
+    return { start, end };
+};
+
+// Absolute URL of the public stream endpoint for a message
+const messageStreamUrl = (req, message, download = false) =>
+    `${req.protocol}://${req.get('host')}/api/public/messages/${message._id}/stream${download ? '?download=1' : ''}`;
+
+// Series membership lives on the series, so searching and filtering by series
+// go through it
+const buildMessageQuery = async ({ searchTerm, type, series, preacher, tag }) => {
+    const query = {};
+
+    if (searchTerm) {
+        const inMatchingSeries = await Series.find({ title: { $regex: searchTerm, $options: 'i' } })
+            .distinct('messages');
+
+        query.$or = [
+            { title: { $regex: searchTerm, $options: 'i' } },
+            { preacher: { $regex: searchTerm, $options: 'i' } },
+            { scriptureReferences: { $regex: searchTerm, $options: 'i' } },
+            { tags: { $regex: searchTerm, $options: 'i' } },
+            { description: { $regex: searchTerm, $options: 'i' } },
+            { _id: { $in: inMatchingSeries } },
+        ];
+    }
+    if (type) query.mediaType = type;
+    if (series) {
+        const found = await Series.findById(series).select('messages');
+        query._id = { $in: found ? found.messages : [] };
+    }
+    if (preacher) query.preacher = preacher;
+    if (tag) query.tags = tag.toLowerCase();
+
+    return query;
+};
+
+// Adds the series each message belongs to, as { _id, title, slug }
+const withSeries = async (messages) => {
+    const series = await Series.find({ messages: { $in: messages.map((message) => message._id) } })
+        .select('title slug messages');
+
+    return messages.map((message) => ({
+        ...message.toJSON(),
+        series: series
+            .filter((item) => item.messages.some((id) => id.equals(message._id)))
+            .map(({ _id, title, slug }) => ({ _id, title, slug })),
+    }));
+};
+
+// @desc    Get messages (paginated)
+// @route   GET /api/messages?searchTerm=&type=audio|video&series=&preacher=&tag=&page=&pageSize=
+// @access  Private
+const getMessages = async (req, res) => {
+    try {
+        const query = await buildMessageQuery(req.query);
+        if (!canManageMessages(req.user)) {
+            query.isPublished = { $ne: false };
+        }
+        const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+        const pageSize = Math.min(
+            Math.max(parseInt(req.query.pageSize, 10) || DEFAULT_PAGE_SIZE, 1),
+            MAX_PAGE_SIZE
+        );
+
+        const [messages, total] = await Promise.all([
+            Message.find(query)
+                .sort({ date: -1, _id: -1 })
+                .skip((page - 1) * pageSize)
+                .limit(pageSize),
+            Message.countDocuments(query),
+        ]);
+
+        res.json({
+            messages: await withSeries(messages),
+            page,
+            pageSize,
+            total,
+            totalPages: Math.max(Math.ceil(total / pageSize), 1),
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Get a message
+// @route   GET /api/messages/:id
+// @access  Private
+const getMessageById = async (req, res) => {
+    try {
+        const message = await Message.findById(req.params.id);
+
+        if (message && (message.isPublished !== false || canManageMessages(req.user))) {
+            const [result] = await withSeries([message]);
+            res.json(result);
+        } else {
+            res.status(404).json({ message: 'Message not found' });
+        }
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Create a message, with the recording as multipart field "file".
+//          An optional "series" id appends it to that series.
+// @route   POST /api/messages
+// @access  Private/Admin
+const createMessage = async (req, res) => {
+    try {
+        const data = pickMessageFields(req.body);
+
+        if (req.file) {
+            data.file = fileInfo(req.file);
+            data.mediaType = data.mediaType || req.file.mimetype.split('/')[0];
+        }
+
+        const message = await Message.create({ ...data, created_by: req.user._id });
+        if (req.body.series) {
+            await Series.updateOne({ _id: req.body.series }, { $addToSet: { messages: message._id } });
+        }
+        res.status(201).json(message);
+    } catch (error) {
+        removeMediaFile(req.file?.filename);
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Update a message, optionally replacing its recording
+// @route   PUT /api/messages/:id
+// @access  Private/Admin
+const updateMessage = async (req, res) => {
+    try {
+        const message = await Message.findById(req.params.id);
+
+        if (!message) {
+            removeMediaFile(req.file?.filename);
+            return res.status(404).json({ message: 'Message not found' });
+        }
+
+        const previousFile = message.file?.filename;
+        message.set(pickMessageFields(req.body));
+        if (req.file) {
+            message.file = fileInfo(req.file);
+            if (!req.body.mediaType) {
+                message.mediaType = req.file.mimetype.split('/')[0];
+            }
+        }
+
+        const updatedMessage = await message.save();
+
+        if (req.file && previousFile) {
+            removeMediaFile(previousFile);
+        }
+
+        res.json(updatedMessage);
+    } catch (error) {
+        removeMediaFile(req.file?.filename);
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Delete a message and its recording
+// @route   DELETE /api/messages/:id
+// @access  Private/Admin
+const deleteMessage = async (req, res) => {
+    try {
+        const message = await Message.findById(req.params.id);
+
+        if (!message) {
+            return res.status(404).json({ message: 'Message not found' });
+        }
+
+        await message.deleteOne();
+        await Series.updateMany({ messages: message._id }, { $pull: { messages: message._id } });
+        removeMediaFile(message.file?.filename);
+
+        res.json({ message: 'Message removed' });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Stream or download a recording. Honours Range requests so players
+//          can seek and downloads can resume.
+// @route   GET /api/public/messages/:id/stream?download=1
+// @access  Public
+const streamMessage = async (req, res) => {
+    try {
+        const message = mongoose.isValidObjectId(req.params.id) ? await Message.findById(req.params.id) : null;
+
+        // Drafts stay private until they are published
+        if (!message || message.isPublished === false) {
+            return res.status(404).json({ message: 'Message not found' });
+        }
+        if (!message.file?.filename) {
+            return message.mediaUrl
+                ? res.redirect(message.mediaUrl)
+                : res.status(404).json({ message: 'Recording not found' });
+        }
+
+        const file = mediaPath(message.file.filename);
+        const stat = await fs.promises.stat(file).catch(() => null);
+        if (!stat) {
+            return res.status(404).json({ message: 'Recording not found' });
+        }
+
+        res.setHeader('Accept-Ranges', 'bytes');
+        res.setHeader('Content-Type', message.file.mimetype || 'application/octet-stream');
+        res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+        if (req.query.download) {
+            const ext = path.extname(message.file.filename);
+            const filename = `${message.title.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}${ext}`;
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        }
+
+        const range = parseRange(req.headers.range, stat.size);
+        if (range === false) {
+            res.setHeader('Content-Range', `bytes */${stat.size}`);
+            return res.status(416).end();
+        }
+
+        let stream;
+        if (range) {
+            res.status(206);
+            res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${stat.size}`);
+            res.setHeader('Content-Length', range.end - range.start + 1);
+            stream = fs.createReadStream(file, range);
+        } else {
+            res.setHeader('Content-Length', stat.size);
+            stream = fs.createReadStream(file);
+        }
+
+        if (req.method === 'HEAD') {
+            stream.destroy();
+            return res.end();
+        }
+
+        stream.on('error', () => res.destroy());
+        req.on('close', () => stream.destroy());
+        stream.pipe(res);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export {
+    messageStreamUrl,
+    getMessages,
+    getMessageById,
+    createMessage,
+    updateMessage,
+    deleteMessage,
+    streamMessage,
+};
@@ -0,0 +1,329 @@
+import mongoose from 'mongoose';
+import PipelineStage from '../models/PipelineStage.js';
+import StageTransition from '../models/StageTransition.js';
+import Member from '../models/Member.js';
+import Attendance from '../models/Attendance.js';
+import AuditLog from '../models/AuditLog.js';
+import { hasPermission } from '../config/permissions.js';
+import { loadMemberScope, memberScopeFilter } from '../middleware/memberScopeMiddleware.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Members shown per board column; the column still reports its full count
+const BOARD_COLUMN_LIMIT = 100;
+const STAGE_FIELDS = ['name', 'description', 'category', 'followUpSteps', 'targetDays', 'order'];
+const CRITERIA_FIELDS = ['minCheckIns', 'requireApproved', 'requireChurchUnit', 'minDaysInPreviousStage'];
+const BOARD_MEMBER_FIELDS = 'fullname email phone category status stage stageEnteredAt completedSteps auxanoCenter created_at';
+
+const daysSince = (date) => (date ? Math.floor((Date.now() - new Date(date).getTime()) / DAY_MS) : 0);
+
+const recordQuietly = (req, details) => AuditLog.record(req, details).catch((error) => {
+    console.error(`Could not record ${details.action} in the audit log:`, error);
+});
+
+// Applies the editable stage fields in the request body
+const applyStageFields = (stage, body) => {
+    STAGE_FIELDS.forEach((field) => {
+        if (body[field] !== undefined) {
+            stage[field] = body[field];
+        }
+    });
+    if (body.entryCriteria) {
+        CRITERIA_FIELDS.forEach((field) => {
+            if (body.entryCriteria[field] !== undefined) {
+                stage.set(`entryCriteria.${field}`, body.entryCriteria[field]);
+            }
+        });
+    }
+    stage.followUpSteps = [...new Set((stage.followUpSteps || []).map((step) => String(step).trim()).filter(Boolean))];
+};
+
+const orderedStages = () => PipelineStage.find({}).sort({ order: 1, created_at: 1 });
+
+// @desc    List pipeline stages in order
+// @route   GET /api/pipeline/stages
+// @access  Private
+const getStages = async (req, res) => {
+    try {
+        res.json(await orderedStages());
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Add a pipeline stage, last unless an order is given
+// @route   POST /api/pipeline/stages
+// @access  Private/Admin
+const createStage = async (req, res) => {
+    try {
+        const stage = new PipelineStage();
+        if (req.body.order === undefined) {
+            const last = await PipelineStage.findOne({}).sort({ order: -1 });
+            stage.order = last ? last.order + 1 : 0;
+        }
+        applyStageFields(stage, req.body);
+
+        const createdStage = await stage.save();
+        res.status(201).json(createdStage);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Update a pipeline stage
+// @route   PUT /api/pipeline/stages/:id
+// @access  Private/Admin
+const updateStage = async (req, res) => {
+    try {
+        const stage = mongoose.isValidObjectId(req.params.id) ? await PipelineStage.findById(req.params.id) : null;
+        if (!stage) {
+            return res.status(404).json({ message: 'Stage not found' });
+        }
+
+        applyStageFields(stage, req.body);
+        const updatedStage = await stage.save();
+        res.json(updatedStage);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Delete a pipeline stage nobody is in
+// @route   DELETE /api/pipeline/stages/:id
+// @access  Private/Admin
+const deleteStage = async (req, res) => {
+    try {
+        const stage = mongoose.isValidObjectId(req.params.id) ? await PipelineStage.findById(req.params.id) : null;
+        if (!stage) {
+            return res.status(404).json({ message: 'Stage not found' });
+        }
+
+        const inStage = await Member.countDocuments({ stage: stage._id });
+        if (inStage > 0) {
+            return res.status(400).json({ message: `Move the ${inStage} members in ${stage.name} to another stage first` });
+        }
+
+        await stage.deleteOne();
+        res.json({ message: 'Stage removed' });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Put the stages in the order of `ids`
+// @route   PUT /api/pipeline/stages/order
+// @access  Private/Admin
+const reorderStages = async (req, res) => {
+    try {
+        const { ids } = req.body;
+        if (!Array.isArray(ids) || !ids.every((id) => mongoose.isValidObjectId(id))) {
+            return res.status(400).json({ message: 'Send the stage ids in their new order' });
+        }
+
+        await PipelineStage.bulkWrite(ids.map((id, order) => ({
+            updateOne: { filter: { _id: id }, update: { $set: { order } } },
+        })));
+        res.json(await orderedStages());
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Active members in each stage, longest in the stage first, plus
+//          those not in the pipeline yet, newest first
+// @route   GET /api/pipeline/board?searchTerm=
+// @access  Private
+const getBoard = async (req, res) => {
+    try {
+        const scope = await loadMemberScope(req.user);
+        const conditions = [memberScopeFilter(scope), { isactive: { $ne: false } }];
+        if (req.query.searchTerm) {
+            conditions.push({ fullname: { $regex: req.query.searchTerm, $options: 'i' } });
+        }
+
+        const column = async (stageId) => {
+            const filter = { $and: [...conditions, { stage: stageId }] };
+            const [members, total] = await Promise.all([
+                Member.find(filter)
+                    .select(BOARD_MEMBER_FIELDS)
+                    .sort(stageId ? { stageEnteredAt: 1 } : { created_at: -1 })
+                    .limit(BOARD_COLUMN_LIMIT),
+                Member.countDocuments(filter),
+            ]);
+            return { members, total };
+        };
+
+        const stages = await orderedStages();
+        const [unstaged, ...columns] = await Promise.all([null, ...stages.map((stage) => stage._id)].map(column));
+
+        res.json({
+            unstaged,
+            columns: stages.map((stage, index) => ({ stage, ...columns[index] })),
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// Why a member can't move from one stage to another. Entry criteria and the
+// follow-up of the stage being left only apply going forward; moving a
+// member back is always allowed.
+const unmetRequirements = async (member, from, to) => {
+    if (from && to.order <= from.order) {
+        return [];
+    }
+
+    const unmet = [];
+    const criteria = to.entryCriteria || {};
+    if (criteria.requireApproved && member.status !== 'approved') {
+        unmet.push('Member must be approved');
+    }
+    if (criteria.requireChurchUnit && !member.unit && !member.churchunit && !member.churchunits?.length) {
+        unmet.push('Member must belong to a church unit');
+    }
+    if (criteria.minCheckIns > 0) {
+        const checkIns = await Attendance.countDocuments({ member: member._id });
+        if (checkIns < criteria.minCheckIns) {
+            unmet.push(`Needs ${criteria.minCheckIns} check-ins (has ${checkIns})`);
+        }
+    }
+    if (from && criteria.minDaysInPreviousStage > 0) {
+        const days = daysSince(member.stageEnteredAt);
+        if (days < criteria.minDaysInPreviousStage) {
+            unmet.push(`Needs ${criteria.minDaysInPreviousStage} days in ${from.name} (has ${days})`);
+        }
+    }
+    if (from) {
+        const pending = (from.followUpSteps || []).filter((step) => !(member.completedSteps || []).includes(step));
+        if (pending.length) {
+            unmet.push(`Follow-up not done: ${pending.join(', ')}`);
+        }
+    }
+    return unmet;
+};
+
+// @desc    Move a member to another pipeline stage. Requirements the member
+//          doesn't meet are refused with the list of what's missing, unless
+//          an admin sends `override`.
+// @route   PUT /api/members/:id/stage
+// @access  Private
+const moveMemberStage = async (req, res) => {
+    try {
+        const { member } = req;
+        const { stageId, override } = req.body;
+
+        const [to, from] = await Promise.all([
+            mongoose.isValidObjectId(stageId) ? PipelineStage.findById(stageId) : null,
+            member.stage ? PipelineStage.findById(member.stage) : null,
+        ]);
+        if (!to) {
+            return res.status(404).json({ message: 'Stage not found' });
+        }
+        if (from && String(from._id) === String(to._id)) {
+            return res.status(400).json({ message: `${member.fullname} is already in ${to.name}` });
+        }
+
+        const unmet = await unmetRequirements(member, from, to);
+        if (unmet.length && !(override && hasPermission(req.user.role, 'manage_pipeline'))) {
+            return res.status(400).json({ message: `${member.fullname} can't move to ${to.name} yet`, unmet });
+        }
+
+        const transition = {
+            member: member._id,
+            fromStage: from?._id,
+            toStage: to._id,
+            fromCategory: member.category,
+            toCategory: to.category || member.category,
+            daysInStage: from ? daysSince(member.stageEnteredAt) : undefined,
+            overridden: unmet,
+            auxanoCenter: member.auxanoCenter,
+            movedBy: req.user._id,
+        };
+        const changes = { stage: { from: from?.name || null, to: to.name } };
+        if (to.category && to.category !== member.category) {
+            changes.category = { from: member.category || null, to: to.category };
+        }
+
+        member.stage = to._id;
+        member.stageEnteredAt = new Date();
+        member.completedSteps = [];
+        if (to.category) {
+            member.category = to.category;
+        }
+        const updatedMember = await member.save();
+        await StageTransition.create(transition);
+
+        await recordQuietly(req, {
+            action: 'member.stage',
+            targetType: 'Member',
+            target: member._id,
+            targetLabel: member.fullname,
+            changes,
+        });
+
+        res.json(updatedMember);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Tick off or reopen a follow-up step of the member's current stage
+// @route   PUT /api/members/:id/stage/steps
+// @access  Private
+const updateFollowUpStep = async (req, res) => {
+    try {
+        const { member } = req;
+        const { step, done } = req.body;
+
+        const stage = member.stage ? await PipelineStage.findById(member.stage) : null;
+        if (!stage) {
+            return res.status(400).json({ message: `${member.fullname} is not in the pipeline` });
+        }
+        if (!(stage.followUpSteps || []).includes(step)) {
+            return res.status(400).json({ message: `${stage.name} has no follow-up step "${step}"` });
+        }
+
+        const completed = (member.completedSteps || []).filter((candidate) => candidate !== step);
+        member.completedSteps = done ? [...completed, step] : completed;
+        const updatedMember = await member.save();
+
+        await recordQuietly(req, {
+            action: 'member.follow-up',
+            targetType: 'Member',
+            target: member._id,
+            targetLabel: member.fullname,
+            changes: { [step]: { from: done ? 'to do' : 'done', to: done ? 'done' : 'to do' } },
+        });
+
+        res.json(updatedMember);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    A member's moves through the pipeline, newest first
+// @route   GET /api/members/:id/stage-history
+// @access  Private
+const getMemberStageHistory = async (req, res) => {
+    try {
+        const transitions = await StageTransition.find({ member: req.member._id })
+            .sort({ created_at: -1 })
+            .populate('fromStage', 'name')
+            .populate('toStage', 'name')
+            .populate('movedBy', 'email');
+        res.json(transitions);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export {
+    getStages,
+    createStage,
+    updateStage,
+    deleteStage,
+    reorderStages,
+    getBoard,
+    moveMemberStage,
+    updateFollowUpStep,
+    getMemberStageHistory,
+};
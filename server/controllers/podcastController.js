@@ -0,0 +1,115 @@
+import Message from '../models/Message.js';
+import Series from '../models/Series.js';
+import { buildPodcastFeed } from '../utils/podcast.js';
+import { messageStreamUrl } from './messageController.js';
+
+const MAX_FEED_ITEMS = 500;
+
+// Feed details come from the environment so the media team can rebrand the
+// podcast without a deploy; read per request because dotenv loads after imports
+const podcastSettings = () => ({
+    title: process.env.PODCAST_TITLE || 'Sermons',
+    description: process.env.PODCAST_DESCRIPTION || 'Sermons and teachings from our services.',
+    author: process.env.PODCAST_AUTHOR || '3HMedia',
+    ownerEmail: process.env.PODCAST_OWNER_EMAIL,
+    image: process.env.PODCAST_IMAGE,
+    language: process.env.PODCAST_LANGUAGE || 'en',
+    link: process.env.PODCAST_LINK,
+});
+
+// Every series is a season, numbered by creation so numbers stay stable as
+// series are added. A message in several series counts towards the oldest one.
+const seasonsByMessage = (allSeries) => {
+    const seasons = new Map();
+
+    allSeries.forEach((series, seasonIndex) => {
+        series.messages.forEach((id, episodeIndex) => {
+            if (!seasons.has(String(id))) {
+                seasons.set(String(id), { season: seasonIndex + 1, episode: episodeIndex + 1 });
+            }
+        });
+    });
+
+    return seasons;
+};
+
+const itemDescription = (message) => [
+    message.description,
+    message.scriptureReferences.length ? `Scripture: ${message.scriptureReferences.join('; ')}` : null,
+].filter(Boolean).join('\n\n') || message.title;
+
+// @desc    iTunes-compatible podcast feed of published audio messages, either
+//          the whole archive or a single series
+// @route   GET /api/public/podcast.xml?series=
+// @route   GET /api/public/series/:slug/podcast.xml
+// @access  Public
+const getPodcastFeed = async (req, res) => {
+    try {
+        const settings = podcastSettings();
+        const slug = req.params.slug || req.query.series;
+
+        const allSeries = await Series.find().sort({ created_at: 1, _id: 1 }).select('title slug description coverImage messages isPublished');
+        const series = slug ? allSeries.find((item) => item.slug === slug) : null;
+
+        if (slug && (!series || !series.isPublished)) {
+            return res.status(404).json({ message: 'Series not found' });
+        }
+
+        const seasons = seasonsByMessage(allSeries);
+        if (series) {
+            // In a series feed every episode belongs to that series' season
+            const season = allSeries.indexOf(series) + 1;
+            series.messages.forEach((id, index) => seasons.set(String(id), { season, episode: index + 1 }));
+        }
+
+        const query = {
+            mediaType: 'audio',
+            isPublished: { $ne: false },
+            'file.filename': { $exists: true },
+        };
+        if (series) {
+            query._id = { $in: series.messages };
+        }
+
+        const messages = await Message.find(query).sort({ date: -1 }).limit(MAX_FEED_ITEMS);
+
+        const origin = `${req.protocol}://${req.get('host')}`;
+        const xml = buildPodcastFeed(
+            {
+                title: series ? `${settings.title}: ${series.title}` : settings.title,
+                description: series?.description || settings.description,
+                link: settings.link || origin,
+                selfUrl: `${origin}${req.originalUrl}`,
+                language: settings.language,
+                author: settings.author,
+                ownerName: settings.author,
+                ownerEmail: settings.ownerEmail,
+                image: series?.coverImage || settings.image,
+                category: 'Religion & Spirituality',
+                subcategory: 'Christianity',
+                type: series ? 'serial' : 'episodic',
+                updated: messages[0]?.date,
+            },
+            messages.map((message) => ({
+                guid: String(message._id),
+                title: message.title,
+                description: itemDescription(message),
+                author: message.preacher,
+                date: message.date,
+                url: messageStreamUrl(req, message),
+                length: message.file.size,
+                type: message.file.mimetype,
+                duration: message.duration,
+                ...seasons.get(String(message._id)),
+            }))
+        );
+
+        res.setHeader('Content-Type', 'application/rss+xml; charset=utf-8');
+        res.setHeader('Cache-Control', 'public, max-age=900');
+        res.send(xml);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export { getPodcastFeed };
@@ -0,0 +1,165 @@
+import Project from '../models/Project.js';
+import Pledge from '../models/Pledge.js';
+import Donation from '../models/Donation.js';
+
+// Sums donations grouped by `field` for the given ids
+const sumDonationsBy = async (field, ids) => {
+    const rows = await Donation.aggregate([
+        { $match: { [field]: { $in: ids } } },
+        { $group: { _id: `$${field}`, total: { $sum: '$amount' } } },
+    ]);
+    return new Map(rows.map(({ _id, total }) => [String(_id), total]));
+};
+
+// @desc    Get partnership projects with giving progress
+// @route   GET /api/donations/projects
+// @access  Private/Admin
+const getProjects = async (req, res) => {
+    try {
+        const projects = await Project.find({}).sort({ created_at: -1 });
+        const ids = projects.map((project) => project._id);
+
+        const [raisedByProject, pledgeRows] = await Promise.all([
+            sumDonationsBy('project', ids),
+            Pledge.aggregate([
+                { $match: { project: { $in: ids }, status: { $ne: 'cancelled' } } },
+                { $group: { _id: '$project', total: { $sum: '$amount' }, count: { $sum: 1 } } },
+            ]),
+        ]);
+        const pledgedByProject = new Map(pledgeRows.map((row) => [String(row._id), row]));
+
+        res.json(projects.map((project) => {
+            const raised = raisedByProject.get(String(project._id)) || 0;
+            const pledged = pledgedByProject.get(String(project._id));
+
+            return {
+                ...project.toObject(),
+                raised,
+                pledged: pledged?.total || 0,
+                pledgeCount: pledged?.count || 0,
+                progress: project.goal ? Math.min(Math.round((raised / project.goal) * 100), 100) : 0,
+            };
+        }));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Create a project
+// @route   POST /api/donations/projects
+// @access  Private/Admin
+const createProject = async (req, res) => {
+    const { title, description, goal, image } = req.body;
+
+    try {
+        const project = await Project.create({ title, description, goal, image });
+        res.status(201).json(project);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Update a project
+// @route   PUT /api/donations/projects/:id
+// @access  Private/Admin
+const updateProject = async (req, res) => {
+    try {
+        const project = await Project.findById(req.params.id);
+
+        if (project) {
+            Object.assign(project, req.body);
+            const updatedProject = await project.save();
+            res.json(updatedProject);
+        } else {
+            res.status(404).json({ message: 'Project not found' });
+        }
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Get pledges with fulfilment progress
+// @route   GET /api/donations/pledges?project=&member=&status=
+// @access  Private/Admin
+const getPledges = async (req, res) => {
+    try {
+        const { project, member, status } = req.query;
+        const query = {};
+
+        if (project) query.project = project;
+        if (member) query.member = member;
+        if (status) query.status = status;
+
+        const pledges = await Pledge.find(query)
+            .populate('member', 'fullname email')
+            .populate('project', 'title')
+            .sort({ created_at: -1 });
+        const paidByPledge = await Pledge.paymentsByCurrency(pledges.map((pledge) => pledge._id));
+
+        res.json(pledges.map((pledge) => {
+            const paid = paidByPledge.get(String(pledge._id)) || {};
+            const fulfilled = paid[pledge.currency] || 0;
+
+            return {
+                ...pledge.toObject(),
+                paid,
+                fulfilled,
+                outstanding: Math.max(pledge.amount - fulfilled, 0),
+                progress: pledge.amount ? Math.min(Math.round((fulfilled / pledge.amount) * 100), 100) : 0,
+            };
+        }));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Record a pledge
+// @route   POST /api/donations/pledges
+// @access  Private/Admin
+const createPledge = async (req, res) => {
+    const { member, project, amount, currency, dueDate, notes } = req.body;
+
+    try {
+        const pledge = await Pledge.create({ member, project, amount, currency, dueDate, notes });
+        res.status(201).json(pledge);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Update a pledge (amount, due date or cancellation)
+// @route   PUT /api/donations/pledges/:id
+// @access  Private/Admin
+const updatePledge = async (req, res) => {
+    try {
+        const pledge = await Pledge.findById(req.params.id);
+
+        if (pledge) {
+            const { amount, dueDate, notes, status } = req.body;
+
+            if (amount !== undefined) pledge.amount = amount;
+            if (dueDate !== undefined) pledge.dueDate = dueDate;
+            if (notes !== undefined) pledge.notes = notes;
+            // Only cancellation is set by hand; open/fulfilled follow the payments
+            if (status === 'cancelled') pledge.status = 'cancelled';
+            if (status === 'open' && pledge.status === 'cancelled') pledge.status = 'open';
+
+            await pledge.save();
+            const { pledge: refreshed } = await Pledge.refreshFulfilment(pledge._id);
+            res.json(refreshed);
+        } else {
+            res.status(404).json({ message: 'Pledge not found' });
+        }
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+export {
+    getProjects,
+    createProject,
+    updateProject,
+    getPledges,
+    createPledge,
+    updatePledge,
+};
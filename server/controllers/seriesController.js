@@ -0,0 +1,239 @@
+import fs from 'fs';
+import mongoose from 'mongoose';
+import Series from '../models/Series.js';
+import Message from '../models/Message.js';
+import { publicUploadUrl, uploadPathFromUrl } from '../middleware/uploadMiddleware.js';
+import { messageStreamUrl } from './messageController.js';
+
+const EDITABLE_FIELDS = ['title', 'slug', 'description', 'coverImage', 'isPublished'];
+
+const pickSeriesFields = (body) => {
+    const data = {};
+    EDITABLE_FIELDS.forEach((field) => {
+        if (body[field] !== undefined) {
+            data[field] = body[field] === '' ? null : body[field];
+        }
+    });
+    return data;
+};
+
+const removeUploadedImage = (url) => {
+    const file = uploadPathFromUrl(url);
+    if (file) {
+        fs.promises.unlink(file).catch(() => {});
+    }
+};
+
+// @desc    Get series with message counts and date ranges
+// @route   GET /api/series?searchTerm=
+// @access  Private
+const getSeries = async (req, res) => {
+    try {
+        const match = {};
+        if (req.query.searchTerm) {
+            match.title = { $regex: req.query.searchTerm, $options: 'i' };
+        }
+
+        const series = await Series.aggregate([
+            { $match: match },
+            {
+                $lookup: {
+                    from: Message.collection.name,
+                    localField: 'messages',
+                    foreignField: '_id',
+                    as: 'items',
+                },
+            },
+            {
+                $project: {
+                    title: 1,
+                    slug: 1,
+                    description: 1,
+                    coverImage: 1,
+                    isPublished: 1,
+                    created_at: 1,
+                    messageCount: { $size: '$items' },
+                    firstDate: { $min: '$items.date' },
+                    latestDate: { $max: '$items.date' },
+                    preachers: { $setUnion: ['$items.preacher', []] },
+                },
+            },
+            { $sort: { latestDate: -1, created_at: -1 } },
+        ]);
+
+        res.json(series);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Get a series with its messages in order
+// @route   GET /api/series/:id
+// @access  Private
+const getSeriesById = async (req, res) => {
+    try {
+        const series = await Series.findById(req.params.id).populate('messages');
+
+        if (series) {
+            res.json(series);
+        } else {
+            res.status(404).json({ message: 'Series not found' });
+        }
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Create a series or playlist
+// @route   POST /api/series
+// @access  Private/Admin
+const createSeries = async (req, res) => {
+    try {
+        const series = await Series.create({ ...pickSeriesFields(req.body), created_by: req.user._id });
+        res.status(201).json(series);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Update a series' details
+// @route   PUT /api/series/:id
+// @access  Private/Admin
+const updateSeries = async (req, res) => {
+    try {
+        const series = await Series.findById(req.params.id);
+
+        if (!series) {
+            return res.status(404).json({ message: 'Series not found' });
+        }
+
+        const previousCover = series.coverImage;
+        series.set(pickSeriesFields(req.body));
+        const updatedSeries = await series.save();
+
+        if (previousCover && previousCover !== updatedSeries.coverImage) {
+            removeUploadedImage(previousCover);
+        }
+
+        res.json(updatedSeries);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Replace the ordered message list; used to add, remove and reorder
+// @route   PUT /api/series/:id/messages
+// @access  Private/Admin
+const setSeriesMessages = async (req, res) => {
+    try {
+        if (!Array.isArray(req.body.messages)) {
+            return res.status(400).json({ message: 'messages must be an array of message ids' });
+        }
+
+        const ids = [...new Set(req.body.messages.map(String))];
+        if (!ids.every((id) => mongoose.isValidObjectId(id))) {
+            return res.status(400).json({ message: 'Invalid message id' });
+        }
+        if (await Message.countDocuments({ _id: { $in: ids } }) !== ids.length) {
+            return res.status(400).json({ message: 'One or more messages were not found' });
+        }
+
+        const series = await Series.findByIdAndUpdate(
+            req.params.id,
+            { messages: ids },
+            { new: true }
+        ).populate('messages');
+
+        if (series) {
+            res.json(series);
+        } else {
+            res.status(404).json({ message: 'Series not found' });
+        }
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Delete a series; its messages stay in the archive
+// @route   DELETE /api/series/:id
+// @access  Private/Admin
+const deleteSeries = async (req, res) => {
+    try {
+        const series = await Series.findById(req.params.id);
+
+        if (series) {
+            await series.deleteOne();
+            removeUploadedImage(series.coverImage);
+            res.json({ message: 'Series removed' });
+        } else {
+            res.status(404).json({ message: 'Series not found' });
+        }
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Upload cover art for a series
+// @route   POST /api/series/upload
+// @access  Private/Admin
+const uploadSeriesCover = async (req, res) => {
+    if (!req.file) {
+        return res.status(400).json({ message: 'No image uploaded' });
+    }
+
+    res.status(201).json({ url: publicUploadUrl(req, 'series', req.file.filename) });
+};
+
+// @desc    Read-only feed of a published series for embedding on the website
+// @route   GET /api/public/series/:slug
+// @access  Public
+const getPublicSeriesFeed = async (req, res) => {
+    try {
+        const { slug } = req.params;
+        const series = await Series.findOne(
+            mongoose.isValidObjectId(slug) ? { $or: [{ slug }, { _id: slug }] } : { slug }
+        ).populate('messages');
+
+        if (!series || !series.isPublished) {
+            return res.status(404).json({ message: 'Series not found' });
+        }
+
+        res.json({
+            id: series._id,
+            title: series.title,
+            slug: series.slug,
+            description: series.description || null,
+            coverImage: series.coverImage || null,
+            updatedAt: series.updated_at,
+            messages: series.messages
+                .filter((message) => message.isPublished !== false)
+                .map((message, index) => ({
+                    id: message._id,
+                    position: index + 1,
+                    title: message.title,
+                    preacher: message.preacher,
+                    date: message.date,
+                    duration: message.duration ?? null,
+                    mediaType: message.mediaType,
+                    scriptureReferences: message.scriptureReferences,
+                    tags: message.tags,
+                    description: message.description || null,
+                    streamUrl: message.file?.filename ? messageStreamUrl(req, message) : message.mediaUrl || null,
+                    downloadUrl: message.file?.filename ? messageStreamUrl(req, message, true) : null,
+                })),
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export {
+    getSeries,
+    getSeriesById,
+    createSeries,
+    updateSeries,
+    setSeriesMessages,
+    deleteSeries,
+    uploadSeriesCover,
+    getPublicSeriesFeed,
+};
@@ -0,0 +1,97 @@
+import Session from '../models/Session.js';
+import User from '../models/User.js';
+import { hasPermission } from '../config/permissions.js';
+
+const activeSessions = (userId) => Session.find({
+    user: userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+}).sort({ lastUsedAt: -1 });
+
+const withCurrent = (sessions, currentId) => sessions.map((session) => ({
+    ...session.toJSON(),
+    current: String(session._id) === String(currentId),
+}));
+
+// @desc    Active sessions of the logged in user
+// @route   GET /api/auth/sessions
+// @access  Private
+const getMySessions = async (req, res) => {
+    try {
+        const sessions = await activeSessions(req.user._id);
+        res.json(withCurrent(sessions, req.sessionId));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Sign out every other device of the logged in user
+// @route   DELETE /api/auth/sessions
+// @access  Private
+const revokeOtherSessions = async (req, res) => {
+    try {
+        const result = await Session.revokeAll(req.user._id, 'revoked', req.sessionId);
+        res.json({ message: 'Other sessions signed out', revoked: result.modifiedCount });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Revoke one session
+// @route   DELETE /api/auth/sessions/:id
+// @access  Private (own sessions) / Superadmin
+const revokeSession = async (req, res) => {
+    try {
+        const session = await Session.findById(req.params.id);
+
+        const ownsSession = session && String(session.user) === String(req.user._id);
+        if (!session || (!ownsSession && !hasPermission(req.user.role, 'system_admin'))) {
+            return res.status(404).json({ message: 'Session not found' });
+        }
+
+        if (!session.revokedAt) {
+            await session.revoke(ownsSession ? 'logout' : 'revoked');
+        }
+        res.json({ message: 'Session revoked' });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Active sessions of any user
+// @route   GET /api/auth/users/:id/sessions
+// @access  Private/Superadmin
+const getUserSessions = async (req, res) => {
+    try {
+        const user = await User.findById(req.params.id).select('_id');
+
+        if (!user) {
+            return res.status(404).json({ message: 'User not found' });
+        }
+
+        const sessions = await activeSessions(user._id);
+        res.json(withCurrent(sessions, req.sessionId));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Sign a user out everywhere
+// @route   DELETE /api/auth/users/:id/sessions
+// @access  Private/Superadmin
+const revokeUserSessions = async (req, res) => {
+    try {
+        const result = await Session.revokeAll(req.params.id, 'revoked');
+        res.json({ message: 'Sessions revoked', revoked: result.modifiedCount });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export {
+    getMySessions,
+    revokeOtherSessions,
+    revokeSession,
+    getUserSessions,
+    revokeUserSessions,
+};
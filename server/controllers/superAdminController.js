@@ -0,0 +1,127 @@
+import mongoose from 'mongoose';
+import User from '../models/User.js';
+import Profile from '../models/Profile.js';
+import AuditLog from '../models/AuditLog.js';
+
+// Role a removed superadmin keeps
+const DEMOTED_ROLE = 'admin';
+
+const toSuperAdmin = async (user) => {
+    const profile = await Profile.findOne({ user: user._id }).select('full_name');
+    return {
+        user_id: user._id,
+        email: user.email,
+        full_name: profile?.full_name || null,
+        createdAt: user.createdAt,
+    };
+};
+
+// @desc    List superadmins
+// @route   GET /api/admin/superadmin
+// @access  Private/SuperAdmin
+const getSuperAdmins = async (req, res) => {
+    try {
+        const users = await User.find({ role: 'superadmin' }).select('email createdAt').sort({ createdAt: 1 });
+        res.json(await Promise.all(users.map(toSuperAdmin)));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Make an existing user a superadmin
+// @route   POST /api/admin/superadmin
+// @access  Private/SuperAdmin (password re-entry)
+const addSuperAdmin = async (req, res) => {
+    try {
+        const email = String(req.body.email || '').trim();
+        const user = email && await User.findOne({ email });
+
+        if (!user) {
+            return res.status(404).json({ message: `No account uses ${email}; invite them first` });
+        }
+        if (user.role === 'superadmin') {
+            return res.status(400).json({ message: `${email} is already a super admin` });
+        }
+
+        const previousRole = user.role;
+        user.role = 'superadmin';
+        await user.save();
+
+        await AuditLog.record(req, {
+            action: 'superadmin.grant',
+            targetType: 'User',
+            target: user._id,
+            targetLabel: user.email,
+            changes: { role: { from: previousRole, to: 'superadmin' } },
+        });
+
+        res.status(201).json({ userId: user._id, message: `${email} is now a super admin` });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Take superadmin rights away, leaving the user an admin
+// @route   DELETE /api/admin/superadmin/:userId
+// @access  Private/SuperAdmin (password re-entry)
+const removeSuperAdmin = async (req, res) => {
+    try {
+        const user = mongoose.isValidObjectId(req.params.userId)
+            && await User.findOne({ _id: req.params.userId, role: 'superadmin' });
+        if (!user) {
+            return res.status(404).json({ message: 'Super admin not found' });
+        }
+
+        if (await User.countDocuments({ role: 'superadmin' }) <= 1) {
+            return res.status(400).json({ message: 'The last super admin cannot be removed' });
+        }
+
+        // Only demote while still a superadmin, then recount: two removals racing
+        // each other could otherwise leave nobody in charge
+        const demoted = await User.findOneAndUpdate(
+            { _id: user._id, role: 'superadmin' },
+            { role: DEMOTED_ROLE },
+            { new: true }
+        );
+        if (!demoted) {
+            return res.status(404).json({ message: 'Super admin not found' });
+        }
+        if (await User.countDocuments({ role: 'superadmin' }) === 0) {
+            await User.updateOne({ _id: user._id }, { role: 'superadmin' });
+            return res.status(400).json({ message: 'The last super admin cannot be removed' });
+        }
+
+        await AuditLog.record(req, {
+            action: 'superadmin.revoke',
+            targetType: 'User',
+            target: user._id,
+            targetLabel: user.email,
+            changes: { role: { from: 'superadmin', to: DEMOTED_ROLE } },
+        });
+
+        res.json({ userId: user._id, message: `${user.email} is no longer a super admin` });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Audit trail of superadmin grants and removals
+// @route   GET /api/admin/superadmin/history
+// @access  Private/SuperAdmin
+const getSuperAdminHistory = async (req, res) => {
+    try {
+        const entries = await AuditLog.find({ action: /^superadmin\./ })
+            .sort({ created_at: -1 })
+            .limit(100);
+        res.json(entries);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export {
+    getSuperAdmins,
+    addSuperAdmin,
+    removeSuperAdmin,
+    getSuperAdminHistory,
+};
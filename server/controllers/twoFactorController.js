@@ -0,0 +1,217 @@
+import User from '../models/User.js';
+import LoginAttempt from '../models/LoginAttempt.js';
+import { signedInResponse } from './authController.js';
+import { loginBlock, recordLoginFailure } from '../utils/loginThrottle.js';
+import {
+    twoFactorRequired,
+    readChallenge,
+    createTotpSecret,
+    verifyTotp,
+    createRecoveryCodes,
+    hashRecoveryCode,
+} from '../utils/twoFactor.js';
+
+const SECRET_FIELDS = '+twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes +twoFactorLastStep';
+
+// Checks an authenticator code or a recovery code and uses it up. Both updates
+// are conditional so a code raced in from two requests only works once.
+const useSecondFactor = async (user, { code, recoveryCode }) => {
+    if (recoveryCode) {
+        const hash = hashRecoveryCode(recoveryCode);
+        const result = await User.updateOne(
+            { _id: user._id, twoFactorRecoveryCodes: hash },
+            { $pull: { twoFactorRecoveryCodes: hash } }
+        );
+        return result.modifiedCount === 1;
+    }
+
+    const step = verifyTotp(code, user.twoFactorSecret);
+    if (step === null) {
+        return false;
+    }
+    const result = await User.updateOne(
+        { _id: user._id, $or: [{ twoFactorLastStep: null }, { twoFactorLastStep: { $lt: step } }] },
+        { twoFactorLastStep: step }
+    );
+    return result.modifiedCount === 1;
+};
+
+// @desc    Two-factor status of the logged in user
+// @route   GET /api/auth/2fa
+// @access  Private
+const getTwoFactorStatus = async (req, res) => {
+    try {
+        const user = await User.findById(req.user._id).select(SECRET_FIELDS);
+
+        res.json({
+            enabled: !!user.twoFactorEnabled,
+            required: twoFactorRequired(user.role),
+            recoveryCodesRemaining: user.twoFactorEnabled ? user.twoFactorRecoveryCodes.length : 0,
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Finish signing in with an authenticator or recovery code
+// @route   POST /api/auth/2fa/verify
+// @access  Public (needs the challenge token from login)
+const verifyTwoFactor = async (req, res) => {
+    try {
+        const { challengeToken, code, recoveryCode } = req.body;
+        const userId = readChallenge(challengeToken, '2fa');
+        const user = userId && await User.findById(userId).select(SECRET_FIELDS);
+
+        if (!user || !user.twoFactorEnabled || user.isActive === false) {
+            return res.status(401).json({ message: 'Sign in has expired, please log in again' });
+        }
+
+        // Guessing codes is throttled exactly like guessing passwords
+        const blocked = await loginBlock(user, req.ip);
+        if (blocked) {
+            await LoginAttempt.record(req, { user, reason: blocked.reason });
+            res.set('Retry-After', String(blocked.retryAfter));
+            return res.status(blocked.status).json({ message: blocked.message });
+        }
+
+        const recoveryCodesBefore = user.twoFactorRecoveryCodes.length;
+        if (!(await useSecondFactor(user, { code, recoveryCode }))) {
+            await recordLoginFailure(user);
+            await LoginAttempt.record(req, { user, reason: 'invalid-2fa-code' });
+            return res.status(401).json({
+                message: recoveryCode ? 'Recovery code is invalid or already used' : 'Invalid authentication code',
+            });
+        }
+
+        const response = await signedInResponse(user, req);
+        if (recoveryCode) {
+            response.recoveryCodesRemaining = recoveryCodesBefore - 1;
+        }
+        res.json(response);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Start enrolment: a new secret and its QR code
+// @route   POST /api/auth/2fa/setup
+// @access  Private, or the setup challenge token from login
+const setupTwoFactor = async (req, res) => {
+    try {
+        if (req.user.twoFactorEnabled) {
+            return res.status(400).json({ message: 'Two-factor authentication is already on' });
+        }
+
+        const { secret, otpauthUrl, qrCode } = await createTotpSecret(req.user.email);
+        await User.updateOne({ _id: req.user._id }, { twoFactorPendingSecret: secret });
+
+        res.json({ secret, otpauthUrl, qrCode });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Confirm enrolment with a code from the new secret
+// @route   POST /api/auth/2fa/enable
+// @access  Private, or the setup challenge token from login
+const enableTwoFactor = async (req, res) => {
+    try {
+        const user = await User.findById(req.user._id).select(SECRET_FIELDS);
+
+        if (user.twoFactorEnabled) {
+            return res.status(400).json({ message: 'Two-factor authentication is already on' });
+        }
+        if (!user.twoFactorPendingSecret) {
+            return res.status(400).json({ message: 'Start two-factor setup first' });
+        }
+
+        const step = verifyTotp(req.body.code, user.twoFactorPendingSecret);
+        if (step === null) {
+            return res.status(400).json({ message: 'Invalid authentication code' });
+        }
+
+        const { codes, hashes } = createRecoveryCodes();
+        user.twoFactorEnabled = true;
+        user.twoFactorSecret = user.twoFactorPendingSecret;
+        user.twoFactorPendingSecret = undefined;
+        user.twoFactorRecoveryCodes = hashes;
+        user.twoFactorLastStep = step;
+        await user.save();
+
+        // Enrolling during login finishes the sign in
+        const signIn = req.challenge ? await signedInResponse(user, req) : {};
+        res.json({ ...signIn, recoveryCodes: codes });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Turn two-factor authentication off
+// @route   POST /api/auth/2fa/disable
+// @access  Private
+const disableTwoFactor = async (req, res) => {
+    try {
+        const { password, code, recoveryCode } = req.body;
+
+        if (twoFactorRequired(req.user.role)) {
+            return res.status(403).json({ message: 'Your role requires two-factor authentication' });
+        }
+
+        const user = await User.findById(req.user._id).select(SECRET_FIELDS);
+        if (!user.twoFactorEnabled) {
+            return res.status(400).json({ message: 'Two-factor authentication is not on' });
+        }
+        if (!(await user.matchPassword(password || ''))) {
+            return res.status(401).json({ message: 'Password is incorrect' });
+        }
+        if (!(await useSecondFactor(user, { code, recoveryCode }))) {
+            return res.status(401).json({ message: 'Invalid authentication code' });
+        }
+
+        await User.updateOne({ _id: user._id }, {
+            twoFactorEnabled: false,
+            $unset: {
+                twoFactorSecret: 1,
+                twoFactorPendingSecret: 1,
+                twoFactorRecoveryCodes: 1,
+                twoFactorLastStep: 1,
+            },
+        });
+
+        res.json({ message: 'Two-factor authentication turned off' });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Replace the recovery codes, invalidating the old ones
+// @route   POST /api/auth/2fa/recovery-codes
+// @access  Private
+const regenerateRecoveryCodes = async (req, res) => {
+    try {
+        const user = await User.findById(req.user._id).select(SECRET_FIELDS);
+
+        if (!user.twoFactorEnabled) {
+            return res.status(400).json({ message: 'Two-factor authentication is not on' });
+        }
+        if (!(await useSecondFactor(user, { code: req.body.code }))) {
+            return res.status(401).json({ message: 'Invalid authentication code' });
+        }
+
+        const { codes, hashes } = createRecoveryCodes();
+        await User.updateOne({ _id: user._id }, { twoFactorRecoveryCodes: hashes });
+
+        res.json({ recoveryCodes: codes });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export {
+    getTwoFactorStatus,
+    verifyTwoFactor,
+    setupTwoFactor,
+    enableTwoFactor,
+    disableTwoFactor,
+    regenerateRecoveryCodes,
+};
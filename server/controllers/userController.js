@@ -0,0 +1,273 @@
+import mongoose from 'mongoose';
+import User from '../models/User.js';
+import Profile from '../models/Profile.js';
+import Session from '../models/Session.js';
+import UserToken from '../models/UserToken.js';
+import AuditLog from '../models/AuditLog.js';
+import { ROLE_PERMISSIONS, hasPermission } from '../config/permissions.js';
+import { sendVerificationEmailQuietly } from './authController.js';
+
+// Profile fields an admin can edit for another user
+const PROFILE_FIELDS = ['full_name', 'phone', 'genotype', 'address', 'church_unit', 'assigned_pastor', 'date_of_birth'];
+
+// Loads the user named in the route, checking the caller may manage them.
+// Sends the error response and resolves null when they can't.
+const findManagedUser = async (req, res, { allowSelf = true } = {}) => {
+    const user = mongoose.isValidObjectId(req.params.id)
+        && await User.findById(req.params.id).select('-password');
+
+    if (!user) {
+        res.status(404).json({ message: 'User not found' });
+        return null;
+    }
+    if (user.role === 'superadmin' && !hasPermission(req.user.role, 'system_admin')) {
+        res.status(403).json({ message: 'Only a super admin can change a super admin account' });
+        return null;
+    }
+    if (!allowSelf && String(user._id) === String(req.user._id)) {
+        res.status(400).json({ message: 'You cannot do this to your own account' });
+        return null;
+    }
+
+    return user;
+};
+
+// Superadmin accounts only lose their rights through /api/admin/superadmin,
+// which asks for a password, keeps at least one superadmin around and audits
+// the change as superadmin.*
+const keptForSuperAdminSettings = (res, user) => {
+    if (user.role !== 'superadmin') {
+        return false;
+    }
+    res.status(400).json({ message: 'Remove super admin rights from the super admin settings first' });
+    return true;
+};
+
+const withProfile = (user, profile) => ({ ...user.toObject(), profile });
+
+const recordUserChange = (req, user, action, changes) => AuditLog.record(req, {
+    action,
+    targetType: 'User',
+    target: user._id,
+    targetLabel: user.email,
+    changes,
+});
+
+// @desc    Get a user with their full profile
+// @route   GET /api/auth/users/:id
+// @access  Private/Admin
+const getUserById = async (req, res) => {
+    try {
+        const user = await findManagedUser(req, res);
+        if (!user) {
+            return;
+        }
+
+        await user.populate('assignedAuxanoCenter', 'name');
+        res.json(withProfile(user, await Profile.findOne({ user: user._id })));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Edit a user's email, Auxano center and profile
+// @route   PUT /api/auth/users/:id
+// @access  Private/Admin
+const updateUser = async (req, res) => {
+    try {
+        const user = await findManagedUser(req, res);
+        if (!user) {
+            return;
+        }
+
+        const changes = {};
+        const { email, assignedAuxanoCenter } = req.body;
+
+        if (email !== undefined) {
+            const nextEmail = String(email).trim();
+            if (!nextEmail) {
+                return res.status(400).json({ message: 'Email is required' });
+            }
+            if (nextEmail !== user.email) {
+                if (await User.findOne({ email: nextEmail })) {
+                    return res.status(400).json({ message: 'Another account already uses that email' });
+                }
+                changes.email = { from: user.email, to: nextEmail };
+                user.email = nextEmail;
+                // The new address hasn't been confirmed by its owner yet
+                user.emailVerifiedAt = undefined;
+            }
+        }
+
+        if (assignedAuxanoCenter !== undefined) {
+            const center = assignedAuxanoCenter || null;
+            if (center && !mongoose.isValidObjectId(center)) {
+                return res.status(400).json({ message: 'Invalid Auxano center' });
+            }
+            if (String(user.assignedAuxanoCenter || '') !== String(center || '')) {
+                changes.assignedAuxanoCenter = { from: user.assignedAuxanoCenter || null, to: center };
+                user.assignedAuxanoCenter = center || undefined;
+            }
+        }
+
+        const profile = await Profile.findOne({ user: user._id })
+            || new Profile({ user: user._id, email: user.email });
+
+        PROFILE_FIELDS.forEach((field) => {
+            if (req.body[field] === undefined) {
+                return;
+            }
+            const from = profile[field] ?? null;
+            profile.set(field, req.body[field] === '' ? undefined : req.body[field]);
+            if (profile.isModified(field)) {
+                changes[field] = { from, to: profile[field] ?? null };
+            }
+        });
+        profile.email = user.email;
+
+        await user.save();
+        await profile.save();
+
+        if (Object.keys(changes).length > 0) {
+            await recordUserChange(req, user, 'user.update', changes);
+        }
+        if (changes.email) {
+            await sendVerificationEmailQuietly(user);
+        }
+
+        res.json(withProfile(user, profile));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Change a user's role (and the Auxano center a pastor looks after)
+// @route   PUT /api/auth/users/:id/role
+// @access  Private/Admin
+const changeUserRole = async (req, res) => {
+    try {
+        const user = await findManagedUser(req, res, { allowSelf: false });
+        if (!user) {
+            return;
+        }
+
+        const { role, assignedAuxanoCenter } = req.body;
+
+        if (!ROLE_PERMISSIONS[role]) {
+            return res.status(400).json({ message: 'Unknown role' });
+        }
+        // Superadmin rights go through /api/admin/superadmin, which asks for a
+        // password and keeps at least one superadmin around
+        if (role === 'superadmin' || user.role === 'superadmin') {
+            return res.status(400).json({ message: 'Super admin rights are granted and removed from the super admin settings' });
+        }
+        if (assignedAuxanoCenter && !mongoose.isValidObjectId(assignedAuxanoCenter)) {
+            return res.status(400).json({ message: 'Invalid Auxano center' });
+        }
+
+        const changes = {};
+        if (user.role !== role) {
+            changes.role = { from: user.role, to: role };
+            user.role = role;
+        }
+        if (assignedAuxanoCenter !== undefined
+            && String(user.assignedAuxanoCenter || '') !== String(assignedAuxanoCenter || '')) {
+            changes.assignedAuxanoCenter = { from: user.assignedAuxanoCenter || null, to: assignedAuxanoCenter || null };
+            user.assignedAuxanoCenter = assignedAuxanoCenter || undefined;
+        }
+
+        if (Object.keys(changes).length > 0) {
+            await user.save();
+            await recordUserChange(req, user, 'user.role', changes);
+        }
+
+        res.json(user);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Block a user from signing in and end their sessions
+// @route   POST /api/auth/users/:id/deactivate
+// @access  Private/Admin
+const deactivateUser = async (req, res) => {
+    try {
+        const user = await findManagedUser(req, res, { allowSelf: false });
+        if (!user || keptForSuperAdminSettings(res, user)) {
+            return;
+        }
+        if (!user.isActive) {
+            return res.status(400).json({ message: 'This account is already deactivated' });
+        }
+
+        user.isActive = false;
+        user.deactivatedAt = new Date();
+        await user.save();
+        await Session.revokeAll(user._id, 'deactivated');
+
+        await recordUserChange(req, user, 'user.deactivate', { isActive: { from: true, to: false } });
+
+        res.json(user);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Let a deactivated user sign in again
+// @route   POST /api/auth/users/:id/reactivate
+// @access  Private/Admin
+const reactivateUser = async (req, res) => {
+    try {
+        const user = await findManagedUser(req, res);
+        if (!user) {
+            return;
+        }
+        if (user.isActive) {
+            return res.status(400).json({ message: 'This account is already active' });
+        }
+
+        user.isActive = true;
+        user.deactivatedAt = undefined;
+        await user.save();
+
+        await recordUserChange(req, user, 'user.reactivate', { isActive: { from: false, to: true } });
+
+        res.json(user);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Delete a user with their profile, sessions and emailed links
+// @route   DELETE /api/auth/users/:id
+// @access  Private/Admin
+const deleteUser = async (req, res) => {
+    try {
+        const user = await findManagedUser(req, res, { allowSelf: false });
+        if (!user || keptForSuperAdminSettings(res, user)) {
+            return;
+        }
+
+        await Promise.all([
+            Profile.deleteOne({ user: user._id }),
+            Session.deleteMany({ user: user._id }),
+            UserToken.deleteMany({ user: user._id }),
+        ]);
+        await User.deleteOne({ _id: user._id });
+
+        await recordUserChange(req, user, 'user.delete', { role: { from: user.role, to: null } });
+
+        res.json({ message: `${user.email} was deleted` });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export {
+    getUserById,
+    updateUser,
+    changeUserRole,
+    deactivateUser,
+    reactivateUser,
+    deleteUser,
+};
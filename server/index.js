@@ -4,6 +4,7 @@ import cors from 'cors';
 import morgan from 'morgan';
 import helmet from 'helmet';
 import connectDB from './config/db.js';
+import { UPLOAD_ROOT } from './middleware/uploadMiddleware.js';
 
 // Load env vars
 dotenv.config();
@@ -14,16 +15,36 @@ connectDB();
 const app = express();
 
 // Middleware
-app.use(express.json());
+// Member imports post a few thousand spreadsheet rows at once
+app.use(express.json({ limit: '5mb' }));
 app.use(cors());
 app.use(helmet());
 app.use(morgan('dev'));
 
+// Sermon recordings are only served through /api/public/messages/:id/stream,
+// which keeps drafts private
+app.use('/uploads/messages', (req, res) => res.status(404).json({ message: 'Not found' }));
+
+// Uploaded images are embedded by the frontend, which runs on another origin
+app.use('/uploads', (req, res, next) => {
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    next();
+}, express.static(UPLOAD_ROOT));
+
 import authRoutes from './routes/authRoutes.js';
 import memberRoutes from './routes/memberRoutes.js';
 import publicRoutes from './routes/publicRoutes.js';
 import listRoutes from './routes/listRoutes.js';
 import auxanoRoutes from './routes/auxanoRoutes.js';
+import attendanceRoutes from './routes/attendanceRoutes.js';
+import analyticsRoutes from './routes/analyticsRoutes.js';
+import donationRoutes from './routes/donationRoutes.js';
+import eventRoutes from './routes/eventRoutes.js';
+import messageRoutes from './routes/messageRoutes.js';
+import seriesRoutes from './routes/seriesRoutes.js';
+import adminRoutes from './routes/adminRoutes.js';
+import householdRoutes from './routes/householdRoutes.js';
+import pipelineRoutes from './routes/pipelineRoutes.js';
 
 // Routes
 app.use('/api/auth', authRoutes);
@@ -31,6 +52,15 @@ app.use('/api/members', memberRoutes);
 app.use('/api/public', publicRoutes);
 app.use('/api/lists', listRoutes);
 app.use('/api/auxano', auxanoRoutes);
+app.use('/api/attendance', attendanceRoutes);
+app.use('/api/analytics', analyticsRoutes);
+app.use('/api/donations', donationRoutes);
+app.use('/api/events', eventRoutes);
+app.use('/api/messages', messageRoutes);
+app.use('/api/series', seriesRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/households', householdRoutes);
+app.use('/api/pipeline', pipelineRoutes);
 
 app.get('/', (req, res) => {
     res.send('API is running...');
@@ -0,0 +1,72 @@
+import mongoose from 'mongoose';
+import AuditLog from '../models/AuditLog.js';
+
+// Bookkeeping fields left out of the recorded changes
+const IGNORED_FIELDS = ['_id', '__v', 'password', 'created_at', 'updated_at', 'createdAt', 'updatedAt'];
+
+// JSON shape of a document, so ids and dates compare and store as strings
+const plain = (doc) => (doc ? JSON.parse(JSON.stringify(doc)) : null);
+
+const isEmpty = (value) => value === undefined || value === null || value === '';
+
+// { field: { from, to } } for every field that differs between two snapshots
+const diff = (before, after) => {
+    const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+    const changes = {};
+
+    fields.forEach((field) => {
+        if (IGNORED_FIELDS.includes(field)) {
+            return;
+        }
+        const from = before?.[field];
+        const to = after?.[field];
+        if ((isEmpty(from) && isEmpty(to)) || JSON.stringify(from) === JSON.stringify(to)) {
+            return;
+        }
+        changes[field] = { from: from ?? null, to: to ?? null };
+    });
+
+    return changes;
+};
+
+const defaultLabel = (doc) => doc?.fullname || doc?.name || doc?.email || doc?.title;
+
+// Records the route's change in the audit log once the handler has answered
+// successfully. The target is loaded before the handler runs (or taken from
+// req.member when the scope middleware already loaded it) and compared with
+// the document the handler responds with; `.delete` actions have no after.
+// Logging never fails the request.
+const audited = (action, Model, { pick = (body) => body, label = defaultLabel } = {}) => async (req, res, next) => {
+    try {
+        const id = req.params.id;
+        const existing = req.member
+            || (mongoose.isValidObjectId(id) ? await Model.findById(id) : null);
+        const before = plain(existing);
+
+        const json = res.json.bind(res);
+        res.json = (body) => {
+            if (res.statusCode < 400) {
+                const after = action.endsWith('.delete') ? null : plain(pick(body));
+                const target = after?._id || before?._id;
+                const changes = diff(before, after);
+
+                AuditLog.record(req, {
+                    action,
+                    targetType: Model.modelName,
+                    target,
+                    targetLabel: label(after || before),
+                    changes: Object.keys(changes).length > 0 ? changes : undefined,
+                }).catch((error) => {
+                    console.error(`Could not record ${action} in the audit log:`, error);
+                });
+            }
+            return json(body);
+        };
+
+        next();
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export { audited, diff };
@@ -1,5 +1,8 @@
 import jwt from 'jsonwebtoken';
 import User from '../models/User.js';
+import Session from '../models/Session.js';
+import { hasPermission } from '../config/permissions.js';
+import { readChallenge } from '../utils/twoFactor.js';
 
 const protect = async (req, res, next) => {
     let token;
@@ -13,11 +16,27 @@ const protect = async (req, res, next) => {
 
             const decoded = jwt.verify(token, process.env.JWT_SECRET);
 
+            // Every access token belongs to a session that may since have been revoked
+            const session = decoded.sid && await Session.findById(decoded.sid).select('user revokedAt expiresAt');
+            if (!session || !session.isActive || String(session.user) !== String(decoded.id)) {
+                return res.status(401).json({ message: 'Not authorized, session has ended' });
+            }
+
             req.user = await User.findById(decoded.id).select('-password');
+            if (!req.user) {
+                return res.status(401).json({ message: 'Not authorized, user not found' });
+            }
+            if (req.user.isActive === false) {
+                return res.status(401).json({ message: 'Not authorized, account is deactivated' });
+            }
+            req.sessionId = session._id;
 
             next();
         } catch (error) {
-            console.error(error);
+            // Access tokens expire every few minutes; the client refreshes them
+            if (error.name !== 'TokenExpiredError') {
+                console.error(error);
+            }
             res.status(401).json({ message: 'Not authorized, token failed' });
         }
     }
@@ -27,21 +46,56 @@ const protect = async (req, res, next) => {
     }
 };
 
-const admin = (req, res, next) => {
-    if (req.user && (req.user.role === 'admin' || req.user.role === 'superadmin')) {
+// Allows the request through when the user's role grants any of the given permissions
+const requirePermission = (...permissions) => (req, res, next) => {
+    if (req.user && permissions.some((permission) => hasPermission(req.user.role, permission))) {
         next();
     } else {
-        res.status(401).json({ message: 'Not authorized as an admin' });
+        res.status(403).json({
+            message: `Not authorized, requires the ${permissions.join(' or ')} permission`,
+        });
     }
 };
 
-const superadmin = (req, res, next) => {
-    if (req.user && req.user.role === 'superadmin') {
+// For steps a user may take half way through signing in: a challenge token of
+// the given purpose in the body stands in for the access token. Sets
+// req.challenge so the handler knows to finish the sign in.
+const protectOrChallenge = (purpose) => async (req, res, next) => {
+    if (!req.body?.challengeToken) {
+        return protect(req, res, next);
+    }
+
+    try {
+        const userId = readChallenge(req.body.challengeToken, purpose);
+        req.user = userId && await User.findById(userId).select('-password');
+        if (!req.user || req.user.isActive === false) {
+            return res.status(401).json({ message: 'Sign in has expired, please log in again' });
+        }
+        req.challenge = purpose;
         next();
-    } else {
-        res.status(401).json({ message: 'Not authorized as a superadmin' });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
     }
 };
 
-export { protect, admin, superadmin };
+// Sensitive changes ask the signed-in user to type their password again, in
+// req.body.password. Answers 403 rather than 401 so the client doesn't treat a
+// typo as an expired session.
+const requirePassword = async (req, res, next) => {
+    try {
+        const { password } = req.body || {};
+        if (!password) {
+            return res.status(400).json({ message: 'Enter your password to confirm this change' });
+        }
+
+        const user = await User.findById(req.user._id);
+        if (!user || !(await user.matchPassword(String(password)))) {
+            return res.status(403).json({ message: 'Password is incorrect' });
+        }
+        next();
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
 
+export { protect, protectOrChallenge, requirePermission, requirePassword };
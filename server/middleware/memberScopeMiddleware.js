@@ -0,0 +1,88 @@
+import mongoose from 'mongoose';
+import Member from '../models/Member.js';
+import Unit from '../models/Unit.js';
+import { hasPermission } from '../config/permissions.js';
+
+const OUT_OF_SCOPE = 'You can only access members in your Auxano center, assigned to you, or in a unit you lead';
+const MOVED_OUT_OF_SCOPE = 'That change would move the member outside your Auxano center, assignments and units';
+
+const idOf = (value) => (value ? String(value._id ?? value) : null);
+
+// The part of the member directory a user may read and write, or null when it
+// is all of it. Pastors reach members in their Auxano center, members whose
+// `assignedto` is them, and members of units they head.
+const loadMemberScope = async (user) => {
+    if (hasPermission(user.role, 'access_all_members')) {
+        return null;
+    }
+
+    const units = await Unit.find({ head: user._id }).select('_id');
+
+    return {
+        userId: String(user._id),
+        centerId: idOf(user.assignedAuxanoCenter),
+        unitIds: units.map((unit) => String(unit._id)),
+    };
+};
+
+// Mongo filter matching the members a scope covers
+const memberScopeFilter = (scope) => {
+    if (!scope) {
+        return {};
+    }
+
+    const reachable = [{ assignedto: scope.userId }];
+    if (scope.centerId) {
+        reachable.push({ auxanoCenter: scope.centerId });
+    }
+    if (scope.unitIds.length) {
+        reachable.push({ unit: { $in: scope.unitIds } });
+    }
+    return { $or: reachable };
+};
+
+const scopeAllows = (scope, member) => (
+    !scope
+    || member.assignedto === scope.userId
+    || (!!scope.centerId && idOf(member.auxanoCenter) === scope.centerId)
+    || scope.unitIds.includes(idOf(member.unit))
+);
+
+// Loads the member named by req.params[param] into req.member, answering 404
+// when it doesn't exist and 403 when it is outside the user's scope. The scope
+// is kept on req.memberScope so writes can check the result too.
+const scopedMember = (param = 'id') => async (req, res, next) => {
+    try {
+        const id = req.params[param];
+        if (!mongoose.isValidObjectId(id)) {
+            return res.status(404).json({ message: 'Member not found' });
+        }
+
+        const [member, scope] = await Promise.all([
+            Member.findById(id),
+            loadMemberScope(req.user),
+        ]);
+
+        if (!member) {
+            return res.status(404).json({ message: 'Member not found' });
+        }
+        if (!scopeAllows(scope, member)) {
+            return res.status(403).json({ message: OUT_OF_SCOPE });
+        }
+
+        req.member = member;
+        req.memberScope = scope;
+        next();
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export {
+    OUT_OF_SCOPE,
+    MOVED_OUT_OF_SCOPE,
+    loadMemberScope,
+    memberScopeFilter,
+    scopeAllows,
+    scopedMember,
+};
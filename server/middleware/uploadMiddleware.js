@@ -0,0 +1,79 @@
+import fs from 'fs';
+import path from 'path';
+import multer from 'multer';
+
+// Uploaded files live under server/uploads and are served from /uploads
+const UPLOAD_ROOT = path.resolve('uploads');
+
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+const MAX_MEDIA_SIZE = 1024 * 1024 * 1024;
+
+const diskStorage = (folder) => multer.diskStorage({
+    destination: (req, file, cb) => {
+        const dir = path.join(UPLOAD_ROOT, folder);
+        fs.mkdirSync(dir, { recursive: true });
+        cb(null, dir);
+    },
+    filename: (req, file, cb) => {
+        const ext = path.extname(file.originalname).toLowerCase();
+        cb(null, `${folder}-${Date.now()}-${Math.round(Math.random() * 1e9)}${ext}`);
+    },
+});
+
+const imageUpload = (folder) => multer({
+    storage: diskStorage(folder),
+    limits: { fileSize: MAX_IMAGE_SIZE },
+    fileFilter: (req, file, cb) => {
+        if (file.mimetype.startsWith('image/')) {
+            cb(null, true);
+        } else {
+            cb(new Error('Only image files are allowed'));
+        }
+    },
+});
+
+const mediaUpload = (folder) => multer({
+    storage: diskStorage(folder),
+    limits: { fileSize: MAX_MEDIA_SIZE },
+    fileFilter: (req, file, cb) => {
+        if (file.mimetype.startsWith('audio/') || file.mimetype.startsWith('video/')) {
+            cb(null, true);
+        } else {
+            cb(new Error('Only audio or video files are allowed'));
+        }
+    },
+});
+
+// Public URL for a stored file, e.g. http://host/uploads/events/events-123.jpg
+const publicUploadUrl = (req, folder, filename) =>
+    `${req.protocol}://${req.get('host')}/uploads/${folder}/${filename}`;
+
+// Maps a URL produced by publicUploadUrl back to its file on disk; null for external URLs
+const uploadPathFromUrl = (url) => {
+    const match = /\/uploads\/([\w-]+)\/([\w.-]+)$/.exec(url || '');
+    return match ? path.join(UPLOAD_ROOT, match[1], match[2]) : null;
+};
+
+// Runs multer and turns its errors into 400 responses
+const handleUpload = (upload) => (req, res, next) => {
+    upload(req, res, (error) => {
+        if (error) {
+            return res.status(400).json({ message: error.message });
+        }
+        next();
+    });
+};
+
+const eventImageUpload = handleUpload(imageUpload('events').single('image'));
+const seriesCoverUpload = handleUpload(imageUpload('series').single('image'));
+const messageMediaUpload = handleUpload(mediaUpload('messages').single('file'));
+
+export {
+    UPLOAD_ROOT,
+    publicUploadUrl,
+    uploadPathFromUrl,
+    handleUpload,
+    eventImageUpload,
+    seriesCoverUpload,
+    messageMediaUpload,
+};
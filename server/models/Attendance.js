@@ -0,0 +1,57 @@
+import mongoose from 'mongoose';
+
+const attendanceSchema = mongoose.Schema({
+    member: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Member',
+        required: true,
+    },
+    // What kind of gathering the check-in belongs to
+    serviceType: {
+        type: String,
+        enum: ['service', 'event', 'auxano'],
+        default: 'service',
+    },
+    // Calendar day of the gathering, stored at midnight UTC
+    serviceDate: {
+        type: Date,
+        required: true,
+    },
+    serviceName: {
+        type: String,
+        default: '',
+    },
+    event: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Event',
+    },
+    auxanoCenter: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'AuxanoCenter',
+    },
+    isFirstTimeVisitor: {
+        type: Boolean,
+        default: false,
+    },
+    checkedInBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+    },
+    checkedInAt: {
+        type: Date,
+        default: Date.now,
+    },
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+});
+
+// A member can only be checked in once per gathering
+attendanceSchema.index(
+    { member: 1, serviceType: 1, serviceDate: 1, serviceName: 1, event: 1, auxanoCenter: 1 },
+    { unique: true }
+);
+attendanceSchema.index({ auxanoCenter: 1, serviceDate: -1 });
+
+const Attendance = mongoose.model('Attendance', attendanceSchema);
+
+export default Attendance;
@@ -0,0 +1,56 @@
+import mongoose from 'mongoose';
+
+// Who changed what, for the security and admin history. Entries are never
+// edited or removed by the application.
+const auditLogSchema = mongoose.Schema({
+    actor: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+    },
+    // Kept alongside the id so the entry still reads after the account is gone
+    actorEmail: { type: String },
+    // "<area>.<verb>", e.g. "superadmin.grant"
+    action: {
+        type: String,
+        required: true,
+    },
+    targetType: { type: String },
+    target: { type: mongoose.Schema.Types.ObjectId },
+    targetLabel: { type: String },
+    // { field: { from, to } } for updates
+    changes: { type: mongoose.Schema.Types.Mixed },
+    ip: { type: String },
+    userAgent: { type: String },
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: false },
+});
+
+auditLogSchema.index({ created_at: -1 });
+auditLogSchema.index({ action: 1, created_at: -1 });
+auditLogSchema.index({ targetType: 1, target: 1, created_at: -1 });
+
+const entryFor = (req, { action, targetType, target, targetLabel, changes }) => ({
+    actor: req.user?._id,
+    actorEmail: req.user?.email,
+    action,
+    targetType,
+    target,
+    targetLabel,
+    changes,
+    ip: req.ip,
+    userAgent: (req.get('user-agent') || '').slice(0, 300),
+});
+
+// Records an action taken by the user behind this request
+auditLogSchema.statics.record = function (req, details) {
+    return this.create(entryFor(req, details));
+};
+
+// Records several actions at once, e.g. inside a transaction
+auditLogSchema.statics.recordMany = function (req, details, options) {
+    return this.insertMany(details.map((detail) => entryFor(req, detail)), options);
+};
+
+const AuditLog = mongoose.model('AuditLog', auditLogSchema);
+
+export default AuditLog;
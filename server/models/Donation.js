@@ -0,0 +1,57 @@
+import mongoose from 'mongoose';
+
+const donationSchema = mongoose.Schema({
+    // Optional: gifts from non-members only carry a donor name
+    member: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Member',
+    },
+    donorName: { type: String },
+    fund: {
+        type: String,
+        enum: ['tithe', 'offering', 'pledge', 'project'],
+        required: true,
+    },
+    amount: {
+        type: Number,
+        required: true,
+        min: 0,
+    },
+    currency: {
+        type: String,
+        default: 'NGN',
+    },
+    date: {
+        type: Date,
+        default: Date.now,
+    },
+    method: {
+        type: String,
+        enum: ['cash', 'transfer', 'card', 'cheque', 'other'],
+        default: 'cash',
+    },
+    reference: { type: String },
+    project: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Project',
+    },
+    // Set when the gift is a payment towards a pledge
+    pledge: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Pledge',
+    },
+    notes: { type: String },
+    recordedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+    },
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+});
+
+donationSchema.index({ member: 1, date: -1 });
+donationSchema.index({ fund: 1, date: -1 });
+
+const Donation = mongoose.model('Donation', donationSchema);
+
+export default Donation;
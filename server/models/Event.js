@@ -0,0 +1,150 @@
+import mongoose from 'mongoose';
+import { WEEKDAYS, describeRecurrence, toDay, dayKey, occurrenceDates } from '../utils/recurrence.js';
+
+// RRULE-like recurrence, e.g. { freq: 'monthly', byDay: ['FR'], bySetPos: 1 } for a first-Friday vigil
+const recurrenceSchema = mongoose.Schema({
+    freq: {
+        type: String,
+        enum: ['daily', 'weekly', 'monthly', 'yearly'],
+        required: true,
+    },
+    interval: { type: Number, min: 1, default: 1 },
+    byDay: [{ type: String, enum: WEEKDAYS }],
+    // Which of the byDay weekdays in a month: 1-5, or -1 for the last. Without
+    // it the rule falls on every one of them.
+    bySetPos: { type: Number, enum: [1, 2, 3, 4, 5, -1] },
+    byMonthDay: { type: Number, min: -1, max: 31 },
+    until: { type: Date },
+    count: { type: Number, min: 1 },
+}, { _id: false });
+
+// Changes to a single occurrence, keyed by the date it would originally have fallen on
+const exceptionSchema = mongoose.Schema({
+    date: {
+        type: Date,
+        required: true,
+    },
+    cancelled: { type: Boolean, default: false },
+    event_date: { type: Date }, // moved to another day
+    title: { type: String },
+    event_time: { type: String },
+    end_time: { type: String },
+    location: { type: String },
+    note: { type: String },
+}, { _id: false });
+
+// Seats taken at one occurrence; a one-off event has a single entry, for event_date
+const seatSchema = mongoose.Schema({
+    date: {
+        type: Date,
+        required: true,
+    },
+    registered: { type: Number, default: 0, min: 0 },
+}, { _id: false });
+
+// Field names mirror the Event interface used by the admin EventForm
+const eventSchema = mongoose.Schema({
+    title: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    description: { type: String },
+    // Calendar day the event starts, stored at midnight UTC
+    event_date: {
+        type: Date,
+        required: true,
+    },
+    event_time: { type: String }, // HH:mm
+    end_date: { type: Date },
+    end_time: { type: String },
+    location: { type: String },
+    image_url: { type: String },
+    event_type: {
+        type: String,
+        enum: ['regular', 'special', 'recurring'],
+        default: 'regular',
+    },
+    is_recurring: { type: Boolean, default: false },
+    recurrence: { type: recurrenceSchema },
+    // Readable summary of `recurrence`, kept for existing list views
+    recurrence_pattern: { type: String },
+    exceptions: [exceptionSchema],
+    max_attendees: {
+        type: Number,
+        min: 1,
+    },
+    registration_required: { type: Boolean, default: false },
+    // Confirmed (non-waitlisted) registrations per occurrence, by its original
+    // date; maintained by EventRegistration
+    seats: [seatSchema],
+    is_published: { type: Boolean, default: true },
+    created_by: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+    },
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+    // The client addresses events by `id`, as it did with Supabase rows
+    toJSON: { virtuals: true },
+});
+
+eventSchema.index({ event_date: 1 });
+
+eventSchema.methods.exceptionOn = function (date) {
+    return (this.exceptions || []).find((exception) => dayKey(toDay(exception.date)) === dayKey(date));
+};
+
+// The occurrence falling on `requested` (by its original date), or without
+// one the next still to come. Null when there is no such occurrence.
+eventSchema.methods.occurrenceOn = function (requested) {
+    const start = toDay(this.event_date);
+    if (!this.is_recurring || !this.recurrence?.freq) {
+        return start;
+    }
+
+    const today = toDay(new Date());
+    const from = requested ? toDay(requested) : new Date(Math.max(start, today));
+    if (Number.isNaN(from.getTime())) {
+        return null;
+    }
+    // Far enough ahead to reach the next occurrence of any rule
+    const to = requested ? from : new Date(Date.UTC(from.getUTCFullYear() + (this.recurrence.interval || 1) + 1, 0, 1));
+
+    return occurrenceDates(this.recurrence, start, to, from)
+        .find((date) => !this.exceptionOn(date)?.cancelled) || null;
+};
+
+eventSchema.methods.seatsTaken = function (date) {
+    return (this.seats || []).find((seat) => dayKey(seat.date) === dayKey(date))?.registered || 0;
+};
+
+// Seats taken at the next occurrence, which is the one lists show and
+// registrations default to
+eventSchema.virtual('registered_count').get(function () {
+    const next = this.occurrenceOn();
+    return next ? this.seatsTaken(next) : 0;
+});
+
+eventSchema.pre('validate', function (next) {
+    // Events created before structured rules only had a free-text frequency
+    if (this.is_recurring && !this.recurrence?.freq && ['daily', 'weekly', 'monthly', 'yearly'].includes(this.recurrence_pattern)) {
+        this.recurrence = { freq: this.recurrence_pattern };
+    }
+
+    if (this.is_recurring && !this.recurrence?.freq) {
+        return next(new Error('Recurring events need a recurrence rule'));
+    }
+
+    if (this.is_recurring) {
+        this.recurrence_pattern = describeRecurrence(this.recurrence);
+    } else {
+        this.recurrence = undefined;
+        this.recurrence_pattern = undefined;
+    }
+    next();
+});
+
+const Event = mongoose.model('Event', eventSchema);
+
+export default Event;
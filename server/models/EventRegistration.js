@@ -0,0 +1,168 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+
+const eventRegistrationSchema = mongoose.Schema({
+    event: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Event',
+        required: true,
+    },
+    // Set when the registrant is in the member directory; visitors only have contact details
+    member: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Member',
+    },
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+    },
+    name: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    email: {
+        type: String,
+        required: true,
+        lowercase: true,
+        trim: true,
+    },
+    phone: { type: String },
+    // Which occurrence of a recurring event the registration is for, by its
+    // original date; the event date itself for one-off events
+    occurrenceDate: {
+        type: Date,
+        required: true,
+    },
+    status: {
+        type: String,
+        enum: ['registered', 'waitlisted', 'cancelled'],
+        default: 'registered',
+    },
+    // Lets visitors without an account cancel from the link in their confirmation
+    cancelToken: {
+        type: String,
+        default: () => crypto.randomBytes(24).toString('hex'),
+    },
+    checkedIn: { type: Boolean, default: false },
+    checkedInAt: { type: Date },
+    promotedAt: { type: Date },
+    cancelledAt: { type: Date },
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+});
+
+eventRegistrationSchema.index({ event: 1, occurrenceDate: 1, status: 1, created_at: 1 });
+// One active registration per person and occurrence; cancelled ones don't count
+eventRegistrationSchema.index(
+    { event: 1, occurrenceDate: 1, email: 1 },
+    { unique: true, partialFilterExpression: { status: { $in: ['registered', 'waitlisted'] } } }
+);
+eventRegistrationSchema.index({ cancelToken: 1 }, { unique: true });
+
+// Seats are counted per occurrence on the event itself (Event.seats) and
+// claimed with a conditional update, so concurrent registrations can never
+// overbook a date.
+const claimSeat = async (eventId, date) => {
+    const Event = mongoose.model('Event');
+
+    // The occurrence's tally starts the first time anyone registers for it
+    await Event.updateOne(
+        { _id: eventId, 'seats.date': { $ne: date } },
+        { $push: { seats: { date, registered: 0 } } }
+    );
+
+    const taken = {
+        $arrayElemAt: [{
+            $map: {
+                input: { $filter: { input: '$seats', cond: { $eq: ['$$this.date', date] } } },
+                in: '$$this.registered',
+            },
+        }, 0],
+    };
+    return Event.findOneAndUpdate(
+        {
+            _id: eventId,
+            $or: [
+                { max_attendees: null },
+                { $expr: { $lt: [taken, '$max_attendees'] } },
+            ],
+        },
+        { $inc: { 'seats.$[seat].registered': 1 } },
+        { arrayFilters: [{ 'seat.date': date }], new: true }
+    );
+};
+
+const releaseSeat = (eventId, date) => mongoose.model('Event').updateOne(
+    { _id: eventId, seats: { $elemMatch: { date, registered: { $gt: 0 } } } },
+    { $inc: { 'seats.$.registered': -1 } }
+);
+
+// Moves the longest-waiting registrant for the occurrence into a seat that is
+// already claimed
+const promoteNext = function (eventId, date) {
+    return this.findOneAndUpdate(
+        { event: eventId, occurrenceDate: date, status: 'waitlisted' },
+        { status: 'registered', promotedAt: new Date() },
+        { sort: { created_at: 1 }, new: true }
+    );
+};
+
+// Registers someone for an occurrence of an event (details.occurrenceDate),
+// or waitlists them when it is full
+eventRegistrationSchema.statics.register = async function (event, details) {
+    const seat = await claimSeat(event._id, details.occurrenceDate);
+
+    try {
+        return await this.create({
+            ...details,
+            event: event._id,
+            status: seat ? 'registered' : 'waitlisted',
+        });
+    } catch (error) {
+        if (seat) await releaseSeat(event._id, details.occurrenceDate);
+        throw error;
+    }
+};
+
+// Cancels a registration and hands its seat to the next person waiting for the
+// same occurrence. Returns the promoted registration, if any.
+eventRegistrationSchema.statics.cancel = async function (registration) {
+    const wasRegistered = registration.status === 'registered';
+
+    registration.status = 'cancelled';
+    registration.cancelledAt = new Date();
+    await registration.save();
+
+    if (!wasRegistered) return null;
+
+    const promoted = await promoteNext.call(this, registration.event, registration.occurrenceDate);
+    if (!promoted) {
+        await releaseSeat(registration.event, registration.occurrenceDate);
+    }
+    return promoted;
+};
+
+// Fills any free seats from the waitlists of every occurrence, e.g. after
+// capacity is raised. Returns the promoted registrations.
+eventRegistrationSchema.statics.fillFromWaitlist = async function (eventId) {
+    const promoted = [];
+    const dates = await this.distinct('occurrenceDate', { event: eventId, status: 'waitlisted' });
+
+    for (const date of dates) {
+        while (await claimSeat(eventId, date)) {
+            const registration = await promoteNext.call(this, eventId, date);
+            if (!registration) {
+                await releaseSeat(eventId, date);
+                break;
+            }
+            promoted.push(registration);
+        }
+    }
+
+    return promoted;
+};
+
+const EventRegistration = mongoose.model('EventRegistration', eventRegistrationSchema);
+
+export default EventRegistration;
@@ -0,0 +1,27 @@
+import mongoose from 'mongoose';
+
+// A family or other group of members sharing a home. Members point at their
+// household (Member.household); the household holds what they share, so it
+// can stand in for them on mailing labels and at check-in.
+const householdSchema = mongoose.Schema({
+    // e.g. "The Obi Family"; used as the addressee on mailing labels
+    name: {
+        type: String,
+        required: true,
+    },
+    address: {
+        line1: { type: String },
+        line2: { type: String },
+        city: { type: String },
+        state: { type: String },
+        postalCode: { type: String },
+        country: { type: String },
+    },
+    phone: { type: String },
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+});
+
+const Household = mongoose.model('Household', householdSchema);
+
+export default Household;
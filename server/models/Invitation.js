@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+
+const INVITE_TTL_DAYS = 7;
+
+const hashToken = (secret) => crypto.createHash('sha256').update(secret).digest('hex');
+
+// An admin's offer of an account. The invitee receives "<invitation id>.<secret>"
+// by email; only a hash is stored and resending replaces it.
+const invitationSchema = mongoose.Schema({
+    email: {
+        type: String,
+        required: true,
+        lowercase: true,
+        trim: true,
+    },
+    role: {
+        type: String,
+        enum: ['superadmin', 'admin', 'pastor', 'user'],
+        default: 'user',
+    },
+    assignedAuxanoCenter: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'AuxanoCenter',
+    },
+    // Pre-fills the profile form; the invitee can change it
+    full_name: { type: String },
+    tokenHash: {
+        type: String,
+        required: true,
+    },
+    expiresAt: {
+        type: Date,
+        required: true,
+    },
+    lastSentAt: { type: Date },
+    sentCount: { type: Number, default: 0 },
+    invitedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+    },
+    acceptedAt: { type: Date },
+    acceptedUser: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+    },
+    revokedAt: { type: Date },
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+});
+
+invitationSchema.index({ email: 1, acceptedAt: 1, revokedAt: 1 });
+
+invitationSchema.virtual('status').get(function () {
+    if (this.acceptedAt) return 'accepted';
+    if (this.revokedAt) return 'revoked';
+    if (this.expiresAt <= new Date()) return 'expired';
+    return 'pending';
+});
+
+invitationSchema.set('toJSON', {
+    virtuals: true,
+    transform: (doc, ret) => {
+        delete ret.tokenHash;
+        return ret;
+    },
+});
+
+const inviteLifetime = () =>
+    (Number(process.env.INVITE_TTL_DAYS) || INVITE_TTL_DAYS) * 24 * 60 * 60 * 1000;
+
+// Gives the invitation a fresh secret and expiry, invalidating any earlier link.
+// Saves and returns the token to email.
+invitationSchema.methods.renew = async function () {
+    const secret = crypto.randomBytes(32).toString('hex');
+    this.tokenHash = hashToken(secret);
+    this.expiresAt = new Date(Date.now() + inviteLifetime());
+    this.lastSentAt = new Date();
+    this.sentCount += 1;
+    await this.save();
+
+    return `${this._id}.${secret}`;
+};
+
+// The pending invitation a link belongs to, or null when it is unknown,
+// expired, revoked or already accepted
+invitationSchema.statics.findPendingByToken = async function (token) {
+    const [id, secret] = String(token || '').split('.');
+    if (!secret || !mongoose.isValidObjectId(id)) {
+        return null;
+    }
+
+    const invitation = await this.findOne({ _id: id, tokenHash: hashToken(secret) });
+    return invitation && invitation.status === 'pending' ? invitation : null;
+};
+
+const Invitation = mongoose.model('Invitation', invitationSchema);
+
+export default Invitation;
@@ -0,0 +1,67 @@
+import mongoose from 'mongoose';
+
+const LOG_RETENTION_DAYS = 90;
+
+// Failures that say something about the credentials tried. Attempts turned
+// away by throttling or a lock are logged but don't count towards either.
+const COUNTED_FAILURES = ['unknown-email', 'invalid-password', 'invalid-2fa-code'];
+
+// One attempt to sign in, successful or not, kept for the security log
+const loginAttemptSchema = mongoose.Schema({
+    email: {
+        type: String,
+        lowercase: true,
+        trim: true,
+    },
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+    },
+    ip: { type: String },
+    userAgent: { type: String },
+    success: {
+        type: Boolean,
+        required: true,
+    },
+    reason: {
+        type: String,
+        enum: ['success', ...COUNTED_FAILURES, 'throttled', 'locked', 'deactivated'],
+        required: true,
+    },
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: false },
+});
+
+loginAttemptSchema.index({ ip: 1, created_at: -1 });
+loginAttemptSchema.index({ created_at: -1 });
+loginAttemptSchema.index({ created_at: 1 }, { expireAfterSeconds: LOG_RETENTION_DAYS * 24 * 60 * 60 });
+
+// Logs an attempt made by this request. Logging never fails the login itself.
+loginAttemptSchema.statics.record = function (req, { email, user, reason }) {
+    return this.create({
+        email: email || user?.email,
+        user: user?._id,
+        ip: req.ip,
+        userAgent: (req.get('user-agent') || '').slice(0, 300),
+        success: reason === 'success',
+        reason,
+    }).catch((error) => {
+        console.error('Could not log login attempt:', error);
+    });
+};
+
+// Newest first, at most `limit`, within the last `since` milliseconds
+loginAttemptSchema.statics.recentFailuresFromIp = function (ip, since, limit) {
+    return this.find({
+        ip,
+        reason: { $in: COUNTED_FAILURES },
+        created_at: { $gte: new Date(Date.now() - since) },
+    })
+        .sort({ created_at: -1 })
+        .limit(limit)
+        .select('created_at');
+};
+
+const LoginAttempt = mongoose.model('LoginAttempt', loginAttemptSchema);
+
+export default LoginAttempt;
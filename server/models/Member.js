@@ -25,11 +25,51 @@ const memberSchema = mongoose.Schema({
         type: Boolean,
         default: false,
     },
+    household: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Household',
+    },
+    // Other members and what they are to this one ("Ada is my spouse"). Kept
+    // on both sides: a parent here is matched by a child entry on the parent.
+    relationships: [{
+        _id: false,
+        member: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Member',
+            required: true,
+        },
+        type: {
+            type: String,
+            enum: ['spouse', 'parent', 'child', 'guardian', 'ward'],
+            required: true,
+        },
+    }],
+    // Where the member is in the lifecycle pipeline, since when, and which of
+    // the stage's follow-up steps are done
+    stage: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'PipelineStage',
+    },
+    stageEnteredAt: { type: Date },
+    completedSteps: [{ type: String }],
     isactive: { type: Boolean, default: true },
+    joindate: { type: Date },
+    // Set when a member goes inactive, used for churn reporting
+    deactivated_at: { type: Date },
 }, {
     timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
 });
 
+memberSchema.pre('save', function (next) {
+    if (this.isModified('isactive')) {
+        this.deactivated_at = this.isactive ? undefined : new Date();
+    }
+    next();
+});
+
+memberSchema.index({ household: 1 });
+memberSchema.index({ stage: 1, stageEnteredAt: 1 });
+
 const Member = mongoose.model('Member', memberSchema);
 
 export default Member;
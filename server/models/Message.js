@@ -0,0 +1,59 @@
+import mongoose from 'mongoose';
+
+// A recorded sermon or teaching in the message archive
+const messageSchema = mongoose.Schema({
+    title: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    preacher: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    date: {
+        type: Date,
+        required: true,
+    },
+    // Length in seconds
+    duration: { type: Number, min: 0 },
+    mediaType: {
+        type: String,
+        enum: ['audio', 'video'],
+        required: true,
+    },
+    scriptureReferences: [{ type: String, trim: true }],
+    tags: [{ type: String, trim: true, lowercase: true }],
+    description: { type: String },
+    // The uploaded recording, stored under uploads/messages
+    file: {
+        filename: { type: String },
+        originalName: { type: String },
+        mimetype: { type: String },
+        size: { type: Number },
+    },
+    // Alternative to an upload, e.g. a recording hosted on YouTube
+    mediaUrl: { type: String },
+    // Unpublished messages are only visible to admins and stay out of the public feeds
+    isPublished: { type: Boolean, default: true },
+    created_by: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+    },
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+});
+
+messageSchema.index({ date: -1 });
+
+messageSchema.pre('validate', function (next) {
+    if (!this.file?.filename && !this.mediaUrl) {
+        this.invalidate('file', 'A message needs an uploaded recording or a media URL');
+    }
+    next();
+});
+
+const Message = mongoose.model('Message', messageSchema);
+
+export default Message;
@@ -0,0 +1,40 @@
+import mongoose from 'mongoose';
+
+// One step of the member lifecycle pipeline (e.g. Visitor -> Member ->
+// Worker). Stages are ordered; moving a member forward checks the target's
+// entry criteria and the follow-up steps of the stage they leave.
+const pipelineStageSchema = mongoose.Schema({
+    name: {
+        type: String,
+        required: true,
+    },
+    order: {
+        type: Number,
+        default: 0,
+    },
+    description: { type: String },
+    // Category members take on entering, e.g. "Workers"; empty leaves it alone
+    category: { type: String },
+    // What a member needs before entering the stage
+    entryCriteria: {
+        minCheckIns: { type: Number, default: 0 },
+        requireApproved: { type: Boolean, default: false },
+        requireChurchUnit: { type: Boolean, default: false },
+        minDaysInPreviousStage: { type: Number, default: 0 },
+    },
+    // Follow-up to complete before a member moves on, e.g. "Welcome call"
+    followUpSteps: [{ type: String }],
+    // Days a member is expected to stay; longer counts as stalled. 0 for no target.
+    targetDays: {
+        type: Number,
+        default: 0,
+    },
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+});
+
+pipelineStageSchema.index({ order: 1 });
+
+const PipelineStage = mongoose.model('PipelineStage', pipelineStageSchema);
+
+export default PipelineStage;
@@ -0,0 +1,70 @@
+import mongoose from 'mongoose';
+
+const pledgeSchema = mongoose.Schema({
+    member: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Member',
+        required: true,
+    },
+    project: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Project',
+        required: true,
+    },
+    amount: {
+        type: Number,
+        required: true,
+        min: 0,
+    },
+    // Payments only count towards the pledge in this currency
+    currency: {
+        type: String,
+        default: 'NGN',
+    },
+    dueDate: { type: Date },
+    status: {
+        type: String,
+        enum: ['open', 'fulfilled', 'cancelled'],
+        default: 'open',
+    },
+    notes: { type: String },
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+});
+
+// Payments made towards each pledge, kept apart by currency:
+// pledge id => { [currency]: total }
+pledgeSchema.statics.paymentsByCurrency = async function (pledgeIds) {
+    const rows = await mongoose.model('Donation').aggregate([
+        { $match: { pledge: { $in: pledgeIds } } },
+        { $group: { _id: { pledge: '$pledge', currency: '$currency' }, total: { $sum: '$amount' } } },
+    ]);
+
+    const byPledge = new Map();
+    for (const { _id, total } of rows) {
+        const key = String(_id.pledge);
+        byPledge.set(key, { ...byPledge.get(key), [_id.currency]: total });
+    }
+    return byPledge;
+};
+
+// Recomputes how much of a pledge has been paid and flips it between
+// open and fulfilled. Cancelled pledges are left alone.
+pledgeSchema.statics.refreshFulfilment = async function (pledgeId) {
+    const pledge = await this.findById(pledgeId);
+    if (!pledge) return null;
+
+    const paid = (await this.paymentsByCurrency([pledge._id])).get(String(pledge._id)) || {};
+    const fulfilled = paid[pledge.currency] || 0;
+
+    if (pledge.status !== 'cancelled') {
+        pledge.status = fulfilled >= pledge.amount ? 'fulfilled' : 'open';
+        await pledge.save();
+    }
+
+    return { pledge, fulfilled, paid };
+};
+
+const Pledge = mongoose.model('Pledge', pledgeSchema);
+
+export default Pledge;
@@ -0,0 +1,23 @@
+import mongoose from 'mongoose';
+
+// A partnership project members can give or pledge towards
+const projectSchema = mongoose.Schema({
+    title: {
+        type: String,
+        required: true,
+    },
+    description: { type: String },
+    goal: {
+        type: Number,
+        required: true,
+        min: 0,
+    },
+    image: { type: String },
+    isactive: { type: Boolean, default: true },
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+});
+
+const Project = mongoose.model('Project', projectSchema);
+
+export default Project;
@@ -0,0 +1,58 @@
+import mongoose from 'mongoose';
+
+// An ordered collection of messages: a preaching series or a curated playlist
+const seriesSchema = mongoose.Schema({
+    title: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    // Identifies the series in its public feed URL
+    slug: {
+        type: String,
+        required: true,
+        unique: true,
+        lowercase: true,
+        trim: true,
+    },
+    description: { type: String },
+    coverImage: { type: String },
+    // Messages in play order; a message may appear in several series
+    messages: [{
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Message',
+    }],
+    isPublished: { type: Boolean, default: true },
+    created_by: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+    },
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+});
+
+seriesSchema.index({ messages: 1 });
+
+const slugify = (text) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// Normalises a given slug, or derives a unique one from the title
+seriesSchema.pre('validate', async function (next) {
+    if (this.slug) {
+        this.slug = slugify(this.slug);
+    }
+    if (this.slug || !this.title) {
+        return next();
+    }
+
+    const base = slugify(this.title) || 'series';
+    let slug = base;
+    for (let n = 2; await this.constructor.exists({ slug, _id: { $ne: this._id } }); n += 1) {
+        slug = `${base}-${n}`;
+    }
+    this.slug = slug;
+    next();
+});
+
+const Series = mongoose.model('Series', seriesSchema);
+
+export default Series;
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+
+const REFRESH_TOKEN_DAYS = 30;
+// Two tabs can race to refresh with the same token; the loser is turned away
+// but not treated as a replay
+const REUSE_GRACE_MS = 10 * 1000;
+
+const hashToken = (secret) => crypto.createHash('sha256').update(secret).digest('hex');
+
+// One signed-in device. The refresh token handed to the client is
+// "<session id>.<secret>"; only a hash of the secret is stored, and it changes
+// on every refresh.
+const sessionSchema = mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+    },
+    tokenHash: {
+        type: String,
+        required: true,
+    },
+    // The secret this one replaced. Seeing it again after the grace window means
+    // a rotated token was stolen and replayed, so the whole session is revoked.
+    previousTokenHash: { type: String },
+    userAgent: { type: String },
+    ip: { type: String },
+    lastUsedAt: { type: Date, default: Date.now },
+    expiresAt: {
+        type: Date,
+        required: true,
+    },
+    revokedAt: { type: Date },
+    revokedReason: {
+        type: String,
+        enum: ['logout', 'revoked', 'reuse', 'password-change', 'deactivated'],
+    },
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+});
+
+sessionSchema.index({ user: 1, revokedAt: 1 });
+// Expired sessions are removed by MongoDB a day after they lapse
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+sessionSchema.virtual('isActive').get(function () {
+    return !this.revokedAt && this.expiresAt > new Date();
+});
+
+sessionSchema.set('toJSON', {
+    virtuals: true,
+    transform: (doc, ret) => {
+        delete ret.tokenHash;
+        delete ret.previousTokenHash;
+        return ret;
+    },
+});
+
+const refreshLifetime = () =>
+    (Number(process.env.REFRESH_TOKEN_DAYS) || REFRESH_TOKEN_DAYS) * 24 * 60 * 60 * 1000;
+
+const clientDetails = (req) => ({
+    userAgent: (req.get('user-agent') || '').slice(0, 300),
+    ip: req.ip,
+});
+
+// Starts a session for a user who just proved who they are.
+// Returns { session, refreshToken }.
+sessionSchema.statics.start = async function (user, req) {
+    const secret = crypto.randomBytes(32).toString('hex');
+    const session = await this.create({
+        user: user._id,
+        tokenHash: hashToken(secret),
+        expiresAt: new Date(Date.now() + refreshLifetime()),
+        ...clientDetails(req),
+    });
+
+    return { session, refreshToken: `${session._id}.${secret}` };
+};
+
+// Exchanges a refresh token for a new one. Returns { session, refreshToken },
+// or null when the token is unknown, expired, revoked or replayed.
+sessionSchema.statics.rotate = async function (refreshToken, req) {
+    const [id, secret] = String(refreshToken || '').split('.');
+    if (!secret || !mongoose.isValidObjectId(id)) {
+        return null;
+    }
+
+    const session = await this.findById(id);
+    if (!session || !session.isActive) {
+        return null;
+    }
+
+    const presented = hashToken(secret);
+    if (presented === session.previousTokenHash) {
+        if (Date.now() - session.lastUsedAt.getTime() > REUSE_GRACE_MS) {
+            await session.revoke('reuse');
+        }
+        return null;
+    }
+
+    const nextSecret = crypto.randomBytes(32).toString('hex');
+    // Conditional on the current hash so two concurrent refreshes cannot both win
+    const rotated = await this.findOneAndUpdate(
+        { _id: session._id, tokenHash: presented, revokedAt: null },
+        {
+            tokenHash: hashToken(nextSecret),
+            previousTokenHash: presented,
+            lastUsedAt: new Date(),
+            expiresAt: new Date(Date.now() + refreshLifetime()),
+            ...clientDetails(req),
+        },
+        { new: true }
+    );
+
+    return rotated ? { session: rotated, refreshToken: `${rotated._id}.${nextSecret}` } : null;
+};
+
+// The session a current refresh token belongs to, or null
+sessionSchema.statics.findByToken = function (refreshToken) {
+    const [id, secret] = String(refreshToken || '').split('.');
+    if (!secret || !mongoose.isValidObjectId(id)) {
+        return Promise.resolve(null);
+    }
+    return this.findOne({ _id: id, tokenHash: hashToken(secret) });
+};
+
+sessionSchema.methods.revoke = function (reason = 'revoked') {
+    this.revokedAt = new Date();
+    this.revokedReason = reason;
+    return this.save();
+};
+
+// Revokes every active session of a user, optionally keeping one
+sessionSchema.statics.revokeAll = function (userId, reason = 'revoked', exceptId = null) {
+    const filter = { user: userId, revokedAt: null };
+    if (exceptId) {
+        filter._id = { $ne: exceptId };
+    }
+    return this.updateMany(filter, { revokedAt: new Date(), revokedReason: reason });
+};
+
+const Session = mongoose.model('Session', sessionSchema);
+
+export default Session;
@@ -0,0 +1,46 @@
+import mongoose from 'mongoose';
+
+// A member moving between pipeline stages or categories, kept for their
+// history and for time-in-stage reporting. Never edited once written.
+const stageTransitionSchema = mongoose.Schema({
+    member: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Member',
+        required: true,
+    },
+    // Empty when the member enters the pipeline for the first time
+    fromStage: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'PipelineStage',
+    },
+    // Empty, like fromStage, for a category changed on the member's record
+    // rather than through the pipeline
+    toStage: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'PipelineStage',
+    },
+    fromCategory: { type: String },
+    toCategory: { type: String },
+    // How long the member was in fromStage
+    daysInStage: { type: Number },
+    // Entry criteria or follow-up steps an admin moved the member past
+    overridden: [{ type: String }],
+    // The member's center at the time, so metrics can be scoped like the member list
+    auxanoCenter: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'AuxanoCenter',
+    },
+    movedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+    },
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: false },
+});
+
+stageTransitionSchema.index({ member: 1, created_at: -1 });
+stageTransitionSchema.index({ fromStage: 1, created_at: -1 });
+
+const StageTransition = mongoose.model('StageTransition', stageTransitionSchema);
+
+export default StageTransition;
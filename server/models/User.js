@@ -24,6 +24,35 @@ const userSchema = mongoose.Schema({
         type: mongoose.Schema.Types.ObjectId,
         ref: 'AuxanoCenter',
     },
+    // Set once the user follows the link sent to their address
+    emailVerifiedAt: {
+        type: Date,
+    },
+    // TOTP second factor. The secrets and recovery code hashes are only loaded
+    // when asked for explicitly.
+    twoFactorEnabled: {
+        type: Boolean,
+        default: false,
+    },
+    twoFactorSecret: { type: String, select: false },
+    // Generated during enrolment, promoted to twoFactorSecret once a code from it is confirmed
+    twoFactorPendingSecret: { type: String, select: false },
+    twoFactorRecoveryCodes: { type: [String], select: false },
+    // Time step of the last accepted code, so the same code can't be used twice
+    twoFactorLastStep: { type: Number, select: false },
+    // Failed sign ins since the last success, used to slow down and lock out guessing
+    failedLoginAttempts: {
+        type: Number,
+        default: 0,
+    },
+    lastFailedLoginAt: { type: Date },
+    lockedUntil: { type: Date },
+    // Deactivated accounts keep their history but can't sign in
+    isActive: {
+        type: Boolean,
+        default: true,
+    },
+    deactivatedAt: { type: Date },
 }, {
     timestamps: true,
 });
@@ -34,7 +63,7 @@ userSchema.methods.matchPassword = async function (enteredPassword) {
 
 userSchema.pre('save', async function (next) {
     if (!this.isModified('password')) {
-        next();
+        return next();
     }
 
     const salt = await bcrypt.genSalt(10);
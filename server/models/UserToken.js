@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+
+const PURPOSES = ['reset-password', 'verify-email'];
+
+// One emailed link. The link carries a JWT signed for a single purpose; its
+// jti points at this record, which is marked used the first time it is redeemed.
+const userTokenSchema = mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+    },
+    purpose: {
+        type: String,
+        enum: PURPOSES,
+        required: true,
+    },
+    jti: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    expiresAt: {
+        type: Date,
+        required: true,
+    },
+    usedAt: { type: Date },
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+});
+
+userTokenSchema.index({ user: 1, purpose: 1 });
+userTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+// Issues a signed token, retiring any earlier unused one for the same purpose.
+// ttl is in seconds.
+userTokenSchema.statics.issue = async function (user, purpose, ttl) {
+    const jti = crypto.randomBytes(16).toString('hex');
+
+    await this.updateMany({ user: user._id, purpose, usedAt: null }, { usedAt: new Date() });
+    await this.create({
+        user: user._id,
+        purpose,
+        jti,
+        expiresAt: new Date(Date.now() + ttl * 1000),
+    });
+
+    return jwt.sign({ id: user._id, purpose }, process.env.JWT_SECRET, { expiresIn: ttl, jwtid: jti });
+};
+
+// Redeems a token for the given purpose. Returns the user id, or null when the
+// token is forged, expired, meant for something else or already used.
+userTokenSchema.statics.consume = async function (token, purpose) {
+    let payload;
+    try {
+        payload = jwt.verify(String(token || ''), process.env.JWT_SECRET);
+    } catch (error) {
+        return null;
+    }
+
+    if (payload.purpose !== purpose || !payload.jti) {
+        return null;
+    }
+
+    const record = await this.findOneAndUpdate(
+        { jti: payload.jti, purpose, user: payload.id, usedAt: null },
+        { usedAt: new Date() },
+        { new: true }
+    );
+
+    return record ? record.user : null;
+};
+
+const UserToken = mongoose.model('UserToken', userTokenSchema);
+
+export default UserToken;
@@ -0,0 +1,23 @@
+import express from 'express';
+import {
+    getSuperAdmins,
+    addSuperAdmin,
+    removeSuperAdmin,
+    getSuperAdminHistory,
+} from '../controllers/superAdminController.js';
+import { getAuditLogs } from '../controllers/auditLogController.js';
+import { protect, requirePermission, requirePassword } from '../middleware/authMiddleware.js';
+
+const router = express.Router();
+
+const isSystemAdmin = requirePermission('system_admin');
+const canViewAuditLog = requirePermission('view_audit_log');
+
+router.route('/superadmin')
+    .get(protect, isSystemAdmin, getSuperAdmins)
+    .post(protect, isSystemAdmin, requirePassword, addSuperAdmin);
+router.get('/superadmin/history', protect, isSystemAdmin, getSuperAdminHistory);
+router.delete('/superadmin/:userId', protect, isSystemAdmin, requirePassword, removeSuperAdmin);
+router.get('/audit-logs', protect, canViewAuditLog, getAuditLogs);
+
+export default router;
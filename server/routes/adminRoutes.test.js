@@ -0,0 +1,129 @@
+import { before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import adminRoutes from './adminRoutes.js';
+import AuditLog from '../models/AuditLog.js';
+import Profile from '../models/Profile.js';
+import User from '../models/User.js';
+import { mockSignIn, serveRoutes } from './testHelpers.js';
+
+// The superadmin management routes, with users promoted and demoted in memory.
+
+const PASSWORD = 'correct horse';
+
+let users;
+let audit;
+
+const { request } = serveRoutes('/api/admin', adminRoutes);
+
+const superadminCount = () => Object.values(users).filter((user) => user.role === 'superadmin').length;
+
+before(() => {
+    const byId = (id) => Object.values(users).find((user) => String(user._id) === String(id)) || null;
+    const matches = (user, filter) => (!filter._id || String(user._id) === String(filter._id))
+        && (!filter.role || user.role === filter.role)
+        && (!filter.email || user.email === filter.email);
+
+    mockSignIn(byId);
+    mock.method(User, 'findOne', async (filter) => Object.values(users).find((user) => matches(user, filter)) || null);
+    mock.method(User, 'countDocuments', async () => superadminCount());
+    mock.method(User, 'findOneAndUpdate', async (filter, update) => {
+        const user = Object.values(users).find((candidate) => matches(candidate, filter));
+        if (user) {
+            user.role = update.role;
+        }
+        return user || null;
+    });
+    mock.method(User, 'updateOne', async (filter, update) => {
+        byId(filter._id).role = update.role;
+    });
+    mock.method(User.prototype, 'matchPassword', async (password) => password === PASSWORD);
+    mock.method(User.prototype, 'save', async function () {
+        return this;
+    });
+    mock.method(Profile, 'findOne', () => ({ select: async () => null }));
+    mock.method(AuditLog, 'create', async (entry) => {
+        audit.push(entry);
+        return entry;
+    });
+});
+
+beforeEach(() => {
+    users = {
+        owner: new User({ email: 'owner@example.com', password: 'x', role: 'superadmin' }),
+        admin: new User({ email: 'admin@example.com', password: 'x', role: 'admin' }),
+    };
+    audit = [];
+});
+
+describe('superadmin management', () => {
+    it('is only open to superadmins', async () => {
+        const response = await request('GET', '/superadmin', { as: users.admin });
+        assert.equal(response.status, 403);
+    });
+
+    it('lists superadmins oldest first with when they joined', async (t) => {
+        users.owner.createdAt = new Date('2025-01-02T00:00:00Z');
+        let query;
+        t.mock.method(User, 'find', () => {
+            const chain = {
+                select: (fields) => {
+                    query = { ...query, fields };
+                    return chain;
+                },
+                sort: (sort) => {
+                    query = { ...query, sort };
+                    return chain;
+                },
+                then: (resolve) => resolve([users.owner]),
+            };
+            return chain;
+        });
+
+        const response = await request('GET', '/superadmin', { as: users.owner });
+        assert.equal(response.status, 200);
+        assert.deepEqual(query, { fields: 'email createdAt', sort: { createdAt: 1 } });
+        assert.equal(response.body[0].createdAt, '2025-01-02T00:00:00.000Z');
+    });
+
+    it('requires the acting user to re-enter their password', async () => {
+        const missing = await request('POST', '/superadmin', { as: users.owner, body: { email: users.admin.email } });
+        assert.equal(missing.status, 400);
+
+        const wrong = await request('POST', '/superadmin', {
+            as: users.owner,
+            body: { email: users.admin.email, password: 'guess' },
+        });
+        assert.equal(wrong.status, 403);
+        assert.equal(users.admin.role, 'admin');
+        assert.equal(audit.length, 0);
+    });
+
+    it('promotes and demotes, recording both in the audit trail', async () => {
+        const added = await request('POST', '/superadmin', {
+            as: users.owner,
+            body: { email: users.admin.email, password: PASSWORD },
+        });
+        assert.equal(added.status, 201);
+        assert.equal(users.admin.role, 'superadmin');
+
+        const removed = await request('DELETE', `/superadmin/${users.admin._id}`, {
+            as: users.owner,
+            body: { password: PASSWORD },
+        });
+        assert.equal(removed.status, 200);
+        assert.equal(users.admin.role, 'admin');
+
+        assert.deepEqual(audit.map((entry) => entry.action), ['superadmin.grant', 'superadmin.revoke']);
+        assert.equal(String(audit[0].actor), String(users.owner._id));
+    });
+
+    it('never removes the last superadmin', async () => {
+        const response = await request('DELETE', `/superadmin/${users.owner._id}`, {
+            as: users.owner,
+            body: { password: PASSWORD },
+        });
+        assert.equal(response.status, 400);
+        assert.equal(users.owner.role, 'superadmin');
+        assert.equal(audit.length, 0);
+    });
+});
@@ -0,0 +1,10 @@
+import express from 'express';
+import { getMemberGrowth, getPipelineMetrics } from '../controllers/analyticsController.js';
+import { protect, requirePermission } from '../middleware/authMiddleware.js';
+
+const router = express.Router();
+
+router.get('/growth', protect, requirePermission('view_analytics'), getMemberGrowth);
+router.get('/pipeline', protect, requirePermission('view_analytics'), getPipelineMetrics);
+
+export default router;
@@ -0,0 +1,65 @@
+import { before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import analyticsRoutes from './analyticsRoutes.js';
+import Member from '../models/Member.js';
+import PipelineStage from '../models/PipelineStage.js';
+import StageTransition from '../models/StageTransition.js';
+import { oid, mockSignIn, serveRoutes } from './testHelpers.js';
+
+// The analytics routes, checking the pipelines that are handed to Mongo.
+
+const admin = { _id: oid(), role: 'admin' };
+
+let pipeline;
+
+const { request } = serveRoutes('/api/analytics', analyticsRoutes, { as: admin });
+
+before(() => {
+    mockSignIn(() => admin);
+    mock.method(Member, 'aggregate', async (stages) => {
+        pipeline = stages;
+        return [{
+            joined: [],
+            churned: [],
+            baseline: [],
+            previousJoined: [],
+            previousChurned: [],
+            totals: [],
+            byCategory: [],
+            byUnit: [],
+            byAuxanoCenter: [],
+        }];
+    });
+    mock.method(Member, 'distinct', async () => []);
+    mock.method(StageTransition, 'aggregate', async () => []);
+    mock.method(PipelineStage, 'find', () => ({ sort: async () => [] }));
+});
+
+beforeEach(() => {
+    pipeline = null;
+});
+
+describe('analytics', () => {
+    it('answers 400 for a malformed Auxano center', async () => {
+        for (const path of ['/growth', '/pipeline']) {
+            const response = await request('GET', `${path}?auxanoCenter=not-an-id`);
+            assert.equal(response.status, 400);
+            assert.equal(response.body.message, 'Invalid Auxano center');
+        }
+    });
+
+    it('narrows growth to a valid Auxano center', async () => {
+        const center = oid();
+        const response = await request('GET', `/growth?auxanoCenter=${center}`);
+        assert.equal(response.status, 200);
+        assert.equal(String(pipeline[0].$match.$and[1].auxanoCenter), String(center));
+    });
+
+    it('counts members as active by their status, with or without a deactivation date', async () => {
+        await request('GET', '/growth');
+        const { baseline, totals } = pipeline.find((stage) => stage.$facet).$facet;
+
+        assert.deepEqual(baseline[0].$match.$or[0], { isactive: { $ne: false } });
+        assert.deepEqual(totals[0].$group.active, { $sum: { $cond: [{ $ne: ['$isactive', false] }, 1, 0] } });
+    });
+});
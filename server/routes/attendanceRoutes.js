@@ -0,0 +1,25 @@
+import express from 'express';
+import {
+    checkInMembers,
+    checkInVisitor,
+    getAttendance,
+    getMemberAttendance,
+    getAttendanceSummary,
+    deleteAttendance,
+} from '../controllers/attendanceController.js';
+import { protect, requirePermission } from '../middleware/authMiddleware.js';
+import { scopedMember } from '../middleware/memberScopeMiddleware.js';
+
+const router = express.Router();
+
+const canView = requirePermission('view_attendance');
+const canRecord = requirePermission('record_attendance');
+
+router.get('/', protect, canView, getAttendance);
+router.get('/summary', protect, canView, getAttendanceSummary);
+router.get('/member/:memberId', protect, canView, scopedMember('memberId'), getMemberAttendance);
+router.post('/check-in', protect, canRecord, checkInMembers);
+router.post('/visitors', protect, canRecord, checkInVisitor);
+router.delete('/:id', protect, canRecord, deleteAttendance);
+
+export default router;
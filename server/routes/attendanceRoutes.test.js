@@ -0,0 +1,161 @@
+import { before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import attendanceRoutes from './attendanceRoutes.js';
+import Attendance from '../models/Attendance.js';
+import Member from '../models/Member.js';
+import Unit from '../models/Unit.js';
+import { oid, mockSignIn, serveRoutes } from './testHelpers.js';
+
+// The attendance routes' scoping.
+
+const centerA = oid();
+const centerB = oid();
+
+const users = {
+    admin: { _id: oid(), role: 'admin' },
+    pastor: { _id: oid(), role: 'pastor', assignedAuxanoCenter: centerA },
+    roaming: { _id: oid(), role: 'pastor' },
+};
+
+const members = {
+    inCenter: new Member({ fullname: 'In Center', auxanoCenter: centerA }),
+    elsewhere: new Member({ fullname: 'Elsewhere', auxanoCenter: centerB }),
+    roamingFlock: new Member({ fullname: 'Assigned', auxanoCenter: centerB, assignedto: String(users.roaming._id) }),
+};
+
+const records = {
+    inCenter: new Attendance({ member: members.inCenter._id, serviceDate: new Date('2026-01-04') }),
+    elsewhere: new Attendance({ member: members.elsewhere._id, serviceDate: new Date('2026-01-04') }),
+};
+
+let written;
+let created;
+let deleted;
+let attendanceFilter;
+let householdFilter;
+
+const { request } = serveRoutes('/api/attendance', attendanceRoutes);
+
+before(() => {
+    const byId = (collection) => (id) => Object.values(collection).find((doc) => String(doc._id) === String(id)) || null;
+    const query = (result) => ({ select: async () => result, then: (resolve) => resolve(result) });
+
+    mockSignIn(byId(users));
+    mock.method(Unit, 'find', () => ({ select: async () => [] }));
+    mock.method(Member, 'findById', (id) => query(byId(members)(id)));
+    mock.method(Member, 'find', (filter) => {
+        if (filter.$and) {
+            householdFilter = filter;
+            return query([]);
+        }
+        const ids = filter._id.$in.map(String);
+        return query(Object.values(members).filter((member) => ids.includes(String(member._id))));
+    });
+    mock.method(Member, 'distinct', async () => [members.inCenter._id]);
+    mock.method(Member.prototype, 'save', async function () {
+        created.push(this);
+        return this;
+    });
+    mock.method(Attendance, 'bulkWrite', async (operations) => {
+        written.push(...operations);
+        return { upsertedCount: operations.length };
+    });
+    mock.method(Attendance, 'create', async (record) => record);
+    mock.method(Attendance, 'findById', async (id) => byId(records)(id));
+    mock.method(Attendance, 'countDocuments', async () => 0);
+    mock.method(Attendance, 'find', (filter) => {
+        attendanceFilter = filter;
+        const chain = {
+            populate: () => chain,
+            sort: () => chain,
+            limit: () => chain,
+            then: (resolve) => resolve([]),
+        };
+        return chain;
+    });
+    mock.method(Attendance.prototype, 'deleteOne', async function () {
+        deleted.push(this);
+    });
+});
+
+beforeEach(() => {
+    written = [];
+    created = [];
+    deleted = [];
+    attendanceFilter = null;
+    householdFilter = null;
+});
+
+describe('attendance scoping', () => {
+    it('checks in members the pastor can reach', async () => {
+        const response = await request('POST', '/check-in', {
+            as: users.pastor,
+            body: { memberIds: [String(members.inCenter._id)] },
+        });
+        assert.equal(response.status, 201);
+        assert.equal(written.length, 1);
+    });
+
+    it('refuses check-ins of members out of reach, even for a pastor without a center', async () => {
+        for (const as of [users.pastor, users.roaming]) {
+            const response = await request('POST', '/check-in', {
+                as,
+                body: { memberIds: [String(members.inCenter._id), String(members.elsewhere._id)] },
+            });
+            assert.equal(response.status, 404);
+        }
+        assert.equal(written.length, 0);
+    });
+
+    it('only brings along household members in reach', async () => {
+        const response = await request('POST', '/check-in', {
+            as: users.roaming,
+            body: { householdIds: [String(oid())] },
+        });
+        assert.equal(response.status, 400);
+        assert.deepEqual(householdFilter.$and[1], { $or: [{ assignedto: String(users.roaming._id) }] });
+    });
+
+    it('keeps visitors inside the pastor\'s scope', async () => {
+        const refused = await request('POST', '/visitors', {
+            as: users.pastor,
+            body: { fullname: 'New Face', auxanoCenter: String(centerB) },
+        });
+        assert.equal(refused.status, 403);
+        assert.equal(created.length, 0);
+
+        const own = await request('POST', '/visitors', { as: users.pastor, body: { fullname: 'New Face' } });
+        assert.equal(own.status, 201);
+        assert.equal(String(created[0].auxanoCenter), String(centerA));
+
+        const assigned = await request('POST', '/visitors', { as: users.roaming, body: { fullname: 'Other Face' } });
+        assert.equal(assigned.status, 201);
+        assert.equal(created[1].assignedto, String(users.roaming._id));
+    });
+
+    it('limits session lists to members in reach', async () => {
+        const response = await request('GET', '/?serviceDate=2026-01-04', { as: users.roaming });
+        assert.equal(response.status, 200);
+        assert.deepEqual(attendanceFilter.member.$in.map(String), [String(members.inCenter._id)]);
+    });
+
+    it('shows every check-in of a member in reach, main services included', async () => {
+        const response = await request('GET', `/member/${members.inCenter._id}`, { as: users.pastor });
+        assert.equal(response.status, 200);
+        assert.deepEqual(attendanceFilter, { member: members.inCenter._id });
+    });
+
+    it('only removes check-ins of members in reach', async () => {
+        const hidden = await request('DELETE', `/${records.elsewhere._id}`, { as: users.pastor });
+        assert.equal(hidden.status, 404);
+
+        const removed = await request('DELETE', `/${records.inCenter._id}`, { as: users.pastor });
+        assert.equal(removed.status, 200);
+        assert.deepEqual(deleted, [records.inCenter]);
+    });
+
+    it('answers 400 for a malformed check-in id', async () => {
+        const response = await request('DELETE', '/not-an-id', { as: users.admin });
+        assert.equal(response.status, 400);
+    });
+});
@@ -2,18 +2,104 @@ import express from 'express';
 import {
     authUser,
     registerUser,
+    refreshSession,
+    logoutUser,
+    forgotPassword,
+    resetPassword,
+    verifyEmail,
+    resendVerification,
     getUserProfile,
+    getPermissions,
     createUser,
     getUsers,
+    unlockUser,
 } from '../controllers/authController.js';
-import { protect, admin } from '../middleware/authMiddleware.js';
+import {
+    getUserById,
+    updateUser,
+    changeUserRole,
+    deactivateUser,
+    reactivateUser,
+    deleteUser,
+} from '../controllers/userController.js';
+import {
+    getMySessions,
+    revokeOtherSessions,
+    revokeSession,
+    getUserSessions,
+    revokeUserSessions,
+} from '../controllers/sessionController.js';
+import {
+    createInvitation,
+    getInvitations,
+    resendInvitation,
+    revokeInvitation,
+    lookupInvitation,
+    acceptInvitation,
+} from '../controllers/invitationController.js';
+import {
+    getTwoFactorStatus,
+    verifyTwoFactor,
+    setupTwoFactor,
+    enableTwoFactor,
+    disableTwoFactor,
+    regenerateRecoveryCodes,
+} from '../controllers/twoFactorController.js';
+import { getLoginAttempts, getLoginSummary } from '../controllers/loginAttemptController.js';
+import User from '../models/User.js';
+import { protect, protectOrChallenge, requirePermission } from '../middleware/authMiddleware.js';
+import { audited } from '../middleware/auditMiddleware.js';
 
 const router = express.Router();
 
+const canUpdateSelf = requirePermission('update_own_profile');
+const canManageUsers = requirePermission('manage_users');
+const isSystemAdmin = requirePermission('system_admin');
+
 router.post('/register', registerUser);
 router.post('/login', authUser);
-router.get('/profile', protect, getUserProfile);
-router.post('/create-user', protect, admin, createUser);
-router.get('/users', protect, admin, getUsers);
+router.post('/refresh', refreshSession);
+router.post('/logout', logoutUser);
+router.post('/forgot-password', forgotPassword);
+router.post('/reset-password', resetPassword);
+router.post('/verify-email', verifyEmail);
+router.post('/verify-email/resend', protect, canUpdateSelf, resendVerification);
+router.get('/profile', protect, requirePermission('read_profile'), getUserProfile);
+router.get('/permissions', protect, getPermissions);
+router.post('/create-user', protect, canManageUsers, audited('user.create', User, { pick: (body) => body.user }), createUser);
+router.get('/users', protect, canManageUsers, getUsers);
+router.route('/users/:id')
+    .get(protect, canManageUsers, getUserById)
+    .put(protect, canManageUsers, updateUser)
+    .delete(protect, canManageUsers, deleteUser);
+router.put('/users/:id/role', protect, canManageUsers, changeUserRole);
+router.post('/users/:id/deactivate', protect, canManageUsers, deactivateUser);
+router.post('/users/:id/reactivate', protect, canManageUsers, reactivateUser);
+router.post('/users/:id/unlock', protect, canManageUsers, unlockUser);
+router.get('/login-attempts', protect, isSystemAdmin, getLoginAttempts);
+router.get('/login-attempts/summary', protect, isSystemAdmin, getLoginSummary);
+
+router.route('/sessions')
+    .get(protect, canUpdateSelf, getMySessions)
+    .delete(protect, canUpdateSelf, revokeOtherSessions);
+router.delete('/sessions/:id', protect, canUpdateSelf, revokeSession);
+router.route('/users/:id/sessions')
+    .get(protect, isSystemAdmin, getUserSessions)
+    .delete(protect, isSystemAdmin, revokeUserSessions);
+
+router.get('/2fa', protect, canUpdateSelf, getTwoFactorStatus);
+router.post('/2fa/verify', verifyTwoFactor);
+router.post('/2fa/setup', protectOrChallenge('2fa-setup'), canUpdateSelf, setupTwoFactor);
+router.post('/2fa/enable', protectOrChallenge('2fa-setup'), canUpdateSelf, enableTwoFactor);
+router.post('/2fa/disable', protect, canUpdateSelf, disableTwoFactor);
+router.post('/2fa/recovery-codes', protect, canUpdateSelf, regenerateRecoveryCodes);
+
+router.route('/invitations')
+    .get(protect, canManageUsers, getInvitations)
+    .post(protect, canManageUsers, createInvitation);
+router.post('/invitations/lookup', lookupInvitation);
+router.post('/invitations/accept', acceptInvitation);
+router.post('/invitations/:id/resend', protect, canManageUsers, resendInvitation);
+router.delete('/invitations/:id', protect, canManageUsers, revokeInvitation);
 
 export default router;
@@ -0,0 +1,430 @@
+import crypto from 'crypto';
+import { before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import jwt from 'jsonwebtoken';
+import { authenticator } from 'otplib';
+import authRoutes from './authRoutes.js';
+import AuditLog from '../models/AuditLog.js';
+import Invitation from '../models/Invitation.js';
+import LoginAttempt from '../models/LoginAttempt.js';
+import Profile from '../models/Profile.js';
+import Session from '../models/Session.js';
+import User from '../models/User.js';
+import { createRecoveryCodes } from '../utils/twoFactor.js';
+import { oid, tokenFor, mockSignIn, serveRoutes } from './testHelpers.js';
+
+// The two-step login, 2FA enrolment, login throttling and refresh token
+// rotation.
+
+const PASSWORD = 'correct horse';
+const secret = authenticator.generateSecret();
+const recovery = createRecoveryCodes();
+
+const users = {
+    plain: new User({ email: 'plain@example.com', password: 'x', role: 'user' }),
+    enrolled: new User({
+        email: 'enrolled@example.com',
+        password: 'x',
+        role: 'pastor',
+        twoFactorEnabled: true,
+        twoFactorSecret: secret,
+        twoFactorRecoveryCodes: recovery.hashes,
+    }),
+    admin: new User({ email: 'admin@example.com', password: 'x', role: 'admin' }),
+    guessed: new User({ email: 'guessed@example.com', password: 'x', role: 'user' }),
+    member: new User({ email: 'member@example.com', password: 'x', role: 'user' }),
+    owner: new User({ email: 'owner@example.com', password: 'x', role: 'superadmin' }),
+    coOwner: new User({ email: 'co-owner@example.com', password: 'x', role: 'superadmin' }),
+    // Made an admin after signing in, and hasn't set up 2FA yet
+    promoted: new User({ email: 'promoted@example.com', password: 'x', role: 'admin' }),
+};
+
+// Logged attempts, newest last
+let attempts = [];
+let audit = [];
+let revokedSessions = [];
+
+const { request } = serveRoutes('/api/auth', authRoutes);
+
+const login = (user) => request('POST', '/login', { body: { email: user.email, password: PASSWORD } });
+
+before(() => {
+    const byId = (id) => Object.values(users).find((user) => String(user._id) === String(id)) || null;
+
+    mock.method(User, 'findOne', async ({ email }) => Object.values(users).find((user) => user.email === email) || null);
+    mockSignIn(byId);
+    mock.method(User, 'findOneAndUpdate', async (filter, update) => {
+        const user = byId(filter._id);
+        user.failedLoginAttempts += update.$inc.failedLoginAttempts;
+        user.lastFailedLoginAt = update.lastFailedLoginAt;
+        return user;
+    });
+    // Just enough of updateOne for the conditional updates the 2FA code makes
+    mock.method(User, 'updateOne', async (filter, update) => {
+        const user = byId(filter._id);
+        if (filter.twoFactorRecoveryCodes && !user.twoFactorRecoveryCodes.includes(filter.twoFactorRecoveryCodes)) {
+            return { modifiedCount: 0 };
+        }
+        if (filter.$or && user.twoFactorLastStep >= update.twoFactorLastStep) {
+            return { modifiedCount: 0 };
+        }
+        if (update.$pull) {
+            user.twoFactorRecoveryCodes.pull(update.$pull.twoFactorRecoveryCodes);
+        } else {
+            const { $unset, ...fields } = update;
+            user.set(fields);
+            Object.keys($unset || {}).forEach((field) => user.set(field, undefined));
+        }
+        return { modifiedCount: 1 };
+    });
+    mock.method(User.prototype, 'matchPassword', async (password) => password === PASSWORD);
+    mock.method(User.prototype, 'save', async function () {
+        return this;
+    });
+    mock.method(Profile, 'findOne', async () => null);
+    mock.method(LoginAttempt, 'create', async (attempt) => {
+        attempts.push({ ...attempt, created_at: new Date() });
+    });
+    mock.method(LoginAttempt, 'find', (filter) => {
+        const matching = attempts
+            .filter((attempt) => attempt.ip === filter.ip && filter.reason.$in.includes(attempt.reason))
+            .reverse();
+        const chain = {
+            sort: () => chain,
+            limit: (limit) => ({ select: async () => matching.slice(0, limit) }),
+        };
+        return chain;
+    });
+    mock.method(Session, 'start', async (user) => ({ session: { _id: user._id }, refreshToken: 'refresh' }));
+    mock.method(Session, 'updateMany', async (filter, update) => {
+        revokedSessions.push({ user: filter.user, reason: update.revokedReason });
+    });
+    mock.method(AuditLog, 'create', async (entry) => {
+        audit.push(entry);
+        return entry;
+    });
+});
+
+beforeEach(() => {
+    attempts = [];
+    audit = [];
+    revokedSessions = [];
+});
+
+describe('login without two-factor', () => {
+    it('signs in with the password alone', async () => {
+        const response = await login(users.plain);
+        assert.equal(response.status, 200);
+        assert.ok(response.body.token);
+        assert.equal(response.body.user.twoFactorEnabled, false);
+    });
+});
+
+describe('login with two-factor enabled', () => {
+    it('answers the password with a challenge instead of tokens', async () => {
+        const response = await login(users.enrolled);
+        assert.equal(response.status, 200);
+        assert.equal(response.body.twoFactorRequired, true);
+        assert.equal(response.body.token, undefined);
+    });
+
+    it('does not accept the challenge token as an access token', async () => {
+        const { body } = await login(users.enrolled);
+        const response = await request('GET', '/profile', { token: body.challengeToken });
+        assert.equal(response.status, 401);
+    });
+
+    it('signs in with an authenticator code, once', async () => {
+        const { body } = await login(users.enrolled);
+
+        const wrong = await request('POST', '/2fa/verify', { body: { challengeToken: body.challengeToken, code: '000000' } });
+        assert.equal(wrong.status, 401);
+
+        const code = authenticator.generate(secret);
+        const response = await request('POST', '/2fa/verify', { body: { challengeToken: body.challengeToken, code } });
+        assert.equal(response.status, 200);
+        assert.ok(response.body.token);
+
+        const replayed = await request('POST', '/2fa/verify', { body: { challengeToken: body.challengeToken, code } });
+        assert.equal(replayed.status, 401);
+
+        // Nor with a fresh password login: the code's time step is spent
+        const again = await login(users.enrolled);
+        const replayedLater = await request('POST', '/2fa/verify', { body: { challengeToken: again.body.challengeToken, code } });
+        assert.equal(replayedLater.status, 401);
+    });
+
+    it('signs in with a recovery code, once', async () => {
+        const { body } = await login(users.enrolled);
+        const recoveryCode = recovery.codes[0].toUpperCase();
+
+        const response = await request('POST', '/2fa/verify', { body: { challengeToken: body.challengeToken, recoveryCode } });
+        assert.equal(response.status, 200);
+        assert.equal(response.body.recoveryCodesRemaining, recovery.codes.length - 1);
+
+        const reused = await request('POST', '/2fa/verify', { body: { challengeToken: body.challengeToken, recoveryCode } });
+        assert.equal(reused.status, 401);
+    });
+});
+
+describe('roles that require two-factor', () => {
+    it('must enrol before the login completes', async () => {
+        const { body } = await login(users.admin);
+        assert.equal(body.twoFactorSetupRequired, true);
+        assert.equal(body.token, undefined);
+
+        const setup = await request('POST', '/2fa/setup', { body: { challengeToken: body.challengeToken } });
+        assert.equal(setup.status, 200);
+        assert.match(setup.body.qrCode, /^data:image\/png;base64,/);
+
+        const enabled = await request('POST', '/2fa/enable', {
+            body: { challengeToken: body.challengeToken, code: authenticator.generate(setup.body.secret) },
+        });
+        assert.equal(enabled.status, 200);
+        assert.ok(enabled.body.token);
+        assert.equal(enabled.body.recoveryCodes.length, 10);
+        assert.equal(users.admin.twoFactorEnabled, true);
+    });
+
+    it('cannot turn two-factor off', async () => {
+        const response = await request('POST', '/2fa/disable', {
+            token: tokenFor(users.admin),
+            body: { password: PASSWORD, code: authenticator.generate(users.admin.twoFactorSecret) },
+        });
+        assert.equal(response.status, 403);
+        assert.equal(users.admin.twoFactorEnabled, true);
+    });
+});
+
+describe('login throttling', () => {
+    const wrongPassword = (user) => request('POST', '/login', { body: { email: user.email, password: 'wrong' } });
+
+    it('logs successful and failed logins', async () => {
+        await wrongPassword(users.plain);
+        assert.equal(users.plain.failedLoginAttempts, 1);
+        await login(users.plain);
+        await request('POST', '/login', { body: { email: 'nobody@example.com', password: 'wrong' } });
+
+        assert.deepEqual(attempts.map((attempt) => attempt.reason), ['invalid-password', 'success', 'unknown-email']);
+        assert.equal(users.plain.failedLoginAttempts, 0, 'a success resets the count');
+    });
+
+    it('slows an account down after a few failures', async () => {
+        for (let i = 0; i < 4; i += 1) {
+            assert.equal((await wrongPassword(users.guessed)).status, 401);
+        }
+
+        const response = await login(users.guessed);
+        assert.equal(response.status, 429);
+        assert.match(response.body.message, /try again in/);
+        assert.equal(attempts.at(-1).reason, 'throttled');
+    });
+
+    it('locks the account at the limit and an admin can unlock it', async () => {
+        users.guessed.set({ failedLoginAttempts: 9, lastFailedLoginAt: new Date(0) });
+        await wrongPassword(users.guessed);
+
+        const locked = await login(users.guessed);
+        assert.equal(locked.status, 423);
+        assert.ok(users.guessed.lockedUntil > new Date());
+
+        mock.method(User, 'findByIdAndUpdate', (id, update) => {
+            const user = users.guessed;
+            user.set({ failedLoginAttempts: update.failedLoginAttempts, lockedUntil: undefined, lastFailedLoginAt: undefined });
+            return { select: async () => user };
+        });
+        const unlocked = await request('POST', `/users/${users.guessed._id}/unlock`, { token: tokenFor(users.admin) });
+        assert.equal(unlocked.status, 200);
+        assert.equal(audit.at(-1).action, 'user.unlock');
+        assert.ok(audit.at(-1).changes.lockedUntil.from > new Date());
+
+        assert.equal((await login(users.guessed)).status, 200);
+    });
+
+    it('slows down an address guessing across accounts', async () => {
+        for (let i = 0; i < 11; i += 1) {
+            await request('POST', '/login', { body: { email: `nobody${i}@example.com`, password: 'wrong' } });
+        }
+
+        const response = await login(users.plain);
+        assert.equal(response.status, 429);
+    });
+
+    it('counts wrong 2FA codes against the account', async () => {
+        users.enrolled.set({ failedLoginAttempts: 0, lastFailedLoginAt: undefined });
+        const { body } = await login(users.enrolled);
+        await request('POST', '/2fa/verify', { body: { challengeToken: body.challengeToken, code: '000000' } });
+
+        assert.equal(users.enrolled.failedLoginAttempts, 1);
+        assert.equal(attempts.at(-1).reason, 'invalid-2fa-code');
+    });
+});
+
+describe('refresh tokens', () => {
+    let sessions;
+
+    // A signed-in device for `user`, and the refresh token the client holds
+    const signIn = (user) => {
+        const secret = crypto.randomBytes(8).toString('hex');
+        const session = new Session({
+            user: user._id,
+            tokenHash: crypto.createHash('sha256').update(secret).digest('hex'),
+            expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        });
+        sessions.set(String(session._id), session);
+        return { session, refreshToken: `${session._id}.${secret}` };
+    };
+
+    const refresh = (refreshToken) => request('POST', '/refresh', { body: { refreshToken } });
+
+    beforeEach((t) => {
+        sessions = new Map();
+        t.mock.method(Session, 'findById', async (id) => sessions.get(String(id)) || null);
+        t.mock.method(Session, 'findOneAndUpdate', async (filter, update) => {
+            const session = sessions.get(String(filter._id));
+            if (!session || session.tokenHash !== filter.tokenHash || session.revokedAt) {
+                return null;
+            }
+            return session.set(update);
+        });
+        t.mock.method(Session.prototype, 'save', async function () {
+            return this;
+        });
+    });
+
+    it('hands out a new refresh token on every use', async () => {
+        const { session, refreshToken } = signIn(users.plain);
+
+        const first = await refresh(refreshToken);
+        assert.equal(first.status, 200);
+        assert.ok(first.body.token);
+        assert.notEqual(first.body.refreshToken, refreshToken);
+        assert.equal(jwt.verify(first.body.token, process.env.JWT_SECRET).sid, String(session._id));
+
+        const second = await refresh(first.body.refreshToken);
+        assert.equal(second.status, 200);
+        assert.notEqual(second.body.refreshToken, first.body.refreshToken);
+    });
+
+    it('turns away a token just rotated by another tab without ending the session', async () => {
+        const { session, refreshToken } = signIn(users.plain);
+        const { body } = await refresh(refreshToken);
+
+        const raced = await refresh(refreshToken);
+        assert.equal(raced.status, 401);
+        assert.equal(session.revokedAt, undefined);
+        assert.equal((await refresh(body.refreshToken)).status, 200);
+    });
+
+    it('revokes the session when a rotated token is replayed later', async () => {
+        const { session, refreshToken } = signIn(users.plain);
+        const { body } = await refresh(refreshToken);
+        session.lastUsedAt = new Date(Date.now() - 60 * 1000);
+
+        const replayed = await refresh(refreshToken);
+        assert.equal(replayed.status, 401);
+        assert.equal(session.revokedReason, 'reuse');
+        // The thief's rotation is dead too
+        assert.equal((await refresh(body.refreshToken)).status, 401);
+    });
+
+    it('ends a session whose role has come to need 2FA the user has not set up', async () => {
+        const { session, refreshToken } = signIn(users.promoted);
+
+        const response = await refresh(refreshToken);
+        assert.equal(response.status, 401);
+        assert.match(response.body.message, /Two-factor authentication is now required/);
+        assert.equal(session.revokedReason, '2fa-required');
+    });
+
+    it('refuses unknown, malformed and logged out tokens', async () => {
+        assert.equal((await refresh(`${oid()}.secret`)).status, 401);
+        assert.equal((await refresh('not-a-token')).status, 401);
+
+        const { session, refreshToken } = signIn(users.plain);
+        await session.revoke('logout');
+        assert.equal((await refresh(refreshToken)).status, 401);
+    });
+});
+
+describe('user lifecycle', () => {
+    const asAdmin = (method, path, body) => request(method, path, { token: tokenFor(users.admin), body });
+
+    it('deactivates a user, ending their sessions and blocking sign in', async () => {
+        const response = await asAdmin('POST', `/users/${users.member._id}/deactivate`);
+        assert.equal(response.status, 200);
+        assert.equal(users.member.isActive, false);
+        assert.deepEqual(revokedSessions, [{ user: users.member._id, reason: 'deactivated' }]);
+        assert.equal(audit.at(-1).action, 'user.deactivate');
+
+        const profile = await request('GET', '/profile', { token: tokenFor(users.member) });
+        assert.equal(profile.status, 401);
+
+        const signIn = await login(users.member);
+        assert.equal(signIn.status, 403);
+        assert.equal(attempts.at(-1).reason, 'deactivated');
+
+        await asAdmin('POST', `/users/${users.member._id}/reactivate`);
+        assert.equal((await login(users.member)).status, 200);
+    });
+
+    it('changes roles but leaves superadmin rights to the superadmin settings', async () => {
+        const promoted = await asAdmin('PUT', `/users/${users.member._id}/role`, { role: 'pastor' });
+        assert.equal(promoted.status, 200);
+        assert.equal(users.member.role, 'pastor');
+        assert.deepEqual(audit.at(-1).changes.role, { from: 'user', to: 'pastor' });
+
+        const elevated = await asAdmin('PUT', `/users/${users.member._id}/role`, { role: 'superadmin' });
+        assert.equal(elevated.status, 400);
+        assert.equal(users.member.role, 'pastor');
+    });
+
+    it('keeps admins away from superadmin accounts and their own', async () => {
+        const owner = await asAdmin('POST', `/users/${users.owner._id}/deactivate`);
+        assert.equal(owner.status, 403);
+        assert.equal(users.owner.isActive, true);
+
+        const unlock = await asAdmin('POST', `/users/${users.owner._id}/unlock`);
+        assert.equal(unlock.status, 403);
+
+        const self = await asAdmin('PUT', `/users/${users.admin._id}/role`, { role: 'user' });
+        assert.equal(self.status, 400);
+        assert.equal(users.admin.role, 'admin');
+    });
+
+    it('leaves deactivating and deleting superadmins to the superadmin settings', async () => {
+        const asOwner = (method, path) => request(method, path, { token: tokenFor(users.owner) });
+
+        const deactivated = await asOwner('POST', `/users/${users.coOwner._id}/deactivate`);
+        assert.equal(deactivated.status, 400);
+        assert.match(deactivated.body.message, /super admin settings/);
+        assert.equal(users.coOwner.isActive, true);
+
+        const deleted = await asOwner('DELETE', `/users/${users.coOwner._id}`);
+        assert.equal(deleted.status, 400);
+        assert.deepEqual(revokedSessions, []);
+    });
+});
+
+describe('invitations', () => {
+    it('leaves resending and revoking superadmin invitations to superadmins', async (t) => {
+        const invitation = new Invitation({ email: 'next-owner@example.com', role: 'superadmin', expiresAt: new Date(Date.now() + 60000) });
+        t.mock.method(Invitation, 'findById', async () => invitation);
+        t.mock.method(Invitation.prototype, 'save', async function () {
+            return this;
+        });
+        const asAdmin = { token: tokenFor(users.admin) };
+
+        const resent = await request('POST', `/invitations/${invitation._id}/resend`, asAdmin);
+        assert.equal(resent.status, 403);
+        assert.equal(resent.body.message, 'Only a super admin can manage super admin invitations');
+
+        const revoked = await request('DELETE', `/invitations/${invitation._id}`, asAdmin);
+        assert.equal(revoked.status, 403);
+        assert.equal(invitation.revokedAt, undefined);
+
+        const byOwner = await request('DELETE', `/invitations/${invitation._id}`, { token: tokenFor(users.owner) });
+        assert.equal(byOwner.status, 200);
+        assert.ok(invitation.revokedAt);
+    });
+});
@@ -6,16 +6,19 @@ import {
     updateCenter,
     deleteCenter,
 } from '../controllers/auxanoController.js';
+import AuxanoCenter from '../models/AuxanoCenter.js';
+import { protect, requirePermission } from '../middleware/authMiddleware.js';
+import { audited } from '../middleware/auditMiddleware.js';
 
 const router = express.Router();
 
 router.route('/')
-    .get(getCenters)
-    .post(createCenter);
+    .get(protect, requirePermission('view_centers'), getCenters)
+    .post(protect, requirePermission('manage_centers'), audited('center.create', AuxanoCenter), createCenter);
 
 router.route('/:id')
-    .get(getCenterById)
-    .put(updateCenter)
-    .delete(deleteCenter);
+    .get(protect, requirePermission('view_centers'), getCenterById)
+    .put(protect, requirePermission('manage_centers'), audited('center.update', AuxanoCenter), updateCenter)
+    .delete(protect, requirePermission('manage_centers'), audited('center.delete', AuxanoCenter), deleteCenter);
 
 export default router;
@@ -0,0 +1,45 @@
+import express from 'express';
+import {
+    getDonations,
+    getDonationById,
+    createDonation,
+    updateDonation,
+    deleteDonation,
+    getGivingStatement,
+} from '../controllers/donationController.js';
+import {
+    getProjects,
+    createProject,
+    updateProject,
+    getPledges,
+    createPledge,
+    updatePledge,
+} from '../controllers/projectController.js';
+import { protect, requirePermission } from '../middleware/authMiddleware.js';
+
+const router = express.Router();
+
+const canManage = requirePermission('manage_donations');
+
+router.route('/projects')
+    .get(protect, canManage, getProjects)
+    .post(protect, canManage, createProject);
+router.put('/projects/:id', protect, canManage, updateProject);
+
+router.route('/pledges')
+    .get(protect, canManage, getPledges)
+    .post(protect, canManage, createPledge);
+router.put('/pledges/:id', protect, canManage, updatePledge);
+
+router.get('/statements/:memberId', protect, canManage, getGivingStatement);
+
+router.route('/')
+    .get(protect, canManage, getDonations)
+    .post(protect, canManage, createDonation);
+
+router.route('/:id')
+    .get(protect, canManage, getDonationById)
+    .put(protect, canManage, updateDonation)
+    .delete(protect, canManage, deleteDonation);
+
+export default router;
@@ -0,0 +1,116 @@
+import { before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import donationRoutes from './donationRoutes.js';
+import Donation from '../models/Donation.js';
+import Member from '../models/Member.js';
+import Pledge from '../models/Pledge.js';
+import { oid, mockSignIn, serveRoutes } from './testHelpers.js';
+
+// Donations, giving statements and pledge payments, in more than one currency.
+
+const admin = { _id: oid(), role: 'admin' };
+const member = new Member({ fullname: 'Ada Giver' });
+const pledge = new Pledge({ member: member._id, amount: 1000 });
+
+let donations;
+let refreshed;
+
+const { request } = serveRoutes('/api/donations', donationRoutes, { as: admin });
+
+before(() => {
+    mockSignIn(() => admin);
+    mock.method(Member, 'findById', async (id) => (String(id) === String(member._id) ? member : null));
+    mock.method(Pledge, 'findById', async (id) => (String(id) === String(pledge._id) ? pledge : null));
+    mock.method(Pledge, 'refreshFulfilment', async (id) => {
+        refreshed.push(String(id));
+    });
+    mock.method(Donation, 'findById', async (id) => donations.find((donation) => String(donation._id) === String(id)) || null);
+    mock.method(Donation, 'find', () => {
+        const chain = { populate: () => chain, sort: () => chain, skip: () => chain, limit: () => chain, then: (resolve) => resolve(donations) };
+        return chain;
+    });
+    mock.method(Donation, 'countDocuments', async () => donations.length);
+    // The list totals group by currency, pledge payments by pledge and currency
+    mock.method(Donation, 'aggregate', async (stages) => {
+        const byPledge = stages.find((stage) => stage.$group).$group._id !== '$currency';
+        const groups = new Map();
+        for (const donation of donations.filter((entry) => !byPledge || entry.pledge)) {
+            const key = byPledge ? `${donation.pledge} ${donation.currency}` : donation.currency;
+            groups.set(key, (groups.get(key) || 0) + donation.amount);
+        }
+        return [...groups].sort().map(([key, amount]) => {
+            if (!byPledge) return { _id: key, amount };
+            const [id, currency] = key.split(' ');
+            return { _id: { pledge: id, currency }, total: amount };
+        });
+    });
+    mock.method(Donation.prototype, 'save', async function () {
+        return this;
+    });
+});
+
+beforeEach(() => {
+    refreshed = [];
+    donations = [
+        new Donation({ member: member._id, fund: 'tithe', amount: 500, currency: 'NGN', date: new Date('2026-02-01') }),
+        new Donation({ member: member._id, fund: 'offering', amount: 20, currency: 'USD', date: new Date('2026-03-01') }),
+        new Donation({ member: member._id, fund: 'tithe', amount: 250, currency: 'NGN', date: new Date('2026-04-01') }),
+        new Donation({ member: member._id, fund: 'pledge', pledge: pledge._id, amount: 100, currency: 'NGN', date: new Date('2026-05-01') }),
+    ];
+});
+
+describe('donations', () => {
+    it('totals a giving statement per currency', async () => {
+        const response = await request('GET', `/statements/${member._id}?year=2026`);
+        assert.equal(response.status, 200);
+        assert.deepEqual(response.body.totals, [
+            { currency: 'NGN', byFund: { tithe: 750, pledge: 100 }, total: 850 },
+            { currency: 'USD', byFund: { offering: 20 }, total: 20 },
+        ]);
+    });
+
+    it('unlinks the pledge when a payment moves to another fund', async () => {
+        const payment = donations[3];
+        const response = await request('PUT', `/${payment._id}`, { body: { fund: 'offering' } });
+        assert.equal(response.status, 200);
+        assert.equal(payment.pledge, undefined);
+        assert.deepEqual(refreshed, [String(pledge._id)]);
+    });
+
+    it('totals the list once per currency', async () => {
+        const response = await request('GET', '/');
+        assert.equal(response.status, 200);
+        assert.deepEqual(response.body.totals, [
+            { currency: 'NGN', amount: 850 },
+            { currency: 'USD', amount: 20 },
+        ]);
+    });
+
+    it('counts only payments in the pledge currency towards it', async () => {
+        donations.push(new Donation({ member: member._id, fund: 'pledge', pledge: pledge._id, amount: 5, currency: 'USD' }));
+        mock.method(Pledge, 'find', () => {
+            const chain = { populate: () => chain, sort: async () => [pledge] };
+            return chain;
+        });
+
+        const response = await request('GET', '/pledges');
+        assert.equal(response.status, 200);
+        assert.deepEqual(response.body[0].paid, { NGN: 100, USD: 5 });
+        assert.equal(response.body[0].fulfilled, 100);
+        assert.equal(response.body[0].outstanding, 900);
+    });
+
+    it('answers 400 for a malformed member on a giving statement', async () => {
+        const response = await request('GET', '/statements/not-an-id');
+        assert.equal(response.status, 400);
+        assert.equal(response.body.message, 'Invalid member id');
+    });
+
+    it('answers 400 for malformed id filters', async () => {
+        for (const field of ['member', 'project', 'pledge']) {
+            const response = await request('GET', `/?${field}=not-an-id`);
+            assert.equal(response.status, 400);
+            assert.equal(response.body.message, `Invalid ${field} id`);
+        }
+    });
+});
@@ -0,0 +1,52 @@
+import express from 'express';
+import {
+    getEvents,
+    getEventOccurrences,
+    getEventById,
+    createEvent,
+    updateEvent,
+    deleteEvent,
+    setEventException,
+    deleteEventException,
+    uploadEventImage,
+} from '../controllers/eventController.js';
+import {
+    registerForEvent,
+    getMyRegistrations,
+    cancelRegistration,
+    getEventRegistrations,
+    setRegistrationCheckIn,
+} from '../controllers/eventRegistrationController.js';
+import { protect, requirePermission } from '../middleware/authMiddleware.js';
+import { eventImageUpload } from '../middleware/uploadMiddleware.js';
+
+const router = express.Router();
+
+const canView = requirePermission('view_events');
+const canRegister = requirePermission('register_for_events');
+const canManage = requirePermission('manage_events');
+
+router.post('/upload', protect, canManage, eventImageUpload, uploadEventImage);
+
+router.get('/occurrences', protect, canView, getEventOccurrences);
+router.get('/registrations/mine', protect, canRegister, getMyRegistrations);
+
+router.route('/')
+    .get(protect, canView, getEvents)
+    .post(protect, canManage, createEvent);
+
+router.route('/:id')
+    .get(protect, canView, getEventById)
+    .put(protect, canManage, updateEvent)
+    .delete(protect, canManage, deleteEvent);
+
+router.put('/:id/exceptions', protect, canManage, setEventException);
+router.delete('/:id/exceptions/:date', protect, canManage, deleteEventException);
+
+router.route('/:id/registrations')
+    .get(protect, canManage, getEventRegistrations)
+    .post(protect, canRegister, registerForEvent);
+router.delete('/:id/registrations/:registrationId', protect, canRegister, cancelRegistration);
+router.patch('/:id/registrations/:registrationId/check-in', protect, canManage, setRegistrationCheckIn);
+
+export default router;
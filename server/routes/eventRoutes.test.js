@@ -0,0 +1,194 @@
+import { before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import eventRoutes from './eventRoutes.js';
+import Attendance from '../models/Attendance.js';
+import Event from '../models/Event.js';
+import EventRegistration from '../models/EventRegistration.js';
+import Member from '../models/Member.js';
+import { oid, mockSignIn, serveRoutes } from './testHelpers.js';
+
+// Event registration (capacity, the waitlist and check-in) against an
+// in-memory store that keeps the per-occurrence seat counts and the
+// one-active-registration-per-email-and-occurrence index as Mongo would.
+
+const admin = { _id: oid(), role: 'admin', email: 'admin@example.org' };
+const member = new Member({ fullname: 'Ada Member', email: 'ada@example.org' });
+
+// Weekly on Sundays, 5 January 2020 onwards, one seat
+const event = new Event({
+    title: 'Sunday Lunch',
+    event_date: new Date('2020-01-05T00:00:00Z'),
+    is_recurring: true,
+    recurrence: { freq: 'weekly' },
+    exceptions: [{ date: new Date('2030-01-13T00:00:00Z'), event_date: new Date('2030-01-14T00:00:00Z') }],
+    registration_required: true,
+    max_attendees: 1,
+});
+
+let registrations;
+let attendance;
+// Makes the next duplicate check miss, as when two requests race
+let racing;
+
+const { request } = serveRoutes('/api/events', eventRoutes, { as: admin });
+
+const isActive = (registration) => ['registered', 'waitlisted'].includes(registration.status);
+
+const register = (email, extra = {}) => request('POST', `/${event._id}/registrations`, { body: { name: email, email, ...extra } });
+
+before(() => {
+    mockSignIn(() => admin);
+    mock.method(Member, 'findOne', (filter) => {
+        const found = filter.email === member.email ? member : null;
+        return { select: async () => found, then: (resolve) => resolve(found) };
+    });
+
+    mock.method(Event, 'findById', async () => event);
+    // claimSeat
+    mock.method(Event, 'findOneAndUpdate', async (filter, update, { arrayFilters }) => {
+        const date = arrayFilters[0]['seat.date'];
+        if (event.seatsTaken(date) >= event.max_attendees) return null;
+        event.seats.find((seat) => seat.date.getTime() === date.getTime()).registered += 1;
+        return event;
+    });
+    // Adding an occurrence's tally, and releaseSeat
+    mock.method(Event, 'updateOne', async (filter, update) => {
+        if (update.$push) {
+            if (!event.seats.some((seat) => seat.date.getTime() === update.$push.seats.date.getTime())) {
+                event.seats.push(update.$push.seats);
+            }
+            return;
+        }
+        const seat = event.seats.find((entry) => entry.date.getTime() === filter.seats.$elemMatch.date.getTime());
+        if (seat?.registered > 0) seat.registered -= 1;
+    });
+
+    mock.method(EventRegistration, 'findOne', (filter) => {
+        let found = registrations.find((registration) => Object.entries(filter).every(([field, value]) => (
+            field === 'status' ? value.$in.includes(registration.status) : String(registration[field]) === String(value)
+        ))) || null;
+        if (racing && filter.email) {
+            racing = false;
+            found = null;
+        }
+        const chain = {
+            populate: () => {
+                if (found) found.event = event;
+                return chain;
+            },
+            then: (resolve) => resolve(found),
+        };
+        return chain;
+    });
+    mock.method(EventRegistration, 'create', async (details) => {
+        if (registrations.some((registration) => (
+            isActive(registration)
+            && registration.email === details.email
+            && registration.occurrenceDate.getTime() === details.occurrenceDate.getTime()
+        ))) {
+            throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+        }
+        const registration = new EventRegistration(details);
+        registrations.push(registration);
+        return registration;
+    });
+    // promoteNext
+    mock.method(EventRegistration, 'findOneAndUpdate', async (filter, update) => {
+        const next = registrations.find((registration) => (
+            registration.status === 'waitlisted' && registration.occurrenceDate.getTime() === filter.occurrenceDate.getTime()
+        ));
+        return next ? Object.assign(next, update) : null;
+    });
+    mock.method(EventRegistration.prototype, 'save', async function () {
+        return this;
+    });
+    mock.method(Attendance, 'updateOne', async (session) => {
+        attendance.push(session);
+    });
+});
+
+beforeEach(() => {
+    registrations = [];
+    attendance = [];
+    racing = false;
+    event.seats = [];
+});
+
+describe('event registration', () => {
+    it('waitlists once the event is full and promotes in order on cancellation', async () => {
+        const first = await register('one@example.org');
+        const second = await register('two@example.org');
+        const third = await register('three@example.org');
+        assert.deepEqual([first, second, third].map((r) => r.body.status), ['registered', 'waitlisted', 'waitlisted']);
+        assert.equal(event.registered_count, 1);
+
+        const cancelled = await request('DELETE', `/${event._id}/registrations/${first.body._id}`);
+        assert.equal(cancelled.status, 200);
+        assert.equal(cancelled.body.promoted, 'two@example.org');
+        assert.deepEqual(registrations.map((r) => r.status), ['cancelled', 'registered', 'waitlisted']);
+        assert.equal(event.registered_count, 1);
+    });
+
+    it('releases the seat when the last registration is cancelled', async () => {
+        const only = await register('one@example.org');
+        await request('DELETE', `/${event._id}/registrations/${only.body._id}`);
+        assert.equal(event.registered_count, 0);
+    });
+
+    it('refuses a second active registration for an occurrence, including one that races the first', async () => {
+        const date = { occurrenceDate: '2030-01-06' };
+        await register('one@example.org', date);
+
+        const duplicate = await register('ONE@example.org', date);
+        assert.equal(duplicate.status, 400);
+        assert.equal(duplicate.body.message, 'Already registered for this event on 2030-01-06');
+
+        racing = true;
+        const raced = await register('one@example.org', date);
+        assert.equal(raced.status, 400);
+        assert.equal(raced.body.message, 'Already registered for this event on 2030-01-06');
+        assert.equal(registrations.length, 1);
+        assert.equal(event.seatsTaken(new Date('2030-01-06')), 1);
+    });
+
+    it('counts seats and the waitlist separately for each occurrence', async () => {
+        const first = await register('one@example.org', { occurrenceDate: '2030-01-06' });
+        const waiting = await register('two@example.org', { occurrenceDate: '2030-01-06' });
+        const otherWeek = await register('three@example.org', { occurrenceDate: '2030-01-20' });
+        const sameEmail = await register('one@example.org', { occurrenceDate: '2030-01-27' });
+        assert.deepEqual(
+            [first, waiting, otherWeek, sameEmail].map((r) => r.body.status),
+            ['registered', 'waitlisted', 'registered', 'registered'],
+        );
+
+        const cancelled = await request('DELETE', `/${event._id}/registrations/${otherWeek.body._id}`);
+        assert.equal(cancelled.body.promoted, null);
+        assert.equal(registrations[1].status, 'waitlisted');
+        assert.equal(event.seatsTaken(new Date('2030-01-06')), 1);
+        assert.equal(event.seatsTaken(new Date('2030-01-20')), 0);
+    });
+
+    it('registers for the requested occurrence, or the next one', async () => {
+        const chosen = await register('one@example.org', { occurrenceDate: '2030-01-06' });
+        assert.equal(chosen.status, 201);
+        assert.equal(chosen.body.occurrenceDate, '2030-01-06T00:00:00.000Z');
+
+        const next = await register('two@example.org');
+        const occurrence = new Date(next.body.occurrenceDate);
+        assert.equal(occurrence.getUTCDay(), 0);
+        assert.ok(occurrence >= new Date(Date.now() - 24 * 60 * 60 * 1000));
+
+        const offDay = await register('three@example.org', { occurrenceDate: '2030-01-07' });
+        assert.equal(offDay.status, 400);
+        assert.equal(offDay.body.message, 'The event does not occur on that date');
+    });
+
+    it('checks members in on the day of their occurrence, following it if moved', async () => {
+        const { body } = await register(member.email, { occurrenceDate: '2030-01-13' });
+
+        const response = await request('PATCH', `/${event._id}/registrations/${body._id}/check-in`, { body: { checkedIn: true } });
+        assert.equal(response.status, 200);
+        assert.equal(String(attendance[0].member), String(member._id));
+        assert.equal(attendance[0].serviceDate.toISOString(), '2030-01-14T00:00:00.000Z');
+    });
+});
@@ -0,0 +1,32 @@
+import express from 'express';
+import {
+    getHouseholds,
+    getHouseholdById,
+    createHousehold,
+    updateHousehold,
+    deleteHousehold,
+    addHouseholdMember,
+    removeHouseholdMember,
+} from '../controllers/householdController.js';
+import Household from '../models/Household.js';
+import { protect, requirePermission } from '../middleware/authMiddleware.js';
+import { audited } from '../middleware/auditMiddleware.js';
+
+const router = express.Router();
+
+const canView = requirePermission('view_members');
+const canManage = requirePermission('manage_members');
+
+router.route('/')
+    .get(protect, canView, getHouseholds)
+    .post(protect, canManage, audited('household.create', Household), createHousehold);
+
+router.route('/:id')
+    .get(protect, canView, getHouseholdById)
+    .put(protect, canManage, audited('household.update', Household), updateHousehold)
+    .delete(protect, canManage, audited('household.delete', Household), deleteHousehold);
+
+router.post('/:id/members', protect, canManage, addHouseholdMember);
+router.delete('/:id/members/:memberId', protect, canManage, removeHouseholdMember);
+
+export default router;
@@ -0,0 +1,100 @@
+import { before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import householdRoutes from './householdRoutes.js';
+import AuditLog from '../models/AuditLog.js';
+import Household from '../models/Household.js';
+import Member from '../models/Member.js';
+import Unit from '../models/Unit.js';
+import { OUT_OF_SCOPE } from '../middleware/memberScopeMiddleware.js';
+import { oid, mockSignIn, serveRoutes } from './testHelpers.js';
+
+// The household routes, against an in-memory directory of members and
+// households.
+
+const center = oid();
+const users = {
+    admin: { _id: oid(), role: 'admin' },
+    pastor: { _id: oid(), role: 'pastor', assignedAuxanoCenter: center },
+};
+
+let households;
+let members;
+
+const { request } = serveRoutes('/api/households', householdRoutes);
+
+const inHousehold = (id) => members.filter((member) => String(member.household) === String(id));
+
+before(() => {
+    const byId = (collection) => (id) => collection.find((doc) => String(doc._id) === String(id)) || null;
+
+    mockSignIn(byId(Object.values(users)));
+    mock.method(Unit, 'find', () => ({ select: async () => [] }));
+    mock.method(Household, 'findById', async (id) => byId(households)(id));
+    mock.method(Household, 'deleteOne', async ({ _id }) => {
+        households = households.filter((household) => String(household._id) !== String(_id));
+    });
+    mock.method(Household.prototype, 'save', async function () {
+        households.push(this);
+        return this;
+    });
+    mock.method(Member, 'findById', async (id) => byId(members)(id));
+    mock.method(Member, 'find', ({ household }) => {
+        const chain = { select: () => chain, sort: () => chain, then: (resolve) => resolve(inHousehold(household)) };
+        return chain;
+    });
+    mock.method(Member, 'exists', async ({ household }) => (inHousehold(household).length ? { _id: oid() } : null));
+    mock.method(Member, 'updateMany', async ({ _id }, { $set }) => {
+        members.filter((member) => _id.$in.some((id) => String(id) === String(member._id)))
+            .forEach((member) => member.set($set));
+    });
+    mock.method(Member.prototype, 'save', async function () {
+        return this;
+    });
+    mock.method(AuditLog, 'create', async (entry) => entry);
+});
+
+beforeEach(() => {
+    const old = new Household({ name: 'Old' });
+    households = [old, new Household({ name: 'Empty' })];
+    members = [
+        new Member({ fullname: 'Ada', auxanoCenter: center, household: old._id }),
+        new Member({ fullname: 'Obi', auxanoCenter: center }),
+    ];
+});
+
+describe('households', () => {
+    it('deletes the household its members all left for a new one', async () => {
+        const [old] = households;
+        const response = await request('POST', '/', {
+            as: users.pastor,
+            body: { name: 'New', memberIds: members.map((member) => String(member._id)) },
+        });
+        assert.equal(response.status, 201);
+        assert.ok(!households.includes(old));
+        assert.ok(members.every((member) => String(member.household) === response.body._id));
+    });
+
+    it('deletes the household a member left as its last member', async () => {
+        const [old, empty] = households;
+        const response = await request('POST', `/${old._id}/members`, { as: users.admin, body: { memberId: String(members[1]._id) } });
+        assert.equal(response.status, 200);
+
+        const moved = await request('POST', `/${empty._id}/members`, { as: users.admin, body: { memberId: String(members[0]._id) } });
+        assert.equal(moved.status, 200);
+        assert.ok(households.includes(old));
+
+        await request('POST', `/${empty._id}/members`, { as: users.admin, body: { memberId: String(members[1]._id) } });
+        assert.ok(!households.includes(old));
+    });
+
+    it('keeps empty households to users who see every member', async () => {
+        const [, empty] = households;
+
+        const scoped = await request('PUT', `/${empty._id}`, { as: users.pastor, body: { name: 'Taken' } });
+        assert.equal(scoped.status, 403);
+        assert.equal(scoped.body.message, OUT_OF_SCOPE);
+        assert.equal((await request('DELETE', `/${empty._id}`, { as: users.pastor })).status, 403);
+
+        assert.equal((await request('GET', `/${empty._id}`, { as: users.admin })).status, 200);
+    });
+});
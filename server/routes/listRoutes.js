@@ -1,11 +1,11 @@
 import express from 'express';
 import { getAuxanoCenters, getUnits, getPastors } from '../controllers/listController.js';
-import { protect } from '../middleware/authMiddleware.js';
+import { protect, requirePermission } from '../middleware/authMiddleware.js';
 
 const router = express.Router();
 
-router.get('/centers', protect, getAuxanoCenters);
-router.get('/units', protect, getUnits);
-router.get('/pastors', protect, getPastors);
+router.get('/centers', protect, requirePermission('view_centers'), getAuxanoCenters);
+router.get('/units', protect, requirePermission('view_members'), getUnits);
+router.get('/pastors', protect, requirePermission('view_members'), getPastors);
 
 export default router;
@@ -1,28 +1,54 @@
 import express from 'express';
 import {
     getMembers,
+    exportMembers,
     getMemberById,
     createMember,
     updateMember,
     deleteMember,
 } from '../controllers/memberController.js';
-import { protect } from '../middleware/authMiddleware.js';
+import { importMembers } from '../controllers/memberImportController.js';
+import { findDuplicates, mergeMembers } from '../controllers/memberMergeController.js';
+import { getMemberHistory } from '../controllers/auditLogController.js';
+import { getMemberFamily, addRelationship, removeRelationship } from '../controllers/householdController.js';
+import { moveMemberStage, updateFollowUpStep, getMemberStageHistory } from '../controllers/pipelineController.js';
+import Member from '../models/Member.js';
+import { protect, requirePermission } from '../middleware/authMiddleware.js';
+import { scopedMember } from '../middleware/memberScopeMiddleware.js';
+import { audited } from '../middleware/auditMiddleware.js';
 
 const router = express.Router();
 
+const canView = requirePermission('view_members');
+const canManage = requirePermission('manage_members');
+const canMerge = requirePermission('merge_members');
+
 router.route('/')
-    .get(protect, getMembers)
-    .post(protect, createMember);
+    .get(protect, canView, getMembers)
+    .post(protect, canManage, audited('member.create', Member), createMember);
+
+router.post('/import', protect, canManage, importMembers);
+router.get('/export', protect, canView, exportMembers);
+router.get('/duplicates', protect, canMerge, findDuplicates);
+router.post('/merge', protect, canMerge, mergeMembers);
 
 router.route('/:id')
-    .get(protect, getMemberById)
-    .put(protect, updateMember)
-    .delete(protect, deleteMember);
+    .get(protect, canView, scopedMember(), getMemberById)
+    .put(protect, canManage, scopedMember(), audited('member.update', Member), updateMember)
+    .delete(protect, canManage, scopedMember(), audited('member.delete', Member), deleteMember);
+
+router.get('/:id/history', protect, canView, scopedMember(), getMemberHistory);
+router.get('/:id/family', protect, canView, scopedMember(), getMemberFamily);
+router.post('/:id/relationships', protect, canManage, scopedMember(), addRelationship);
+router.delete('/:id/relationships/:relatedId', protect, canManage, scopedMember(), removeRelationship);
+router.put('/:id/stage', protect, canManage, scopedMember(), moveMemberStage);
+router.put('/:id/stage/steps', protect, canManage, scopedMember(), updateFollowUpStep);
+router.get('/:id/stage-history', protect, canView, scopedMember(), getMemberStageHistory);
 
 import { approveMember, assignToUnit, assignToAuxanoCenter } from '../controllers/memberController.js';
 
-router.route('/:id/approve').put(protect, approveMember);
-router.route('/:id/assign-unit').put(protect, assignToUnit);
-router.route('/:id/assign-center').put(protect, assignToAuxanoCenter);
+router.route('/:id/approve').put(protect, canManage, scopedMember(), audited('member.approve', Member), approveMember);
+router.route('/:id/assign-unit').put(protect, canManage, scopedMember(), audited('member.assign-unit', Member), assignToUnit);
+router.route('/:id/assign-center').put(protect, canManage, scopedMember(), audited('member.assign-center', Member), assignToAuxanoCenter);
 
 export default router;
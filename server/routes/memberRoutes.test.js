@@ -0,0 +1,726 @@
+import { before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import memberRoutes from './memberRoutes.js';
+import Attendance from '../models/Attendance.js';
+import AuditLog from '../models/AuditLog.js';
+import Donation from '../models/Donation.js';
+import EventRegistration from '../models/EventRegistration.js';
+import Household from '../models/Household.js';
+import Member from '../models/Member.js';
+import Pledge from '../models/Pledge.js';
+import PipelineStage from '../models/PipelineStage.js';
+import StageTransition from '../models/StageTransition.js';
+import Unit from '../models/Unit.js';
+import { OUT_OF_SCOPE, MOVED_OUT_OF_SCOPE } from '../middleware/memberScopeMiddleware.js';
+import { oid, tokenFor, mockSignIn, serveRoutes } from './testHelpers.js';
+
+// The member routes end to end: auth, permissions, scoping and the controllers.
+
+const centerA = oid();
+const centerB = oid();
+const ledUnit = oid();
+
+const users = {
+    superadmin: { _id: oid(), role: 'superadmin' },
+    admin: { _id: oid(), role: 'admin' },
+    pastor: { _id: oid(), role: 'pastor', assignedAuxanoCenter: centerA },
+    user: { _id: oid(), role: 'user' },
+};
+
+const members = {
+    inCenter: new Member({ fullname: 'In Center', auxanoCenter: centerA }),
+    elsewhere: new Member({ fullname: 'Elsewhere', auxanoCenter: centerB }),
+    assigned: new Member({ fullname: 'Assigned', auxanoCenter: centerB, assignedto: String(users.pastor._id) }),
+    inLedUnit: new Member({ fullname: 'Unit Member', auxanoCenter: centerB, unit: ledUnit }),
+};
+
+let saved;
+let deleted;
+let listFilter;
+let audit;
+
+const { request, urlFor } = serveRoutes('/api/members', memberRoutes);
+
+before(() => {
+    const byId = (collection) => (id) => Object.values(collection).find((doc) => String(doc._id) === String(id));
+
+    mockSignIn(byId(users));
+    mock.method(Unit, 'find', (filter) => ({
+        select: async () => (String(filter.head) === String(users.pastor._id) ? [{ _id: ledUnit }] : []),
+    }));
+    mock.method(Member, 'findById', async (id) => byId(members)(id) || null);
+    mock.method(Member, 'countDocuments', async () => 0);
+    mock.method(Member, 'find', (filter) => {
+        listFilter = filter;
+        const chain = {
+            sort: () => chain,
+            skip: () => chain,
+            limit: () => chain,
+            select: () => chain,
+            populate: () => chain,
+            collation: () => chain,
+            then: (resolve) => resolve([]),
+        };
+        return chain;
+    });
+    mock.method(Member.prototype, 'save', async function () {
+        saved.push(this);
+        return this;
+    });
+    mock.method(Member.prototype, 'deleteOne', async function () {
+        deleted.push(this);
+    });
+    mock.method(AuditLog, 'create', async (entry) => {
+        audit.push(entry);
+        return entry;
+    });
+});
+
+beforeEach(() => {
+    saved = [];
+    deleted = [];
+    listFilter = null;
+    audit = [];
+    members.inCenter.auxanoCenter = centerA;
+});
+
+describe('member routes without access', () => {
+    it('rejects requests without a token', async () => {
+        const response = await request('GET', `/${members.inCenter._id}`);
+        assert.equal(response.status, 401);
+    });
+
+    it('rejects plain users lacking the member permissions', async () => {
+        const response = await request('GET', `/${members.inCenter._id}`, { as: users.user });
+        assert.equal(response.status, 403);
+        assert.match(response.body.message, /view_members/);
+    });
+
+    it('answers 404 for unknown or malformed ids', async () => {
+        assert.equal((await request('GET', `/${oid()}`, { as: users.admin })).status, 404);
+        assert.equal((await request('GET', '/not-an-id', { as: users.admin })).status, 404);
+    });
+});
+
+for (const role of ['superadmin', 'admin']) {
+    describe(`member routes as ${role}`, () => {
+        it('reads members in any center', async () => {
+            const response = await request('GET', `/${members.elsewhere._id}`, { as: users[role] });
+            assert.equal(response.status, 200);
+            assert.equal(response.body.fullname, 'Elsewhere');
+        });
+
+        it('moves members between centers', async () => {
+            const response = await request('PUT', `/${members.inCenter._id}/assign-center`, {
+                as: users[role],
+                body: { auxanoCenterId: String(centerB) },
+            });
+            assert.equal(response.status, 200);
+            assert.equal(saved.length, 1);
+        });
+
+        it('lists without a scope filter', async () => {
+            await request('GET', '/', { as: users[role] });
+            assert.deepEqual(listFilter, {});
+        });
+    });
+}
+
+describe('member routes as pastor', () => {
+    it('reads members in their Auxano center', async () => {
+        const response = await request('GET', `/${members.inCenter._id}`, { as: users.pastor });
+        assert.equal(response.status, 200);
+    });
+
+    it('reads members assigned to them in another center', async () => {
+        const response = await request('GET', `/${members.assigned._id}`, { as: users.pastor });
+        assert.equal(response.status, 200);
+    });
+
+    it('reads members of units they head', async () => {
+        const response = await request('GET', `/${members.inLedUnit._id}`, { as: users.pastor });
+        assert.equal(response.status, 200);
+    });
+
+    it('cannot read members outside their scope', async () => {
+        const response = await request('GET', `/${members.elsewhere._id}`, { as: users.pastor });
+        assert.equal(response.status, 403);
+        assert.equal(response.body.message, OUT_OF_SCOPE);
+    });
+
+    it('cannot update, approve, reassign or delete members outside their scope', async () => {
+        const id = members.elsewhere._id;
+        const attempts = [
+            request('PUT', `/${id}`, { as: users.pastor, body: { fullname: 'Changed' } }),
+            request('PUT', `/${id}/approve`, { as: users.pastor }),
+            request('PUT', `/${id}/assign-unit`, { as: users.pastor, body: { unitId: String(ledUnit) } }),
+            request('PUT', `/${id}/assign-center`, { as: users.pastor, body: { auxanoCenterId: String(centerA) } }),
+            request('DELETE', `/${id}`, { as: users.pastor }),
+        ];
+
+        for (const response of await Promise.all(attempts)) {
+            assert.equal(response.status, 403);
+        }
+        assert.equal(saved.length, 0);
+        assert.equal(deleted.length, 0);
+    });
+
+    it('updates members in scope', async () => {
+        const response = await request('PUT', `/${members.inCenter._id}`, {
+            as: users.pastor,
+            body: { phone: '0800' },
+        });
+        assert.equal(response.status, 200);
+        assert.equal(saved.length, 1);
+    });
+
+    it('cannot move a member out of their scope', async () => {
+        const response = await request('PUT', `/${members.inCenter._id}/assign-center`, {
+            as: users.pastor,
+            body: { auxanoCenterId: String(centerB) },
+        });
+        assert.equal(response.status, 403);
+        assert.equal(response.body.message, MOVED_OUT_OF_SCOPE);
+        assert.equal(saved.length, 0);
+    });
+
+    it('adds new members to their own center by default', async () => {
+        const response = await request('POST', '/', { as: users.pastor, body: { fullname: 'New Member' } });
+        assert.equal(response.status, 201);
+        assert.equal(response.body.auxanoCenter, String(centerA));
+    });
+
+    it('cannot add members to another center', async () => {
+        const response = await request('POST', '/', {
+            as: users.pastor,
+            body: { fullname: 'New Member', auxanoCenter: String(centerB) },
+        });
+        assert.equal(response.status, 403);
+        assert.equal(saved.length, 0);
+    });
+
+    it('records changes in the audit log, but not refused ones', async () => {
+        await request('PUT', `/${members.inCenter._id}`, { as: users.pastor, body: { phone: '0801' } });
+        await request('PUT', `/${members.inCenter._id}/assign-center`, {
+            as: users.pastor,
+            body: { auxanoCenterId: String(centerB) },
+        });
+
+        assert.equal(audit.length, 1);
+        assert.equal(audit[0].action, 'member.update');
+        assert.equal(audit[0].targetType, 'Member');
+        assert.equal(String(audit[0].target), String(members.inCenter._id));
+        assert.equal(String(audit[0].actor), String(users.pastor._id));
+        assert.equal(audit[0].changes.phone.to, '0801');
+        assert.deepEqual(Object.keys(audit[0].changes), ['phone']);
+    });
+
+    it('lists only members in scope', async () => {
+        await request('GET', '/', { as: users.pastor });
+        assert.deepEqual(listFilter.$and.at(-1), {
+            $or: [
+                { assignedto: String(users.pastor._id) },
+                { auxanoCenter: String(centerA) },
+                { unit: { $in: [String(ledUnit)] } },
+            ],
+        });
+    });
+});
+
+describe('member list', () => {
+    // The query the list handler built: its sort, paging and projection
+    const capture = (t, total) => {
+        const built = { populate: [] };
+        t.mock.method(Member, 'find', () => {
+            const step = (name) => (value) => {
+                built[name] = value;
+                return chain;
+            };
+            const chain = {
+                sort: step('sort'),
+                skip: step('skip'),
+                limit: step('limit'),
+                select: step('select'),
+                populate: (path) => {
+                    built.populate.push(path);
+                    return chain;
+                },
+                then: (resolve) => resolve([]),
+            };
+            return chain;
+        });
+        t.mock.method(Member, 'countDocuments', async () => total);
+        return built;
+    };
+
+    it('pages through the results, capping the page size', async (t) => {
+        const built = capture(t, 45);
+
+        const third = await request('GET', '/?page=3&pageSize=20', { as: users.admin });
+        assert.equal(third.status, 200);
+        assert.deepEqual(
+            { page: third.body.page, pageSize: third.body.pageSize, total: third.body.total, totalPages: third.body.totalPages },
+            { page: 3, pageSize: 20, total: 45, totalPages: 3 },
+        );
+        assert.equal(built.skip, 40);
+        assert.equal(built.limit, 20);
+
+        const huge = await request('GET', '/?page=0&pageSize=500', { as: users.admin });
+        assert.equal(huge.body.page, 1);
+        assert.equal(huge.body.pageSize, 100);
+        assert.equal(built.skip, 0);
+    });
+
+    it('sorts by known fields only, newest first by default, with a stable tie-break', async (t) => {
+        const built = capture(t, 0);
+
+        await request('GET', '/', { as: users.admin });
+        assert.deepEqual(built.sort, { created_at: -1, _id: -1 });
+
+        await request('GET', '/?sort=-fullname,password,email', { as: users.admin });
+        assert.deepEqual(built.sort, { fullname: -1, email: 1, _id: -1 });
+    });
+
+    it('projects the requested fields, populating references only when asked for', async (t) => {
+        const built = capture(t, 0);
+
+        await request('GET', '/?fields=fullname,email,password', { as: users.admin });
+        assert.equal(built.select, 'fullname email');
+        assert.deepEqual(built.populate, []);
+
+        await request('GET', '/?fields=fullname,auxanoCenter', { as: users.admin });
+        assert.deepEqual(built.populate, ['auxanoCenter']);
+    });
+});
+
+describe('member import', () => {
+    const rows = [
+        { row: 2, fullname: 'Ada Obi', email: 'ADA@example.com', phone: '0803 000 0000' },
+        { row: 3, fullname: 'Ada Again', email: 'ada@example.com' },
+        { row: 4, fullname: 'Same Phone', email: 'other@example.com', phone: '08030000000' },
+        { row: 5, fullname: 'Bad Email', email: 'not-an-email' },
+    ];
+
+    it('previews creates and errors, catching duplicates within the file, without writing', async () => {
+        const response = await request('POST', '/import', { as: users.pastor, body: { rows, dryRun: true } });
+        assert.equal(response.status, 200);
+        assert.deepEqual(response.body.summary, { create: 1, update: 0, unchanged: 0, error: 3 });
+        assert.deepEqual(response.body.rows.map((row) => row.action), ['create', 'error', 'error', 'error']);
+        assert.match(response.body.rows[1].errors[0], /row 2/);
+        assert.match(response.body.rows[2].errors[0], /phone number as row 2/);
+        assert.equal(saved.length, 0);
+        assert.equal(audit.length, 0);
+    });
+
+    it('reports values the member model rejects against their row, and imports the rest', async (t) => {
+        mongoose.connection.db = { admin: () => ({ command: async () => ({ ismaster: true }) }) };
+        t.after(() => {
+            delete mongoose.connection.db;
+        });
+        t.mock.method(AuditLog, 'insertMany', async (entries) => entries);
+        t.mock.method(Member, 'insertMany', async (docs) => docs);
+
+        const response = await request('POST', '/import', {
+            as: users.pastor,
+            body: {
+                rows: [
+                    { row: 2, fullname: 'Odd Values', email: 'odd@example.com', isactive: 'maybe', joindate: 'soon' },
+                    { row: 3, fullname: 'Plain Values', email: 'plain@example.com', isactive: false },
+                ],
+            },
+        });
+        assert.equal(response.status, 201);
+        assert.deepEqual(response.body.summary, { create: 1, update: 0, unchanged: 0, error: 1 });
+        assert.deepEqual(response.body.rows[0].errors, [
+            'isactive "maybe" is not a valid boolean',
+            'joindate "soon" is not a valid date',
+        ]);
+        const [created] = Member.insertMany.mock.calls[0].arguments[0];
+        assert.equal(Member.insertMany.mock.calls[0].arguments[0].length, 1);
+        assert.ok(created.deactivated_at instanceof Date);
+    });
+
+    it('matches stored emails ignoring case and phone numbers however they were written', async (t) => {
+        const stored = members.inCenter;
+        stored.email = 'In.Center@Example.com';
+        stored.phone = '+234 803 000 0000';
+        t.after(() => {
+            stored.email = undefined;
+            stored.phone = undefined;
+        });
+        let query;
+        t.mock.method(Member, 'find', (filter) => {
+            query = { filter };
+            return {
+                collation: async (collation) => {
+                    query.collation = collation;
+                    return [stored];
+                },
+            };
+        });
+
+        const response = await request('POST', '/import', {
+            as: users.pastor,
+            body: {
+                rows: [
+                    { row: 2, fullname: 'In Center', email: 'in.center@example.com' },
+                    { row: 3, fullname: 'In Center', email: 'new.address@example.com', phone: '0803-000-0000' },
+                ],
+                dryRun: true,
+            },
+        });
+        assert.deepEqual(response.body.rows.map((row) => row.memberId), [String(stored._id), String(stored._id)]);
+        assert.deepEqual(query.collation, { locale: 'en', strength: 2 });
+        const [phonePattern] = query.filter.$or[1].phone.$in;
+        assert.ok(phonePattern.test('(0803) 000-0000'));
+        assert.ok(!phonePattern.test('0803 000 0001'));
+    });
+
+    it('dates deactivations and records category changes on imported updates', async (t) => {
+        const stored = members.inCenter;
+        stored.email = 'in.center@example.com';
+        stored.category = 'Visitor';
+        t.after(() => {
+            stored.email = undefined;
+            stored.category = undefined;
+            stored.isactive = true;
+        });
+        mongoose.connection.db = { admin: () => ({ command: async () => ({ ismaster: true }) }) };
+        t.after(() => {
+            delete mongoose.connection.db;
+        });
+        t.mock.method(Member, 'find', () => ({ collation: async () => [stored] }));
+        t.mock.method(Member, 'bulkWrite', async () => {});
+        t.mock.method(StageTransition, 'insertMany', async (entries) => entries);
+        t.mock.method(AuditLog, 'insertMany', async (entries) => entries);
+
+        const response = await request('POST', '/import', {
+            as: users.pastor,
+            body: { rows: [{ row: 2, fullname: 'In Center', email: 'in.center@example.com', category: 'Member', isactive: false }] },
+        });
+        assert.equal(response.status, 201);
+        const [{ updateOne }] = Member.bulkWrite.mock.calls[0].arguments[0];
+        assert.equal(updateOne.update.$set.isactive, false);
+        assert.ok(updateOne.update.$set.deactivated_at instanceof Date);
+        const [transition] = StageTransition.insertMany.mock.calls[0].arguments[0];
+        assert.deepEqual(
+            [String(transition.member), transition.fromCategory, transition.toCategory, String(transition.movedBy)],
+            [String(stored._id), 'Visitor', 'Member', String(users.pastor._id)],
+        );
+    });
+
+    it('is closed to users who cannot manage members', async () => {
+        const response = await request('POST', '/import', { as: users.user, body: { rows, dryRun: true } });
+        assert.equal(response.status, 403);
+    });
+});
+
+describe('member export', () => {
+    const download = (query, as) => fetch(urlFor(`/export?${query}`), {
+        headers: { Authorization: `Bearer ${tokenFor(users[as])}` },
+    });
+
+    it('exports the pastor\'s scope with the default columns, whatever columns they ask for', async () => {
+        const response = await download('format=csv&category=Workers&columns=email', 'pastor');
+        assert.equal(response.status, 200);
+        assert.match(response.headers.get('content-type'), /text\/csv/);
+        assert.equal((await response.text()).split('\r\n')[0], 'Full Name,Email,Phone,Category,Church Units,Auxano Center,Status');
+        assert.deepEqual(listFilter.$and[0], { category: 'Workers' });
+        assert.ok(listFilter.$and.at(-1).$or, 'scope filter applied');
+        assert.equal(audit.at(-1).action, 'member.export');
+    });
+
+    it('lets admins pick columns', async () => {
+        const response = await download('format=csv&columns=email,fullname,bogus', 'admin');
+        assert.equal((await response.text()).split('\r\n')[0], 'Email,Full Name');
+    });
+
+    it('exports mailing labels per household', async () => {
+        const response = await download('format=labels', 'admin');
+        assert.equal(response.status, 200);
+        assert.match(response.headers.get('content-disposition'), /mailing-labels-/);
+        assert.equal(
+            (await response.text()).split('\r\n')[0],
+            'Addressee,Address Line 1,Address Line 2,City,State,Postal Code,Country'
+        );
+    });
+
+    it('rejects unknown formats', async () => {
+        const response = await download('format=pdf', 'admin');
+        assert.equal(response.status, 400);
+    });
+});
+
+describe('member duplicates and merge', () => {
+    const directory = [
+        new Member({ fullname: 'Ada Obi', email: 'ada.obi@gmail.com', phone: '+234 803 000 0000' }),
+        new Member({ fullname: 'Obi, Ada', email: 'adaobi+church@gmail.com', phone: '0803 000 0000' }),
+        new Member({ fullname: 'Adaeze Obi', email: 'adaeze@example.com' }),
+        new Member({ fullname: 'Tunde Bello', email: 'tunde@example.com' }),
+    ];
+
+    it('pairs records by mailbox, phone and name, strongest first', async (t) => {
+        const scans = [];
+        t.mock.method(Member, 'find', (filter) => {
+            const found = filter._id ? directory.filter((member) => filter._id.$in.includes(String(member._id))) : directory;
+            const chain = {
+                select: (fields) => {
+                    scans.push(fields);
+                    return chain;
+                },
+                populate: () => chain,
+                then: (resolve) => resolve(found),
+            };
+            return chain;
+        });
+
+        const response = await request('GET', '/duplicates?limit=1', { as: users.admin });
+        assert.equal(response.status, 200);
+        assert.deepEqual(scans, ['fullname email phone created_at']);
+        assert.equal(response.body.pairs.length, 1);
+        assert.deepEqual(Member.find.mock.calls[1].arguments[0]._id.$in.length, 2);
+
+        const all = await request('GET', '/duplicates', { as: users.admin });
+        const [best, ...rest] = all.body.pairs;
+        assert.deepEqual(best.reasons, ['email', 'phone', 'name']);
+        assert.deepEqual(best.members.map((member) => member.fullname).sort(), ['Ada Obi', 'Obi, Ada']);
+        assert.ok(rest.every((pair) => !pair.members.some((member) => member.fullname === 'Tunde Bello')));
+    });
+
+    it('is closed to users who cannot merge members', async () => {
+        const response = await request('GET', '/duplicates', { as: users.pastor });
+        assert.equal(response.status, 403);
+    });
+
+    it('refuses to merge a member into itself', async () => {
+        const id = String(members.inCenter._id);
+        const response = await request('POST', '/merge', { as: users.admin, body: { primaryId: id, duplicateId: id } });
+        assert.equal(response.status, 400);
+        assert.equal(deleted.length, 0);
+    });
+
+    it('takes the pipeline stage as a whole, moves its history and clears out an emptied household', async (t) => {
+        const stage = oid();
+        const household = oid();
+        const primary = new Member({ fullname: 'Ada Obi', auxanoCenter: centerA, category: 'Visitor' });
+        const duplicate = new Member({
+            fullname: 'Obi, Ada',
+            category: 'Member',
+            household,
+            stage,
+            stageEnteredAt: new Date('2026-02-01'),
+            completedSteps: ['welcome-call'],
+        });
+        const moved = [];
+        const removedHouseholds = [];
+
+        // A standalone server: the merge runs without a transaction
+        mongoose.connection.db = { admin: () => ({ command: async () => ({ ismaster: true }) }) };
+        t.after(() => {
+            delete mongoose.connection.db;
+        });
+        t.mock.method(Member, 'findById', async (id) => [primary, duplicate].find((m) => String(m._id) === String(id)) || null);
+        t.mock.method(Attendance, 'find', () => ({ session: async () => [] }));
+        for (const Model of [Attendance, Donation, Pledge, EventRegistration, StageTransition, Member]) {
+            t.mock.method(Model, 'updateMany', async (filter, update, options) => {
+                moved.push({ model: Model.modelName, filter, session: options.session });
+                return { modifiedCount: Model === StageTransition ? 2 : 0 };
+            });
+        }
+        // Nobody else lives in the duplicate's household, as the primary takes the stage but not the household
+        t.mock.method(Member, 'exists', () => ({ session: async () => null }));
+        t.mock.method(Household, 'deleteOne', async (filter) => {
+            removedHouseholds.push(filter._id);
+        });
+        t.mock.method(AuditLog, 'insertMany', async (entries) => entries);
+        t.mock.method(StageTransition, 'insertMany', async (entries) => entries);
+
+        const response = await request('POST', '/merge', {
+            as: users.admin,
+            body: {
+                primaryId: String(primary._id),
+                duplicateId: String(duplicate._id),
+                fields: { household: 'primary', category: 'duplicate' },
+            },
+        });
+        assert.equal(response.status, 200);
+        assert.equal(String(primary.stage), String(stage));
+        assert.equal(primary.stageEnteredAt.toISOString(), '2026-02-01T00:00:00.000Z');
+        assert.deepEqual([...primary.completedSteps], ['welcome-call']);
+        assert.equal(response.body.moved.stageTransitions, 2);
+        assert.ok(moved.some(({ model, filter }) => model === 'StageTransition' && String(filter.member) === String(duplicate._id)));
+        assert.ok(moved.every(({ session }) => session === null));
+        assert.deepEqual(deleted, [duplicate]);
+        assert.deepEqual(removedHouseholds.map(String), [String(household)]);
+
+        const [transition] = StageTransition.insertMany.mock.calls[0].arguments[0];
+        assert.equal(transition.fromCategory, 'Visitor');
+        assert.equal(transition.toCategory, 'Member');
+        assert.equal(String(transition.member), String(primary._id));
+    });
+});
+
+describe('member relationships', () => {
+    beforeEach(() => {
+        Object.values(members).forEach((member) => {
+            member.relationships = [];
+        });
+    });
+
+    it('records the relationship on both members', async () => {
+        const response = await request('POST', `/${members.inCenter._id}/relationships`, {
+            as: users.pastor,
+            body: { memberId: String(members.assigned._id), type: 'parent' },
+        });
+        assert.equal(response.status, 201);
+        assert.deepEqual(response.body.relationships, [{ member: String(members.assigned._id), type: 'parent' }]);
+        assert.equal(members.assigned.relationships[0].type, 'child');
+        assert.equal(String(members.assigned.relationships[0].member), String(members.inCenter._id));
+        assert.equal(saved.length, 2);
+        assert.equal(audit.at(-1).action, 'member.relationship');
+    });
+
+    it('rejects unknown relationship types', async () => {
+        const response = await request('POST', `/${members.inCenter._id}/relationships`, {
+            as: users.pastor,
+            body: { memberId: String(members.assigned._id), type: 'cousin' },
+        });
+        assert.equal(response.status, 400);
+        assert.equal(saved.length, 0);
+    });
+
+    it('ignores relationships and household in a plain update', async () => {
+        const response = await request('PUT', `/${members.inCenter._id}`, {
+            as: users.pastor,
+            body: {
+                fullname: 'In Center',
+                relationships: [{ member: String(members.elsewhere._id), type: 'spouse' }],
+                household: String(oid()),
+            },
+        });
+        assert.equal(response.status, 200);
+        assert.deepEqual(members.inCenter.relationships, []);
+        assert.equal(members.inCenter.household, undefined);
+    });
+
+    it('cannot relate members to someone outside the pastor\'s scope', async () => {
+        const response = await request('POST', `/${members.inCenter._id}/relationships`, {
+            as: users.pastor,
+            body: { memberId: String(members.elsewhere._id), type: 'spouse' },
+        });
+        assert.equal(response.status, 403);
+        assert.equal(saved.length, 0);
+    });
+
+    it('shows the family only as far as the pastor\'s scope reaches', async (t) => {
+        const household = new Household({ name: 'Obi' });
+        members.inCenter.household = household._id;
+        members.inCenter.relationships = [{ member: members.elsewhere._id, type: 'spouse' }];
+        t.after(() => {
+            members.inCenter.household = undefined;
+        });
+        t.mock.method(Household, 'findById', async () => household);
+        t.mock.method(Member, 'find', (filter) => {
+            const found = filter.household ? [members.elsewhere, members.inCenter] : [members.elsewhere];
+            const chain = { select: () => chain, sort: () => chain, then: (resolve) => resolve(found) };
+            return chain;
+        });
+        members.elsewhere.set({ email: 'elsewhere@example.com', phone: '0800' });
+        t.after(() => members.elsewhere.set({ email: undefined, phone: undefined }));
+
+        const response = await request('GET', `/${members.inCenter._id}/family`, { as: users.pastor });
+        assert.equal(response.status, 200);
+        assert.deepEqual(response.body.householdMembers.map((member) => member._id), [String(members.inCenter._id)]);
+        assert.deepEqual(response.body.relationships[0].member, { _id: String(members.elsewhere._id), fullname: 'Elsewhere' });
+    });
+});
+
+describe('member pipeline stages', () => {
+    const stages = {
+        visitor: new PipelineStage({ name: 'Visitor', order: 0, category: 'Visitors', followUpSteps: ['Welcome call'] }),
+        member: new PipelineStage({ name: 'Member', order: 1, category: 'Members', entryCriteria: { minCheckIns: 3 } }),
+    };
+    let transitions;
+
+    before(() => {
+        mock.method(PipelineStage, 'findById', async (id) => Object.values(stages).find((stage) => String(stage._id) === String(id)) || null);
+        mock.method(StageTransition, 'create', async (transition) => {
+            transitions.push(transition);
+            return transition;
+        });
+        mock.method(Attendance, 'countDocuments', async () => 1);
+    });
+
+    beforeEach(() => {
+        transitions = [];
+        members.inCenter.stage = stages.visitor._id;
+        members.inCenter.stageEnteredAt = new Date();
+        members.inCenter.completedSteps = [];
+        members.inCenter.category = 'Visitors';
+    });
+
+    it('refuses to move a member forward past unmet requirements', async () => {
+        const response = await request('PUT', `/${members.inCenter._id}/stage`, {
+            as: users.pastor,
+            body: { stageId: String(stages.member._id), override: true },
+        });
+        assert.equal(response.status, 400);
+        assert.deepEqual(response.body.unmet, ['Needs 3 check-ins (has 1)', 'Follow-up not done: Welcome call']);
+        assert.equal(saved.length, 0);
+        assert.equal(transitions.length, 0);
+    });
+
+    it('lets admins override the requirements and records the transition', async () => {
+        const response = await request('PUT', `/${members.inCenter._id}/stage`, {
+            as: users.admin,
+            body: { stageId: String(stages.member._id), override: true },
+        });
+        assert.equal(response.status, 200);
+        assert.equal(response.body.category, 'Members');
+        assert.equal(String(members.inCenter.stage), String(stages.member._id));
+        assert.equal(transitions.length, 1);
+        assert.equal(transitions[0].fromCategory, 'Visitors');
+        assert.equal(transitions[0].overridden.length, 2);
+        assert.equal(audit.at(-1).action, 'member.stage');
+    });
+
+    it('moves members back without checking requirements', async () => {
+        members.inCenter.stage = stages.member._id;
+        const response = await request('PUT', `/${members.inCenter._id}/stage`, {
+            as: users.pastor,
+            body: { stageId: String(stages.visitor._id) },
+        });
+        assert.equal(response.status, 200);
+        assert.equal(transitions[0].toCategory, 'Visitors');
+    });
+
+    it('keeps a plain update out of the pipeline but records category changes', async () => {
+        const response = await request('PUT', `/${members.inCenter._id}`, {
+            as: users.pastor,
+            body: { category: 'Members', stage: String(stages.member._id), completedSteps: ['Welcome call'] },
+        });
+        assert.equal(response.status, 200);
+        assert.equal(String(members.inCenter.stage), String(stages.visitor._id));
+        assert.deepEqual([...members.inCenter.completedSteps], []);
+        assert.equal(transitions.length, 1);
+        assert.equal(transitions[0].toStage, undefined);
+        assert.equal(transitions[0].fromCategory, 'Visitors');
+        assert.equal(transitions[0].toCategory, 'Members');
+    });
+
+    it('only ticks off follow-up steps the current stage has', async () => {
+        const response = await request('PUT', `/${members.inCenter._id}/stage/steps`, {
+            as: users.pastor,
+            body: { step: 'Baptism', done: true },
+        });
+        assert.equal(response.status, 400);
+
+        const ticked = await request('PUT', `/${members.inCenter._id}/stage/steps`, {
+            as: users.pastor,
+            body: { step: 'Welcome call', done: true },
+        });
+        assert.equal(ticked.status, 200);
+        assert.deepEqual(ticked.body.completedSteps, ['Welcome call']);
+    });
+});
@@ -0,0 +1,26 @@
+import express from 'express';
+import {
+    getMessages,
+    getMessageById,
+    createMessage,
+    updateMessage,
+    deleteMessage,
+} from '../controllers/messageController.js';
+import { protect, requirePermission } from '../middleware/authMiddleware.js';
+import { messageMediaUpload } from '../middleware/uploadMiddleware.js';
+
+const router = express.Router();
+
+const canView = requirePermission('view_messages');
+const canManage = requirePermission('manage_messages');
+
+router.route('/')
+    .get(protect, canView, getMessages)
+    .post(protect, canManage, messageMediaUpload, createMessage);
+
+router.route('/:id')
+    .get(protect, canView, getMessageById)
+    .put(protect, canManage, messageMediaUpload, updateMessage)
+    .delete(protect, canManage, deleteMessage);
+
+export default router;
@@ -0,0 +1,31 @@
+import express from 'express';
+import {
+    getStages,
+    createStage,
+    updateStage,
+    deleteStage,
+    reorderStages,
+    getBoard,
+} from '../controllers/pipelineController.js';
+import PipelineStage from '../models/PipelineStage.js';
+import { protect, requirePermission } from '../middleware/authMiddleware.js';
+import { audited } from '../middleware/auditMiddleware.js';
+
+const router = express.Router();
+
+const canView = requirePermission('view_members');
+const canConfigure = requirePermission('manage_pipeline');
+
+router.route('/stages')
+    .get(protect, canView, getStages)
+    .post(protect, canConfigure, audited('stage.create', PipelineStage), createStage);
+
+router.put('/stages/order', protect, canConfigure, reorderStages);
+
+router.route('/stages/:id')
+    .put(protect, canConfigure, audited('stage.update', PipelineStage), updateStage)
+    .delete(protect, canConfigure, audited('stage.delete', PipelineStage), deleteStage);
+
+router.get('/board', protect, canView, getBoard);
+
+export default router;
@@ -1,8 +1,24 @@
 import express from 'express';
 import { registerPublicMember } from '../controllers/memberController.js';
+import { getPublicEvents, getPublicEventById } from '../controllers/eventController.js';
+import { registerPublic, cancelRegistrationByToken } from '../controllers/eventRegistrationController.js';
+import { streamMessage } from '../controllers/messageController.js';
+import { getPublicSeriesFeed } from '../controllers/seriesController.js';
+import { getPodcastFeed } from '../controllers/podcastController.js';
 
 const router = express.Router();
 
 router.post('/register-member', registerPublicMember);
 
+router.get('/events', getPublicEvents);
+router.get('/events/:id', getPublicEventById);
+router.post('/events/:id/register', registerPublic);
+router.post('/registrations/:token/cancel', cancelRegistrationByToken);
+
+router.get('/messages/:id/stream', streamMessage);
+router.get('/series/:slug', getPublicSeriesFeed);
+
+router.get('/podcast.xml', getPodcastFeed);
+router.get('/series/:slug/podcast.xml', getPodcastFeed);
+
 export default router;
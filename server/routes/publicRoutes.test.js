@@ -0,0 +1,145 @@
+import { before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import publicRoutes from './publicRoutes.js';
+import Message from '../models/Message.js';
+import Series from '../models/Series.js';
+import { oid, serveRoutes } from './testHelpers.js';
+
+// The public (unauthenticated) routes.
+
+const messages = {
+    published: new Message({
+        title: 'Grace & Truth',
+        preacher: 'Pastor Ade',
+        date: new Date('2026-03-01T10:00:00Z'),
+        mediaType: 'audio',
+        file: { filename: 'messages-1.mp3', mimetype: 'audio/mpeg', size: 1234 },
+        scriptureReferences: ['John 1:14'],
+        duration: 3930,
+    }),
+    draft: new Message({
+        title: 'Unfinished',
+        date: new Date('2026-03-08T10:00:00Z'),
+        mediaType: 'audio',
+        file: { filename: 'messages-2.mp3', mimetype: 'audio/mpeg', size: 99 },
+        isPublished: false,
+    }),
+};
+
+const series = [
+    new Series({ title: 'Older', slug: 'older', messages: [] }),
+    new Series({
+        title: 'John',
+        slug: 'john',
+        description: 'Walking through the fourth gospel',
+        coverImage: 'https://cdn.example.org/john.jpg',
+        messages: [messages.published._id],
+    }),
+];
+
+let messageFilter;
+
+const { urlFor } = serveRoutes('/api/public', publicRoutes);
+
+// The channel's own elements, before the first <item>
+const readChannel = (xml) => {
+    const channel = xml.split('<item>')[0];
+    const text = (name) => new RegExp(`<${name}>([^<]*)</${name}>`).exec(channel)?.[1];
+    return {
+        title: text('title'),
+        description: text('description'),
+        type: text('itunes:type'),
+        image: /<itunes:image href="([^"]*)"\/>/.exec(channel)?.[1],
+    };
+};
+
+// Each <item> as a map of its child elements
+const readItems = (xml) => [...xml.matchAll(/<item>(.*?)<\/item>/gs)].map(([, item]) => ({
+    ...Object.fromEntries([...item.matchAll(/<([\w:]+)(?: [^>]*)?>([^<]*)<\/\1>/g)].map(([, name, value]) => [name, value])),
+    enclosure: /<enclosure url="([^"]*)" length="(\d+)" type="([^"]*)"\/>/.exec(item)?.slice(1),
+}));
+
+before(() => {
+    mock.method(Message, 'findById', async (id) => Object.values(messages).find((m) => String(m._id) === String(id)) || null);
+    mock.method(Message, 'find', (filter) => {
+        messageFilter = filter;
+        const found = Object.values(messages).filter((message) => message.isPublished !== false
+            && (!filter._id || filter._id.$in.some((id) => String(id) === String(message._id))));
+        const chain = { sort: () => chain, limit: () => chain, then: (resolve) => resolve(found) };
+        return chain;
+    });
+    mock.method(Series, 'find', () => {
+        let selected = null;
+        const chain = {
+            sort: () => chain,
+            select: (fields) => {
+                selected = fields.split(' ');
+                return chain;
+            },
+            // Only the selected fields come back, as from Mongo
+            then: (resolve) => resolve(series.map((item) => Object.assign(
+                Object.fromEntries(selected.map((field) => [field, item[field]])),
+                { _id: item._id }
+            ))),
+        };
+        return chain;
+    });
+});
+
+beforeEach(() => {
+    messageFilter = null;
+});
+
+describe('message streaming', () => {
+    it('hides draft messages', async () => {
+        const response = await fetch(urlFor(`/messages/${messages.draft._id}/stream`));
+        assert.equal(response.status, 404);
+    });
+
+    it('answers 404 for unknown or malformed ids', async () => {
+        assert.equal((await fetch(urlFor(`/messages/${oid()}/stream`))).status, 404);
+        assert.equal((await fetch(urlFor('/messages/not-an-id/stream'))).status, 404);
+    });
+});
+
+describe('podcast feed', () => {
+    it('lists published audio messages in the archive feed', async () => {
+        const response = await fetch(urlFor('/podcast.xml'));
+        assert.equal(response.status, 200);
+        assert.match(response.headers.get('content-type'), /application\/rss\+xml/);
+        assert.equal(messageFilter.isPublished.$ne, false);
+
+        const xml = await response.text();
+        assert.ok(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>'));
+        assert.equal(readChannel(xml).type, 'episodic');
+
+        const items = readItems(xml);
+        assert.equal(items.length, 1);
+        assert.equal(items[0].title, 'Grace &amp; Truth');
+        assert.equal(items[0]['itunes:duration'], '01:05:30');
+        assert.equal(items[0]['itunes:season'], '2');
+        assert.equal(items[0]['itunes:episode'], '1');
+        assert.match(items[0].description, /Scripture: John 1:14/);
+        assert.deepEqual(items[0].enclosure, [
+            urlFor(`/messages/${messages.published._id}/stream`),
+            '1234',
+            'audio/mpeg',
+        ]);
+    });
+
+    it('uses the series description and artwork in a series feed', async () => {
+        const response = await fetch(urlFor('/series/john/podcast.xml'));
+        assert.equal(response.status, 200);
+
+        const channel = readChannel(await response.text());
+        assert.equal(channel.title, 'Sermons: John');
+        assert.equal(channel.description, 'Walking through the fourth gospel');
+        assert.equal(channel.image, 'https://cdn.example.org/john.jpg');
+        assert.equal(channel.type, 'serial');
+    });
+
+    it('answers 404 for an unknown series', async () => {
+        const response = await fetch(urlFor('/series/nope/podcast.xml'));
+        assert.equal(response.status, 404);
+    });
+});
@@ -0,0 +1,32 @@
+import express from 'express';
+import {
+    getSeries,
+    getSeriesById,
+    createSeries,
+    updateSeries,
+    setSeriesMessages,
+    deleteSeries,
+    uploadSeriesCover,
+} from '../controllers/seriesController.js';
+import { protect, requirePermission } from '../middleware/authMiddleware.js';
+import { seriesCoverUpload } from '../middleware/uploadMiddleware.js';
+
+const router = express.Router();
+
+const canView = requirePermission('view_messages');
+const canManage = requirePermission('manage_messages');
+
+router.post('/upload', protect, canManage, seriesCoverUpload, uploadSeriesCover);
+
+router.route('/')
+    .get(protect, canView, getSeries)
+    .post(protect, canManage, createSeries);
+
+router.route('/:id')
+    .get(protect, canView, getSeriesById)
+    .put(protect, canManage, updateSeries)
+    .delete(protect, canManage, deleteSeries);
+
+router.put('/:id/messages', protect, canManage, setSeriesMessages);
+
+export default router;
@@ -0,0 +1,69 @@
+import { after, before, mock } from 'node:test';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import Session from '../models/Session.js';
+import User from '../models/User.js';
+
+// Shared by the route tests, which each mount one router on a throwaway server
+// with the database calls replaced by in-memory fixtures.
+process.env.JWT_SECRET = 'test-secret';
+
+const oid = () => new mongoose.Types.ObjectId();
+
+// An access token whose session id is the user's own id
+const tokenFor = (user) => jwt.sign({ id: user._id, sid: user._id }, process.env.JWT_SECRET);
+
+// Every token maps to an active session owned by its user, who is looked up
+// with `findUser`. protect() selects fields; other callers await the query.
+const mockSignIn = (findUser) => {
+    mock.method(Session, 'findById', (id) => ({
+        select: async () => ({ _id: id, user: id, isActive: true }),
+    }));
+    mock.method(User, 'findById', (id) => {
+        const user = findUser(id) || null;
+        return { select: async () => user, then: (resolve) => resolve(user) };
+    });
+};
+
+// Serves `router` at `mountPath` for the file's tests and restores the mocks
+// afterwards. `request` signs in as `as` (the file's default user unless
+// given), or with a ready-made `token`, and parses the JSON reply.
+const serveRoutes = (mountPath, router, { as: defaultUser } = {}) => {
+    let server;
+    let baseUrl;
+
+    before(async () => {
+        const app = express();
+        app.use(express.json());
+        app.use(mountPath, router);
+
+        await new Promise((resolve) => {
+            server = app.listen(0, resolve);
+        });
+        baseUrl = `http://127.0.0.1:${server.address().port}${mountPath}`;
+    });
+
+    after(() => {
+        server.close();
+        mock.restoreAll();
+    });
+
+    const urlFor = (path) => `${baseUrl}${path}`;
+
+    const request = async (method, path, { as = defaultUser, token = as && tokenFor(as), body } = {}) => {
+        const response = await fetch(urlFor(path), {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            },
+            body: body ? JSON.stringify(body) : undefined,
+        });
+        return { status: response.status, body: await response.json() };
+    };
+
+    return { request, urlFor };
+};
+
+export { oid, tokenFor, mockSignIn, serveRoutes };
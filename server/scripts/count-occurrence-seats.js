@@ -0,0 +1,70 @@
+// One-off migration: seats used to be counted once per event (registered_count)
+// and each email could hold one registration per event. Both are now per
+// occurrence. Registrations without an occurrence date are given one (the event
+// date, or for a series the next occurrence), seats are recounted from the
+// registrations, and the old per-event unique index is replaced.
+//
+//   node scripts/count-occurrence-seats.js --dry-run   report only
+//   node scripts/count-occurrence-seats.js             report, then migrate
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import Event from '../models/Event.js';
+import EventRegistration from '../models/EventRegistration.js';
+import { toDay } from '../utils/recurrence.js';
+
+dotenv.config();
+
+const run = async () => {
+    const dryRun = process.argv.includes('--dry-run');
+    await mongoose.connect(process.env.MONGO_URI);
+
+    const undated = await EventRegistration.find({ occurrenceDate: null }).select('event');
+    const eventIds = [...new Set(undated.map((registration) => String(registration.event)))];
+    let orphaned = 0;
+
+    for (const eventId of eventIds) {
+        const event = await Event.findById(eventId);
+        if (!event) {
+            orphaned += 1;
+            continue;
+        }
+        const occurrence = event.occurrenceOn() || toDay(event.event_date);
+        if (!dryRun) {
+            await EventRegistration.updateMany({ event: event._id, occurrenceDate: null }, { occurrenceDate: occurrence });
+        }
+    }
+
+    console.log(`${undated.length} registrations without an occurrence date across ${eventIds.length} events, ${orphaned} of those events no longer exist.`);
+
+    const tallies = await EventRegistration.aggregate([
+        { $match: { status: 'registered', occurrenceDate: { $ne: null } } },
+        { $group: { _id: { event: '$event', date: '$occurrenceDate' }, registered: { $sum: 1 } } },
+    ]);
+    const seatsByEvent = new Map();
+    for (const { _id, registered } of tallies) {
+        const key = String(_id.event);
+        seatsByEvent.set(key, [...(seatsByEvent.get(key) || []), { date: _id.date, registered }]);
+    }
+
+    console.log(`${tallies.length} occurrences with seats taken across ${seatsByEvent.size} events.`);
+
+    if (dryRun) {
+        console.log('Dry run, nothing changed.');
+        return;
+    }
+
+    await Event.collection.updateMany({}, { $set: { seats: [] }, $unset: { registered_count: '' } });
+    for (const [eventId, seats] of seatsByEvent) {
+        await Event.collection.updateOne({ _id: new mongoose.Types.ObjectId(eventId) }, { $set: { seats } });
+    }
+    // Drops the per-event email index and builds the per-occurrence one
+    await EventRegistration.syncIndexes();
+    console.log('Seats recounted and registration indexes rebuilt.');
+};
+
+run()
+    .catch((error) => {
+        console.error(error);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
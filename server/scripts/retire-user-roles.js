@@ -0,0 +1,57 @@
+// One-off migration: User.role is the only record of a user's role. The
+// legacy userroles collection was written alongside it but never read, so it
+// is checked against User.role (which wins) and dropped.
+//
+//   node scripts/retire-user-roles.js --dry-run   report only
+//   node scripts/retire-user-roles.js             report, then drop the collection
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import User from '../models/User.js';
+
+dotenv.config();
+
+// The legacy enum called superadmins "superuser"
+const LEGACY_ROLES = { superuser: 'superadmin' };
+
+const run = async () => {
+    const dryRun = process.argv.includes('--dry-run');
+    await mongoose.connect(process.env.MONGO_URI);
+
+    const collections = await mongoose.connection.db.listCollections({ name: 'userroles' }).toArray();
+    if (collections.length === 0) {
+        console.log('No userroles collection; nothing to do.');
+        return;
+    }
+
+    const legacy = await mongoose.connection.db.collection('userroles').find({}).toArray();
+    let mismatched = 0;
+    let orphaned = 0;
+
+    for (const entry of legacy) {
+        const user = await User.findById(entry.user).select('email role');
+        const legacyRole = LEGACY_ROLES[entry.role] || entry.role;
+
+        if (!user) {
+            orphaned += 1;
+        } else if (user.role !== legacyRole) {
+            mismatched += 1;
+            console.log(`${user.email}: userroles said "${entry.role}", keeping User.role "${user.role}"`);
+        }
+    }
+
+    console.log(`${legacy.length} userroles entries, ${mismatched} disagreeing with User.role, ${orphaned} without a user.`);
+
+    if (dryRun) {
+        console.log('Dry run, collection left in place.');
+    } else {
+        await mongoose.connection.db.dropCollection('userroles');
+        console.log('Dropped userroles.');
+    }
+};
+
+run()
+    .catch((error) => {
+        console.error(error);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
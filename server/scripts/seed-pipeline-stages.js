@@ -0,0 +1,54 @@
+// Adds a starter lifecycle pipeline (Visitor -> Member -> Worker) when no
+// stages have been configured yet. Admins can rename, reorder and extend it
+// from the Pipeline Stages page afterwards.
+//
+//   node scripts/seed-pipeline-stages.js
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import PipelineStage from '../models/PipelineStage.js';
+
+dotenv.config();
+
+const DEFAULT_STAGES = [
+    {
+        name: 'Visitor',
+        description: 'First-time and returning guests',
+        category: 'Visitors',
+        followUpSteps: ['Welcome call', 'Invite to newcomers class'],
+        targetDays: 60,
+    },
+    {
+        name: 'Member',
+        description: 'Approved members settling into a unit',
+        category: 'Members',
+        entryCriteria: { minCheckIns: 3, requireApproved: true },
+        followUpSteps: ['Foundation class', 'Unit introduction'],
+        targetDays: 180,
+    },
+    {
+        name: 'Worker',
+        description: 'Members serving in a church unit',
+        category: 'Workers',
+        entryCriteria: { requireChurchUnit: true, minDaysInPreviousStage: 90 },
+    },
+];
+
+const run = async () => {
+    await mongoose.connect(process.env.MONGO_URI);
+
+    const existing = await PipelineStage.countDocuments();
+    if (existing > 0) {
+        console.log(`${existing} pipeline stages already configured; nothing to do.`);
+        return;
+    }
+
+    await PipelineStage.insertMany(DEFAULT_STAGES.map((stage, order) => ({ ...stage, order })));
+    console.log(`Added ${DEFAULT_STAGES.map((stage) => stage.name).join(' -> ')}.`);
+};
+
+run()
+    .catch((error) => {
+        console.error(error);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
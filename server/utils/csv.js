@@ -0,0 +1,20 @@
+// Minimal RFC 4180 writer: quotes every field that needs it and joins rows with CRLF.
+const escapeCell = (value) => {
+    if (value === null || value === undefined) return '';
+
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// columns: [{ header: 'Name', value: (row) => row.fullname }]
+const toCsv = (rows, columns) => {
+    const lines = [columns.map((column) => escapeCell(column.header)).join(',')];
+
+    rows.forEach((row) => {
+        lines.push(columns.map((column) => escapeCell(column.value(row))).join(','));
+    });
+
+    return lines.join('\r\n');
+};
+
+export { toCsv };
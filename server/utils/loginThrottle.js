@@ -0,0 +1,94 @@
+import User from '../models/User.js';
+import LoginAttempt from '../models/LoginAttempt.js';
+
+// Each account gets a few free tries, then has to wait longer after every
+// failure (1s, 2s, 4s... up to a minute), and is locked after LOCK_AFTER.
+const ACCOUNT_DELAY_AFTER = 3;
+const ACCOUNT_LOCK_AFTER = 10;
+const LOCK_MINUTES = 15;
+// The same applies to an address guessing across many accounts
+const IP_WINDOW_MINUTES = 15;
+const IP_DELAY_AFTER = 10;
+const IP_BLOCK_AFTER = 50;
+const MAX_DELAY_SECONDS = 60;
+
+// Seconds to wait after the latest of `failures` failures
+const delayFor = (failures, freeAttempts) => (
+    failures <= freeAttempts ? 0 : Math.min(2 ** (failures - freeAttempts - 1), MAX_DELAY_SECONDS)
+);
+
+const secondsUntil = (date) => Math.max(Math.ceil((date.getTime() - Date.now()) / 1000), 1);
+
+// Why this attempt should be turned away before the password is even checked:
+// { status, reason, message, retryAfter } or null. user may be null.
+const loginBlock = async (user, ip) => {
+    if (user?.lockedUntil && user.lockedUntil > new Date()) {
+        const minutes = Math.ceil(secondsUntil(user.lockedUntil) / 60);
+        return {
+            status: 423,
+            reason: 'locked',
+            retryAfter: secondsUntil(user.lockedUntil),
+            message: `Too many failed attempts. This account is locked for ${minutes} more `
+                + `minute${minutes === 1 ? '' : 's'}, or until an administrator unlocks it.`,
+        };
+    }
+
+    const waits = [];
+    if (user?.lastFailedLoginAt) {
+        const delay = delayFor(user.failedLoginAttempts, ACCOUNT_DELAY_AFTER);
+        waits.push(new Date(user.lastFailedLoginAt.getTime() + delay * 1000));
+    }
+
+    const windowMs = IP_WINDOW_MINUTES * 60 * 1000;
+    const ipFailures = await LoginAttempt.recentFailuresFromIp(ip, windowMs, IP_BLOCK_AFTER);
+    if (ipFailures.length >= IP_BLOCK_AFTER) {
+        // Blocked until the oldest of those failures leaves the window
+        waits.push(new Date(ipFailures[ipFailures.length - 1].created_at.getTime() + windowMs));
+    } else if (ipFailures.length > 0) {
+        const delay = delayFor(ipFailures.length, IP_DELAY_AFTER);
+        waits.push(new Date(ipFailures[0].created_at.getTime() + delay * 1000));
+    }
+
+    const until = waits.sort((a, b) => b - a)[0];
+    if (until && until > new Date()) {
+        const retryAfter = secondsUntil(until);
+        return {
+            status: 429,
+            reason: 'throttled',
+            retryAfter,
+            message: `Too many failed attempts, try again in ${retryAfter} second${retryAfter === 1 ? '' : 's'}`,
+        };
+    }
+
+    return null;
+};
+
+// Counts a wrong password or code against the account, locking it at the limit
+const recordLoginFailure = async (user) => {
+    if (!user) {
+        return;
+    }
+
+    const updated = await User.findOneAndUpdate(
+        { _id: user._id },
+        { $inc: { failedLoginAttempts: 1 }, lastFailedLoginAt: new Date() },
+        { new: true }
+    );
+    if (updated && updated.failedLoginAttempts >= ACCOUNT_LOCK_AFTER) {
+        await User.updateOne({ _id: user._id }, {
+            lockedUntil: new Date(Date.now() + LOCK_MINUTES * 60 * 1000),
+            failedLoginAttempts: 0,
+        });
+    }
+};
+
+const recordLoginSuccess = async (user) => {
+    if (user.failedLoginAttempts || user.lockedUntil) {
+        await User.updateOne({ _id: user._id }, {
+            failedLoginAttempts: 0,
+            $unset: { lastFailedLoginAt: 1, lockedUntil: 1 },
+        });
+    }
+};
+
+export { loginBlock, recordLoginFailure, recordLoginSuccess };
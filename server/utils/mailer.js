@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+
+// Outgoing mail goes through whichever transport MAIL_TRANSPORT names.
+// A transport is an object with send(message) returning a promise; register
+// others (SMTP, an API provider) with registerTransport.
+const transports = {
+    // Prints the message to the server log
+    console: {
+        send: async (message) => {
+            console.log([
+                '--- mail ---',
+                `To: ${message.to}`,
+                `Subject: ${message.subject}`,
+                '',
+                message.text,
+                '------------',
+            ].join('\n'));
+        },
+    },
+    // Writes each message as an .eml file, handy for clicking links in local testing
+    file: {
+        send: async (message) => {
+            const dir = path.resolve(process.env.MAIL_DIR || 'tmp/mail');
+            await fs.promises.mkdir(dir, { recursive: true });
+
+            const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${Math.round(Math.random() * 1e6)}.eml`;
+            await fs.promises.writeFile(path.join(dir, filename), [
+                `From: ${message.from}`,
+                `To: ${message.to}`,
+                `Subject: ${message.subject}`,
+                `Date: ${new Date().toUTCString()}`,
+                'Content-Type: text/plain; charset=utf-8',
+                '',
+                message.text,
+            ].join('\r\n'));
+        },
+    },
+};
+
+const registerTransport = (name, transport) => {
+    transports[name] = transport;
+};
+
+// message: { to, subject, text }
+const sendMail = async (message) => {
+    const name = process.env.MAIL_TRANSPORT || 'console';
+    const transport = transports[name];
+
+    if (!transport) {
+        throw new Error(`Unknown mail transport "${name}"`);
+    }
+
+    await transport.send({
+        from: process.env.MAIL_FROM || 'no-reply@localhost',
+        ...message,
+    });
+};
+
+// Links in emails point at the frontend, which posts the token back to the API
+const appLink = (pathname, token) =>
+    `${process.env.APP_URL || 'http://localhost:7070'}${pathname}?token=${encodeURIComponent(token)}`;
+
+export { registerTransport, sendMail, appLink };
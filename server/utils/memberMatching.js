@@ -0,0 +1,78 @@
+// Normalised forms of member contact details, for telling when two records
+// are the same person.
+
+const MIN_PHONE_DIGITS = 7;
+// Subscriber number without country or trunk prefix, so "+234 803 000 0000"
+// and "0803 000 0000" compare equal
+const LOCAL_PHONE_DIGITS = 10;
+const GMAIL_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+const emailKey = (email) => String(email || '').trim().toLowerCase();
+
+// Digits only, so "+234 803 000 0000" and "2348030000000" match
+const phoneKey = (phone) => {
+    const digits = String(phone || '').replace(/\D/g, '');
+    return digits.length >= MIN_PHONE_DIGITS ? digits : '';
+};
+
+const localPhoneKey = (phone) => phoneKey(phone).slice(-LOCAL_PHONE_DIGITS);
+
+// Matches stored numbers ending in the same local digits however they are
+// written ("0803 000 0000", "+234-803-000-0000"), so the database can do a
+// first pass before localPhoneKey decides
+const localPhonePattern = (phone) => {
+    const digits = localPhoneKey(phone);
+    return digits ? new RegExp(`${digits.split('').join('\\D*')}\\D*$`) : null;
+};
+
+// The mailbox an address delivers to: "+tags" dropped, and Gmail's
+// ignored dots removed
+const mailboxKey = (email) => {
+    const [local, domain] = emailKey(email).split('@');
+    if (!local || !domain) {
+        return '';
+    }
+    const mailbox = local.split('+')[0];
+    return `${GMAIL_DOMAINS.includes(domain) ? mailbox.replace(/\./g, '') : mailbox}@${domain}`;
+};
+
+// Lower-case name words in alphabetical order, accents and punctuation removed
+const nameTokens = (name) => String(name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .sort();
+
+const bigrams = (text) => {
+    const pairs = [];
+    for (let i = 0; i < text.length - 1; i += 1) {
+        pairs.push(text.slice(i, i + 2));
+    }
+    return pairs;
+};
+
+// Dice coefficient of the names' letter pairs, from 0 to 1. Word order
+// doesn't count, so "Doe John" matches "John Doe".
+const nameSimilarity = (a, b) => {
+    const left = bigrams(nameTokens(a).join(' '));
+    const right = bigrams(nameTokens(b).join(' '));
+    if (!left.length || !right.length) {
+        return 0;
+    }
+
+    const remaining = new Map();
+    right.forEach((pair) => remaining.set(pair, (remaining.get(pair) || 0) + 1));
+    let shared = 0;
+    left.forEach((pair) => {
+        if (remaining.get(pair) > 0) {
+            remaining.set(pair, remaining.get(pair) - 1);
+            shared += 1;
+        }
+    });
+
+    return (2 * shared) / (left.length + right.length);
+};
+
+export { emailKey, phoneKey, localPhoneKey, localPhonePattern, mailboxKey, nameTokens, nameSimilarity };
@@ -0,0 +1,72 @@
+// RSS 2.0 writer with the iTunes podcast extensions Apple Podcasts and Spotify expect.
+const escapeXml = (value) => String(value ?? '').replace(/[<>&'"]/g, (char) => ({
+    '<': '&lt;',
+    '>': '&gt;',
+    '&': '&amp;',
+    "'": '&apos;',
+    '"': '&quot;',
+}[char]));
+
+// 3930 -> "01:05:30"
+const itunesDuration = (seconds) => {
+    const total = Math.max(Math.round(seconds || 0), 0);
+    const pad = (value) => String(value).padStart(2, '0');
+    return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+};
+
+const tag = (name, value, attributes = '') => (
+    value === undefined || value === null || value === ''
+        ? ''
+        : `<${name}${attributes}>${escapeXml(value)}</${name}>`
+);
+
+// item: { guid, title, description, author, date, url, length, type, duration, season, episode }
+const renderItem = (item) => [
+    '<item>',
+    tag('title', item.title),
+    tag('description', item.description),
+    tag('itunes:summary', item.description),
+    tag('itunes:author', item.author),
+    tag('pubDate', item.date.toUTCString()),
+    tag('guid', item.guid, ' isPermaLink="false"'),
+    `<enclosure url="${escapeXml(item.url)}" length="${item.length || 0}" type="${escapeXml(item.type)}"/>`,
+    item.duration ? tag('itunes:duration', itunesDuration(item.duration)) : '',
+    tag('itunes:season', item.season),
+    tag('itunes:episode', item.episode),
+    '<itunes:episodeType>full</itunes:episodeType>',
+    '<itunes:explicit>false</itunes:explicit>',
+    '</item>',
+].filter(Boolean).join('');
+
+// channel: { title, description, link, selfUrl, language, author, ownerName, ownerEmail,
+//            image, category, subcategory, type: 'episodic' | 'serial', updated }
+const buildPodcastFeed = (channel, items) => [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '<channel>',
+    tag('title', channel.title),
+    tag('link', channel.link),
+    tag('description', channel.description),
+    tag('language', channel.language),
+    `<atom:link href="${escapeXml(channel.selfUrl)}" rel="self" type="application/rss+xml"/>`,
+    tag('lastBuildDate', (channel.updated || new Date()).toUTCString()),
+    tag('itunes:author', channel.author),
+    tag('itunes:summary', channel.description),
+    channel.ownerEmail
+        ? `<itunes:owner>${tag('itunes:name', channel.ownerName)}${tag('itunes:email', channel.ownerEmail)}</itunes:owner>`
+        : '',
+    channel.image ? `<itunes:image href="${escapeXml(channel.image)}"/>` : '',
+    channel.image
+        ? `<image>${tag('url', channel.image)}${tag('title', channel.title)}${tag('link', channel.link)}</image>`
+        : '',
+    `<itunes:category text="${escapeXml(channel.category)}">`
+        + (channel.subcategory ? `<itunes:category text="${escapeXml(channel.subcategory)}"/>` : '')
+        + '</itunes:category>',
+    '<itunes:explicit>false</itunes:explicit>',
+    tag('itunes:type', channel.type),
+    ...items.map(renderItem),
+    '</channel>',
+    '</rss>',
+].filter(Boolean).join('\n');
+
+export { escapeXml, itunesDuration, buildPodcastFeed };
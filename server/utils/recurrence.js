@@ -0,0 +1,214 @@
+// Expands recurring events into concrete occurrences. Rules follow a small,
+// RRULE-like subset: FREQ, INTERVAL, BYDAY, BYSETPOS, BYMONTHDAY, UNTIL and COUNT.
+// All dates are calendar days at midnight UTC; times of day stay on the event.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const POSITION_NAMES = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', 5: 'fifth', '-1': 'last' };
+
+// Guards against runaway rules such as a daily event with no end
+const MAX_OCCURRENCES = 2000;
+
+const toDay = (value) => {
+    const date = new Date(value);
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+};
+
+const addDays = (date, days) => new Date(date.getTime() + days * DAY_MS);
+
+const dayKey = (date) => date.toISOString().split('T')[0];
+
+const daysInMonth = (year, month) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// nth (1-based, or -1 for last) given weekday in a month; null when it doesn't exist
+const nthWeekdayOfMonth = (year, month, weekday, position) => {
+    if (position > 0) {
+        const first = new Date(Date.UTC(year, month, 1));
+        const day = 1 + ((weekday - first.getUTCDay() + 7) % 7) + (position - 1) * 7;
+        return day <= daysInMonth(year, month) ? new Date(Date.UTC(year, month, day)) : null;
+    }
+    const lastDay = daysInMonth(year, month);
+    const last = new Date(Date.UTC(year, month, lastDay));
+    return new Date(Date.UTC(year, month, lastDay - ((last.getUTCDay() - weekday + 7) % 7)));
+};
+
+// First day of the nth period of the rule, used to know when to stop iterating
+const periodStart = (rule, start, periodIndex) => {
+    const interval = rule.interval || 1;
+
+    switch (rule.freq) {
+        case 'daily':
+            return addDays(start, periodIndex * interval);
+        case 'weekly':
+            return addDays(start, periodIndex * interval * 7 - start.getUTCDay());
+        case 'monthly':
+            return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + periodIndex * interval, 1));
+        default:
+            return new Date(Date.UTC(start.getUTCFullYear() + periodIndex * interval, 0, 1));
+    }
+};
+
+// Candidate dates for one period (day, week, month or year) of the rule, in order
+const datesInPeriod = (rule, start, periodIndex) => {
+    const interval = rule.interval || 1;
+    const byDay = (rule.byDay || []).map((day) => WEEKDAYS.indexOf(day)).filter((day) => day >= 0);
+
+    switch (rule.freq) {
+        case 'daily':
+            return [addDays(start, periodIndex * interval)];
+
+        case 'weekly': {
+            const weekStart = periodStart(rule, start, periodIndex);
+            const days = byDay.length ? byDay : [start.getUTCDay()];
+            return [...days].sort((a, b) => a - b).map((day) => addDays(weekStart, day));
+        }
+
+        case 'monthly': {
+            const monthIndex = start.getUTCMonth() + periodIndex * interval;
+            const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+            const month = ((monthIndex % 12) + 12) % 12;
+
+            if (byDay.length && rule.bySetPos) {
+                return byDay
+                    .map((day) => nthWeekdayOfMonth(year, month, day, rule.bySetPos))
+                    .filter(Boolean)
+                    .sort((a, b) => a - b);
+            }
+
+            // Without a position, every one of those weekdays in the month
+            if (byDay.length) {
+                return Array.from({ length: daysInMonth(year, month) }, (_, i) => new Date(Date.UTC(year, month, i + 1)))
+                    .filter((date) => byDay.includes(date.getUTCDay()));
+            }
+
+            const monthDay = rule.byMonthDay || start.getUTCDate();
+            const lastDay = daysInMonth(year, month);
+            const day = monthDay < 0 ? lastDay + monthDay + 1 : monthDay;
+            // Skip months that are too short, as RRULE does (no 31 February)
+            return day >= 1 && day <= lastDay ? [new Date(Date.UTC(year, month, day))] : [];
+        }
+
+        case 'yearly': {
+            const year = start.getUTCFullYear() + periodIndex * interval;
+            const date = new Date(Date.UTC(year, start.getUTCMonth(), start.getUTCDate()));
+            return date.getUTCMonth() === start.getUTCMonth() ? [date] : [];
+        }
+
+        default:
+            return [];
+    }
+};
+
+/**
+ * Occurrence start dates of `rule` between `from` (the first occurrence by
+ * default) and `to`, inclusive. COUNT is honoured from the first occurrence,
+ * not from the start of the window; MAX_OCCURRENCES only limits the dates
+ * returned, so a long-running rule still reaches a window far from its start.
+ */
+const occurrenceDates = (rule, start, to, from = start) => {
+    const dates = [];
+    let seen = 0;
+    const until = rule.until ? toDay(rule.until) : null;
+    const end = until && until < to ? until : to;
+
+    if (!['daily', 'weekly', 'monthly', 'yearly'].includes(rule.freq)) {
+        return dates;
+    }
+
+    for (let period = 0; dates.length < MAX_OCCURRENCES && periodStart(rule, start, period) <= end; period += 1) {
+        for (const date of datesInPeriod(rule, start, period)) {
+            if (date < start || date > end) continue;
+            if (rule.count && seen >= rule.count) return dates;
+            seen += 1;
+            if (date >= from) {
+                dates.push(date);
+            }
+        }
+    }
+
+    return dates;
+};
+
+/**
+ * Concrete occurrences of an event that overlap [from, to]. Non-recurring
+ * events yield at most one occurrence. Exceptions can cancel an occurrence or
+ * override its title, time, location or date.
+ */
+const expandEvent = (event, from, to) => {
+    const start = toDay(event.event_date);
+    const rangeStart = toDay(from);
+    const rangeEnd = toDay(to);
+    const durationDays = event.end_date ? Math.max(Math.round((toDay(event.end_date) - start) / DAY_MS), 0) : 0;
+    const base = typeof event.toJSON === 'function' ? event.toJSON() : event;
+
+    const dates = event.is_recurring && event.recurrence?.freq
+        // Look back by the event's length so multi-day occurrences already underway are included
+        ? occurrenceDates(event.recurrence, start, rangeEnd, addDays(rangeStart, -durationDays))
+        : [start];
+
+    const exceptions = new Map((event.exceptions || []).map((exception) => [dayKey(toDay(exception.date)), exception]));
+
+    return dates.map((date) => {
+        const key = dayKey(date);
+        const exception = exceptions.get(key);
+        const occurrenceDate = exception?.event_date ? toDay(exception.event_date) : date;
+
+        return {
+            ...base,
+            exceptions: undefined,
+            event_id: String(event._id),
+            occurrence_id: `${event._id}:${key}`,
+            original_date: date,
+            event_date: occurrenceDate,
+            end_date: durationDays ? addDays(occurrenceDate, durationDays) : base.end_date,
+            title: exception?.title || base.title,
+            event_time: exception?.event_time || base.event_time,
+            end_time: exception?.end_time || base.end_time,
+            location: exception?.location || base.location,
+            is_cancelled: !!exception?.cancelled,
+            is_exception: !!exception,
+            exception_note: exception?.note,
+        };
+    }).filter((occurrence) => {
+        const occurrenceEnd = addDays(toDay(occurrence.event_date), durationDays);
+        return occurrence.event_date <= rangeEnd && occurrenceEnd >= rangeStart;
+    });
+};
+
+// Human readable summary such as "Every 2 weeks on Sunday" or "Monthly on the first Friday"
+const describeRecurrence = (rule) => {
+    if (!rule || !rule.freq) return '';
+
+    const interval = rule.interval || 1;
+    const units = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' };
+    const adverbs = { daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly', yearly: 'Yearly' };
+    let text = interval > 1 ? `Every ${interval} ${units[rule.freq]}s` : adverbs[rule.freq];
+    const days = (rule.byDay || []).map((day) => WEEKDAY_NAMES[WEEKDAYS.indexOf(day)]).filter(Boolean);
+
+    if (rule.freq === 'weekly' && days.length) {
+        text += ` on ${days.join(', ')}`;
+    } else if (rule.freq === 'monthly' && days.length && rule.bySetPos) {
+        text += ` on the ${POSITION_NAMES[rule.bySetPos]} ${days.join(', ')}`;
+    } else if (rule.freq === 'monthly' && days.length) {
+        text += ` on every ${days.join(', ')}`;
+    } else if (rule.freq === 'monthly' && rule.byMonthDay) {
+        text += rule.byMonthDay === -1 ? ' on the last day' : ` on day ${rule.byMonthDay}`;
+    }
+
+    if (rule.count) {
+        text += `, ${rule.count} times`;
+    } else if (rule.until) {
+        text += `, until ${dayKey(toDay(rule.until))}`;
+    }
+    return text;
+};
+
+export {
+    WEEKDAYS,
+    toDay,
+    dayKey,
+    occurrenceDates,
+    expandEvent,
+    describeRecurrence,
+};
@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeRecurrence, expandEvent, occurrenceDates } from './recurrence.js';
+
+const day = (value) => new Date(`${value}T00:00:00Z`);
+const keys = (dates) => dates.map((date) => date.toISOString().split('T')[0]);
+
+// 4 January 2026 is a Sunday
+const sunday = day('2026-01-04');
+
+describe('occurrenceDates', () => {
+    it('repeats daily at the interval', () => {
+        assert.deepEqual(
+            keys(occurrenceDates({ freq: 'daily', interval: 2 }, sunday, day('2026-01-10'))),
+            ['2026-01-04', '2026-01-06', '2026-01-08', '2026-01-10'],
+        );
+    });
+
+    it('repeats weekly on the chosen days, in order', () => {
+        assert.deepEqual(
+            keys(occurrenceDates({ freq: 'weekly', byDay: ['WE', 'SU'] }, sunday, day('2026-01-14'))),
+            ['2026-01-04', '2026-01-07', '2026-01-11', '2026-01-14'],
+        );
+    });
+
+    it('falls on the nth weekday of the month', () => {
+        assert.deepEqual(
+            keys(occurrenceDates({ freq: 'monthly', byDay: ['FR'], bySetPos: 1 }, day('2026-01-02'), day('2026-03-31'))),
+            ['2026-01-02', '2026-02-06', '2026-03-06'],
+        );
+        assert.deepEqual(
+            keys(occurrenceDates({ freq: 'monthly', byDay: ['SU'], bySetPos: -1 }, sunday, day('2026-02-28'))),
+            ['2026-01-25', '2026-02-22'],
+        );
+    });
+
+    it('falls on every chosen weekday of the month when no position is given', () => {
+        assert.deepEqual(
+            keys(occurrenceDates({ freq: 'monthly', interval: 2, byDay: ['SU'] }, sunday, day('2026-03-31'))),
+            ['2026-01-04', '2026-01-11', '2026-01-18', '2026-01-25', '2026-03-01', '2026-03-08', '2026-03-15', '2026-03-22', '2026-03-29'],
+        );
+    });
+
+    it('skips months too short for the day', () => {
+        assert.deepEqual(
+            keys(occurrenceDates({ freq: 'monthly' }, day('2026-01-31'), day('2026-04-30'))),
+            ['2026-01-31', '2026-03-31'],
+        );
+    });
+
+    it('stops after COUNT occurrences, counted from the first', () => {
+        const rule = { freq: 'weekly', count: 3 };
+        assert.deepEqual(keys(occurrenceDates(rule, sunday, day('2026-12-31'))), ['2026-01-04', '2026-01-11', '2026-01-18']);
+        assert.deepEqual(keys(occurrenceDates(rule, sunday, day('2026-12-31'), day('2026-01-15'))), ['2026-01-18']);
+    });
+
+    it('stops at UNTIL, inclusive', () => {
+        assert.deepEqual(
+            keys(occurrenceDates({ freq: 'weekly', until: '2026-01-18T20:00:00Z' }, sunday, day('2026-12-31'))),
+            ['2026-01-04', '2026-01-11', '2026-01-18'],
+        );
+    });
+
+    it('reaches a window far from the start of a rule with no end', () => {
+        const dates = occurrenceDates({ freq: 'daily' }, day('2010-01-01'), day('2026-01-03'), day('2026-01-01'));
+        assert.deepEqual(keys(dates), ['2026-01-01', '2026-01-02', '2026-01-03']);
+    });
+});
+
+describe('expandEvent', () => {
+    const event = {
+        _id: 'evt1',
+        title: 'Prayer Meeting',
+        event_date: sunday,
+        event_time: '18:00',
+        is_recurring: true,
+        recurrence: { freq: 'weekly' },
+        exceptions: [
+            { date: day('2026-01-11'), cancelled: true },
+            { date: day('2026-01-18'), event_date: day('2026-01-19'), title: 'Moved Prayer Meeting', event_time: '19:00' },
+        ],
+    };
+
+    it('applies cancellations and overrides to their occurrences', () => {
+        const occurrences = expandEvent(event, day('2026-01-01'), day('2026-01-25'));
+
+        assert.deepEqual(occurrences.map((o) => o.occurrence_id), ['evt1:2026-01-04', 'evt1:2026-01-11', 'evt1:2026-01-18', 'evt1:2026-01-25']);
+        assert.deepEqual(occurrences.map((o) => o.is_cancelled), [false, true, false, false]);
+
+        const moved = occurrences[2];
+        assert.deepEqual(keys([moved.original_date, moved.event_date]), ['2026-01-18', '2026-01-19']);
+        assert.equal(moved.title, 'Moved Prayer Meeting');
+        assert.equal(moved.event_time, '19:00');
+        assert.equal(moved.exceptions, undefined);
+    });
+
+    it('includes multi-day occurrences already underway', () => {
+        const retreat = { _id: 'evt2', event_date: sunday, end_date: day('2026-01-06'), is_recurring: true, recurrence: { freq: 'weekly' } };
+        const occurrences = expandEvent(retreat, day('2026-01-13'), day('2026-01-14'));
+
+        assert.deepEqual(occurrences.map((o) => o.occurrence_id), ['evt2:2026-01-11']);
+        assert.deepEqual(keys([occurrences[0].end_date]), ['2026-01-13']);
+    });
+});
+
+describe('describeRecurrence', () => {
+    it('summarises the rule', () => {
+        assert.equal(describeRecurrence({ freq: 'weekly', interval: 2, byDay: ['SU'] }), 'Every 2 weeks on Sunday');
+        assert.equal(describeRecurrence({ freq: 'monthly', byDay: ['FR'], bySetPos: 1, count: 6 }), 'Monthly on the first Friday, 6 times');
+        assert.equal(describeRecurrence({ freq: 'monthly', byDay: ['SU'] }), 'Monthly on every Sunday');
+    });
+});
@@ -0,0 +1,35 @@
+import mongoose from 'mongoose';
+
+let supported;
+
+// Transactions need a replica set or a sharded cluster; a standalone server,
+// the usual local setup, refuses them. Asked once per process.
+const supportsTransactions = async () => {
+    if (supported === undefined) {
+        const hello = await mongoose.connection.db.admin().command({ hello: 1 });
+        supported = Boolean(hello.setName) || hello.msg === 'isdbgrid';
+    }
+    return supported;
+};
+
+// Runs `work(session)` in a transaction where the server supports them. On a
+// standalone server it runs with a null session instead: the writes still
+// happen, but a failure part way through is not rolled back.
+const withTransaction = async (work) => {
+    if (!(await supportsTransactions())) {
+        return work(null);
+    }
+
+    const session = await mongoose.startSession();
+    try {
+        let result;
+        await session.withTransaction(async () => {
+            result = await work(session);
+        });
+        return result;
+    } finally {
+        await session.endSession();
+    }
+};
+
+export { withTransaction };
@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { authenticator } from 'otplib';
+import QRCode from 'qrcode';
+
+const STEP_SECONDS = 30;
+// Accept the code from the previous and next step too, for clock drift
+authenticator.options = { step: STEP_SECONDS, window: 1 };
+
+const ISSUER = 'Gospel Labour Ministry';
+const RECOVERY_CODE_COUNT = 10;
+// Roles that may not sign in without a second factor
+const TWO_FACTOR_ROLES = ['admin', 'superadmin'];
+
+// How long the password step stays good for while the user finds their phone
+const CHALLENGE_TTL = {
+    '2fa': '5m',
+    '2fa-setup': '15m',
+};
+
+const twoFactorRequired = (role) => TWO_FACTOR_ROLES.includes(role);
+
+// Short-lived token proving the password was right. It has no session, so
+// protect() turns it away; only the 2FA endpoints accept it.
+const signChallenge = (user, purpose) => jwt.sign(
+    { id: user._id, purpose },
+    process.env.JWT_SECRET,
+    { expiresIn: CHALLENGE_TTL[purpose] }
+);
+
+// The user id a challenge token was issued for, or null
+const readChallenge = (token, purpose) => {
+    try {
+        const payload = jwt.verify(String(token || ''), process.env.JWT_SECRET);
+        return payload.purpose === purpose ? payload.id : null;
+    } catch (error) {
+        return null;
+    }
+};
+
+const hashRecoveryCode = (code) => crypto
+    .createHash('sha256')
+    .update(String(code).trim().toLowerCase().replace(/[^a-f0-9]/g, ''))
+    .digest('hex');
+
+// New secret plus what an authenticator app needs to add it
+const createTotpSecret = async (email) => {
+    const secret = authenticator.generateSecret();
+    const otpauthUrl = authenticator.keyuri(email, process.env.TWO_FACTOR_ISSUER || ISSUER, secret);
+
+    return {
+        secret,
+        otpauthUrl,
+        qrCode: await QRCode.toDataURL(otpauthUrl),
+    };
+};
+
+// The time step a code belongs to, or null when it doesn't match. Callers
+// remember the last step used so a code can't be replayed.
+const verifyTotp = (code, secret) => {
+    const token = String(code || '').replace(/\s/g, '');
+    if (!secret || !/^\d{6}$/.test(token)) {
+        return null;
+    }
+
+    const delta = authenticator.checkDelta(token, secret);
+    if (delta === null) {
+        return null;
+    }
+    return Math.floor(Date.now() / 1000 / STEP_SECONDS) + delta;
+};
+
+// Plain codes to show the user once, and the hashes to store
+const createRecoveryCodes = () => {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const hex = crypto.randomBytes(5).toString('hex');
+        return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+    return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+export {
+    twoFactorRequired,
+    signChallenge,
+    readChallenge,
+    createTotpSecret,
+    verifyTotp,
+    createRecoveryCodes,
+    hashRecoveryCode,
+};
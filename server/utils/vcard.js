@@ -0,0 +1,41 @@
+// vCard 3.0 (RFC 2426) writer for contact exports
+
+const escapeText = (value) => String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/([,;])/g, '\\$1');
+
+// "Ada Grace Obi" -> family "Obi", given "Ada Grace"
+const splitName = (fullname) => {
+    const parts = String(fullname || '').trim().split(/\s+/).filter(Boolean);
+    const family = parts.length > 1 ? parts.pop() : '';
+    return { family, given: parts.join(' ') };
+};
+
+// contacts: [{ fullname, email, phone, organization, categories: [], note,
+//             address: { line1, line2, city, state, postalCode, country } }]
+const toVcf = (contacts) => contacts.map((contact) => {
+    const { family, given } = splitName(contact.fullname);
+    const lines = [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        `FN:${escapeText(contact.fullname || contact.email || '')}`,
+        `N:${escapeText(family)};${escapeText(given)};;;`,
+    ];
+
+    if (contact.email) lines.push(`EMAIL;TYPE=INTERNET:${escapeText(contact.email)}`);
+    if (contact.phone) lines.push(`TEL;TYPE=CELL:${escapeText(contact.phone)}`);
+    if (contact.address?.line1) {
+        const { line1, line2, city, state, postalCode, country } = contact.address;
+        const parts = ['', line2, line1, city, state, postalCode, country].map((part) => escapeText(part || ''));
+        lines.push(`ADR;TYPE=HOME:${parts.join(';')}`);
+    }
+    if (contact.organization) lines.push(`ORG:${escapeText(contact.organization)}`);
+    if (contact.categories?.length) lines.push(`CATEGORIES:${contact.categories.map(escapeText).join(',')}`);
+    if (contact.note) lines.push(`NOTE:${escapeText(contact.note)}`);
+
+    lines.push('END:VCARD');
+    return lines.join('\r\n');
+}).join('\r\n');
+
+export { toVcf };
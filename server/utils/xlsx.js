@@ -0,0 +1,20 @@
+import XLSX from 'xlsx';
+
+// One-sheet workbook as a buffer. Takes the same columns as toCsv:
+// [{ header: 'Name', value: (row) => row.fullname }]
+const toXlsx = (rows, columns, sheetName = 'Sheet1') => {
+    const data = [
+        columns.map((column) => column.header),
+        ...rows.map((row) => columns.map((column) => {
+            const value = column.value(row);
+            return value === null || value === undefined ? '' : value;
+        })),
+    ];
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(data, { cellDates: true }), sheetName);
+
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+};
+
+export { toXlsx };
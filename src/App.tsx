@@ -6,18 +6,32 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 
 import Login from "./pages/Login";
 import Signup from "./pages/Signup";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
+import VerifyEmail from "./pages/VerifyEmail";
+import AcceptInvite from "./pages/AcceptInvite";
 import Dashboard from "./pages/Dashboard";
 import MembersPage from "./pages/MembersPage";
 import AddMemberPage from "./pages/AddMemberPage";
 import EditMemberPage from "./pages/EditMemberPage";
+import ImportMembersPage from "./pages/ImportMembersPage";
+import MemberDuplicatesPage from "./pages/MemberDuplicatesPage";
+import PipelineStagesPage from "./pages/PipelineStagesPage";
 import MessagesPage from "./pages/MessagesPage";
 import EventsPage from "./pages/EventsPage";
+import EventAttendeesPage from "./pages/EventAttendeesPage";
 import AuxanoCentersPage from "./pages/AuxanoCentersPage";
 import AuxanoCenterDetailsPage from "./pages/AuxanoCenterDetailsPage";
 import DiscipleshipPage from "./pages/DiscipleshipPage";
 import CreateUserPage from "./pages/CreateUserPage";
 import UsersPage from "./pages/UsersPage";
+import AuditLogPage from "./pages/AuditLogPage";
+import CheckInPage from "./pages/CheckInPage";
+import DonationsPage from "./pages/DonationsPage";
+import SettingsPage from "./pages/SettingsPage";
 import AppLayout from "./components/layout/AppLayout";
+import { RoleProvider } from "./components/auth/RoleProvider";
+import PermissionGuard from "./components/auth/PermissionGuard";
 
 const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
     const { isAuthenticated, isLoading } = useAuth();
@@ -28,6 +42,11 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
     return <>{children}</>;
 };
 
+// Permission names come from the server's role matrix (GET /api/auth/permissions)
+const guard = (permission: string, element: React.ReactNode) => (
+    <PermissionGuard requiredPermission={permission}>{element}</PermissionGuard>
+);
+
 const queryClient = new QueryClient();
 
 function App() {
@@ -35,34 +54,48 @@ function App() {
         <QueryClientProvider client={queryClient}>
             <ThemeProvider defaultTheme="light" storageKey="vite-ui-theme">
                 <AuthProvider>
-                    <BrowserRouter>
-                        <Routes>
-                            <Route path="/login" element={<Login />} />
-                            <Route path="/signup" element={<Signup />} />
-                            <Route
-                                path="/*"
-                                element={
-                                    <ProtectedRoute>
-                                        <AppLayout>
-                                            <Routes>
-                                                <Route path="/" element={<Dashboard />} />
-                                                <Route path="/members" element={<MembersPage />} />
-                                                <Route path="/members/add" element={<AddMemberPage />} />
-                                                <Route path="/members/edit/:id" element={<EditMemberPage />} />
-                                                <Route path="/messages" element={<MessagesPage />} />
-                                                <Route path="/events" element={<EventsPage />} />
-                                                <Route path="/auxano-centers" element={<AuxanoCentersPage />} />
-                                                <Route path="/auxano-centers/:id" element={<AuxanoCenterDetailsPage />} />
-                                                <Route path="/discipleship" element={<DiscipleshipPage />} />
-                                                <Route path="/create-user" element={<CreateUserPage />} />
-                                                <Route path="/users" element={<UsersPage />} />
-                                            </Routes>
-                                        </AppLayout>
-                                    </ProtectedRoute>
-                                }
-                            />
-                        </Routes>
-                    </BrowserRouter>
+                    <RoleProvider>
+                        <BrowserRouter>
+                            <Routes>
+                                <Route path="/login" element={<Login />} />
+                                <Route path="/signup" element={<Signup />} />
+                                <Route path="/forgot-password" element={<ForgotPassword />} />
+                                <Route path="/reset-password" element={<ResetPassword />} />
+                                <Route path="/verify-email" element={<VerifyEmail />} />
+                                <Route path="/accept-invite" element={<AcceptInvite />} />
+                                <Route
+                                    path="/*"
+                                    element={
+                                        <ProtectedRoute>
+                                            <AppLayout>
+                                                <Routes>
+                                                    <Route path="/" element={guard("view_admin_dashboard", <Dashboard />)} />
+                                                    <Route path="/members" element={guard("view_members", <MembersPage />)} />
+                                                    <Route path="/members/add" element={guard("manage_members", <AddMemberPage />)} />
+                                                    <Route path="/members/import" element={guard("manage_members", <ImportMembersPage />)} />
+                                                    <Route path="/members/duplicates" element={guard("merge_members", <MemberDuplicatesPage />)} />
+                                                    <Route path="/members/pipeline" element={guard("manage_pipeline", <PipelineStagesPage />)} />
+                                                    <Route path="/members/edit/:id" element={guard("manage_members", <EditMemberPage />)} />
+                                                    <Route path="/messages" element={guard("view_messages", <MessagesPage />)} />
+                                                    <Route path="/events" element={guard("view_events", <EventsPage />)} />
+                                                    <Route path="/events/:id/attendees" element={guard("manage_events", <EventAttendeesPage />)} />
+                                                    <Route path="/auxano-centers" element={guard("view_centers", <AuxanoCentersPage />)} />
+                                                    <Route path="/auxano-centers/:id" element={guard("view_centers", <AuxanoCenterDetailsPage />)} />
+                                                    <Route path="/discipleship" element={guard("view_members", <DiscipleshipPage />)} />
+                                                    <Route path="/check-in" element={guard("record_attendance", <CheckInPage />)} />
+                                                    <Route path="/donations" element={guard("manage_donations", <DonationsPage />)} />
+                                                    <Route path="/create-user" element={guard("manage_users", <CreateUserPage />)} />
+                                                    <Route path="/users" element={guard("manage_users", <UsersPage />)} />
+                                                    <Route path="/audit-log" element={guard("view_audit_log", <AuditLogPage />)} />
+                                                    <Route path="/settings" element={guard("update_own_profile", <SettingsPage />)} />
+                                                </Routes>
+                                            </AppLayout>
+                                        </ProtectedRoute>
+                                    }
+                                />
+                            </Routes>
+                        </BrowserRouter>
+                    </RoleProvider>
                     <Toaster />
                 </AuthProvider>
             </ThemeProvider>
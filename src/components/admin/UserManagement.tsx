@@ -15,10 +15,20 @@ import DeleteUserDialog from "./users/DeleteUserDialog";
 import SuperAdminDialog from "./users/SuperAdminDialog";
 import { fetchUsers } from "./users/UserManagementService";
 import { AdminUser } from "./users/types";
+import { User } from "@/types/member";
 import { Users, UserPlus, Shield, Search, Filter } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 
+// The edit and delete dialogs work on accounts as /api/auth/users returns them
+const toAccount = (user: AdminUser | null): User | null => user && {
+  _id: user.id,
+  email: user.email,
+  role: user.role,
+  isActive: user.isActive,
+  profile: { full_name: user.fullName ?? undefined },
+};
+
 export default function UserManagement() {
   const [users, setUsers] = useState<AdminUser[]>([]);
   const [loading, setLoading] = useState(true);
@@ -204,14 +214,14 @@ export default function UserManagement() {
 
       {/* Dialogs */}
       <EditUserDialog
-        user={selectedUser}
+        user={toAccount(selectedUser)}
         open={openEditDialog}
         onOpenChange={setOpenEditDialog}
         onUserUpdated={loadUsers}
       />
 
       <DeleteUserDialog
-        user={selectedUser}
+        user={toAccount(selectedUser)}
         open={openDeleteDialog}
         onOpenChange={setOpenDeleteDialog}
         onUserDeleted={loadUsers}
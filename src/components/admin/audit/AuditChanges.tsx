@@ -0,0 +1,72 @@
+import { AuditChange, AuditLogEntry } from "@/types/audit";
+
+export const ACTION_LABELS: Record<string, string> = {
+  "member.create": "Added member",
+  "member.update": "Edited member",
+  "member.delete": "Deleted member",
+  "member.approve": "Approved member",
+  "member.assign-unit": "Assigned to unit",
+  "member.assign-center": "Assigned to center",
+  "member.merge": "Merged duplicate",
+  "member.household": "Changed household",
+  "member.relationship": "Changed relationship",
+  "member.stage": "Moved pipeline stage",
+  "member.follow-up": "Updated follow-up",
+  "member.import": "Imported member",
+  "member.export": "Exported members",
+  "household.create": "Added household",
+  "household.update": "Edited household",
+  "household.delete": "Deleted household",
+  "stage.create": "Added pipeline stage",
+  "stage.update": "Edited pipeline stage",
+  "stage.delete": "Deleted pipeline stage",
+  "center.create": "Added Auxano center",
+  "center.update": "Edited Auxano center",
+  "center.delete": "Deleted Auxano center",
+  "user.create": "Created user",
+  "user.update": "Edited user",
+  "user.role": "Changed role",
+  "user.deactivate": "Deactivated user",
+  "user.reactivate": "Reactivated user",
+  "user.unlock": "Unlocked user",
+  "user.delete": "Deleted user",
+  "superadmin.grant": "Granted super admin",
+  "superadmin.revoke": "Removed super admin",
+};
+
+export const describeAction = (entry: AuditLogEntry) => ACTION_LABELS[entry.action] || entry.action;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "-";
+  if (typeof value === "string" && ISO_DATE.test(value)) return new Date(value).toLocaleDateString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+interface AuditChangesProps {
+  changes?: Record<string, AuditChange>;
+}
+
+// Field by field before and after of one audit entry
+export function AuditChanges({ changes }: AuditChangesProps) {
+  const fields = Object.entries(changes || {});
+
+  if (fields.length === 0) {
+    return <span className="text-slate-400">-</span>;
+  }
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {fields.map(([field, change]) => (
+        <li key={field} className="break-words">
+          <span className="font-medium">{field}</span>:{" "}
+          <span className="text-slate-500 line-through">{formatValue(change.from)}</span>{" "}
+          <span className="text-slate-400">&rarr;</span>{" "}
+          <span>{formatValue(change.to)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
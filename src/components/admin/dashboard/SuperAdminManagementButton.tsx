@@ -23,9 +23,12 @@ import { Crown, Plus, Trash2, RefreshCw, AlertCircle, Edit } from "lucide-react"
 import {
   addSuperAdminByEmail,
   listSuperAdmins,
+  listSuperAdminChanges,
   removeSuperAdmin,
-  type SuperAdmin
+  type SuperAdmin,
+  type SuperAdminChange
 } from "@/components/admin/users/SuperAdminService";
+import { ConfirmPasswordDialog } from "@/components/admin/users/ConfirmPasswordDialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 
 const SuperAdminManagementButton = () => {
@@ -37,6 +40,10 @@ const SuperAdminManagementButton = () => {
   const [error, setError] = useState<string | null>(null);
   const [editingAdmin, setEditingAdmin] = useState<SuperAdmin | null>(null);
   const [editingEmail, setEditingEmail] = useState("");
+  const [changes, setChanges] = useState<SuperAdminChange[]>([]);
+  // Additions and removals wait here until the password is confirmed
+  const [confirmingAdd, setConfirmingAdd] = useState(false);
+  const [pendingRemoval, setPendingRemoval] = useState<SuperAdmin | null>(null);
   const { toast } = useToast();
 
   const loadSuperAdmins = async () => {
@@ -49,6 +56,7 @@ const SuperAdminManagementButton = () => {
         setSuperAdmins([]);
       } else {
         setSuperAdmins(admins);
+        setChanges(await listSuperAdminChanges());
       }
     } catch (err: any) {
       setError(`Error loading super admins: ${err.message}`);
@@ -58,7 +66,7 @@ const SuperAdminManagementButton = () => {
     }
   };
 
-  const handleAddSuperAdmin = async () => {
+  const handleAddSuperAdmin = () => {
     if (!addingEmail.trim()) {
       toast({
         title: "Error",
@@ -68,9 +76,13 @@ const SuperAdminManagementButton = () => {
       return;
     }
 
+    setConfirmingAdd(true);
+  };
+
+  const confirmAddSuperAdmin = async (password: string) => {
     setAddingLoading(true);
     try {
-      const result = await addSuperAdminByEmail(addingEmail.trim());
+      const result = await addSuperAdminByEmail(addingEmail.trim(), password);
       
       if (result.success) {
         toast({
@@ -79,13 +91,13 @@ const SuperAdminManagementButton = () => {
         });
         setAddingEmail("");
         await loadSuperAdmins(); // Reload the list
-      } else {
-        toast({
-          title: "Error",
-          description: result.message,
-          variant: "destructive",
-        });
+        return true;
       }
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+      });
     } catch (err: any) {
       toast({
         title: "Error",
@@ -95,15 +107,14 @@ const SuperAdminManagementButton = () => {
     } finally {
       setAddingLoading(false);
     }
+    return false;
   };
 
-  const handleRemoveSuperAdmin = async (userId: string, email: string) => {
-    if (!confirm(`Are you sure you want to remove super admin privileges from ${email}?`)) {
-      return;
-    }
+  const confirmRemoveSuperAdmin = async (password: string) => {
+    if (!pendingRemoval) return false;
 
     try {
-      const result = await removeSuperAdmin(userId);
+      const result = await removeSuperAdmin(pendingRemoval.user_id, password);
       
       if (result.success) {
         toast({
@@ -111,13 +122,13 @@ const SuperAdminManagementButton = () => {
           description: result.message,
         });
         await loadSuperAdmins(); // Reload the list
-      } else {
-        toast({
-          title: "Error",
-          description: result.message,
-          variant: "destructive",
-        });
+        return true;
       }
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+      });
     } catch (err: any) {
       toast({
         title: "Error",
@@ -125,6 +136,7 @@ const SuperAdminManagementButton = () => {
         variant: "destructive",
       });
     }
+    return false;
   };
 
   const handleEditSuperAdmin = (admin: SuperAdmin) => {
@@ -264,7 +276,7 @@ const SuperAdminManagementButton = () => {
                       <TableCell className="font-medium">{admin.email}</TableCell>
                       <TableCell>{admin.full_name || 'N/A'}</TableCell>
                       <TableCell>
-                        {admin.created_at ? new Date(admin.created_at).toLocaleDateString() : 'N/A'}
+                        {admin.createdAt ? new Date(admin.createdAt).toLocaleDateString() : 'N/A'}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex gap-2 justify-end">
@@ -280,7 +292,9 @@ const SuperAdminManagementButton = () => {
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => handleRemoveSuperAdmin(admin.user_id, admin.email)}
+                            onClick={() => setPendingRemoval(admin)}
+                            disabled={superAdmins.length <= 1}
+                            title={superAdmins.length <= 1 ? "The last super admin cannot be removed" : undefined}
                             className="text-red-600 hover:text-red-700"
                           >
                             <Trash2 className="h-4 w-4 mr-1" />
@@ -295,6 +309,28 @@ const SuperAdminManagementButton = () => {
             )}
           </div>
 
+          {/* Audit Trail */}
+          {changes.length > 0 && (
+            <div className="border rounded-lg p-4">
+              <h3 className="text-lg font-medium mb-4">Recent Changes</h3>
+              <ul className="space-y-2 text-sm">
+                {changes.slice(0, 10).map((change) => (
+                  <li key={change._id} className="flex justify-between gap-4">
+                    <span>
+                      <strong>{change.actorEmail || "Unknown"}</strong>
+                      {change.action === "superadmin.grant" ? " made " : " removed "}
+                      <strong>{change.targetLabel}</strong>
+                      {change.action === "superadmin.grant" ? " a super admin" : " as super admin"}
+                    </span>
+                    <span className="text-gray-500 whitespace-nowrap">
+                      {new Date(change.created_at).toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Info Section */}
           <Alert>
             <AlertCircle className="h-4 w-4" />
@@ -304,6 +340,24 @@ const SuperAdminManagementButton = () => {
             </AlertDescription>
           </Alert>
         </div>
+
+        <ConfirmPasswordDialog
+          open={confirmingAdd}
+          onOpenChange={setConfirmingAdd}
+          title="Add super admin"
+          description={`Enter your password to give ${addingEmail.trim()} full system access.`}
+          confirmLabel="Add Super Admin"
+          onConfirm={confirmAddSuperAdmin}
+        />
+        <ConfirmPasswordDialog
+          open={!!pendingRemoval}
+          onOpenChange={(open) => !open && setPendingRemoval(null)}
+          title="Remove super admin"
+          description={`Enter your password to remove super admin rights from ${pendingRemoval?.email}. They will remain an admin.`}
+          confirmLabel="Remove"
+          destructive
+          onConfirm={confirmRemoveSuperAdmin}
+        />
       </DialogContent>
 
       {/* Edit Super Admin Dialog */}
@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { Loader2, Plus } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { Pledge, Project } from "@/types/donation";
+import { Member } from "@/types/member";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+
+const STATUS_VARIANTS: Record<Pledge["status"], "default" | "secondary" | "outline"> = {
+  open: "outline",
+  fulfilled: "default",
+  cancelled: "secondary",
+};
+
+interface ProjectForm {
+  title: string;
+  description?: string;
+  goal: number;
+}
+
+interface PledgeForm {
+  member: string;
+  project: string;
+  amount: number;
+  dueDate?: string;
+  notes?: string;
+}
+
+interface ProjectsPledgesPanelProps {
+  projects: Project[];
+  pledges: Pledge[];
+  members: Member[];
+  formatAmount: (amount: number, currency?: string) => string;
+}
+
+export function ProjectsPledgesPanel({ projects, pledges, members, formatAmount }: ProjectsPledgesPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isProjectOpen, setIsProjectOpen] = useState(false);
+  const [isPledgeOpen, setIsPledgeOpen] = useState(false);
+  const projectForm = useForm<ProjectForm>();
+  const pledgeForm = useForm<PledgeForm>();
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.response?.data?.message || fallback,
+      variant: "destructive"
+    });
+  };
+
+  const createProjectMutation = useMutation({
+    mutationFn: async (data: ProjectForm) => {
+      const response = await api.post("/donations/projects", { ...data, goal: Number(data.goal) });
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.donations.projects() });
+      toast({ title: "Project created" });
+      setIsProjectOpen(false);
+      projectForm.reset();
+    },
+    onError: onError("Failed to create project"),
+  });
+
+  const toggleProjectMutation = useMutation({
+    mutationFn: async (project: Project) => {
+      const response = await api.put(`/donations/projects/${project._id}`, { isactive: !project.isactive });
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.donations.projects() });
+    },
+    onError: onError("Failed to update project"),
+  });
+
+  const createPledgeMutation = useMutation({
+    mutationFn: async (data: PledgeForm) => {
+      const response = await api.post("/donations/pledges", { ...data, amount: Number(data.amount) });
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.donations.all });
+      toast({ title: "Pledge recorded" });
+      setIsPledgeOpen(false);
+      pledgeForm.reset();
+    },
+    onError: onError("Failed to record pledge"),
+  });
+
+  const cancelPledgeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await api.put(`/donations/pledges/${id}`, { status: "cancelled" });
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.donations.all });
+    },
+    onError: onError("Failed to cancel pledge"),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" className="bg-white rounded-xl" onClick={() => setIsPledgeOpen(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Record Pledge
+        </Button>
+        <Button className="rounded-xl" onClick={() => setIsProjectOpen(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Project
+        </Button>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+        {projects.map((project) => (
+          <Card key={project._id} className="border-none shadow-md rounded-2xl bg-white">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg font-serif flex items-center justify-between gap-2">
+                {project.title}
+                {!project.isactive && <Badge variant="secondary">Closed</Badge>}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {project.description && <p className="text-sm text-slate-500">{project.description}</p>}
+              <Progress value={project.progress} className="h-2" />
+              <div className="flex justify-between text-sm">
+                <span className="font-medium text-slate-900">{formatAmount(project.raised)} raised</span>
+                <span className="text-slate-500">of {formatAmount(project.goal)}</span>
+              </div>
+              <div className="flex justify-between items-center text-xs text-slate-500">
+                <span>{project.pledgeCount} pledges · {formatAmount(project.pledged)} pledged</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => toggleProjectMutation.mutate(project)}
+                  disabled={toggleProjectMutation.isPending}
+                >
+                  {project.isactive ? "Close" : "Reopen"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+        {projects.length === 0 && (
+          <p className="text-sm text-slate-500 col-span-full text-center py-8">No partnership projects yet.</p>
+        )}
+      </div>
+
+      <Card className="border-none shadow-md rounded-2xl bg-white">
+        <CardHeader>
+          <CardTitle className="text-lg font-serif">Pledges</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Member</TableHead>
+                <TableHead>Project</TableHead>
+                <TableHead>Pledged</TableHead>
+                <TableHead className="w-[200px]">Fulfilment</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pledges.map((pledge) => (
+                <TableRow key={pledge._id}>
+                  <TableCell className="font-medium">
+                    {typeof pledge.member === "object" ? pledge.member.fullname : "—"}
+                  </TableCell>
+                  <TableCell>{typeof pledge.project === "object" ? pledge.project.title : "—"}</TableCell>
+                  <TableCell>{formatAmount(pledge.amount, pledge.currency)}</TableCell>
+                  <TableCell>
+                    <div className="space-y-1">
+                      <Progress value={pledge.progress} className="h-2" />
+                      <span className="text-xs text-slate-500">
+                        {formatAmount(pledge.fulfilled, pledge.currency)} paid · {pledge.progress}%
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell>{pledge.dueDate ? new Date(pledge.dueDate).toLocaleDateString() : "—"}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[pledge.status]} className="capitalize">{pledge.status}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {pledge.status === "open" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => cancelPledgeMutation.mutate(pledge._id)}
+                        disabled={cancelPledgeMutation.isPending}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {pledges.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-slate-500 py-8">No pledges recorded.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isProjectOpen} onOpenChange={setIsProjectOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>New Project</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={projectForm.handleSubmit((data) => createProjectMutation.mutate(data))}
+            className="grid gap-4 py-2"
+          >
+            <div className="grid gap-2">
+              <Label htmlFor="project-title">Title</Label>
+              <Input id="project-title" placeholder="e.g. Youth Center Renovation" {...projectForm.register("title", { required: true })} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="project-goal">Goal</Label>
+              <Input id="project-goal" type="number" min="0" {...projectForm.register("goal", { required: true, valueAsNumber: true })} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="project-description">Description</Label>
+              <Textarea id="project-description" rows={3} {...projectForm.register("description")} />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={createProjectMutation.isPending}>
+                {createProjectMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Create Project
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isPledgeOpen} onOpenChange={setIsPledgeOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Record Pledge</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={pledgeForm.handleSubmit((data) => createPledgeMutation.mutate(data))}
+            className="grid gap-4 py-2"
+          >
+            <div className="grid gap-2">
+              <Label>Member</Label>
+              <Select value={pledgeForm.watch("member")} onValueChange={(value) => pledgeForm.setValue("member", value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {members.map((member) => (
+                    <SelectItem key={member._id || member.id} value={member._id || member.id}>
+                      {member.fullname}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Project</Label>
+              <Select value={pledgeForm.watch("project")} onValueChange={(value) => pledgeForm.setValue("project", value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.filter((project) => project.isactive).map((project) => (
+                    <SelectItem key={project._id} value={project._id}>{project.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="pledge-amount">Amount</Label>
+                <Input id="pledge-amount" type="number" min="0" {...pledgeForm.register("amount", { required: true, valueAsNumber: true })} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="pledge-due">Due Date</Label>
+                <Input id="pledge-due" type="date" {...pledgeForm.register("dueDate")} />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="pledge-notes">Notes</Label>
+              <Textarea id="pledge-notes" rows={2} {...pledgeForm.register("notes")} />
+            </div>
+            <DialogFooter>
+              <Button
+                type="submit"
+                disabled={createPledgeMutation.isPending || !pledgeForm.watch("member") || !pledgeForm.watch("project")}
+              >
+                {createPledgeMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Pledge
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
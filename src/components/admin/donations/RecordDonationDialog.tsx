@@ -0,0 +1,246 @@
+import { useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { Loader2 } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { DonationFund, DonationMethod, Pledge, Project } from "@/types/donation";
+import { Member } from "@/types/member";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+
+export const FUND_LABELS: Record<DonationFund, string> = {
+  tithe: "Tithe",
+  offering: "Offering",
+  pledge: "Pledge payment",
+  project: "Project giving",
+};
+
+export const METHOD_LABELS: Record<DonationMethod, string> = {
+  cash: "Cash",
+  transfer: "Bank transfer",
+  card: "Card",
+  cheque: "Cheque",
+  other: "Other",
+};
+
+// Radix Select does not allow an empty string as an item value
+const NO_MEMBER = "anonymous";
+
+interface DonationForm {
+  fund: DonationFund;
+  amount: number;
+  date: string;
+  method: DonationMethod;
+  member: string;
+  donorName?: string;
+  project?: string;
+  pledge?: string;
+  reference?: string;
+  notes?: string;
+}
+
+interface RecordDonationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  members: Member[];
+  projects: Project[];
+  pledges: Pledge[];
+}
+
+const defaultValues = (): DonationForm => ({
+  fund: "tithe",
+  amount: 0,
+  date: new Date().toISOString().split("T")[0],
+  method: "cash",
+  member: NO_MEMBER,
+});
+
+export function RecordDonationDialog({ open, onOpenChange, members, projects, pledges }: RecordDonationDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { register, handleSubmit, reset, watch, setValue } = useForm<DonationForm>({ defaultValues: defaultValues() });
+  const fund = watch("fund");
+
+  useEffect(() => {
+    if (open) {
+      reset(defaultValues());
+    }
+  }, [open, reset]);
+
+  const createMutation = useMutation({
+    mutationFn: async ({ member, ...data }: DonationForm) => {
+      const response = await api.post("/donations", {
+        ...data,
+        amount: Number(data.amount),
+        member: member === NO_MEMBER ? undefined : member,
+        project: data.fund === "project" ? data.project : undefined,
+        pledge: data.fund === "pledge" ? data.pledge : undefined,
+      });
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.donations.all });
+      toast({ title: "Donation recorded" });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to record donation",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const openPledges = pledges.filter((pledge) => pledge.status === "open");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Record Donation</DialogTitle>
+          <DialogDescription>
+            Gifts linked to a member appear on their giving statement.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit((data) => createMutation.mutate(data))} className="grid gap-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Fund</Label>
+              <Select value={fund} onValueChange={(value) => setValue("fund", value as DonationFund)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FUND_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="donation-amount">Amount</Label>
+              <Input
+                id="donation-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                {...register("amount", { required: true, valueAsNumber: true, min: 0.01 })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="donation-date">Date</Label>
+              <Input id="donation-date" type="date" {...register("date", { required: true })} />
+            </div>
+            <div className="grid gap-2">
+              <Label>Method</Label>
+              <Select value={watch("method")} onValueChange={(value) => setValue("method", value as DonationMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(METHOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {fund === "pledge" ? (
+            <div className="grid gap-2">
+              <Label>Pledge</Label>
+              <Select value={watch("pledge")} onValueChange={(value) => setValue("pledge", value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an open pledge" />
+                </SelectTrigger>
+                <SelectContent>
+                  {openPledges.map((pledge) => (
+                    <SelectItem key={pledge._id} value={pledge._id}>
+                      {typeof pledge.member === "object" ? pledge.member.fullname : "Member"}
+                      {" — "}
+                      {typeof pledge.project === "object" ? pledge.project.title : "Project"}
+                      {` (${pledge.outstanding.toLocaleString()} outstanding)`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="grid gap-2">
+              <Label>Member</Label>
+              <Select value={watch("member")} onValueChange={(value) => setValue("member", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_MEMBER}>Anonymous / non-member</SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member._id || member.id} value={member._id || member.id}>
+                      {member.fullname}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {fund !== "pledge" && watch("member") === NO_MEMBER && (
+            <div className="grid gap-2">
+              <Label htmlFor="donation-donor">Donor Name</Label>
+              <Input id="donation-donor" placeholder="Optional" {...register("donorName")} />
+            </div>
+          )}
+
+          {fund === "project" && (
+            <div className="grid gap-2">
+              <Label>Project</Label>
+              <Select value={watch("project")} onValueChange={(value) => setValue("project", value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.filter((project) => project.isactive).map((project) => (
+                    <SelectItem key={project._id} value={project._id}>{project.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="donation-reference">Reference</Label>
+            <Input id="donation-reference" placeholder="Receipt or transaction number" {...register("reference")} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="donation-notes">Notes</Label>
+            <Textarea id="donation-notes" rows={2} {...register("notes")} />
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={createMutation.isPending}>
+              {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Donation
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
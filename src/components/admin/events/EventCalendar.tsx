@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { ChevronLeft, ChevronRight, Clock, Loader2, MapPin, Repeat } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { cn } from "@/lib/utils";
+import { EventListParams, EventOccurrence } from "@/types/event";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+
+type CalendarView = "month" | "week";
+
+interface EventCalendarProps {
+  filters: Pick<EventListParams, "searchTerm" | "status">;
+  canManage: boolean;
+  onEditEvent: (eventId: string) => void;
+}
+
+// Occurrence dates are calendar days at midnight UTC
+const dayKeyOf = (iso: string) => iso.split("T")[0];
+const localDayKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+const formatTime = (time?: string) => {
+  if (!time) return "";
+  return new Date(`2000-01-01T${time}`).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", hour12: true });
+};
+
+const EventCalendar = ({ filters, canManage, onEditEvent }: EventCalendarProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [view, setView] = useState<CalendarView>("month");
+  const [cursor, setCursor] = useState(() => new Date());
+  const [selected, setSelected] = useState<EventOccurrence | null>(null);
+
+  const rangeStart = startOfWeek(view === "month" ? startOfMonth(cursor) : cursor);
+  const rangeEnd = endOfWeek(view === "month" ? endOfMonth(cursor) : cursor);
+  const days: Date[] = [];
+  for (let day = rangeStart; day <= rangeEnd; day = addDays(day, 1)) {
+    days.push(day);
+  }
+
+  const params: EventListParams = {
+    ...filters,
+    from: localDayKey(rangeStart),
+    to: localDayKey(rangeEnd),
+  };
+
+  const { data: occurrences = [], isLoading } = useQuery<EventOccurrence[]>({
+    queryKey: queryKeys.events.occurrences(params),
+    queryFn: async () => {
+      const response = await api.get("/events/occurrences", { params });
+      return response.data;
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  // Multi-day occurrences are shown on every day they span
+  const occurrencesByDay = new Map<string, EventOccurrence[]>();
+  occurrences.forEach((occurrence) => {
+    const first = dayKeyOf(occurrence.event_date);
+    const last = occurrence.end_date ? dayKeyOf(occurrence.end_date) : first;
+    days.forEach((day) => {
+      const key = localDayKey(day);
+      if (key >= first && key <= last) {
+        occurrencesByDay.set(key, [...(occurrencesByDay.get(key) || []), occurrence]);
+      }
+    });
+  });
+
+  const exceptionMutation = useMutation({
+    mutationFn: async ({ occurrence, cancelled }: { occurrence: EventOccurrence; cancelled: boolean }) => {
+      const date = dayKeyOf(occurrence.original_date);
+      if (cancelled) {
+        await api.put(`/events/${occurrence.event_id}/exceptions`, { date, cancelled: true });
+      } else {
+        await api.delete(`/events/${occurrence.event_id}/exceptions/${date}`);
+      }
+    },
+    onSuccess: (_, { cancelled }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
+      toast({ title: cancelled ? "Occurrence cancelled" : "Occurrence restored" });
+      setSelected(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to update occurrence",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const step = (direction: 1 | -1) => {
+    setCursor((current) => (view === "month" ? addMonths(current, direction) : addWeeks(current, direction)));
+  };
+
+  const title = view === "month"
+    ? format(cursor, "MMMM yyyy")
+    : `${format(rangeStart, "d MMM")} – ${format(rangeEnd, "d MMM yyyy")}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" className="h-8 w-8" aria-label="Previous" onClick={() => step(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setCursor(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" aria-label="Next" onClick={() => step(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h2 className="text-lg font-semibold font-serif ml-2">{title}</h2>
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-slate-400" />}
+        </div>
+        <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+          <TabsList>
+            <TabsTrigger value="month">Month</TabsTrigger>
+            <TabsTrigger value="week">Week</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <div className="grid grid-cols-7 rounded-2xl overflow-hidden border bg-white shadow-md">
+        {days.slice(0, 7).map((day) => (
+          <div key={day.toISOString()} className="border-b bg-slate-50 px-2 py-1 text-xs font-medium text-slate-500">
+            {format(day, "EEE")}
+          </div>
+        ))}
+        {days.map((day) => {
+          const dayOccurrences = occurrencesByDay.get(localDayKey(day)) || [];
+
+          return (
+            <div
+              key={day.toISOString()}
+              className={cn(
+                "border-b border-r p-1 space-y-1",
+                view === "month" ? "min-h-[110px]" : "min-h-[320px]",
+                !isSameMonth(day, cursor) && view === "month" && "bg-slate-50/60 text-slate-400"
+              )}
+            >
+              <div className={cn(
+                "text-xs w-6 h-6 flex items-center justify-center rounded-full",
+                isToday(day) && "bg-primary text-primary-foreground"
+              )}>
+                {format(day, "d")}
+              </div>
+              {dayOccurrences.map((occurrence) => (
+                <button
+                  key={occurrence.occurrence_id}
+                  type="button"
+                  onClick={() => setSelected(occurrence)}
+                  className={cn(
+                    "w-full text-left rounded-md px-1.5 py-0.5 text-xs truncate transition-colors",
+                    occurrence.is_cancelled
+                      ? "bg-slate-100 text-slate-400 line-through"
+                      : occurrence.is_published
+                        ? "bg-primary/10 text-primary hover:bg-primary/20"
+                        : "bg-amber-50 text-amber-700 hover:bg-amber-100"
+                  )}
+                >
+                  {occurrence.event_time && <span className="font-medium mr-1">{formatTime(occurrence.event_time)}</span>}
+                  {occurrence.title}
+                </button>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        {selected && (
+          <DialogContent className="sm:max-w-[440px]">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                {selected.title}
+                {selected.is_cancelled && <Badge variant="secondary">Cancelled</Badge>}
+                {!selected.is_published && <Badge variant="outline">Draft</Badge>}
+              </DialogTitle>
+              <DialogDescription>
+                {new Date(selected.event_date).toLocaleDateString(undefined, {
+                  weekday: "long", year: "numeric", month: "long", day: "numeric", timeZone: "UTC",
+                })}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 text-sm text-slate-600">
+              {selected.event_time && (
+                <div className="flex items-center gap-2">
+                  <Clock className="h-4 w-4 text-slate-400" />
+                  {formatTime(selected.event_time)}{selected.end_time && ` – ${formatTime(selected.end_time)}`}
+                </div>
+              )}
+              {selected.location && (
+                <div className="flex items-center gap-2">
+                  <MapPin className="h-4 w-4 text-slate-400" />
+                  {selected.location}
+                </div>
+              )}
+              {selected.is_recurring && (
+                <div className="flex items-center gap-2">
+                  <Repeat className="h-4 w-4 text-slate-400" />
+                  {selected.recurrence_pattern}
+                </div>
+              )}
+              {selected.description && <p className="pt-2">{selected.description}</p>}
+            </div>
+            {canManage && (
+              <DialogFooter className="gap-2 sm:gap-0">
+                {selected.is_recurring && (
+                  <Button
+                    variant="outline"
+                    disabled={exceptionMutation.isPending}
+                    onClick={() => exceptionMutation.mutate({ occurrence: selected, cancelled: !selected.is_cancelled })}
+                  >
+                    {exceptionMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {selected.is_cancelled ? "Restore Occurrence" : "Cancel This Occurrence"}
+                  </Button>
+                )}
+                <Button
+                  onClick={() => {
+                    onEditEvent(selected.event_id);
+                    setSelected(null);
+                  }}
+                >
+                  {selected.is_recurring ? "Edit Series" : "Edit Event"}
+                </Button>
+              </DialogFooter>
+            )}
+          </DialogContent>
+        )}
+      </Dialog>
+    </div>
+  );
+};
+
+export default EventCalendar;
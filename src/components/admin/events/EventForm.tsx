@@ -8,32 +8,20 @@ import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
-
-interface Event {
-  id: string;
-  title: string;
-  description?: string;
-  event_date: string;
-  event_time?: string;
-  end_date?: string;
-  end_time?: string;
-  location?: string;
-  image_url?: string;
-  event_type: 'regular' | 'special' | 'recurring';
-  is_recurring: boolean;
-  recurrence_pattern?: string;
-  max_attendees?: number;
-  registration_required: boolean;
-  is_published: boolean;
-}
+import api from "@/lib/api";
+import { Event, Recurrence } from "@/types/event";
+import RecurrenceFields from "@/components/admin/events/RecurrenceFields";
 
 interface EventFormProps {
   event?: Event | null;
   onClose: () => void;
+  onSaved?: (event: Event) => void;
 }
 
-const EventForm = ({ event, onClose }: EventFormProps) => {
+// Date inputs want YYYY-MM-DD; the API returns full ISO timestamps
+const toDateInput = (value?: string) => (value ? value.split('T')[0] : '');
+
+const EventForm = ({ event, onClose, onSaved }: EventFormProps) => {
   const [formData, setFormData] = useState({
     title: '',
     description: '',
@@ -45,7 +33,7 @@ const EventForm = ({ event, onClose }: EventFormProps) => {
     image_url: '',
     event_type: 'regular' as 'regular' | 'special' | 'recurring',
     is_recurring: false,
-    recurrence_pattern: '',
+    recurrence: { freq: 'weekly', interval: 1 } as Recurrence,
     max_attendees: '',
     registration_required: false,
     is_published: true,
@@ -62,15 +50,15 @@ const EventForm = ({ event, onClose }: EventFormProps) => {
       setFormData({
         title: event.title || '',
         description: event.description || '',
-        event_date: event.event_date || '',
+        event_date: toDateInput(event.event_date),
         event_time: event.event_time || '',
-        end_date: event.end_date || '',
+        end_date: toDateInput(event.end_date),
         end_time: event.end_time || '',
         location: event.location || '',
         image_url: event.image_url || '',
         event_type: event.event_type || 'regular',
         is_recurring: event.is_recurring || false,
-        recurrence_pattern: event.recurrence_pattern || '',
+        recurrence: event.recurrence || { freq: 'weekly', interval: 1 },
         max_attendees: event.max_attendees?.toString() || '',
         registration_required: event.registration_required || false,
         is_published: event.is_published ?? true,
@@ -95,42 +83,29 @@ const EventForm = ({ event, onClose }: EventFormProps) => {
         image_url: formData.image_url || null,
         event_type: formData.event_type,
         is_recurring: formData.is_recurring,
-        recurrence_pattern: formData.is_recurring ? formData.recurrence_pattern : null,
+        // The server derives recurrence_pattern from the structured rule
+        recurrence: formData.is_recurring ? formData.recurrence : null,
         max_attendees: formData.max_attendees ? parseInt(formData.max_attendees) : null,
         registration_required: formData.registration_required,
         is_published: formData.is_published,
       };
 
-      let error;
-      
-      if (event) {
-        // Update existing event
-        const { error: updateError } = await supabase
-          .from('events' as any)
-          .update(eventData)
-          .eq('id', event.id);
-        error = updateError;
-      } else {
-        // Create new event
-        const { error: insertError } = await supabase
-          .from('events' as any)
-          .insert([eventData]);
-        error = insertError;
-      }
-
-      if (error) throw error;
+      const response = event
+        ? await api.put(`/events/${event.id}`, eventData)
+        : await api.post('/events', eventData);
 
       toast({
         title: "Success",
         description: `Event ${event ? 'updated' : 'created'} successfully`,
       });
       
+      onSaved?.(response.data);
       onClose();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error saving event:', error);
       toast({
         title: "Error",
-        description: `Failed to ${event ? 'update' : 'create'} event`,
+        description: error.response?.data?.message || `Failed to ${event ? 'update' : 'create'} event`,
         variant: "destructive",
       });
     } finally {
@@ -176,32 +151,12 @@ const EventForm = ({ event, onClose }: EventFormProps) => {
     try {
       setLoading(true);
       
-      // Create a unique filename
-      const fileExt = file.name.split('.').pop();
-      const fileName = `event-${Date.now()}.${fileExt}`;
-      
-      // Upload to Supabase Storage
-      const { data, error } = await supabase.storage
-        .from('event-images')
-        .upload(fileName, file);
-
-      if (error) {
-        // If bucket doesn't exist, create it first
-        if (error.message.includes('Bucket not found')) {
-          toast({
-            title: "Storage Setup Required",
-            description: "Please contact admin to set up image storage",
-            variant: "destructive",
-          });
-          return;
-        }
-        throw error;
-      }
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('event-images')
-        .getPublicUrl(fileName);
+      const body = new FormData();
+      body.append('image', file);
+
+      // Stored on the API server's disk and served from /uploads
+      const { data } = await api.post('/events/upload', body);
+      const publicUrl = data.url;
 
       handleInputChange('image_url', publicUrl);
       setImagePreview(publicUrl);
@@ -370,19 +325,11 @@ const EventForm = ({ event, onClose }: EventFormProps) => {
               </div>
 
               {formData.is_recurring && (
-                <div>
-                  <Label htmlFor="recurrence_pattern">Recurrence Pattern</Label>
-                  <Select value={formData.recurrence_pattern} onValueChange={(value) => handleInputChange('recurrence_pattern', value)}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select pattern" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="weekly">Weekly</SelectItem>
-                      <SelectItem value="monthly">Monthly</SelectItem>
-                      <SelectItem value="yearly">Yearly</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                <RecurrenceFields
+                  value={formData.recurrence}
+                  onChange={(value) => handleInputChange('recurrence', value)}
+                  startDate={formData.event_date}
+                />
               )}
             </div>
 
@@ -4,31 +4,13 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import api from "@/lib/api";
+import { Event } from "@/types/event";
 import EventForm from "@/components/admin/events/EventForm";
 import DeleteEventDialog from "@/components/admin/events/DeleteEventDialog";
 import { cn } from "@/lib/utils";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
-interface Event {
-  id: string;
-  title: string;
-  description?: string;
-  event_date: string;
-  event_time?: string;
-  end_date?: string;
-  end_time?: string;
-  location?: string;
-  image_url?: string;
-  event_type: 'regular' | 'special' | 'recurring';
-  is_recurring: boolean;
-  recurrence_pattern?: string;
-  max_attendees?: number;
-  registration_required: boolean;
-  is_published: boolean;
-  created_at: string;
-}
-
 const EventsManagement = () => {
   const [events, setEvents] = useState<Event[]>([]);
   const [loading, setLoading] = useState(true);
@@ -40,14 +22,8 @@ const EventsManagement = () => {
 
   const fetchEvents = async () => {
     try {
-      // Direct table access with type assertion
-      const { data, error } = await supabase
-        .from('events' as any)
-        .select('*')
-        .order('event_date', { ascending: true });
-      
-      if (error) throw error;
-      setEvents((data || []) as unknown as Event[]);
+      const { data } = await api.get<Event[]>('/events');
+      setEvents(data);
     } catch (error) {
       console.error('Error fetching events:', error);
       toast({
@@ -88,12 +64,7 @@ const EventsManagement = () => {
     if (!deletingEvent) return;
 
     try {
-      const { error } = await supabase
-        .from('events' as any)
-        .delete()
-        .eq('id', deletingEvent.id);
-
-      if (error) throw error;
+      await api.delete(`/events/${deletingEvent.id}`);
 
       toast({
         title: "Success",
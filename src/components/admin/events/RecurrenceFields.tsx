@@ -0,0 +1,216 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Recurrence, RecurrenceFrequency, Weekday } from "@/types/event";
+
+const WEEKDAYS: { value: Weekday; label: string }[] = [
+  { value: 'SU', label: 'Sun' },
+  { value: 'MO', label: 'Mon' },
+  { value: 'TU', label: 'Tue' },
+  { value: 'WE', label: 'Wed' },
+  { value: 'TH', label: 'Thu' },
+  { value: 'FR', label: 'Fri' },
+  { value: 'SA', label: 'Sat' },
+];
+
+const POSITIONS = [
+  { value: '1', label: 'First' },
+  { value: '2', label: 'Second' },
+  { value: '3', label: 'Third' },
+  { value: '4', label: 'Fourth' },
+  { value: '-1', label: 'Last' },
+];
+
+const UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+  yearly: 'year(s)',
+};
+
+interface RecurrenceFieldsProps {
+  value: Recurrence;
+  onChange: (value: Recurrence) => void;
+  /** Event start date (YYYY-MM-DD), used to pick sensible defaults */
+  startDate?: string;
+}
+
+const weekdayOf = (date?: string): Weekday => {
+  const day = date ? new Date(`${date}T00:00:00Z`).getUTCDay() : 0;
+  return WEEKDAYS[Number.isNaN(day) ? 0 : day].value;
+};
+
+const RecurrenceFields = ({ value, onChange, startDate }: RecurrenceFieldsProps) => {
+  const monthlyMode = value.bySetPos ? 'weekday' : 'day';
+  const endMode = value.count ? 'count' : value.until ? 'until' : 'never';
+
+  const update = (changes: Partial<Recurrence>) => onChange({ ...value, ...changes });
+
+  const setFrequency = (freq: RecurrenceFrequency) => {
+    // Reset the parts of the rule that only make sense for the previous frequency
+    onChange({
+      freq,
+      interval: value.interval,
+      until: value.until,
+      count: value.count,
+      byDay: freq === 'weekly' ? [weekdayOf(startDate)] : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>Repeats</Label>
+          <Select value={value.freq} onValueChange={(freq) => setFrequency(freq as RecurrenceFrequency)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="daily">Daily</SelectItem>
+              <SelectItem value="weekly">Weekly</SelectItem>
+              <SelectItem value="monthly">Monthly</SelectItem>
+              <SelectItem value="yearly">Yearly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="recurrence_interval">Every</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="recurrence_interval"
+              type="number"
+              min="1"
+              className="w-20"
+              value={value.interval || 1}
+              onChange={(e) => update({ interval: Math.max(parseInt(e.target.value) || 1, 1) })}
+            />
+            <span className="text-sm text-gray-500">{UNITS[value.freq]}</span>
+          </div>
+        </div>
+      </div>
+
+      {value.freq === 'weekly' && (
+        <div>
+          <Label>On</Label>
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            className="justify-start flex-wrap mt-1"
+            value={value.byDay || []}
+            onValueChange={(days) => update({ byDay: days as Weekday[] })}
+          >
+            {WEEKDAYS.map((day) => (
+              <ToggleGroupItem key={day.value} value={day.value} size="sm">
+                {day.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      )}
+
+      {value.freq === 'monthly' && (
+        <div className="space-y-2">
+          <Label>On</Label>
+          <Select
+            value={monthlyMode}
+            onValueChange={(mode) => update(mode === 'weekday'
+              ? { bySetPos: 1, byDay: [weekdayOf(startDate)], byMonthDay: undefined }
+              : { bySetPos: undefined, byDay: undefined })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">The same day each month</SelectItem>
+              <SelectItem value="weekday">A weekday, e.g. first Friday</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {monthlyMode === 'weekday' ? (
+            <div className="grid grid-cols-2 gap-4">
+              <Select
+                value={String(value.bySetPos)}
+                onValueChange={(position) => update({ bySetPos: Number(position) as Recurrence['bySetPos'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {POSITIONS.map((position) => (
+                    <SelectItem key={position.value} value={position.value}>{position.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={value.byDay?.[0]}
+                onValueChange={(day) => update({ byDay: [day as Weekday] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAYS.map((day) => (
+                    <SelectItem key={day.value} value={day.value}>{day.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">
+              Repeats on the event date's day of the month. Months without that day are skipped.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>Ends</Label>
+          <Select
+            value={endMode}
+            onValueChange={(mode) => update({
+              until: mode === 'until' ? (value.until || startDate) : undefined,
+              count: mode === 'count' ? (value.count || 10) : undefined,
+            })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never</SelectItem>
+              <SelectItem value="until">On date</SelectItem>
+              <SelectItem value="count">After a number of times</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {endMode === 'until' && (
+          <div>
+            <Label htmlFor="recurrence_until">End Date</Label>
+            <Input
+              id="recurrence_until"
+              type="date"
+              value={value.until?.split('T')[0] || ''}
+              onChange={(e) => update({ until: e.target.value })}
+            />
+          </div>
+        )}
+        {endMode === 'count' && (
+          <div>
+            <Label htmlFor="recurrence_count">Occurrences</Label>
+            <Input
+              id="recurrence_count"
+              type="number"
+              min="1"
+              value={value.count || ''}
+              onChange={(e) => update({ count: Math.max(parseInt(e.target.value) || 1, 1) })}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecurrenceFields;
@@ -0,0 +1,83 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { MemberAttendanceHistory as AttendanceHistory } from "@/types/attendance";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const SERVICE_TYPE_LABELS: Record<string, string> = {
+  service: "Service",
+  event: "Event",
+  auxano: "Auxano",
+};
+
+interface MemberAttendanceHistoryProps {
+  memberId: string;
+}
+
+export function MemberAttendanceHistory({ memberId }: MemberAttendanceHistoryProps) {
+  const { data, isLoading } = useQuery<AttendanceHistory>({
+    queryKey: queryKeys.attendance.member(memberId),
+    queryFn: async () => {
+      const response = await api.get(`/attendance/member/${memberId}`);
+      return response.data;
+    },
+    enabled: !!memberId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-6 text-sm text-slate-600">
+        <span>
+          Total check-ins: <span className="font-semibold text-slate-900">{data?.total || 0}</span>
+        </span>
+        <span>
+          Last attended:{" "}
+          <span className="font-semibold text-slate-900">
+            {data?.lastAttended ? new Date(data.lastAttended).toLocaleDateString() : "Never"}
+          </span>
+        </span>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Gathering</TableHead>
+            <TableHead>Type</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data?.records.map((record) => (
+            <TableRow key={record._id}>
+              <TableCell>{new Date(record.serviceDate).toLocaleDateString()}</TableCell>
+              <TableCell>
+                {record.serviceName || (typeof record.auxanoCenter === "object" ? record.auxanoCenter?.name : "-")}
+                {record.isFirstTimeVisitor && (
+                  <Badge variant="outline" className="ml-2 text-[10px]">First visit</Badge>
+                )}
+              </TableCell>
+              <TableCell>{SERVICE_TYPE_LABELS[record.serviceType] || record.serviceType}</TableCell>
+            </TableRow>
+          ))}
+          {data?.records.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={3} className="text-center text-slate-500">
+                No attendance recorded yet.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
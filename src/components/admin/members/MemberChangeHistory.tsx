@@ -0,0 +1,58 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { AuditLogEntry } from "@/types/audit";
+import { AuditChanges, describeAction } from "@/components/admin/audit/AuditChanges";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface MemberChangeHistoryProps {
+  memberId: string;
+}
+
+// Who changed this member's record and what they changed
+export function MemberChangeHistory({ memberId }: MemberChangeHistoryProps) {
+  const { data: entries, isLoading } = useQuery<AuditLogEntry[]>({
+    queryKey: queryKeys.audit.entity("Member", memberId),
+    queryFn: async () => {
+      const response = await api.get(`/members/${memberId}/history`);
+      return response.data;
+    },
+    enabled: !!memberId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  if (!entries?.length) {
+    return <p className="text-sm text-slate-500 text-center py-4">No changes recorded yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>When</TableHead>
+          <TableHead>By</TableHead>
+          <TableHead>Action</TableHead>
+          <TableHead>Changes</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) => (
+          <TableRow key={entry._id}>
+            <TableCell className="whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</TableCell>
+            <TableCell>{entry.actorEmail || "-"}</TableCell>
+            <TableCell>{describeAction(entry)}</TableCell>
+            <TableCell><AuditChanges changes={entry.changes} /></TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import api from "@/lib/api";
+import { MemberListParams } from "@/types/member";
+import { useRole } from "@/components/auth/RoleProvider";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/components/ui/use-toast";
+
+type ExportFormat = "csv" | "xlsx" | "vcf" | "labels";
+
+// Mirrors EXPORT_COLUMNS in the server's member controller
+const EXPORT_COLUMNS: { key: string; label: string }[] = [
+  { key: "fullname", label: "Full Name" },
+  { key: "email", label: "Email" },
+  { key: "phone", label: "Phone" },
+  { key: "category", label: "Category" },
+  { key: "churchunits", label: "Church Units" },
+  { key: "assignedto", label: "Assigned To" },
+  { key: "auxanoCenter", label: "Auxano Center" },
+  { key: "unit", label: "Unit" },
+  { key: "household", label: "Household" },
+  { key: "address", label: "Address" },
+  { key: "status", label: "Status" },
+  { key: "discipleshipStatus", label: "Discipleship" },
+  { key: "isactive", label: "Active" },
+  { key: "joindate", label: "Join Date" },
+  { key: "created_at", label: "Added" },
+];
+
+const DEFAULT_COLUMNS = ["fullname", "email", "phone", "category", "churchunits", "auxanoCenter", "status"];
+
+interface MemberExportMenuProps {
+  // The list filters currently applied; the export matches them
+  filters: MemberListParams;
+}
+
+export function MemberExportMenu({ filters }: MemberExportMenuProps) {
+  const { hasPermission } = useRole();
+  const { toast } = useToast();
+  const canPickColumns = hasPermission("customize_member_exports");
+  const [columns, setColumns] = useState<string[]>(DEFAULT_COLUMNS);
+  const [pickingColumns, setPickingColumns] = useState(false);
+  const [downloading, setDownloading] = useState<ExportFormat | null>(null);
+
+  const download = async (format: ExportFormat) => {
+    setDownloading(format);
+    try {
+      const { page, pageSize, fields, ...listFilters } = filters;
+      const response = await api.get("/members/export", {
+        params: {
+          ...listFilters,
+          format,
+          columns: canPickColumns && (format === "csv" || format === "xlsx") ? columns.join(",") : undefined,
+        },
+        responseType: "blob",
+      });
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement("a");
+      link.href = url;
+      const date = new Date().toISOString().split("T")[0];
+      link.download = format === "labels" ? `mailing-labels-${date}.csv` : `members-${date}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      toast({ title: "Error", description: "Failed to export members", variant: "destructive" });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setColumns(checked
+      ? EXPORT_COLUMNS.map((column) => column.key).filter((column) => column === key || columns.includes(column))
+      : columns.filter((column) => column !== key));
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" disabled={!!downloading}>
+            {downloading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => download("csv")}>CSV (.csv)</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => download("xlsx")}>Excel (.xlsx)</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => download("vcf")}>Contacts (.vcf)</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => download("labels")}>Household mailing labels (.csv)</DropdownMenuItem>
+          {canPickColumns && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setPickingColumns(true)}>Choose columns...</DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={pickingColumns} onOpenChange={setPickingColumns}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Export Columns</DialogTitle>
+            <DialogDescription>Columns included in CSV and Excel exports.</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3 py-2">
+            {EXPORT_COLUMNS.map((column) => (
+              <label key={column.key} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={columns.includes(column.key)}
+                  onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                />
+                {column.label}
+              </label>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setColumns(DEFAULT_COLUMNS)}>
+              Reset
+            </Button>
+            <Button onClick={() => setPickingColumns(false)} disabled={columns.length === 0}>
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
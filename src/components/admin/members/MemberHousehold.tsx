@@ -0,0 +1,416 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { Home, Loader2, Plus, X } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import {
+  Household,
+  HouseholdAddress,
+  MemberFamily,
+  MemberListResponse,
+  RelationshipType,
+} from "@/types/member";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+
+const RELATIONSHIP_LABELS: Record<RelationshipType, string> = {
+  spouse: "Spouse",
+  parent: "Parent",
+  child: "Child",
+  guardian: "Guardian",
+  ward: "Ward",
+};
+
+const ADDRESS_FIELDS: { field: keyof HouseholdAddress; label: string }[] = [
+  { field: "line1", label: "Address Line 1" },
+  { field: "line2", label: "Address Line 2" },
+  { field: "city", label: "City" },
+  { field: "state", label: "State" },
+  { field: "postalCode", label: "Postal Code" },
+  { field: "country", label: "Country" },
+];
+
+const formatAddress = (address?: HouseholdAddress) =>
+  ADDRESS_FIELDS.map(({ field }) => address?.[field]).filter(Boolean).join(", ");
+
+interface HouseholdForm {
+  name: string;
+  phone?: string;
+  address: HouseholdAddress;
+}
+
+// Search box listing matching members to pick one from
+function MemberPicker({ excludeIds, onPick }: { excludeIds: string[]; onPick: (id: string) => void }) {
+  const [searchTerm, setSearchTerm] = useState("");
+  const filters = { page: 1, pageSize: 5, sort: "fullname", fields: "fullname,email,phone", searchTerm };
+
+  const { data, isFetching } = useQuery<MemberListResponse>({
+    queryKey: queryKeys.members.list(filters),
+    queryFn: async () => {
+      const response = await api.get("/members", { params: filters });
+      return response.data;
+    },
+    enabled: searchTerm.length > 1,
+  });
+
+  const results = (data?.members || []).filter((member) => !excludeIds.includes(member._id || member.id));
+
+  return (
+    <div className="grid gap-2">
+      <Input
+        placeholder="Search name, email, or phone..."
+        value={searchTerm}
+        onChange={(e) => setSearchTerm(e.target.value)}
+      />
+      {isFetching && <Loader2 className="w-4 h-4 animate-spin text-slate-400" />}
+      {searchTerm.length > 1 && results.map((member) => (
+        <button
+          key={member._id || member.id}
+          type="button"
+          className="flex flex-col items-start rounded-md border px-3 py-2 text-left text-sm hover:bg-slate-50"
+          onClick={() => onPick(member._id || member.id)}
+        >
+          <span className="font-medium">{member.fullname}</span>
+          <span className="text-xs text-slate-500">{member.email || member.phone}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface MemberHouseholdProps {
+  memberId: string;
+  memberName?: string;
+}
+
+// The member's household, its other members, and the member's relationships
+export function MemberHousehold({ memberId, memberName }: MemberHouseholdProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<"create" | "edit" | null>(null);
+  const [joining, setJoining] = useState(false);
+  const [addingMember, setAddingMember] = useState(false);
+  const [addingRelationship, setAddingRelationship] = useState(false);
+  const [relationshipType, setRelationshipType] = useState<RelationshipType>("spouse");
+  const [householdSearch, setHouseholdSearch] = useState("");
+  const { register, handleSubmit, reset } = useForm<HouseholdForm>();
+
+  const { data: family, isLoading } = useQuery<MemberFamily>({
+    queryKey: queryKeys.members.family(memberId),
+    queryFn: async () => {
+      const response = await api.get(`/members/${memberId}/family`);
+      return response.data;
+    },
+    enabled: !!memberId,
+  });
+
+  const { data: households } = useQuery<Household[]>({
+    queryKey: queryKeys.households.list(householdSearch),
+    queryFn: async () => {
+      const response = await api.get("/households", { params: { searchTerm: householdSearch || undefined } });
+      return response.data;
+    },
+    enabled: joining,
+  });
+
+  const household = family?.household;
+
+  useEffect(() => {
+    if (editing === "edit" && household) {
+      reset({ name: household.name, phone: household.phone, address: household.address || {} });
+    } else if (editing === "create") {
+      const surname = memberName?.trim().split(/\s+/).pop();
+      reset({ name: surname ? `The ${surname} Family` : "", phone: "", address: {} });
+    }
+  }, [editing, household, memberName, reset]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.members.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.households.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.audit.all });
+  };
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.response?.data?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveHouseholdMutation = useMutation({
+    mutationFn: async (data: HouseholdForm) => {
+      if (editing === "edit" && household) {
+        await api.put(`/households/${household._id}`, data);
+      } else {
+        await api.post("/households", { ...data, memberIds: [memberId] });
+      }
+    },
+    onSuccess: () => {
+      refresh();
+      setEditing(null);
+    },
+    onError: onError("Failed to save household"),
+  });
+
+  const addToHouseholdMutation = useMutation({
+    mutationFn: async ({ householdId, id }: { householdId: string; id: string }) => {
+      await api.post(`/households/${householdId}/members`, { memberId: id });
+    },
+    onSuccess: () => {
+      refresh();
+      setJoining(false);
+      setAddingMember(false);
+    },
+    onError: onError("Failed to add to household"),
+  });
+
+  const leaveHouseholdMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/households/${household!._id}/members/${id}`);
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to remove from household"),
+  });
+
+  const addRelationshipMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.post(`/members/${memberId}/relationships`, { memberId: id, type: relationshipType });
+    },
+    onSuccess: () => {
+      refresh();
+      setAddingRelationship(false);
+    },
+    onError: onError("Failed to add relationship"),
+  });
+
+  const removeRelationshipMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/members/${memberId}/relationships/${id}`);
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to remove relationship"),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  const householdMemberIds = (family?.householdMembers || []).map((member) => member._id!);
+  const relatedIds = (family?.relationships || []).map(({ member }) => member._id!);
+
+  return (
+    <div className="grid gap-8 md:grid-cols-2">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+            <Home className="w-4 h-4" />
+            {household ? household.name : "Household"}
+          </h3>
+          {household ? (
+            <Button variant="outline" size="sm" onClick={() => setEditing("edit")}>Edit</Button>
+          ) : (
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setJoining(true)}>Join Existing</Button>
+              <Button size="sm" onClick={() => setEditing("create")}>Create Household</Button>
+            </div>
+          )}
+        </div>
+
+        {household ? (
+          <>
+            <div className="text-sm text-slate-600">
+              <p>{formatAddress(household.address) || "No address yet"}</p>
+              {household.phone && <p>{household.phone}</p>}
+            </div>
+            <ul className="divide-y rounded-md border">
+              {family!.householdMembers.map((member) => {
+                const relationship = family!.relationships.find((related) => related.member._id === member._id);
+                return (
+                  <li key={member._id} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <span>
+                      <span className="font-medium">{member.fullname}</span>
+                      {member._id === memberId && <span className="text-slate-500"> (this member)</span>}
+                      {relationship && (
+                        <Badge variant="secondary" className="ml-2 text-xs">{RELATIONSHIP_LABELS[relationship.type]}</Badge>
+                      )}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label={`Remove ${member.fullname} from household`}
+                      disabled={leaveHouseholdMutation.isPending}
+                      onClick={() => leaveHouseholdMutation.mutate(member._id!)}
+                    >
+                      <X className="w-4 h-4 text-slate-400" />
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+            <Button variant="outline" size="sm" onClick={() => setAddingMember(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add to Household
+            </Button>
+          </>
+        ) : (
+          <p className="text-sm text-slate-500">Not part of a household.</p>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-slate-900">Relationships</h3>
+          <Button variant="outline" size="sm" onClick={() => setAddingRelationship(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add
+          </Button>
+        </div>
+        {family?.relationships.length ? (
+          <ul className="divide-y rounded-md border">
+            {family.relationships.map(({ type, member }) => (
+              <li key={member._id} className="flex items-center justify-between px-3 py-2 text-sm">
+                <span>
+                  <span className="text-slate-500">{RELATIONSHIP_LABELS[type]}:</span>{" "}
+                  <span className="font-medium">{member.fullname || "Unknown member"}</span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  aria-label={`Remove relationship with ${member.fullname}`}
+                  disabled={removeRelationshipMutation.isPending}
+                  onClick={() => removeRelationshipMutation.mutate(member._id!)}
+                >
+                  <X className="w-4 h-4 text-slate-400" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-500">No relationships recorded.</p>
+        )}
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{editing === "edit" ? "Edit Household" : "Create Household"}</DialogTitle>
+            <DialogDescription>The address is shared by everyone in the household and used for mailing labels.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit((data) => saveHouseholdMutation.mutate(data))} className="grid gap-4 py-2">
+            <div className="grid gap-2">
+              <Label htmlFor="household-name">Name</Label>
+              <Input id="household-name" placeholder="e.g. The Obi Family" {...register("name", { required: true })} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {ADDRESS_FIELDS.map(({ field, label }) => (
+                <div key={field} className={field.startsWith("line") ? "grid gap-2 col-span-2" : "grid gap-2"}>
+                  <Label htmlFor={`household-${field}`}>{label}</Label>
+                  <Input id={`household-${field}`} {...register(`address.${field}`)} />
+                </div>
+              ))}
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="household-phone">Home Phone</Label>
+              <Input id="household-phone" {...register("phone")} />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saveHouseholdMutation.isPending}>
+                {saveHouseholdMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Household
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={joining} onOpenChange={setJoining}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Join a Household</DialogTitle>
+            <DialogDescription>Add this member to a household that already exists.</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Input
+              placeholder="Search households..."
+              value={householdSearch}
+              onChange={(e) => setHouseholdSearch(e.target.value)}
+            />
+            {households?.map((candidate) => (
+              <button
+                key={candidate._id}
+                type="button"
+                className="flex flex-col items-start rounded-md border px-3 py-2 text-left text-sm hover:bg-slate-50"
+                disabled={addToHouseholdMutation.isPending}
+                onClick={() => addToHouseholdMutation.mutate({ householdId: candidate._id, id: memberId })}
+              >
+                <span className="font-medium">{candidate.name}</span>
+                <span className="text-xs text-slate-500">{formatAddress(candidate.address) || "No address"}</span>
+              </button>
+            ))}
+            {households?.length === 0 && <p className="text-sm text-slate-500">No households found.</p>}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={addingMember} onOpenChange={setAddingMember}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Add to Household</DialogTitle>
+            <DialogDescription>Members already in another household move to this one.</DialogDescription>
+          </DialogHeader>
+          <MemberPicker
+            excludeIds={householdMemberIds}
+            onPick={(id) => household && addToHouseholdMutation.mutate({ householdId: household._id, id })}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={addingRelationship} onOpenChange={setAddingRelationship}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Add Relationship</DialogTitle>
+            <DialogDescription>
+              Pick what the other member is to {memberName || "this member"}; they get the matching relationship back.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <Select value={relationshipType} onValueChange={(value) => setRelationshipType(value as RelationshipType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(RELATIONSHIP_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <MemberPicker
+              excludeIds={[memberId, ...relatedIds]}
+              onPick={(id) => addRelationshipMutation.mutate(id)}
+            />
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
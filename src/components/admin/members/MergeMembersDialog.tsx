@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Check, Loader2 } from "lucide-react";
+import api from "@/lib/api";
+import { DuplicateMemberPair, Member, MemberMergeResult } from "@/types/member";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+
+type Side = 0 | 1;
+
+const nameOf = (value: unknown) =>
+  value && typeof value === "object" ? (value as { name?: string }).name : (value as string | undefined);
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString() : undefined);
+
+// The fields the server lets a merge pick from either record, as shown here
+const MERGE_FIELDS: { field: keyof Member; label: string; display: (member: Member) => string | undefined }[] = [
+  { field: "fullname", label: "Full Name", display: (m) => m.fullname },
+  { field: "email", label: "Email", display: (m) => m.email },
+  { field: "phone", label: "Phone", display: (m) => m.phone },
+  { field: "category", label: "Category", display: (m) => m.category },
+  { field: "churchunit", label: "Primary Unit", display: (m) => m.churchunit },
+  { field: "assignedto", label: "Assigned To", display: (m) => m.assignedto },
+  { field: "status", label: "Status", display: (m) => m.status },
+  { field: "auxanoCenter", label: "Auxano Center", display: (m) => nameOf(m.auxanoCenter) },
+  { field: "unit", label: "Unit", display: (m) => nameOf(m.unit) },
+  { field: "household", label: "Household", display: (m) => nameOf(m.household) },
+  { field: "discipleshipStatus", label: "Discipleship", display: (m) => (m.discipleshipStatus ? "Requested" : "No") },
+  { field: "isactive", label: "Active", display: (m) => (m.isactive === false ? "No" : "Yes") },
+  { field: "joindate", label: "Join Date", display: (m) => formatDate(m.joindate) },
+  { field: "stage", label: "Pipeline Stage", display: (m) => nameOf(m.stage) },
+];
+
+// Each field from the kept record, unless only the other one has a value
+const defaultChoices = (members: Member[], kept: Side) =>
+  Object.fromEntries(MERGE_FIELDS.map(({ field, display }) => {
+    const other = (1 - kept) as Side;
+    return [field, !display(members[kept]) && display(members[other]) ? other : kept];
+  })) as Record<string, Side>;
+
+interface MergeMembersDialogProps {
+  pair: DuplicateMemberPair | null;
+  onOpenChange: (open: boolean) => void;
+  onMerged: (result: MemberMergeResult) => void;
+}
+
+export function MergeMembersDialog({ pair, onOpenChange, onMerged }: MergeMembersDialogProps) {
+  const { toast } = useToast();
+  const [kept, setKept] = useState<Side>(0);
+  const [choices, setChoices] = useState<Record<string, Side>>({});
+
+  useEffect(() => {
+    if (pair) {
+      setKept(0);
+      setChoices(defaultChoices(pair.members, 0));
+    }
+  }, [pair]);
+
+  const mergeMutation = useMutation({
+    mutationFn: async (): Promise<MemberMergeResult> => {
+      const [first, second] = pair!.members;
+      const primary = kept === 0 ? first : second;
+      const duplicate = kept === 0 ? second : first;
+      const response = await api.post("/members/merge", {
+        primaryId: primary._id,
+        duplicateId: duplicate._id,
+        fields: Object.fromEntries(
+          Object.entries(choices).map(([field, side]) => [field, side === kept ? "primary" : "duplicate"])
+        ),
+      });
+      return response.data;
+    },
+    onSuccess: (result) => {
+      onMerged(result);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to merge members",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!pair) return null;
+
+  const keep = (side: Side) => {
+    setKept(side);
+    setChoices(defaultChoices(pair.members, side));
+  };
+
+  const churchUnits = [...new Set(pair.members.flatMap((member) => member.churchunits || []))];
+
+  return (
+    <Dialog open={!!pair} onOpenChange={(open) => !mergeMutation.isPending && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>Merge Members</DialogTitle>
+          <DialogDescription>
+            Pick the record to keep and, for each field, the value it should have. The other record is deleted;
+            its attendance, donations, pledges and event registrations move to the kept one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-36">Field</TableHead>
+                {pair.members.map((member, index) => (
+                  <TableHead key={member._id}>
+                    <Button
+                      size="sm"
+                      variant={kept === index ? "default" : "outline"}
+                      onClick={() => keep(index as Side)}
+                    >
+                      {kept === index ? "Keeping this record" : "Keep this record"}
+                    </Button>
+                    <p className="text-xs font-normal text-slate-500 mt-1">
+                      Added {formatDate(member.created_at) || "-"}
+                    </p>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {MERGE_FIELDS.map(({ field, label, display }) => (
+                <TableRow key={field}>
+                  <TableCell className="font-medium">{label}</TableCell>
+                  {pair.members.map((member, index) => {
+                    const chosen = choices[field] === index;
+                    return (
+                      <TableCell
+                        key={member._id}
+                        className={chosen ? "bg-slate-100 font-medium cursor-pointer" : "text-slate-500 cursor-pointer"}
+                        onClick={() => setChoices({ ...choices, [field]: index as Side })}
+                      >
+                        <span className="flex items-center gap-2">
+                          {chosen ? <Check className="w-4 h-4 shrink-0" /> : <span className="w-4 shrink-0" />}
+                          {display(member) || "-"}
+                        </span>
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell className="font-medium">Church Units</TableCell>
+                <TableCell colSpan={2}>
+                  {churchUnits.length ? churchUnits.join(", ") : "-"}
+                  <span className="text-xs text-slate-500 ml-2">(both records' units and relationships are kept)</span>
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={mergeMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => mergeMutation.mutate()} disabled={mergeMutation.isPending}>
+            {mergeMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Merge Records
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
 import { Member } from "@/types/member";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Edit, Trash2, ChevronLeft, ChevronRight } from "lucide-react";
+import { Edit, Trash2, ChevronLeft, ChevronRight, ArrowUp, ArrowDown, UserPlus } from "lucide-react";
 import {
   Table,
   TableBody,
@@ -16,7 +16,11 @@ interface PaginatedMembersTableProps {
   members: Member[];
   onEdit: (member: Member) => void;
   onDelete: (member: Member) => void;
-  getAssignedPastorName: (memberId: string) => string;
+  onApprove?: (member: Member) => void;
+  getAssignedPastorName?: (memberId: string) => string;
+  isLoading?: boolean;
+  sort?: string;
+  onSortChange?: (sort: string) => void;
   currentPage: number;
   totalPages: number;
   pageSize: number;
@@ -29,7 +33,11 @@ export function PaginatedMembersTable({
   members,
   onEdit,
   onDelete,
+  onApprove,
   getAssignedPastorName,
+  isLoading,
+  sort,
+  onSortChange,
   currentPage,
   totalPages,
   pageSize,
@@ -40,6 +48,29 @@ export function PaginatedMembersTable({
   // Available page sizes
   const pageSizeOptions = [5, 10, 20, 50, 100];
 
+  // Clicking a sortable header toggles between ascending and descending
+  const renderSortableHead = (label: string, field: string) => {
+    if (!onSortChange) {
+      return <TableHead>{label}</TableHead>;
+    }
+
+    const isActive = sort === field || sort === `-${field}`;
+    const isDescending = sort === `-${field}`;
+
+    return (
+      <TableHead>
+        <button
+          type="button"
+          className="inline-flex items-center gap-1 hover:text-foreground"
+          onClick={() => onSortChange(isActive && !isDescending ? `-${field}` : field)}
+        >
+          {label}
+          {isActive && (isDescending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+        </button>
+      </TableHead>
+    );
+  };
+
   // Calculate pagination info
   const startItem = Math.min((currentPage - 1) * pageSize + 1, totalItems);
   const endItem = Math.min(currentPage * pageSize, totalItems);
@@ -85,18 +116,26 @@ export function PaginatedMembersTable({
         <Table>
           <TableHeader>
             <TableRow>
-              <TableHead>Name</TableHead>
-              <TableHead>Email</TableHead>
-              <TableHead>Category</TableHead>
+              {renderSortableHead("Name", "fullname")}
+              {renderSortableHead("Email", "email")}
+              {renderSortableHead("Category", "category")}
               <TableHead>Assigned Pastor</TableHead>
               <TableHead>Church Unit</TableHead>
               <TableHead>Auxano Group</TableHead>
-              <TableHead>Status</TableHead>
+              {renderSortableHead("Status", "isactive")}
               <TableHead className="w-[100px] text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {members.length === 0 ? (
+            {isLoading ? (
+              [1, 2, 3].map((i) => (
+                <TableRow key={i}>
+                  <TableCell colSpan={8}>
+                    <div className="h-4 w-full bg-slate-100 rounded animate-pulse" />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : members.length === 0 ? (
               <TableRow>
                 <TableCell colSpan={8} className="h-24 text-center">
                   <div className="py-6 text-center">
@@ -105,59 +144,87 @@ export function PaginatedMembersTable({
                 </TableCell>
               </TableRow>
             ) : (
-              members.map((member) => (
-                <TableRow key={member.id}>
-                  <TableCell>{member.fullName}</TableCell>
-                  <TableCell>{member.email}</TableCell>
-                  <TableCell>{member.category}</TableCell>
-                  <TableCell>
-                    {member.assignedTo ? getAssignedPastorName(member.assignedTo) : "Not Assigned"}
-                  </TableCell>
-                  <TableCell>
-                    {member.churchUnit ? (
-                      <Badge className="bg-blue-100 text-blue-800">{member.churchUnit}</Badge>
-                    ) : (
-                      "Not Assigned"
-                    )}
-                  </TableCell>
-                  <TableCell>{member.auxanoGroup || "Not Assigned"}</TableCell>
-                  <TableCell>
-                    <span
-                      className={`px-2 py-1 text-xs rounded-full ${
-                        member.isActive
-                          ? "bg-green-100 text-green-800"
-                          : "bg-red-100 text-red-800"
-                      }`}
-                    >
-                      {member.isActive ? "Active" : "Inactive"}
-                    </span>
-                  </TableCell>
-                  <TableCell className="text-right">
-                    <div className="flex justify-end space-x-2">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onEdit(member);
-                        }}
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onDelete(member);
-                        }}
-                      >
-                        <Trash2 className="h-4 w-4 text-destructive" />
-                      </Button>
-                    </div>
-                  </TableCell>
-                </TableRow>
-              ))
+              members.map((member) => {
+                // Accept both the API shape (lowercase / populated refs) and the legacy camelCase shape
+                const assignedTo = member.assignedto ?? member.assignedTo;
+                const churchUnit = (member.unit as any)?.name ?? member.churchunit ?? member.churchUnit;
+                const auxano = (member.auxanoCenter as any)?.name ?? member.auxanogroup ?? member.auxanoGroup;
+                const isActive = member.isactive ?? member.isActive;
+
+                return (
+                  <TableRow key={member._id || member.id}>
+                    <TableCell>{member.fullname ?? member.fullName}</TableCell>
+                    <TableCell>{member.email}</TableCell>
+                    <TableCell>{member.category}</TableCell>
+                    <TableCell>
+                      {assignedTo ? (getAssignedPastorName ? getAssignedPastorName(assignedTo) : assignedTo) : "Not Assigned"}
+                    </TableCell>
+                    <TableCell>
+                      {churchUnit ? (
+                        <Badge className="bg-blue-100 text-blue-800">{churchUnit}</Badge>
+                      ) : (
+                        "Not Assigned"
+                      )}
+                    </TableCell>
+                    <TableCell>{auxano || "Not Assigned"}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-col gap-1">
+                        <span
+                          className={`px-2 py-1 text-xs rounded-full max-w-fit ${
+                            isActive
+                              ? "bg-green-100 text-green-800"
+                              : "bg-red-100 text-red-800"
+                          }`}
+                        >
+                          {isActive ? "Active" : "Inactive"}
+                        </span>
+                        {member.status === "pending" && (
+                          <span className="px-2 py-0.5 text-[10px] font-bold uppercase rounded-full max-w-fit bg-yellow-100 text-yellow-700">
+                            Pending
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-2">
+                        {onApprove && member.status === "pending" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Approve member"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onApprove(member);
+                            }}
+                          >
+                            <UserPlus className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onEdit(member);
+                          }}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onDelete(member);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
             )}
           </TableBody>
         </Table>
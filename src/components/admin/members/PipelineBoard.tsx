@@ -0,0 +1,366 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Settings } from "lucide-react";
+import api from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { queryKeys } from "@/lib/react-query-config";
+import { Member } from "@/types/member";
+import { PipelineBoard as PipelineBoardData, PipelineMember, PipelineStage, StageTransition } from "@/types/pipeline";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useRole } from "@/components/auth/RoleProvider";
+import { useToast } from "@/components/ui/use-toast";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysSince = (value?: string) => (value ? Math.floor((Date.now() - new Date(value).getTime()) / DAY_MS) : 0);
+
+interface StageMove {
+  member: PipelineMember;
+  stage: PipelineStage;
+  override?: boolean;
+}
+
+interface SelectedMember {
+  member: PipelineMember;
+  stage: PipelineStage | null;
+}
+
+// Follow-up checklist and stage history of one member on the board
+function MemberStageDialog({ selected, onOpenChange }: {
+  selected: SelectedMember | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasPermission } = useRole();
+  const [completed, setCompleted] = useState<string[] | null>(null);
+  const memberId = selected?.member._id || "";
+
+  const { data: history, isLoading } = useQuery<StageTransition[]>({
+    queryKey: queryKeys.members.stageHistory(memberId),
+    queryFn: async () => {
+      const response = await api.get(`/members/${memberId}/stage-history`);
+      return response.data;
+    },
+    enabled: !!memberId,
+  });
+
+  const stepMutation = useMutation({
+    mutationFn: async ({ step, done }: { step: string; done: boolean }): Promise<Member> => {
+      const response = await api.put(`/members/${memberId}/stage/steps`, { step, done });
+      return response.data;
+    },
+    onSuccess: (member) => {
+      setCompleted(member.completedSteps || []);
+      queryClient.invalidateQueries({ queryKey: queryKeys.pipeline.all });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to update the follow-up step",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!selected) return null;
+
+  const { member, stage } = selected;
+  const done = completed ?? member.completedSteps ?? [];
+
+  return (
+    <Dialog
+      open={!!selected}
+      onOpenChange={(open) => {
+        if (!open) setCompleted(null);
+        onOpenChange(open);
+      }}
+    >
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{member.fullname}</DialogTitle>
+          <DialogDescription>
+            {stage
+              ? `In ${stage.name} for ${daysSince(member.stageEnteredAt)} days.`
+              : "Not in the pipeline yet. Drag them into a stage to start."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {stage && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Follow-up</h4>
+            {stage.followUpSteps.length === 0 ? (
+              <p className="text-sm text-slate-500">{stage.name} has no follow-up steps.</p>
+            ) : (
+              stage.followUpSteps.map((step) => (
+                <label key={step} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={done.includes(step)}
+                    disabled={!hasPermission("manage_members") || stepMutation.isPending}
+                    onCheckedChange={(checked) => stepMutation.mutate({ step, done: checked === true })}
+                  />
+                  {step}
+                </label>
+              ))
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">History</h4>
+          {isLoading ? (
+            <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+          ) : !history?.length ? (
+            <p className="text-sm text-slate-500">No moves yet.</p>
+          ) : (
+            <ul className="max-h-60 overflow-auto space-y-2">
+              {history.map((transition) => (
+                <li key={transition._id} className="text-sm border-l-2 border-slate-200 pl-3">
+                  {transition.toStage === undefined ? (
+                    <div>
+                      Category {transition.fromCategory || "none"} →{" "}
+                      <span className="font-medium">{transition.toCategory || "none"}</span>
+                    </div>
+                  ) : (
+                    <div>
+                      {transition.fromStage ? `${transition.fromStage.name} → ` : "Entered "}
+                      <span className="font-medium">{transition.toStage?.name || "a deleted stage"}</span>
+                      {transition.daysInStage != null && (
+                        <span className="text-slate-500"> after {transition.daysInStage} days</span>
+                      )}
+                    </div>
+                  )}
+                  <div className="text-xs text-slate-500">
+                    {new Date(transition.created_at).toLocaleDateString()}
+                    {transition.movedBy?.email && ` by ${transition.movedBy.email}`}
+                    {transition.overridden.length > 0 && ` · skipped: ${transition.overridden.join("; ")}`}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface PipelineBoardProps {
+  searchTerm?: string;
+}
+
+// Kanban of members by lifecycle stage. Dragging a card to another column
+// moves the member; the server checks the stage's requirements.
+export function PipelineBoard({ searchTerm }: PipelineBoardProps) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasPermission } = useRole();
+  const canMove = hasPermission("manage_members");
+  const canOverride = hasPermission("manage_pipeline");
+  const [dragging, setDragging] = useState<{ member: PipelineMember; from: string | null } | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [blocked, setBlocked] = useState<(StageMove & { unmet: string[] }) | null>(null);
+  const [selected, setSelected] = useState<SelectedMember | null>(null);
+
+  const { data: board, isLoading, error } = useQuery<PipelineBoardData>({
+    queryKey: queryKeys.pipeline.board(searchTerm),
+    queryFn: async () => {
+      const response = await api.get("/pipeline/board", { params: { searchTerm: searchTerm || undefined } });
+      return response.data;
+    },
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ member, stage, override }: StageMove) => {
+      await api.put(`/members/${member._id}/stage`, { stageId: stage._id, override });
+    },
+    onSuccess: (_, { member, stage }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.pipeline.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.members.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
+      toast({ title: "Moved", description: `${member.fullname} is now in ${stage.name}` });
+    },
+    onError: (error: any, move) => {
+      const unmet: string[] | undefined = error.response?.data?.unmet;
+      if (unmet?.length && canOverride && !move.override) {
+        setBlocked({ ...move, unmet });
+        return;
+      }
+      toast({
+        title: error.response?.data?.message || "Failed to move member",
+        description: unmet?.join(". "),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const endDrag = () => {
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-10">
+        <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  if (error || !board) {
+    return <div className="text-center text-red-500 py-10">Failed to load the pipeline. Please try again.</div>;
+  }
+
+  const columns = [
+    { key: null, title: "Not in pipeline", stage: null, ...board.unstaged },
+    ...board.columns.map((column) => ({ key: column.stage._id, title: column.stage.name, ...column })),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-slate-500">
+          {canMove
+            ? "Drag a member to another stage to move them. Click a card for their follow-up and history."
+            : "Click a card for the member's follow-up and history."}
+        </p>
+        {canOverride && (
+          <Button variant="outline" size="sm" onClick={() => navigate("/members/pipeline")}>
+            <Settings className="w-4 h-4 mr-2" />
+            Configure Stages
+          </Button>
+        )}
+      </div>
+
+      {board.columns.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-10">
+          No pipeline stages have been set up yet.
+        </p>
+      ) : (
+        <div className="flex gap-4 overflow-x-auto pb-2">
+          {columns.map((column) => {
+            const droppable = column.stage && dragging && dragging.from !== column.key;
+            return (
+              <div
+                key={column.key ?? "unstaged"}
+                className={cn(
+                  "w-72 shrink-0 rounded-lg bg-slate-50 p-3 outline outline-1 outline-slate-200",
+                  dropTarget === column.key && droppable && "outline-2 outline-slate-900"
+                )}
+                onDragOver={(e) => {
+                  if (!droppable) return;
+                  e.preventDefault();
+                  setDropTarget(column.key);
+                }}
+                onDragLeave={() => setDropTarget(null)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  if (droppable && column.stage) {
+                    moveMutation.mutate({ member: dragging.member, stage: column.stage });
+                  }
+                  endDrag();
+                }}
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-semibold text-sm">{column.title}</h3>
+                  <Badge variant="secondary">{column.total}</Badge>
+                </div>
+                <div className="space-y-2 min-h-16">
+                  {column.members.map((member) => {
+                    const days = daysSince(member.stageEnteredAt);
+                    const stalled = !!column.stage?.targetDays && days > column.stage.targetDays;
+                    const steps = column.stage?.followUpSteps || [];
+                    const stepsDone = steps.filter((step) => member.completedSteps?.includes(step)).length;
+                    return (
+                      <div
+                        key={member._id}
+                        draggable={canMove}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = "move";
+                          setDragging({ member, from: column.key });
+                        }}
+                        onDragEnd={endDrag}
+                        onClick={() => setSelected({ member, stage: column.stage })}
+                        className={cn(
+                          "rounded-md bg-white p-3 shadow-sm outline outline-1 outline-slate-200 cursor-pointer",
+                          canMove && "active:cursor-grabbing",
+                          dragging?.member._id === member._id && "opacity-50"
+                        )}
+                      >
+                        <div className="font-medium text-sm">{member.fullname}</div>
+                        <div className="text-xs text-slate-500 truncate">{member.email || member.phone || "-"}</div>
+                        {column.stage && (
+                          <div className="flex items-center gap-2 mt-2 text-xs">
+                            <span className={stalled ? "text-red-600 font-medium" : "text-slate-500"}>
+                              {days} {days === 1 ? "day" : "days"}
+                            </span>
+                            {steps.length > 0 && (
+                              <span className="text-slate-500">· {stepsDone}/{steps.length} steps</span>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                  {column.total > column.members.length && (
+                    <p className="text-xs text-slate-500 text-center">
+                      and {column.total - column.members.length} more
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <AlertDialog open={!!blocked} onOpenChange={(open) => !open && setBlocked(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Move {blocked?.member.fullname} anyway?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They don't meet the requirements for {blocked?.stage.name} yet:
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="list-disc pl-6 text-sm">
+            {blocked?.unmet.map((requirement) => <li key={requirement}>{requirement}</li>)}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (blocked) moveMutation.mutate({ member: blocked.member, stage: blocked.stage, override: true });
+                setBlocked(null);
+              }}
+            >
+              Move Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <MemberStageDialog selected={selected} onOpenChange={(open) => !open && setSelected(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { Loader2 } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { Message, MessageMediaType, MessageSeries } from "@/types/message";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+
+// 3930 -> "1:05:30", 500 -> "8:20"
+export const formatDuration = (seconds?: number) => {
+  if (!seconds) return "";
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return hours ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`;
+};
+
+// "1:05:30" -> 3930; undefined when the text is not h:mm:ss or m:ss
+const parseDuration = (text: string) => {
+  if (!/^\d+(:\d{1,2}){0,2}$/.test(text.trim())) return undefined;
+  return text.trim().split(":").reduce((total, part) => total * 60 + Number(part), 0);
+};
+
+interface MessageForm {
+  title: string;
+  preacher: string;
+  date: string;
+  mediaType: MessageMediaType;
+  duration: string;
+  series: string;
+  scriptureReferences: string;
+  tags: string;
+  description: string;
+  mediaUrl: string;
+  isPublished: boolean;
+}
+
+interface MessageFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  message?: Message | null;
+  seriesOptions: MessageSeries[];
+}
+
+// Radix Select does not allow an empty string as an item value
+const NO_SERIES = "none";
+
+const toFormValues = (message?: Message | null): MessageForm => ({
+  title: message?.title || "",
+  preacher: message?.preacher || "",
+  date: (message?.date || new Date().toISOString()).split("T")[0],
+  mediaType: message?.mediaType || "audio",
+  duration: formatDuration(message?.duration),
+  series: NO_SERIES,
+  scriptureReferences: (message?.scriptureReferences || []).join("; "),
+  tags: (message?.tags || []).join(", "),
+  description: message?.description || "",
+  mediaUrl: message?.mediaUrl || "",
+  isPublished: message?.isPublished ?? true,
+});
+
+// Reads the running time of a local recording from its metadata
+const readDuration = (file: File) => new Promise<number | undefined>((resolve) => {
+  const element = document.createElement(file.type.startsWith("video/") ? "video" : "audio");
+  const url = URL.createObjectURL(file);
+  const done = (duration?: number) => {
+    URL.revokeObjectURL(url);
+    resolve(duration);
+  };
+  element.preload = "metadata";
+  element.onloadedmetadata = () => done(Number.isFinite(element.duration) ? Math.round(element.duration) : undefined);
+  element.onerror = () => done(undefined);
+  element.src = url;
+});
+
+export function MessageFormDialog({ open, onOpenChange, message, seriesOptions }: MessageFormDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const { register, handleSubmit, reset, watch, setValue, getValues } = useForm<MessageForm>({
+    defaultValues: toFormValues(message),
+  });
+  const mediaType = watch("mediaType");
+  const series = watch("series");
+  const isPublished = watch("isPublished");
+  const isEditing = !!message;
+
+  useEffect(() => {
+    if (open) {
+      reset(toFormValues(message));
+      setFile(null);
+      setUploadProgress(null);
+    }
+  }, [open, message, reset]);
+
+  const handleFileChange = async (selected: File | null) => {
+    setFile(selected);
+    if (!selected) return;
+
+    if (selected.type.startsWith("video/") || selected.type.startsWith("audio/")) {
+      setValue("mediaType", selected.type.startsWith("video/") ? "video" : "audio");
+    }
+    if (!getValues("title")) {
+      setValue("title", selected.name.replace(/\.[^.]+$/, "").replace(/[-_]+/g, " "));
+    }
+
+    const duration = await readDuration(selected);
+    if (duration) {
+      setValue("duration", formatDuration(duration));
+    }
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: MessageForm) => {
+      const formData = new FormData();
+      Object.entries(data).forEach(([field, value]) => {
+        if (field !== "duration" && field !== "series") formData.append(field, String(value));
+      });
+      if (!message && data.series !== NO_SERIES) {
+        formData.append("series", data.series);
+      }
+      const duration = parseDuration(data.duration);
+      formData.append("duration", duration === undefined ? "" : String(duration));
+      if (file) {
+        formData.append("file", file);
+      }
+
+      const config = {
+        onUploadProgress: (event: { loaded: number; total?: number }) => {
+          if (file && event.total) setUploadProgress(Math.round((event.loaded / event.total) * 100));
+        },
+      };
+      const response = message
+        ? await api.put(`/messages/${message._id}`, formData, config)
+        : await api.post("/messages", formData, config);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.messages.all });
+      toast({ title: isEditing ? "Message updated" : "Message uploaded" });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      setUploadProgress(null);
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to save message",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const onSubmit = (data: MessageForm) => {
+    if (!isEditing && !file && !data.mediaUrl) {
+      toast({ title: "Choose a recording", description: "Upload a file or enter a media URL.", variant: "destructive" });
+      return;
+    }
+    if (data.duration && parseDuration(data.duration) === undefined) {
+      toast({ title: "Invalid duration", description: "Use h:mm:ss or m:ss, e.g. 1:05:30.", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !saveMutation.isPending && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Message" : "Upload Message"}</DialogTitle>
+          <DialogDescription>
+            Audio and video recordings can be streamed and downloaded from the archive.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="message-file">{isEditing ? "Replace recording" : "Recording"}</Label>
+            <Input
+              id="message-file"
+              type="file"
+              accept="audio/*,video/*"
+              onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+            />
+            {message?.file && !file && (
+              <p className="text-xs text-slate-500">Current file: {message.file.originalName}</p>
+            )}
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="message-title">Title</Label>
+            <Input id="message-title" required {...register("title", { required: true })} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="message-preacher">Preacher</Label>
+              <Input id="message-preacher" required {...register("preacher", { required: true })} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="message-date">Date</Label>
+              <Input id="message-date" type="date" required {...register("date", { required: true })} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Type</Label>
+              <Select value={mediaType} onValueChange={(value) => setValue("mediaType", value as MessageMediaType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="audio">Audio</SelectItem>
+                  <SelectItem value="video">Video</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="message-duration">Duration</Label>
+              <Input id="message-duration" placeholder="1:05:30" {...register("duration")} />
+            </div>
+          </div>
+          {!isEditing && (
+            <div className="grid gap-2">
+              <Label>Add to series</Label>
+              <Select value={series} onValueChange={(value) => setValue("series", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SERIES}>None</SelectItem>
+                  {seriesOptions.map((item) => (
+                    <SelectItem key={item._id} value={item._id}>{item.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="grid gap-2">
+            <Label htmlFor="message-scriptures">Scripture references</Label>
+            <Input id="message-scriptures" placeholder="John 3:16; Romans 8:28-30" {...register("scriptureReferences")} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="message-tags">Tags</Label>
+            <Input id="message-tags" placeholder="faith, prayer" {...register("tags")} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="message-media-url">External media URL</Label>
+            <Input id="message-media-url" type="url" placeholder="https://" {...register("mediaUrl")} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="message-description">Description</Label>
+            <Textarea id="message-description" rows={3} {...register("description")} />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="message-published">Published</Label>
+              <p className="text-xs text-slate-500">Published audio messages appear in the podcast feed.</p>
+            </div>
+            <Switch
+              id="message-published"
+              checked={isPublished}
+              onCheckedChange={(checked) => setValue("isPublished", checked)}
+            />
+          </div>
+          {uploadProgress !== null && (
+            <div className="grid gap-1">
+              <Progress value={uploadProgress} />
+              <p className="text-xs text-slate-500">Uploading… {uploadProgress}%</p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saveMutation.isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isEditing ? "Save Changes" : "Upload"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
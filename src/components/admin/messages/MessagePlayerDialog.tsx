@@ -0,0 +1,82 @@
+import { Download, ExternalLink } from "lucide-react";
+import api from "@/lib/api";
+import { Message } from "@/types/message";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+// Recordings are served from a public endpoint so media elements and podcast
+// apps can fetch them without an auth header
+export const messageStreamUrl = (message: Pick<Message, "_id">, download = false) =>
+  `${api.defaults.baseURL}/public/messages/${message._id}/stream${download ? "?download=1" : ""}`;
+
+interface MessagePlayerDialogProps {
+  message: Message | null;
+  onClose: () => void;
+}
+
+export function MessagePlayerDialog({ message, onClose }: MessagePlayerDialogProps) {
+  return (
+    <Dialog open={!!message} onOpenChange={(open) => !open && onClose()}>
+      {message && (
+        <DialogContent className={message.mediaType === "video" ? "sm:max-w-[760px]" : "sm:max-w-[520px]"}>
+          <DialogHeader>
+            <DialogTitle>{message.title}</DialogTitle>
+            <DialogDescription>
+              {message.preacher} • {new Date(message.date).toLocaleDateString()}
+              {message.series?.length ? ` • ${message.series.map((item) => item.title).join(", ")}` : ""}
+            </DialogDescription>
+          </DialogHeader>
+
+          {message.file ? (
+            message.mediaType === "video" ? (
+              <video key={message._id} controls autoPlay className="w-full rounded-lg bg-black" src={messageStreamUrl(message)} />
+            ) : (
+              <audio key={message._id} controls autoPlay className="w-full" src={messageStreamUrl(message)} />
+            )
+          ) : (
+            <p className="text-sm text-slate-500">This recording is hosted elsewhere.</p>
+          )}
+
+          {(message.scriptureReferences.length > 0 || message.tags.length > 0) && (
+            <div className="flex flex-wrap gap-2">
+              {message.scriptureReferences.map((reference) => (
+                <Badge key={reference} variant="secondary">{reference}</Badge>
+              ))}
+              {message.tags.map((tag) => (
+                <Badge key={tag} variant="outline">#{tag}</Badge>
+              ))}
+            </div>
+          )}
+          {message.description && <p className="text-sm text-slate-600">{message.description}</p>}
+
+          <DialogFooter>
+            {message.mediaUrl && (
+              <Button variant="outline" asChild>
+                <a href={message.mediaUrl} target="_blank" rel="noreferrer">
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  Open Link
+                </a>
+              </Button>
+            )}
+            {message.file && (
+              <Button asChild>
+                <a href={messageStreamUrl(message, true)}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </a>
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { ArrowLeft, Copy, Edit, GripVertical, Library, Loader2, Music, PlayCircle, Plus, Search, X } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { cn } from "@/lib/utils";
+import { Message, MessageListParams, MessageListResponse, MessageSeriesDetail } from "@/types/message";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { formatDuration } from "./MessageFormDialog";
+import { SeriesFormDialog } from "./SeriesFormDialog";
+
+interface SeriesDetailProps {
+  seriesId: string;
+  canManage: boolean;
+  onBack: () => void;
+  onPlay: (message: Message) => void;
+}
+
+export function SeriesDetail({ seriesId, canManage, onBack, onPlay }: SeriesDetailProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [order, setOrder] = useState<Message[]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState("");
+
+  const { data: series, isLoading } = useQuery<MessageSeriesDetail>({
+    queryKey: queryKeys.messages.seriesDetail(seriesId),
+    queryFn: async () => {
+      const response = await api.get(`/series/${seriesId}`);
+      return response.data;
+    },
+  });
+
+  // Local copy so rows can move while dragging, before the order is saved
+  useEffect(() => {
+    setOrder(series?.messages || []);
+  }, [series]);
+
+  const pickerFilters: MessageListParams = { page: 1, pageSize: 20, searchTerm: searchTerm || undefined };
+  const { data: candidates } = useQuery<MessageListResponse>({
+    queryKey: queryKeys.messages.list(pickerFilters),
+    queryFn: async () => {
+      const response = await api.get("/messages", { params: pickerFilters });
+      return response.data;
+    },
+    placeholderData: keepPreviousData,
+    enabled: isAddOpen,
+  });
+
+  const saveOrderMutation = useMutation({
+    mutationFn: async (messages: Message[]) => {
+      const response = await api.put(`/series/${seriesId}/messages`, { messages: messages.map((message) => message._id) });
+      return response.data as MessageSeriesDetail;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(queryKeys.messages.seriesDetail(seriesId), saved);
+      queryClient.invalidateQueries({ queryKey: queryKeys.messages.series(), exact: true });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.messages.all, "list"] });
+    },
+    onError: (error: any) => {
+      setOrder(series?.messages || []);
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to update series",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const moveRow = (from: number, to: number) => {
+    setOrder((current) => {
+      const next = [...current];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  // Rows move while hovering; the new order is saved once the drag ends
+  const handleDragEnd = () => {
+    setDragIndex(null);
+    const changed = order.some((message, index) => message._id !== series?.messages[index]?._id);
+    if (changed) {
+      saveOrderMutation.mutate(order);
+    }
+  };
+
+  const feedUrl = series ? `${api.defaults.baseURL}/public/series/${series.slug}` : "";
+
+  const copyUrl = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Feed URL copied" });
+  };
+
+  if (isLoading || !series) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  const inSeries = new Set(order.map((message) => message._id));
+
+  return (
+    <div className="space-y-4">
+      <Button variant="ghost" size="sm" onClick={onBack}>
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        All series
+      </Button>
+
+      <div className="flex flex-col md:flex-row gap-4 md:items-start">
+        <div className="h-32 w-32 rounded-xl bg-slate-100 overflow-hidden flex items-center justify-center shrink-0">
+          {series.coverImage
+            ? <img src={series.coverImage} alt="" className="h-full w-full object-cover" />
+            : <Library className="h-10 w-10 text-primary" />}
+        </div>
+        <div className="flex-1 min-w-0 space-y-2">
+          <div className="flex items-center gap-2">
+            <h2 className="text-2xl font-bold font-serif text-slate-900">{series.title}</h2>
+            {!series.isPublished && <Badge variant="outline">Draft</Badge>}
+          </div>
+          {series.description && <p className="text-slate-600">{series.description}</p>}
+          <p className="text-sm text-slate-500">{order.length} {order.length === 1 ? "message" : "messages"}</p>
+          {series.isPublished && (
+            <div className="space-y-1">
+              {[
+                { label: "JSON", url: feedUrl },
+                { label: "Podcast", url: `${feedUrl}/podcast.xml` },
+              ].map(({ label, url }) => (
+                <div key={label} className="flex items-center gap-2 text-xs text-slate-500">
+                  <span className="w-14 font-medium">{label}</span>
+                  <code className="bg-slate-100 rounded px-2 py-1 truncate">{url}</code>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" aria-label={`Copy ${label} feed URL`} onClick={() => copyUrl(url)}>
+                    <Copy className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        {canManage && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsEditOpen(true)}>
+              <Edit className="w-4 h-4 mr-2" />
+              Edit
+            </Button>
+            <Button onClick={() => setIsAddOpen(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Messages
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {order.length === 0 ? (
+        <p className="text-center text-slate-500 py-12">This series has no messages yet.</p>
+      ) : (
+        <div className="grid gap-2">
+          {order.map((message, index) => (
+            <Card
+              key={message._id}
+              draggable={canManage}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => {
+                if (dragIndex === null) return;
+                e.preventDefault();
+                if (dragIndex !== index) {
+                  moveRow(dragIndex, index);
+                  setDragIndex(index);
+                }
+              }}
+              onDrop={(e) => e.preventDefault()}
+              onDragEnd={handleDragEnd}
+              className={cn(
+                "border-none shadow-sm rounded-xl bg-white",
+                dragIndex === index && "opacity-50"
+              )}
+            >
+              <CardContent className="p-3 flex items-center gap-3">
+                {canManage && <GripVertical className="w-4 h-4 text-slate-400 cursor-grab shrink-0" />}
+                <span className="w-6 text-sm text-slate-400 tabular-nums">{index + 1}</span>
+                <button
+                  type="button"
+                  aria-label={`Play ${message.title}`}
+                  onClick={() => onPlay(message)}
+                  className="h-10 w-10 rounded-lg bg-slate-100 hover:bg-slate-200 transition-colors flex items-center justify-center shrink-0"
+                >
+                  {message.mediaType === "video" ? <PlayCircle className="text-primary w-5 h-5" /> : <Music className="text-primary w-5 h-5" />}
+                </button>
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-slate-900 truncate">{message.title}</p>
+                  <p className="text-sm text-slate-500">{message.preacher} • {new Date(message.date).toLocaleDateString()}</p>
+                </div>
+                <span className="text-sm text-slate-500 tabular-nums hidden md:block">{formatDuration(message.duration)}</span>
+                {canManage && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove from series"
+                    disabled={saveOrderMutation.isPending}
+                    onClick={() => saveOrderMutation.mutate(order.filter((item) => item._id !== message._id))}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <SeriesFormDialog open={isEditOpen} onOpenChange={setIsEditOpen} series={series} />
+
+      <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>Add Messages</DialogTitle>
+            <DialogDescription>New messages are added to the end of {series.title}.</DialogDescription>
+          </DialogHeader>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <Input
+              placeholder="Search messages..."
+              className="pl-9"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+          <div className="max-h-[360px] overflow-y-auto divide-y">
+            {(candidates?.messages || []).map((message) => (
+              <div key={message._id} className="flex items-center gap-3 py-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{message.title}</p>
+                  <p className="text-xs text-slate-500">{message.preacher} • {new Date(message.date).toLocaleDateString()}</p>
+                </div>
+                {inSeries.has(message._id) ? (
+                  <Badge variant="secondary">Added</Badge>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={saveOrderMutation.isPending}
+                    onClick={() => saveOrderMutation.mutate([...order, message])}
+                  >
+                    Add
+                  </Button>
+                )}
+              </div>
+            ))}
+            {candidates?.messages.length === 0 && (
+              <p className="text-sm text-slate-500 text-center py-6">No messages found.</p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { ImageIcon, Loader2 } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { MessageSeries, MessageSeriesDetail } from "@/types/message";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+
+interface SeriesForm {
+  title: string;
+  slug: string;
+  description: string;
+  coverImage: string;
+  isPublished: boolean;
+}
+
+interface SeriesFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  series?: MessageSeries | MessageSeriesDetail | null;
+  onSaved?: (series: MessageSeriesDetail) => void;
+}
+
+const toFormValues = (series?: MessageSeries | MessageSeriesDetail | null): SeriesForm => ({
+  title: series?.title || "",
+  slug: series?.slug || "",
+  description: series?.description || "",
+  coverImage: series?.coverImage || "",
+  isPublished: series?.isPublished ?? true,
+});
+
+export function SeriesFormDialog({ open, onOpenChange, series, onSaved }: SeriesFormDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [uploading, setUploading] = useState(false);
+  const { register, handleSubmit, reset, watch, setValue } = useForm<SeriesForm>({
+    defaultValues: toFormValues(series),
+  });
+  const coverImage = watch("coverImage");
+  const isPublished = watch("isPublished");
+
+  useEffect(() => {
+    if (open) {
+      reset(toFormValues(series));
+    }
+  }, [open, series, reset]);
+
+  const uploadCover = async (file: File) => {
+    setUploading(true);
+    try {
+      const body = new FormData();
+      body.append("image", file);
+      // Stored on the API server's disk and served from /uploads
+      const { data } = await api.post("/series/upload", body);
+      setValue("coverImage", data.url);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to upload cover art",
+        variant: "destructive"
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: SeriesForm) => {
+      const response = series
+        ? await api.put(`/series/${series._id}`, data)
+        : await api.post("/series", data);
+      return response.data as MessageSeriesDetail;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.messages.all });
+      toast({ title: series ? "Series updated" : "Series created" });
+      onOpenChange(false);
+      onSaved?.(saved);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to save series",
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{series ? "Edit Series" : "Create Playlist"}</DialogTitle>
+          <DialogDescription>
+            Group messages into a preaching series or a curated playlist.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit((data) => saveMutation.mutate(data))} className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="series-title">Title</Label>
+            <Input id="series-title" required {...register("title", { required: true })} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="series-slug">Feed name</Label>
+            <Input id="series-slug" placeholder="Generated from the title" {...register("slug")} />
+            <p className="text-xs text-slate-500">Used in the public feed URL, e.g. /api/public/series/sound-doctrine</p>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="series-description">Description</Label>
+            <Textarea id="series-description" rows={3} {...register("description")} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="series-cover">Cover art</Label>
+            <div className="flex items-center gap-3">
+              <div className="h-16 w-16 rounded-lg bg-slate-100 overflow-hidden flex items-center justify-center shrink-0">
+                {coverImage
+                  ? <img src={coverImage} alt="" className="h-full w-full object-cover" />
+                  : <ImageIcon className="h-6 w-6 text-slate-400" />}
+              </div>
+              <Input
+                id="series-cover"
+                type="file"
+                accept="image/*"
+                disabled={uploading}
+                onChange={(e) => e.target.files?.[0] && uploadCover(e.target.files[0])}
+              />
+              {uploading && <Loader2 className="h-4 w-4 animate-spin text-slate-400" />}
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="series-published">Published</Label>
+              <p className="text-xs text-slate-500">Published series are available in the public feed.</p>
+            </div>
+            <Switch
+              id="series-published"
+              checked={isPublished}
+              onCheckedChange={(checked) => setValue("isPublished", checked)}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending || uploading}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {series ? "Save Changes" : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
-
+import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
-import { type AdminUser } from "./types";
+import api from "@/lib/api";
+import { User } from "@/types/member";
 
 import {
   Dialog,
@@ -14,7 +14,7 @@ import {
 import { Button } from "@/components/ui/button";
 
 type DeleteUserDialogProps = {
-  user: AdminUser | null;
+  user: User | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onUserDeleted: () => void;
@@ -22,30 +22,30 @@ type DeleteUserDialogProps = {
 
 const DeleteUserDialog = ({ user, open, onOpenChange, onUserDeleted }: DeleteUserDialogProps) => {
   const { toast } = useToast();
+  const [deleting, setDeleting] = useState(false);
 
   const handleDeleteUser = async () => {
     if (!user) return;
 
+    setDeleting(true);
     try {
-      // Delete the user from auth (this will cascade to profiles due to FK)
-      const { error } = await supabase.auth.admin.deleteUser(
-        user.id
-      );
-
-      if (error) throw error;
+      // Removes the account with its profile and sessions
+      await api.delete(`/auth/users/${user._id}`);
 
       toast({
         title: "User deleted successfully",
       });
-      
+
       onOpenChange(false);
       onUserDeleted(); // Refresh the user list
     } catch (error: any) {
       toast({
         variant: "destructive",
         title: "Error deleting user",
-        description: error.message,
+        description: error.response?.data?.message || error.message,
       });
+    } finally {
+      setDeleting(false);
     }
   };
 
@@ -55,18 +55,20 @@ const DeleteUserDialog = ({ user, open, onOpenChange, onUserDeleted }: DeleteUse
         <DialogHeader>
           <DialogTitle>Delete User</DialogTitle>
           <DialogDescription>
-            Are you sure you want to delete this user? This action cannot be undone.
+            Are you sure you want to delete {user?.email}? This action cannot be undone.
+            To keep their history, deactivate the account instead.
           </DialogDescription>
         </DialogHeader>
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
-          <Button 
-            variant="destructive" 
+          <Button
+            variant="destructive"
+            disabled={deleting}
             onClick={handleDeleteUser}
           >
-            Delete
+            {deleting ? "Deleting..." : "Delete"}
           </Button>
         </DialogFooter>
       </DialogContent>
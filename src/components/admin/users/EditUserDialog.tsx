@@ -1,15 +1,14 @@
-
 import { useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
-import { type AdminUser } from "./types";
 import { useAuth } from "@/contexts/AuthContext";
-import { MultipleChurchUnitsSelect } from "../../admin/members/MultipleChurchUnitsSelect";
-import { addUserRoleSafe, removeUserRoleSafe } from "@/utils/roleManagement";
-import { OFFICIAL_CHURCH_UNITS } from "@/constants/churchUnits";
+import { User } from "@/types/member";
 
 import {
   Dialog,
@@ -22,6 +21,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -33,182 +33,98 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 
 const editUserSchema = z.object({
   fullName: z.string().min(2, { message: "Full name is required" }),
-  isAdmin: z.boolean().optional(),
-  churchUnits: z.array(z.string()).optional(),
-  churchUnit: z.string().optional(), // Legacy field
-  assignedPastor: z.string().optional(),
+  email: z.string().email({ message: "Enter a valid email address" }),
   phone: z.string().optional(),
   genotype: z.string().optional(),
   address: z.string().optional(),
-  role: z.enum(["user", "admin", "superuser"]).optional(),
+  role: z.enum(["user", "pastor", "admin", "superadmin"]),
+  assignedAuxanoCenter: z.string().optional(),
 });
 
+type EditUserValues = z.infer<typeof editUserSchema>;
+
 type EditUserDialogProps = {
-  user: AdminUser | null;
+  user: User | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onUserUpdated: () => void;
 };
 
+const centerId = (center: unknown) =>
+  typeof center === "string" ? center : (center as { _id?: string } | undefined)?._id || "";
+
 const EditUserDialog = ({ user, open, onOpenChange, onUserUpdated }: EditUserDialogProps) => {
   const { toast } = useToast();
-  const { isSuperUser } = useAuth();
+  const { user: currentUser } = useAuth();
 
-  const editForm = useForm<z.infer<typeof editUserSchema>>({
+  const editForm = useForm<EditUserValues>({
     resolver: zodResolver(editUserSchema),
     defaultValues: {
       fullName: "",
-      isAdmin: false,
-      churchUnits: [],
-      churchUnit: "",
-      assignedPastor: "",
+      email: "",
       phone: "",
       genotype: "",
       address: "",
       role: "user",
+      assignedAuxanoCenter: "",
     },
   });
 
-  const pastors = [
-    { id: "timileyin_fadeyi", name: "Timileyin Fadeyi" },
-    { id: "samuel_friday", name: "Samuel Friday" },
-    { id: "femi_fatoyinbo", name: "Femi Fatoyinbo" },
-    { id: "igbalaye_olajide", name: "Igbalaye Olajide" },
-    { id: "olaiya_sunday", name: "Olaiya Sunday" },
-  ];
-
-  useEffect(() => {
-    if (user && open) {
-      // Get user metadata
-      const getUserMetadata = async () => {
-        const { data, error } = await supabase
-          .from('profiles')
-          .select('*')
-          .eq('id', user.id)
-          .single();
-
-        if (error) {
-          console.error("Error fetching user metadata:", error);
-          return;
-        }
-
-        // Check if the user is an admin
-        const isAdmin = await checkUserRole(user.id);
-
-        // Get user metadata from auth
-        const { data: authData } = await supabase.auth.admin.getUserById(user.id);
-        const metadata = authData?.user?.user_metadata;
-
-        // Determine role
-        let role = "user";
-        if (isAdmin) role = "admin";
-        if (user.email === "ojidelawrence@gmail.com") role = "superuser";
-
-        // Get church units (either from metadata or convert single unit to array)
-        const churchUnits = metadata?.church_units ||
-          (metadata?.church_unit ? [metadata.church_unit] : []);
-
-        editForm.reset({
-          fullName: user.full_name || "",
-          isAdmin,
-          churchUnits,
-          churchUnit: metadata?.church_unit || "",
-          assignedPastor: metadata?.assigned_pastor || "",
-          phone: data?.phone || "",
-          genotype: data?.genotype || "",
-          address: data?.address || "",
-          role,
-        });
-      };
-
-      getUserMetadata();
-    }
-  }, [user, open, editForm]);
+  const { data: details, isLoading } = useQuery<User>({
+    queryKey: queryKeys.users.detail(user?._id ?? ""),
+    queryFn: async () => {
+      const response = await api.get(`/auth/users/${user!._id}`);
+      return response.data;
+    },
+    enabled: !!user && open,
+  });
 
-  const checkUserRole = async (userId: string): Promise<boolean> => {
-    const { data, error } = await supabase
-      .from("user_roles")
-      .select("*")
-      .eq("user_id", userId)
-      .eq("role", "admin");
+  const { data: centers } = useQuery({
+    queryKey: ["centers"],
+    queryFn: async () => {
+      const response = await api.get("/lists/centers");
+      return response.data;
+    },
+    enabled: open,
+  });
 
-    if (error) {
-      console.error("Error checking user role:", error);
-      return false;
+  useEffect(() => {
+    if (details && open) {
+      editForm.reset({
+        fullName: details.profile?.full_name || "",
+        email: details.email,
+        phone: details.profile?.phone || "",
+        genotype: details.profile?.genotype || "",
+        address: details.profile?.address || "",
+        role: details.role,
+        assignedAuxanoCenter: centerId(details.assignedAuxanoCenter),
+      });
     }
+  }, [details, open, editForm]);
 
-    return data && data.length > 0;
-  };
+  // Superadmin rights are handled in the superadmin settings, and nobody
+  // changes their own role
+  const roleLocked = user?.role === "superadmin" || user?._id === currentUser?._id;
+  const selectedRole = editForm.watch("role");
 
-  const handleEditUser = async (values: z.infer<typeof editUserSchema>) => {
+  const handleEditUser = async (values: EditUserValues) => {
     if (!user) return;
 
     try {
-      // Update the profile
-      const { error: profileError } = await supabase
-        .from("profiles")
-        .update({ full_name: values.fullName })
-        .eq("id", user.id);
-
-      if (profileError) throw profileError;
-
-      // Check if the user is currently an admin
-      const isCurrentlyAdmin = await checkUserRole(user.id);
-
-      // Handle admin role changes
-      if (values.isAdmin && !isCurrentlyAdmin) {
-        // Add admin role using our safe method
-        const result = await addUserRoleSafe(user.id, "admin");
-        if (!result.success) {
-          throw result.error || new Error("Failed to add admin role");
-        }
-      } else if (!values.isAdmin && isCurrentlyAdmin) {
-        // Remove admin role using our safe method
-        const result = await removeUserRoleSafe(user.id, "admin");
-        if (!result.success) {
-          throw result.error || new Error("Failed to remove admin role");
-        }
-      }
-
-      // If superuser, update user metadata and profile
-      if (isSuperUser) {
-        // Process metadata values
-        const processedAssignedPastor = values.assignedPastor === "none" ? null : values.assignedPastor || null;
-
-        // Update user metadata
-        const { error: metadataError } = await supabase.auth.admin.updateUserById(
-          user.id,
-          {
-            user_metadata: {
-              // Handle both camelCase and lowercase column names
-              church_units: values.churchUnits || [],
-              church_unit: values.churchUnits && values.churchUnits.length > 0 ? values.churchUnits[0] : null,
-              churchunits: values.churchUnits || [],
-              churchunit: values.churchUnits && values.churchUnits.length > 0 ? values.churchUnits[0] : null,
-              assigned_pastor: processedAssignedPastor,
-            }
-          }
-        );
-
-        if (metadataError) throw metadataError;
-
-        // Process form values
-        const processedValues = {
-          phone: values.phone || null,
-          genotype: values.genotype === "none" ? null : values.genotype || null,
-          address: values.address || null,
-          updated_at: new Date().toISOString()
-        };
-
-        console.log("Updating user profile with values:", processedValues);
-
-        // Update profile with additional fields
-        const { error: profileUpdateError } = await supabase
-          .from("profiles")
-          .update(processedValues)
-          .eq("id", user.id);
+      await api.put(`/auth/users/${user._id}`, {
+        email: values.email,
+        full_name: values.fullName,
+        phone: values.phone,
+        genotype: values.genotype === "none" ? "" : values.genotype,
+        address: values.address,
+      });
 
-        if (profileUpdateError) throw profileUpdateError;
+      const center = values.role === "pastor" ? values.assignedAuxanoCenter || "" : "";
+      if (!roleLocked && (values.role !== details?.role || center !== centerId(details?.assignedAuxanoCenter))) {
+        await api.put(`/auth/users/${user._id}/role`, {
+          role: values.role,
+          assignedAuxanoCenter: center,
+        });
       }
 
       toast({
@@ -221,168 +137,180 @@ const EditUserDialog = ({ user, open, onOpenChange, onUserUpdated }: EditUserDia
       toast({
         variant: "destructive",
         title: "Error updating user",
-        description: error.message,
+        description: error.response?.data?.message || error.message,
       });
     }
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[480px]">
         <DialogHeader>
           <DialogTitle>Edit User</DialogTitle>
           <DialogDescription>
-            Update user details and permissions.
+            Update user details and role.
           </DialogDescription>
         </DialogHeader>
-        <Form {...editForm}>
-          <form onSubmit={editForm.handleSubmit(handleEditUser)} className="space-y-4">
-            <FormField
-              control={editForm.control}
-              name="fullName"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Full Name</FormLabel>
-                  <FormControl>
-                    <Input {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            <FormField
-              control={editForm.control}
-              name="isAdmin"
-              render={({ field }) => (
-                <FormItem className="flex flex-row items-center space-x-3 space-y-0">
-                  <FormControl>
-                    <input
-                      type="checkbox"
-                      checked={field.value}
-                      onChange={field.onChange}
-                      className="h-4 w-4"
-                    />
-                  </FormControl>
-                  <FormLabel>Admin privileges</FormLabel>
-                </FormItem>
-              )}
-            />
-
-            {isSuperUser && (
-              <>
-                <FormField
-                  control={editForm.control}
-                  name="churchUnits"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Church Units</FormLabel>
-                      <FormControl>
-                        <MultipleChurchUnitsSelect
-                          value={field.value || []}
-                          onChange={field.onChange}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={editForm.control}
-                  name="phone"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Phone Number</FormLabel>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+          </div>
+        ) : (
+          <Form {...editForm}>
+            <form onSubmit={editForm.handleSubmit(handleEditUser)} className="space-y-4">
+              <FormField
+                control={editForm.control}
+                name="fullName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Full Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={editForm.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} />
+                    </FormControl>
+                    <FormDescription>Changing the email asks the user to confirm the new address.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={editForm.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={roleLocked}>
                       <FormControl>
-                        <Input placeholder="Enter phone number" {...field} />
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
                       </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                      <SelectContent>
+                        <SelectItem value="user">User (Standard)</SelectItem>
+                        <SelectItem value="pastor">Pastor</SelectItem>
+                        <SelectItem value="admin">Admin</SelectItem>
+                        {user?.role === "superadmin" && (
+                          <SelectItem value="superadmin">Super Admin</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                    {roleLocked && (
+                      <FormDescription>
+                        {user?.role === "superadmin"
+                          ? "Super admin rights are managed from the super admin settings."
+                          : "You can't change your own role."}
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
+              {selectedRole === "pastor" && (
                 <FormField
                   control={editForm.control}
-                  name="genotype"
+                  name="assignedAuxanoCenter"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Genotype</FormLabel>
-                      <Select
-                        onValueChange={field.onChange}
-                        value={field.value || undefined}
-                      >
+                      <FormLabel>Assigned Auxano Center</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value || undefined} disabled={roleLocked}>
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select genotype" />
+                            <SelectValue placeholder="Select Center" />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          <SelectItem value="none">Not Specified</SelectItem>
-                          <SelectItem value="AA">AA</SelectItem>
-                          <SelectItem value="AS">AS</SelectItem>
-                          <SelectItem value="SS">SS</SelectItem>
-                          <SelectItem value="AC">AC</SelectItem>
-                          <SelectItem value="SC">SC</SelectItem>
-                          <SelectItem value="CC">CC</SelectItem>
+                          {centers?.map((c: any) => (
+                            <SelectItem key={c._id} value={c._id}>{c.name}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
+              )}
 
-                <FormField
-                  control={editForm.control}
-                  name="address"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Address</FormLabel>
+              <FormField
+                control={editForm.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone Number</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter phone number" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={editForm.control}
+                name="genotype"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Genotype</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      value={field.value || undefined}
+                    >
                       <FormControl>
-                        <Input placeholder="Enter address" {...field} />
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select genotype" />
+                        </SelectTrigger>
                       </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                {editForm.watch('churchUnit') === 'auxano' && (
-                  <FormField
-                    control={editForm.control}
-                    name="assignedPastor"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Assigned Pastor</FormLabel>
-                        <Select
-                          onValueChange={field.onChange}
-                          value={field.value || undefined}
-                        >
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select a pastor" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            <SelectItem value="none">None</SelectItem>
-                            {pastors.map((pastor) => (
-                              <SelectItem key={pastor.id} value={pastor.id}>
-                                {pastor.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                      <SelectContent>
+                        <SelectItem value="none">Not Specified</SelectItem>
+                        <SelectItem value="AA">AA</SelectItem>
+                        <SelectItem value="AS">AS</SelectItem>
+                        <SelectItem value="SS">SS</SelectItem>
+                        <SelectItem value="AC">AC</SelectItem>
+                        <SelectItem value="SC">SC</SelectItem>
+                        <SelectItem value="CC">CC</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
                 )}
-              </>
-            )}
-
-            <DialogFooter>
-              <Button type="submit">Save Changes</Button>
-            </DialogFooter>
-          </form>
-        </Form>
+              />
+
+              <FormField
+                control={editForm.control}
+                name="address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter address" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="submit" disabled={editForm.formState.isSubmitting}>
+                  {editForm.formState.isSubmitting ? "Saving..." : "Save Changes"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { LoginAttemptListResponse, LoginAttemptReason, LoginSummary } from "@/types/auth";
+import { describeDevice } from "@/components/auth/ActiveSessions";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const REASON_LABELS: Record<LoginAttemptReason, string> = {
+  success: "Signed in",
+  "unknown-email": "Unknown email",
+  "invalid-password": "Wrong password",
+  "invalid-2fa-code": "Wrong 2FA code",
+  throttled: "Throttled",
+  locked: "Account locked",
+  deactivated: "Account deactivated",
+};
+
+// Failed and successful logins for superadmins, with the addresses and
+// accounts failing most over the last day
+export function LoginActivity() {
+  const [outcome, setOutcome] = useState("all");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+
+  const filters = {
+    page,
+    limit: 25,
+    success: outcome === "all" ? undefined : String(outcome === "success"),
+    email: search.includes("@") ? search : undefined,
+    ip: search && !search.includes("@") ? search : undefined,
+  };
+
+  const { data: summary } = useQuery<LoginSummary>({
+    queryKey: queryKeys.users.loginSummary(),
+    queryFn: async () => {
+      const response = await api.get("/auth/login-attempts/summary");
+      return response.data;
+    },
+  });
+
+  const { data, isLoading } = useQuery<LoginAttemptListResponse>({
+    queryKey: queryKeys.users.loginAttempts(filters),
+    queryFn: async () => {
+      const response = await api.get("/auth/login-attempts", { params: filters });
+      return response.data;
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  return (
+    <div className="space-y-6">
+      {summary && (
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="rounded-lg border p-4">
+            <p className="text-sm text-slate-500">Last {summary.hours} hours</p>
+            <p className="text-2xl font-bold">{summary.failed} <span className="text-sm font-normal text-slate-500">failed</span></p>
+            <p className="text-sm text-slate-500">{summary.succeeded} successful</p>
+            {summary.lockedUsers.length > 0 && (
+              <p className="text-sm text-amber-700 mt-2">
+                Locked now: {summary.lockedUsers.map((user) => user.email).join(", ")}
+              </p>
+            )}
+          </div>
+          <div className="rounded-lg border p-4">
+            <p className="text-sm font-medium mb-2">Most failures by address</p>
+            {summary.topIps.length === 0 && <p className="text-sm text-slate-500">None</p>}
+            {summary.topIps.map((row) => (
+              <button
+                key={row.ip}
+                type="button"
+                className="flex w-full justify-between text-sm hover:underline"
+                onClick={() => { setSearch(row.ip); setPage(1); }}
+              >
+                <span className="font-mono">{row.ip}</span>
+                <span>{row.failures}</span>
+              </button>
+            ))}
+          </div>
+          <div className="rounded-lg border p-4">
+            <p className="text-sm font-medium mb-2">Most failures by account</p>
+            {summary.topEmails.length === 0 && <p className="text-sm text-slate-500">None</p>}
+            {summary.topEmails.map((row) => (
+              <button
+                key={row.email}
+                type="button"
+                className="flex w-full justify-between text-sm hover:underline"
+                onClick={() => { setSearch(row.email); setPage(1); }}
+              >
+                <span className="truncate">{row.email}</span>
+                <span>{row.failures}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-2">
+        <Input
+          placeholder="Filter by email or IP address..."
+          value={search}
+          onChange={(e) => { setSearch(e.target.value.trim()); setPage(1); }}
+          className="md:max-w-xs"
+        />
+        <Select value={outcome} onValueChange={(value) => { setOutcome(value); setPage(1); }}>
+          <SelectTrigger className="md:w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All logins</SelectItem>
+            <SelectItem value="failed">Failed only</SelectItem>
+            <SelectItem value="success">Successful only</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+        </div>
+      ) : !data?.attempts.length ? (
+        <p className="text-sm text-slate-500 text-center py-4">No login attempts found.</p>
+      ) : (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead>IP Address</TableHead>
+                <TableHead>Device</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.attempts.map((attempt) => (
+                <TableRow key={attempt._id}>
+                  <TableCell className="whitespace-nowrap">{new Date(attempt.created_at).toLocaleString()}</TableCell>
+                  <TableCell>{attempt.email || "-"}</TableCell>
+                  <TableCell>
+                    <Badge variant={attempt.success ? "secondary" : "destructive"} className="text-xs">
+                      {REASON_LABELS[attempt.reason] || attempt.reason}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{attempt.ip || "-"}</TableCell>
+                  <TableCell className="text-xs text-slate-500">{describeDevice(attempt.userAgent).label}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {data.totalPages > 1 && (
+            <div className="flex items-center justify-end gap-2">
+              <span className="text-sm text-slate-500">Page {data.page} of {data.totalPages}</span>
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                Previous
+              </Button>
+              <Button variant="outline" size="sm" disabled={page >= data.totalPages} onClick={() => setPage(page + 1)}>
+                Next
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Send, X } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { Invitation } from "@/types/auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+
+// Invitations still waiting for the invitee, with resend and revoke
+export function PendingInvitations() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: invitations, isLoading } = useQuery<Invitation[]>({
+    queryKey: queryKeys.users.invitations("pending"),
+    queryFn: async () => {
+      const response = await api.get("/auth/invitations", { params: { status: "pending" } });
+      return response.data;
+    },
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.response?.data?.message || "Failed to update invitation",
+      variant: "destructive"
+    });
+  };
+
+  const resendMutation = useMutation({
+    mutationFn: async (invitation: Invitation) => {
+      const response = await api.post(`/auth/invitations/${invitation._id}/resend`);
+      return response.data as Invitation;
+    },
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.users.invitations("pending") });
+      toast({ title: "Invitation resent", description: `A new link was emailed to ${invitation.email}` });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitation: Invitation) => {
+      await api.delete(`/auth/invitations/${invitation._id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.users.invitations("pending") });
+      toast({ title: "Invitation revoked" });
+    },
+    onError,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  if (!invitations?.length) {
+    return <p className="text-sm text-slate-500 text-center py-4">No pending invitations.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Email</TableHead>
+          <TableHead>Role</TableHead>
+          <TableHead>Assigned Center</TableHead>
+          <TableHead>Invited By</TableHead>
+          <TableHead>Expires</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {invitations.map((invitation) => (
+          <TableRow key={invitation._id}>
+            <TableCell className="font-medium">
+              {invitation.email}
+              {invitation.full_name && <p className="text-xs text-slate-500">{invitation.full_name}</p>}
+            </TableCell>
+            <TableCell>
+              <Badge variant="outline" className="uppercase text-xs">{invitation.role}</Badge>
+            </TableCell>
+            <TableCell>{invitation.assignedAuxanoCenter?.name || "-"}</TableCell>
+            <TableCell>{invitation.invitedBy?.email || "-"}</TableCell>
+            <TableCell>
+              {new Date(invitation.expiresAt).toLocaleDateString()}
+              {invitation.sentCount > 1 && (
+                <p className="text-xs text-slate-500">Sent {invitation.sentCount} times</p>
+              )}
+            </TableCell>
+            <TableCell className="text-right space-x-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={resendMutation.isPending}
+                onClick={() => resendMutation.mutate(invitation)}
+              >
+                <Send className="w-4 h-4 mr-1" />
+                Resend
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-600 hover:text-red-700"
+                disabled={revokeMutation.isPending}
+                onClick={() => {
+                  if (confirm(`Revoke the invitation for ${invitation.email}?`)) {
+                    revokeMutation.mutate(invitation);
+                  }
+                }}
+              >
+                <X className="w-4 h-4 mr-1" />
+                Revoke
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
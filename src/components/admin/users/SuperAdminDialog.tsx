@@ -23,6 +23,7 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { addSuperAdminByEmail, SuperAdmin, listSuperAdmins, removeSuperAdmin } from "./SuperAdminService";
+import { ConfirmPasswordDialog } from "./ConfirmPasswordDialog";
 import { Shield, UserPlus, Trash2 } from "lucide-react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -44,6 +45,9 @@ const SuperAdminDialog = ({ onSuperAdminAdded }: SuperAdminDialogProps) => {
   const [loading, setLoading] = useState(false);
   const [superAdmins, setSuperAdmins] = useState<SuperAdmin[]>([]);
   const [loadingAdmins, setLoadingAdmins] = useState(false);
+  // Changes wait here until the password is confirmed
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null);
+  const [pendingRemoval, setPendingRemoval] = useState<SuperAdmin | null>(null);
 
   // Initialize form
   const form = useForm<z.infer<typeof superAdminSchema>>({
@@ -87,10 +91,15 @@ const SuperAdminDialog = ({ onSuperAdminAdded }: SuperAdminDialogProps) => {
   };
 
   // Handle form submission
-  const handleAddSuperAdmin = async (values: z.infer<typeof superAdminSchema>) => {
+  const handleAddSuperAdmin = (values: z.infer<typeof superAdminSchema>) => {
+    setPendingEmail(values.email);
+  };
+
+  const confirmAddSuperAdmin = async (password: string) => {
+    if (!pendingEmail) return false;
     setLoading(true);
     try {
-      const result = await addSuperAdminByEmail(values.email);
+      const result = await addSuperAdminByEmail(pendingEmail, password);
 
       if (result.success) {
         toast({
@@ -112,13 +121,13 @@ const SuperAdminDialog = ({ onSuperAdminAdded }: SuperAdminDialogProps) => {
         setTimeout(() => {
           window.location.reload();
         }, 500);
-      } else {
-        toast({
-          variant: "destructive",
-          title: "Error adding super admin",
-          description: result.message,
-        });
+        return true;
       }
+      toast({
+        variant: "destructive",
+        title: "Error adding super admin",
+        description: result.message,
+      });
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -128,16 +137,15 @@ const SuperAdminDialog = ({ onSuperAdminAdded }: SuperAdminDialogProps) => {
     } finally {
       setLoading(false);
     }
+    return false;
   };
 
   // Handle removing a super admin
-  const handleRemoveSuperAdmin = async (userId: string) => {
-    if (!confirm("Are you sure you want to remove this super admin?")) {
-      return;
-    }
+  const confirmRemoveSuperAdmin = async (password: string) => {
+    if (!pendingRemoval) return false;
 
     try {
-      const result = await removeSuperAdmin(userId);
+      const result = await removeSuperAdmin(pendingRemoval.user_id, password);
 
       if (result.success) {
         toast({
@@ -155,13 +163,13 @@ const SuperAdminDialog = ({ onSuperAdminAdded }: SuperAdminDialogProps) => {
         setTimeout(() => {
           window.location.reload();
         }, 500);
-      } else {
-        toast({
-          variant: "destructive",
-          title: "Error removing super admin",
-          description: result.message,
-        });
+        return true;
       }
+      toast({
+        variant: "destructive",
+        title: "Error removing super admin",
+        description: result.message,
+      });
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -169,6 +177,7 @@ const SuperAdminDialog = ({ onSuperAdminAdded }: SuperAdminDialogProps) => {
         description: error.message,
       });
     }
+    return false;
   };
 
   return (
@@ -244,12 +253,14 @@ const SuperAdminDialog = ({ onSuperAdminAdded }: SuperAdminDialogProps) => {
                     <TableRow key={admin.user_id}>
                       <TableCell>{admin.full_name || 'N/A'}</TableCell>
                       <TableCell>{admin.email}</TableCell>
-                      <TableCell>{new Date(admin.created_at).toLocaleDateString()}</TableCell>
+                      <TableCell>{new Date(admin.createdAt).toLocaleDateString()}</TableCell>
                       <TableCell className="text-right">
                         <Button
                           variant="ghost"
                           size="icon"
-                          onClick={() => handleRemoveSuperAdmin(admin.user_id)}
+                          disabled={superAdmins.length <= 1}
+                          title={superAdmins.length <= 1 ? "The last super admin cannot be removed" : undefined}
+                          onClick={() => setPendingRemoval(admin)}
                         >
                           <Trash2 className="h-4 w-4 text-destructive" />
                         </Button>
@@ -267,6 +278,24 @@ const SuperAdminDialog = ({ onSuperAdminAdded }: SuperAdminDialogProps) => {
             Close
           </Button>
         </DialogFooter>
+
+        <ConfirmPasswordDialog
+          open={!!pendingEmail}
+          onOpenChange={(next) => !next && setPendingEmail(null)}
+          title="Add super admin"
+          description={`Enter your password to give ${pendingEmail} full system access.`}
+          confirmLabel="Add Super Admin"
+          onConfirm={confirmAddSuperAdmin}
+        />
+        <ConfirmPasswordDialog
+          open={!!pendingRemoval}
+          onOpenChange={(next) => !next && setPendingRemoval(null)}
+          title="Remove super admin"
+          description={`Enter your password to remove super admin rights from ${pendingRemoval?.email}. They will remain an admin.`}
+          confirmLabel="Remove"
+          destructive
+          onConfirm={confirmRemoveSuperAdmin}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -4,7 +4,7 @@ export interface SuperAdmin {
   user_id: string;
   email: string;
   full_name: string | null;
-  created_at: string;
+  createdAt: string;
 }
 
 export interface SuperAdminResult {
@@ -14,15 +14,23 @@ export interface SuperAdminResult {
   user_id?: string;
 }
 
+// An entry in the superadmin audit trail
+export interface SuperAdminChange {
+  _id: string;
+  action: 'superadmin.grant' | 'superadmin.revoke';
+  actorEmail?: string;
+  targetLabel?: string;
+  created_at: string;
+}
+
 /**
- * Add a super admin by email
- * NOTE: This functionality requires backend API endpoints to be implemented
+ * Add a super admin by email. The acting superadmin's password confirms the change.
  */
-export const addSuperAdminByEmail = async (email: string): Promise<SuperAdminResult> => {
+export const addSuperAdminByEmail = async (email: string, password: string): Promise<SuperAdminResult> => {
   try {
     console.log('Adding super admin by email:', email);
 
-    const response = await api.post('/admin/superadmin', { email });
+    const response = await api.post('/admin/superadmin', { email, password });
 
     return {
       success: true,
@@ -42,7 +50,6 @@ export const addSuperAdminByEmail = async (email: string): Promise<SuperAdminRes
 
 /**
  * List all super admins
- * NOTE: This functionality requires backend API endpoints to be implemented
  */
 export const listSuperAdmins = async (): Promise<{ superAdmins: SuperAdmin[], error: Error | null }> => {
   try {
@@ -58,14 +65,13 @@ export const listSuperAdmins = async (): Promise<{ superAdmins: SuperAdmin[], er
 };
 
 /**
- * Remove a super admin
- * NOTE: This functionality requires backend API endpoints to be implemented
+ * Remove a super admin; they stay on as an admin. The last super admin can't be removed.
  */
-export const removeSuperAdmin = async (userId: string): Promise<SuperAdminResult> => {
+export const removeSuperAdmin = async (userId: string, password: string): Promise<SuperAdminResult> => {
   try {
     console.log('Removing super admin for user:', userId);
 
-    await api.delete(`/admin/superadmin/${userId}`);
+    await api.delete(`/admin/superadmin/${userId}`, { data: { password } });
 
     return {
       success: true,
@@ -82,3 +88,11 @@ export const removeSuperAdmin = async (userId: string): Promise<SuperAdminResult
     };
   }
 };
+
+/**
+ * Recent super admin grants and removals, newest first
+ */
+export const listSuperAdminChanges = async (): Promise<SuperAdminChange[]> => {
+  const response = await api.get('/admin/superadmin/history');
+  return response.data;
+};
@@ -1,6 +1,6 @@
 
 import { AdminUser } from "./types";
-import { getAccessToken } from "@/utils/authApi";
+import api from "@/lib/api";
 
 /**
  * Fetch all users with their roles
@@ -8,20 +8,12 @@ import { getAccessToken } from "@/utils/authApi";
  */
 export const fetchUsers = async (): Promise<{ users: AdminUser[]; error: Error | null }> => {
   try {
-    console.log("Fetching users from backend /api/users...");
-    const token = getAccessToken();
-    const headers: HeadersInit = token ? { Authorization: `Bearer ${token}` } : {};
-    const res = await fetch('https://church-management-api-p709.onrender.com/api/users', { headers });
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(text || 'Failed to fetch users');
-    }
-    const json = await res.json();
-    const rawUsers: any[] = json?.data ?? [];
+    const response = await api.get('/auth/users');
+    const rawUsers: any[] = response.data ?? [];
     const users: AdminUser[] = rawUsers.map((u) => ({
       id: u._id,
       email: u.email,
-      fullName: u.fullName ?? null,
+      fullName: u.profile?.full_name ?? null,
       role: (u.role as AdminUser['role']) ?? 'user',
       isActive: u.isActive,
       isSuperUser: u.role === 'superadmin',
@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useAuth } from '@/contexts/AuthContext';
+import { useRole } from './RoleProvider';
 
 interface AccessDeniedProps {
   requiredPermission?: string;
@@ -24,13 +25,14 @@ export const AccessDenied: React.FC<AccessDeniedProps> = ({
   onRetry
 }) => {
   const navigate = useNavigate();
-  const { user, refresh } = useAuth();
+  const { user } = useAuth();
+  const { refreshRole } = useRole();
 
   const handleRetry = async () => {
     if (onRetry) {
       onRetry();
     } else {
-      await refresh();
+      await refreshRole();
     }
   };
 
@@ -0,0 +1,143 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { AuthSession } from "@/types/auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+
+// Enough of the user agent to tell devices apart, e.g. "Chrome on Windows"
+export const describeDevice = (userAgent = "") => {
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge"
+      : /OPR\/|Opera/.test(userAgent) ? "Opera"
+        : /Firefox\//.test(userAgent) ? "Firefox"
+          : /Chrome\//.test(userAgent) ? "Chrome"
+            : /Safari\//.test(userAgent) ? "Safari"
+              : "Unknown browser";
+  const os =
+    /Android/.test(userAgent) ? "Android"
+      : /iPhone|iPad|iPod/.test(userAgent) ? "iOS"
+        : /Windows/.test(userAgent) ? "Windows"
+          : /Mac OS X|Macintosh/.test(userAgent) ? "macOS"
+            : /Linux/.test(userAgent) ? "Linux"
+              : "unknown device";
+  return {
+    label: `${browser} on ${os}`,
+    mobile: /Mobi|Android|iPhone|iPad/.test(userAgent),
+  };
+};
+
+interface ActiveSessionsProps {
+  // Lists another user's sessions (superadmin only); defaults to the current user
+  userId?: string;
+}
+
+export function ActiveSessions({ userId }: ActiveSessionsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const basePath = userId ? `/auth/users/${userId}/sessions` : "/auth/sessions";
+
+  const { data: sessions, isLoading } = useQuery<AuthSession[]>({
+    queryKey: queryKeys.users.sessions(userId),
+    queryFn: async () => {
+      const response = await api.get(basePath);
+      return response.data;
+    },
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.response?.data?.message || "Failed to revoke session",
+      variant: "destructive"
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      await api.delete(`/auth/sessions/${sessionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.users.sessions(userId) });
+      toast({ title: "Session revoked" });
+    },
+    onError,
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: async () => {
+      await api.delete(basePath);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.users.sessions(userId) });
+      toast({ title: userId ? "User signed out everywhere" : "Other devices signed out" });
+    },
+    onError,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  const revocable = (sessions || []).filter((session) => !session.current);
+
+  return (
+    <div className="space-y-3">
+      {(sessions || []).length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-4">No active sessions.</p>
+      ) : (
+        <div className="divide-y">
+          {sessions?.map((session) => {
+            const device = describeDevice(session.userAgent);
+            const Icon = device.mobile ? Smartphone : Monitor;
+            return (
+              <div key={session._id} className="flex items-center gap-3 py-3">
+                <Icon className="w-5 h-5 text-slate-400 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium truncate">{device.label}</p>
+                    {session.current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    {session.ip || "Unknown IP"} • Last active {new Date(session.lastUsedAt).toLocaleString()}
+                  </p>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={revokeMutation.isPending}
+                    onClick={() => revokeMutation.mutate(session._id)}
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {(userId ? (sessions || []).length > 0 : revocable.length > 0) && (
+        <Button
+          variant="outline"
+          disabled={revokeAllMutation.isPending}
+          onClick={() => {
+            if (confirm(userId ? "Sign this user out on every device?" : "Sign out of every other device?")) {
+              revokeAllMutation.mutate();
+            }
+          }}
+        >
+          <LogOut className="w-4 h-4 mr-2" />
+          {userId ? "Sign out everywhere" : "Sign out other devices"}
+        </Button>
+      )}
+    </div>
+  );
+}
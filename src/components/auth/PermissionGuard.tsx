@@ -1,15 +1,22 @@
-import React, { useEffect, useState, useCallback } from 'react';
-import { checkPermission, reVerifyAdminPermissions, type PermissionCheckResult } from '@/utils/roleManagement';
+import React, { useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import type { AppRole } from '@/types/member';
 import AccessDenied from './AccessDenied';
+import { useRole } from './RoleProvider';
 import { PageLoader } from '@/components/ui/loading-spinner';
 
+export interface PermissionCheckResult {
+  hasPermission: boolean;
+  role?: AppRole;
+}
+
 interface PermissionGuardProps {
   children: React.ReactNode;
   requiredPermission: string;
-  requiredRole?: string;
+  requiredRole?: AppRole;
   fallbackComponent?: React.ReactNode;
   showAccessDenied?: boolean;
+  // Re-fetch permissions on mount instead of trusting the cached matrix
   reVerifyForAdmin?: boolean;
   onPermissionDenied?: (result: PermissionCheckResult) => void;
   onPermissionGranted?: (result: PermissionCheckResult) => void;
@@ -25,83 +32,38 @@ export const PermissionGuard: React.FC<PermissionGuardProps> = ({
   onPermissionDenied,
   onPermissionGranted
 }) => {
-  const { user, isLoading } = useAuth();
-  const [permissionState, setPermissionState] = useState<{
-    isChecking: boolean;
-    hasPermission: boolean;
-    result?: PermissionCheckResult;
-    error?: string;
-  }>({
-    isChecking: true,
-    hasPermission: false
-  });
+  const { isLoading } = useAuth();
+  const { roleData, isLoadingRole, hasPermission, hasRole, refreshRole } = useRole();
 
-  const checkUserPermission = useCallback(async () => {
-    if (!user) {
-      setPermissionState({
-        isChecking: false,
-        hasPermission: false,
-        error: 'No authenticated user'
-      });
-      return;
+  useEffect(() => {
+    if (reVerifyForAdmin) {
+      refreshRole();
     }
+  }, [reVerifyForAdmin, refreshRole]);
 
-    try {
-      setPermissionState(prev => ({ ...prev, isChecking: true }));
-
-      let result: PermissionCheckResult;
-
-      // Use re-verification for admin features if requested
-      if (reVerifyForAdmin && (requiredPermission.includes('admin') || requiredPermission.includes('manage'))) {
-        result = await reVerifyAdminPermissions(requiredPermission);
-      } else {
-        result = await checkPermission(requiredPermission);
-      }
-
-      setPermissionState({
-        isChecking: false,
-        hasPermission: result.hasPermission,
-        result
-      });
+  const isChecking = isLoading || isLoadingRole;
+  const granted = !!roleData
+    && hasPermission(requiredPermission)
+    && (!requiredRole || hasRole(requiredRole));
 
-      // Call appropriate callback
-      if (result.hasPermission && onPermissionGranted) {
-        onPermissionGranted(result);
-      } else if (!result.hasPermission && onPermissionDenied) {
-        onPermissionDenied(result);
-      }
-
-    } catch (error: any) {
-      setPermissionState({
-        isChecking: false,
-        hasPermission: false,
-        error: error.message
-      });
-
-      if (onPermissionDenied) {
-        onPermissionDenied({
-          hasPermission: false,
-          fallbackApplied: true,
-          error: error.message
-        });
-      }
-    }
-  }, [user, requiredPermission, reVerifyForAdmin, onPermissionGranted, onPermissionDenied]);
-
-  // Check permissions when user or permission requirements change
   useEffect(() => {
-    if (!isLoading) {
-      checkUserPermission();
+    if (isChecking) return;
+
+    const result = { hasPermission: granted, role: roleData?.role };
+    if (granted) {
+      onPermissionGranted?.(result);
+    } else {
+      onPermissionDenied?.(result);
     }
-  }, [isLoading, checkUserPermission]);
+  }, [isChecking, granted, roleData, onPermissionGranted, onPermissionDenied]);
 
   // Show loading state
-  if (isLoading || permissionState.isChecking) {
+  if (isChecking) {
     return <PageLoader />;
   }
 
   // Show access denied if no permission
-  if (!permissionState.hasPermission) {
+  if (!granted) {
     if (fallbackComponent) {
       return <>{fallbackComponent}</>;
     }
@@ -111,8 +73,7 @@ export const PermissionGuard: React.FC<PermissionGuardProps> = ({
         <AccessDenied
           requiredPermission={requiredPermission}
           requiredRole={requiredRole}
-          message={permissionState.error}
-          onRetry={checkUserPermission}
+          onRetry={refreshRole}
         />
       );
     }
@@ -124,4 +85,4 @@ export const PermissionGuard: React.FC<PermissionGuardProps> = ({
   return <>{children}</>;
 };
 
-export default PermissionGuard;
\ No newline at end of file
+export default PermissionGuard;
@@ -1,25 +1,24 @@
-import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
-import { verifyUserRole, updateUserRoleDynamic, type RoleVerificationResult } from '@/utils/roleManagement';
+import React, { createContext, useContext, useEffect, useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import api from '@/lib/api';
+import { queryKeys } from '@/lib/react-query-config';
 import { useAuth } from '@/contexts/AuthContext';
-import type { Database } from '@/integrations/supabase/types';
-
-type AppRole = Database["public"]["Enums"]["app_role"];
+import type { AppRole } from '@/types/member';
+import type { RoleData } from '@/types/auth';
 
 interface RoleContextType {
-  roleData: RoleVerificationResult | null;
+  roleData: RoleData | null;
   isLoadingRole: boolean;
   refreshRole: () => Promise<void>;
-  updateRole: (userId: string, newRole: AppRole) => Promise<{ success: boolean; error?: string }>;
   hasPermission: (permission: string) => boolean;
   hasAnyPermission: (permissions: string[]) => boolean;
-  hasRole: (role: AppRole | 'user') => boolean;
+  hasRole: (role: AppRole) => boolean;
 }
 
 const RoleContext = createContext<RoleContextType>({
   roleData: null,
   isLoadingRole: true,
   refreshRole: async () => {},
-  updateRole: async () => ({ success: false }),
   hasPermission: () => false,
   hasAnyPermission: () => false,
   hasRole: () => false,
@@ -37,102 +36,28 @@ interface RoleProviderProps {
   children: React.ReactNode;
 }
 
+// Permissions come from the server's role matrix, so the UI hides exactly
+// what the API would refuse
 export const RoleProvider: React.FC<RoleProviderProps> = ({ children }) => {
   const { user, isAuthenticated } = useAuth();
-  const [roleData, setRoleData] = useState<RoleVerificationResult | null>(null);
-  const [isLoadingRole, setIsLoadingRole] = useState(true);
-
-  // Logging utility for role provider events
-  const logRoleProviderEvent = (event: string, data?: any) => {
-    console.log(`[ROLE_PROVIDER] ${event}:`, {
-      timestamp: new Date().toISOString(),
-      userId: user?._id,
-      ...data
-    });
-  };
 
-  const refreshRole = useCallback(async () => {
-    if (!user || !isAuthenticated) {
-      setRoleData(null);
-      setIsLoadingRole(false);
-      return;
-    }
+  const { data, isLoading, refetch } = useQuery<RoleData>({
+    queryKey: queryKeys.users.roles(user?._id ?? 'anonymous'),
+    queryFn: async () => {
+      const response = await api.get('/auth/permissions');
+      return response.data;
+    },
+    enabled: isAuthenticated,
+    staleTime: 5 * 60 * 1000,
+  });
 
-    logRoleProviderEvent('ROLE_REFRESH_START');
-    setIsLoadingRole(true);
-
-    try {
-      const result = await verifyUserRole(user._id);
-      setRoleData(result);
-      
-      logRoleProviderEvent('ROLE_REFRESH_SUCCESS', {
-        role: result.role,
-        permissions: result.permissions.length,
-        fallbackApplied: result.fallbackApplied
-      });
-    } catch (error: any) {
-      logRoleProviderEvent('ROLE_REFRESH_ERROR', { error: error.message });
-      
-      // Set fallback role data
-      setRoleData({
-        isVerified: false,
-        role: 'user',
-        permissions: ['read_profile', 'update_own_profile'],
-        lastVerified: new Date(),
-        fallbackApplied: true,
-        error: error.message
-      });
-    } finally {
-      setIsLoadingRole(false);
-    }
-  }, [user, isAuthenticated]);
-
-  const updateRole = useCallback(async (userId: string, newRole: AppRole) => {
-    logRoleProviderEvent('ROLE_UPDATE_START', { targetUserId: userId, newRole });
-
-    try {
-      const result = await updateUserRoleDynamic(userId, newRole, (updatedRole, permissions) => {
-        // If updating current user's role, refresh local role data
-        if (userId === user?._id) {
-          setRoleData(prev => prev ? {
-            ...prev,
-            role: updatedRole,
-            permissions,
-            lastVerified: new Date(),
-            fallbackApplied: false
-          } : null);
-          
-          logRoleProviderEvent('CURRENT_USER_ROLE_UPDATED', { 
-            newRole: updatedRole, 
-            permissions: permissions.length 
-          });
-        }
-      });
-
-      if (result.success) {
-        logRoleProviderEvent('ROLE_UPDATE_SUCCESS', { targetUserId: userId, newRole });
-      } else {
-        logRoleProviderEvent('ROLE_UPDATE_FAILED', { 
-          targetUserId: userId, 
-          newRole, 
-          error: result.error 
-        });
-      }
-
-      return result;
-    } catch (error: any) {
-      logRoleProviderEvent('ROLE_UPDATE_ERROR', { 
-        targetUserId: userId, 
-        newRole, 
-        error: error.message 
-      });
-      
-      return {
-        success: false,
-        error: error.message
-      };
+  const roleData = isAuthenticated ? data ?? null : null;
+
+  const refreshRole = useCallback(async () => {
+    if (isAuthenticated) {
+      await refetch();
     }
-  }, [user]);
+  }, [isAuthenticated, refetch]);
 
   const hasPermission = useCallback((permission: string): boolean => {
     if (!roleData) return false;
@@ -144,35 +69,28 @@ export const RoleProvider: React.FC<RoleProviderProps> = ({ children }) => {
     return permissions.some(permission => roleData.permissions.includes(permission));
   }, [roleData]);
 
-  const hasRole = useCallback((role: AppRole | 'user'): boolean => {
+  const hasRole = useCallback((role: AppRole): boolean => {
     if (!roleData) return false;
     return roleData.role === role;
   }, [roleData]);
 
-  // Refresh role when user changes
-  useEffect(() => {
-    refreshRole();
-  }, [refreshRole]);
-
   // Listen for role changes from other parts of the app
   useEffect(() => {
-    const handleRoleChange = (event: CustomEvent) => {
-      logRoleProviderEvent('EXTERNAL_ROLE_CHANGE_EVENT', event.detail);
+    const handleRoleChange = () => {
       refreshRole();
     };
 
-    window.addEventListener('roleChanged', handleRoleChange as EventListener);
-    
+    window.addEventListener('roleChanged', handleRoleChange);
+
     return () => {
-      window.removeEventListener('roleChanged', handleRoleChange as EventListener);
+      window.removeEventListener('roleChanged', handleRoleChange);
     };
   }, [refreshRole]);
 
   const value: RoleContextType = {
     roleData,
-    isLoadingRole,
+    isLoadingRole: isAuthenticated && isLoading,
     refreshRole,
-    updateRole,
     hasPermission,
     hasAnyPermission,
     hasRole,
@@ -191,4 +109,4 @@ export const dispatchRoleChangeEvent = (data: any) => {
   window.dispatchEvent(event);
 };
 
-export default RoleProvider;
\ No newline at end of file
+export default RoleProvider;
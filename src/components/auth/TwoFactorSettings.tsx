@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { TwoFactorStatus } from "@/types/auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { OtpCodeInput, RecoveryCodes, TwoFactorSetup } from "./TwoFactorSetup";
+
+type DialogMode = "setup" | "recovery-codes" | "disable" | null;
+
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<DialogMode>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: queryKeys.users.twoFactor(),
+    queryFn: async () => {
+      const response = await api.get("/auth/2fa");
+      return response.data;
+    },
+  });
+
+  const close = () => {
+    setMode(null);
+    setCode("");
+    setPassword("");
+    setNewCodes(null);
+  };
+
+  const onError = (fallback: string) => (error: any) => {
+    setCode("");
+    toast({
+      title: "Error",
+      description: error.response?.data?.message || fallback,
+      variant: "destructive"
+    });
+  };
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post("/auth/2fa/recovery-codes", { code });
+      return response.data.recoveryCodes as string[];
+    },
+    onSuccess: (codes) => {
+      setNewCodes(codes);
+      queryClient.invalidateQueries({ queryKey: queryKeys.users.twoFactor() });
+    },
+    onError: onError("Failed to generate recovery codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await api.post("/auth/2fa/disable", { password, code });
+    },
+    onSuccess: () => {
+      toast({ title: "Two-factor authentication turned off" });
+      queryClient.invalidateQueries({ queryKey: queryKeys.users.twoFactor() });
+      close();
+    },
+    onError: onError("Failed to turn off two-factor authentication"),
+  });
+
+  if (isLoading || !status) {
+    return <Loader2 className="w-5 h-5 animate-spin text-slate-400" />;
+  }
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        {status.enabled ? (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2 text-sm text-green-700">
+              <ShieldCheck className="w-4 h-4" />
+              On
+            </div>
+            <p className={status.recoveryCodesRemaining <= 2 ? "text-xs text-amber-700" : "text-xs text-slate-500"}>
+              {status.recoveryCodesRemaining} recovery {status.recoveryCodesRemaining === 1 ? "code" : "codes"} left
+            </p>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 text-sm text-slate-500">
+            <ShieldOff className="w-4 h-4" />
+            Off
+          </div>
+        )}
+        <div className="flex gap-2">
+          {status.enabled ? (
+            <>
+              <Button variant="outline" onClick={() => setMode("recovery-codes")}>
+                New recovery codes
+              </Button>
+              {!status.required && (
+                <Button variant="outline" className="text-red-600" onClick={() => setMode("disable")}>
+                  Turn off
+                </Button>
+              )}
+            </>
+          ) : (
+            <Button onClick={() => setMode("setup")}>Set up</Button>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={mode !== null} onOpenChange={(open) => !open && close()}>
+        <DialogContent className="sm:max-w-[440px]">
+          {mode === "setup" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Set up two-factor authentication</DialogTitle>
+                <DialogDescription>You'll be asked for a code from your phone each time you log in.</DialogDescription>
+              </DialogHeader>
+              <TwoFactorSetup
+                onComplete={() => {
+                  toast({ title: "Two-factor authentication is on" });
+                  queryClient.invalidateQueries({ queryKey: queryKeys.users.twoFactor() });
+                  close();
+                }}
+              />
+            </>
+          )}
+
+          {mode === "recovery-codes" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>New recovery codes</DialogTitle>
+                <DialogDescription>Your current recovery codes will stop working.</DialogDescription>
+              </DialogHeader>
+              {newCodes ? (
+                <>
+                  <RecoveryCodes codes={newCodes} />
+                  <DialogFooter>
+                    <Button onClick={close}>Done</Button>
+                  </DialogFooter>
+                </>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Code from your authenticator app</label>
+                    <OtpCodeInput value={code} onChange={setCode} disabled={regenerateMutation.isPending} />
+                  </div>
+                  <DialogFooter>
+                    <Button
+                      disabled={code.length !== 6 || regenerateMutation.isPending}
+                      onClick={() => regenerateMutation.mutate()}
+                    >
+                      Generate codes
+                    </Button>
+                  </DialogFooter>
+                </>
+              )}
+            </>
+          )}
+
+          {mode === "disable" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Turn off two-factor authentication</DialogTitle>
+                <DialogDescription>Your account will be protected by your password alone.</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Password</label>
+                  <Input type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Code from your authenticator app</label>
+                  <OtpCodeInput value={code} onChange={setCode} disabled={disableMutation.isPending} />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={close}>Cancel</Button>
+                <Button
+                  variant="destructive"
+                  disabled={!password || code.length !== 6 || disableMutation.isPending}
+                  onClick={() => disableMutation.mutate()}
+                >
+                  Turn off
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState } from "react";
+import { Copy, Download, Loader2 } from "lucide-react";
+import api from "@/lib/api";
+import { TwoFactorEnableResponse, TwoFactorSetupData } from "@/types/auth";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/components/ui/use-toast";
+
+export function OtpCodeInput({ value, onChange, disabled }: {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled} autoFocus inputMode="numeric" pattern="^[0-9]*$">
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// Recovery codes are only ever shown once, straight after they are generated
+export function RecoveryCodes({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+  const text = codes.join("\n");
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: "Recovery codes copied" });
+  };
+
+  const download = () => {
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(new Blob([text + "\n"], { type: "text/plain" }));
+    link.download = "recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-slate-600">
+        Keep these somewhere safe. Each code signs you in once if you lose your phone, and they won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg bg-slate-100 p-4 font-mono text-sm">
+        {codes.map((code) => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={copy}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={download}>
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface TwoFactorSetupProps {
+  // Enrolling half way through login rather than from settings
+  challengeToken?: string;
+  onComplete: (result: TwoFactorEnableResponse) => void;
+}
+
+export function TwoFactorSetup({ challengeToken, onComplete }: TwoFactorSetupProps) {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetupData | null>(null);
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<TwoFactorEnableResponse | null>(null);
+  // StrictMode mounts twice; a second request would replace the secret being shown
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (requested.current) return;
+    requested.current = true;
+    api.post("/auth/2fa/setup", { challengeToken })
+      .then((response) => setSetup(response.data))
+      .catch((error) => {
+        toast({
+          title: "Error",
+          description: error.response?.data?.message || "Failed to start two-factor setup",
+          variant: "destructive"
+        });
+      });
+  }, [challengeToken, toast]);
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const response = await api.post("/auth/2fa/enable", { challengeToken, code });
+      setResult(response.data);
+    } catch (error: any) {
+      setCode("");
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to turn on two-factor authentication",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodes codes={result.recoveryCodes} />
+        <Button className="w-full" onClick={() => onComplete(result)}>
+          I've saved my recovery codes
+        </Button>
+      </div>
+    );
+  }
+
+  if (!setup) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleEnable} className="space-y-4">
+      <p className="text-sm text-slate-600">
+        Scan this QR code with an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password.
+      </p>
+      <img src={setup.qrCode} alt="Two-factor QR code" className="mx-auto h-48 w-48" />
+      <p className="text-xs text-center text-slate-500">
+        Can't scan it? Enter this key instead:
+        <code className="block mt-1 font-mono text-sm text-slate-700 break-all">{setup.secret}</code>
+      </p>
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Enter the 6-digit code from the app</label>
+        <div className="flex justify-center">
+          <OtpCodeInput value={code} onChange={setCode} disabled={isSubmitting} />
+        </div>
+      </div>
+      <Button className="w-full" type="submit" disabled={isSubmitting || code.length !== 6}>
+        {isSubmitting ? "Checking..." : "Turn on two-factor authentication"}
+      </Button>
+    </form>
+  );
+}
@@ -1,12 +1,10 @@
 import React, { ComponentType } from 'react';
 import PermissionGuard from './PermissionGuard';
-import type { Database } from '@/integrations/supabase/types';
-
-type AppRole = Database["public"]["Enums"]["app_role"];
+import type { AppRole } from '@/types/member';
 
 interface RoleProtectionOptions {
   requiredPermission?: string;
-  requiredRole?: AppRole | 'user';
+  requiredRole?: AppRole;
   fallbackComponent?: React.ComponentType;
   showAccessDenied?: boolean;
   reVerifyForAdmin?: boolean;
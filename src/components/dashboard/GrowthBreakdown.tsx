@@ -0,0 +1,58 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Progress } from "@/components/ui/progress";
+import { GrowthBreakdownItem, MemberGrowthReport } from "@/types/analytics";
+
+interface GrowthBreakdownProps {
+    breakdowns?: MemberGrowthReport["breakdowns"];
+}
+
+function BreakdownList({ items }: { items: GrowthBreakdownItem[] }) {
+    const max = Math.max(...items.map(item => item.count), 1);
+
+    if (!items.length) {
+        return <p className="text-sm text-muted-foreground text-center py-4">No new members in this period.</p>;
+    }
+
+    return (
+        <div className="space-y-3">
+            {items.map((item) => (
+                <div key={item.key ?? item.label} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                        <span className="font-medium">{item.label}</span>
+                        <span className="text-muted-foreground tabular-nums">{item.count}</span>
+                    </div>
+                    <Progress value={(item.count / max) * 100} className="h-2" />
+                </div>
+            ))}
+        </div>
+    );
+}
+
+export function GrowthBreakdown({ breakdowns }: GrowthBreakdownProps) {
+    return (
+        <Card className="w-full border-none shadow-lg hover:shadow-xl transition-shadow duration-300 rounded-2xl bg-white/80 backdrop-blur-sm">
+            <CardHeader>
+                <CardTitle className="text-lg font-bold font-serif">New Members By</CardTitle>
+            </CardHeader>
+            <CardContent>
+                <Tabs defaultValue="category">
+                    <TabsList className="mb-4">
+                        <TabsTrigger value="category">Category</TabsTrigger>
+                        <TabsTrigger value="unit">Unit</TabsTrigger>
+                        <TabsTrigger value="auxanoCenter">Auxano Center</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="category">
+                        <BreakdownList items={breakdowns?.category || []} />
+                    </TabsContent>
+                    <TabsContent value="unit">
+                        <BreakdownList items={breakdowns?.unit || []} />
+                    </TabsContent>
+                    <TabsContent value="auxanoCenter">
+                        <BreakdownList items={breakdowns?.auxanoCenter || []} />
+                    </TabsContent>
+                </Tabs>
+            </CardContent>
+        </Card>
+    );
+}
@@ -1,39 +1,22 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Area, AreaChart, ResponsiveContainer, Tooltip, XAxis, YAxis, CartesianGrid } from "recharts";
-import { Member } from "@/types/member";
+import { GrowthPoint } from "@/types/analytics";
 
 interface GrowthChartProps {
-    members: Member[];
+    series: GrowthPoint[];
+    actions?: React.ReactNode;
 }
 
-export function GrowthChart({ members }: GrowthChartProps) {
-    // Process data to get members joining per month
-    const processData = () => {
-        if (!members.length) return [];
-
-        // This is a naive implementation. In a real app, you'd aggregate by month properly.
-        // For now, let's mock some trend data based on the count to look good.
-        const data = [
-            { name: "Jan", total: Math.floor(members.length * 0.2) },
-            { name: "Feb", total: Math.floor(members.length * 0.3) },
-            { name: "Mar", total: Math.floor(members.length * 0.45) },
-            { name: "Apr", total: Math.floor(members.length * 0.6) },
-            { name: "May", total: Math.floor(members.length * 0.75) },
-            { name: "Jun", total: members.length },
-        ];
-        return data;
-    };
-
-    const data = processData();
-
+export function GrowthChart({ series, actions }: GrowthChartProps) {
     return (
         <Card className="col-span-4 border-none shadow-lg hover:shadow-xl transition-shadow duration-300 rounded-2xl h-[350px] bg-white/80 backdrop-blur-sm flex flex-col">
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
                 <CardTitle className="text-lg font-bold font-serif">Member Growth</CardTitle>
+                {actions}
             </CardHeader>
             <CardContent className="pl-2 flex-1 min-h-0 pb-4">
                 <ResponsiveContainer width="100%" height="100%">
-                    <AreaChart data={data}>
+                    <AreaChart data={series}>
                         <defs>
                             <linearGradient id="colorTotal" x1="0" y1="0" x2="0" y2="1">
                                 <stop offset="5%" stopColor="#8884d8" stopOpacity={0.8} />
@@ -41,7 +24,7 @@ export function GrowthChart({ members }: GrowthChartProps) {
                             </linearGradient>
                         </defs>
                         <XAxis
-                            dataKey="name"
+                            dataKey="label"
                             stroke="#888888"
                             fontSize={12}
                             tickLine={false}
@@ -61,10 +44,25 @@ export function GrowthChart({ members }: GrowthChartProps) {
                         <Area
                             type="monotone"
                             dataKey="total"
+                            name="Active members"
                             stroke="#8884d8"
                             fillOpacity={1}
                             fill="url(#colorTotal)"
                         />
+                        <Area
+                            type="monotone"
+                            dataKey="joined"
+                            name="Joined"
+                            stroke="#22c55e"
+                            fill="none"
+                        />
+                        <Area
+                            type="monotone"
+                            dataKey="churned"
+                            name="Went inactive"
+                            stroke="#ef4444"
+                            fill="none"
+                        />
                     </AreaChart>
                 </ResponsiveContainer>
             </CardContent>
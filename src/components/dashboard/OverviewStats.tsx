@@ -1,30 +1,41 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Users, UserCheck, ShieldCheck, Music, ArrowUpRight } from "lucide-react";
-import { Member } from "@/types/member";
+import { Users, UserCheck, ShieldCheck, Music, ArrowUpRight, ArrowDownRight } from "lucide-react";
+import { MemberGrowthReport } from "@/types/analytics";
 
 interface OverviewStatsProps {
-    members: Member[];
+    summary?: MemberGrowthReport["summary"];
+    rangeLabel: string;
     pastorsCount?: number;
     messagesCount?: number;
 }
 
-export function OverviewStats({ members, pastorsCount, messagesCount }: OverviewStatsProps) {
+const trendOf = (value: number | null | undefined) =>
+    value === null || value === undefined || value === 0 ? "neutral" : value > 0 ? "up" : "down";
+
+const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+export function OverviewStats({ summary, rangeLabel, pastorsCount, messagesCount }: OverviewStatsProps) {
+    const net = summary?.net ?? 0;
+    const joinedChange = summary?.joinedChange ?? null;
+
     const stats = [
         {
             title: "Total Members",
-            value: members.length,
+            value: summary?.members ?? 0,
             icon: Users,
-            change: "+12% from last month",
-            trend: "up",
+            change: `${signed(net)} net ${rangeLabel}`,
+            trend: trendOf(net),
             color: "text-blue-500",
             bg: "bg-blue-50 dark:bg-blue-950/20",
         },
         {
             title: "Active Members",
-            value: members.filter(m => m.isactive).length,
+            value: summary?.active ?? 0,
             icon: UserCheck,
-            change: "+4% from last month",
-            trend: "up",
+            change: joinedChange === null
+                ? `${summary?.joined ?? 0} joined, ${summary?.churned ?? 0} went inactive`
+                : `${signed(joinedChange)}% new members vs previous period`,
+            trend: trendOf(joinedChange),
             color: "text-green-500",
             bg: "bg-green-50 dark:bg-green-950/20",
         },
@@ -64,7 +75,8 @@ export function OverviewStats({ members, pastorsCount, messagesCount }: Overview
                         <div className="text-2xl font-bold">{stat.value}</div>
                         <div className="flex items-center text-xs text-muted-foreground mt-1">
                             {stat.trend === "up" && <ArrowUpRight className="w-3 h-3 mr-1 text-green-500" />}
-                            <span className={stat.trend === "up" ? "text-green-500" : ""}>{stat.change}</span>
+                            {stat.trend === "down" && <ArrowDownRight className="w-3 h-3 mr-1 text-red-500" />}
+                            <span className={stat.trend === "up" ? "text-green-500" : stat.trend === "down" ? "text-red-500" : ""}>{stat.change}</span>
                         </div>
                     </CardContent>
                 </Card>
@@ -1,27 +1,61 @@
 import { useQuery } from "@tanstack/react-query";
 import api from "@/lib/api";
-import { Member } from "@/types/member";
+import { MemberListResponse } from "@/types/member";
+import { AttendanceSessionSummary } from "@/types/attendance";
+import { PipelineMetrics as PipelineMetricsReport } from "@/types/pipeline";
+import { queryKeys } from "@/lib/react-query-config";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useAuth } from "@/contexts/AuthContext";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { PipelineMetrics } from "./PipelineMetrics";
 
 export function PastorDashboard() {
     const { user } = useAuth();
 
-    const { data: members, isLoading } = useQuery<Member[]>({
+    const { data, isLoading } = useQuery<MemberListResponse>({
         queryKey: ["members", "pastor", user?._id],
         queryFn: async () => {
             const response = await api.get("/members", {
                 // The backend now handles this automatically based on role, 
                 // but passing pastorId explicitly is also supported/good for clarity
-                params: { pastorId: user?._id, auxanoCenter: user?.assignedAuxanoCenter }
+                params: { pastorId: user?._id, auxanoCenter: user?.assignedAuxanoCenter, pageSize: 100 }
             });
             return response.data;
         },
         enabled: !!user,
     });
 
+    const members = data?.members;
+
+    // The server scopes attendance to the pastor's assigned Auxano Center
+    const { data: sessions } = useQuery<AttendanceSessionSummary[]>({
+        queryKey: queryKeys.attendance.summary({ auxanoCenter: user?.assignedAuxanoCenter }),
+        queryFn: async () => {
+            const response = await api.get("/attendance/summary", {
+                params: { auxanoCenter: user?.assignedAuxanoCenter }
+            });
+            return response.data;
+        },
+        enabled: !!user?.assignedAuxanoCenter,
+    });
+
+    // The server limits the metrics to the pastor's Auxano Center
+    const { data: pipeline } = useQuery<PipelineMetricsReport>({
+        queryKey: queryKeys.analytics.pipeline({ auxanoCenter: user?.assignedAuxanoCenter }),
+        queryFn: async () => {
+            const response = await api.get("/analytics/pipeline");
+            return response.data;
+        },
+        enabled: !!user,
+    });
+
+    const lastSession = sessions?.[0];
+    const recentSessions = sessions?.slice(0, 8) || [];
+    const averageAttendance = recentSessions.length
+        ? Math.round(recentSessions.reduce((sum, session) => sum + session.present, 0) / recentSessions.length)
+        : 0;
+
     if (isLoading) {
         return <div>Loading your dashboard...</div>;
     }
@@ -36,12 +70,68 @@ export function PastorDashboard() {
                         <CardTitle>My Members</CardTitle>
                     </CardHeader>
                     <CardContent>
-                        <div className="text-3xl font-bold">{members?.length || 0}</div>
+                        <div className="text-3xl font-bold">{data?.total || 0}</div>
+                    </CardContent>
+                </Card>
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Last Meeting</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="text-3xl font-bold">{lastSession?.present || 0}</div>
+                        <p className="text-xs text-muted-foreground mt-1">
+                            {lastSession
+                                ? `${new Date(lastSession.serviceDate).toLocaleDateString()} · ${lastSession.firstTimeVisitors} first-time visitor${lastSession.firstTimeVisitors === 1 ? "" : "s"}`
+                                : "No attendance recorded yet"}
+                        </p>
+                    </CardContent>
+                </Card>
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Average Attendance</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="text-3xl font-bold">{averageAttendance}</div>
+                        <p className="text-xs text-muted-foreground mt-1">Across the last {recentSessions.length} meetings</p>
                     </CardContent>
                 </Card>
-                {/* Add more stats if needed */}
             </div>
 
+            <Card>
+                <CardHeader>
+                    <CardTitle>Recent Attendance</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Date</TableHead>
+                                <TableHead>Gathering</TableHead>
+                                <TableHead>Present</TableHead>
+                                <TableHead>First-time Visitors</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {recentSessions.map((session) => (
+                                <TableRow key={`${session.serviceDate}-${session.serviceType}-${session.serviceName}`}>
+                                    <TableCell>{new Date(session.serviceDate).toLocaleDateString()}</TableCell>
+                                    <TableCell>{session.serviceName || "Auxano Meeting"}</TableCell>
+                                    <TableCell>{session.present}</TableCell>
+                                    <TableCell>{session.firstTimeVisitors}</TableCell>
+                                </TableRow>
+                            ))}
+                            {recentSessions.length === 0 && (
+                                <TableRow>
+                                    <TableCell colSpan={4} className="text-center">No attendance recorded yet.</TableCell>
+                                </TableRow>
+                            )}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+
+            <PipelineMetrics metrics={pipeline} rangeLabel="last 6 months" />
+
             <Card>
                 <CardHeader>
                     <CardTitle>Members in Your Auxano Center</CardTitle>
@@ -0,0 +1,61 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PipelineMetrics as PipelineMetricsReport } from "@/types/pipeline";
+
+interface PipelineMetricsProps {
+    metrics?: PipelineMetricsReport;
+    rangeLabel: string;
+}
+
+const formatDays = (days: number | null) => (days == null ? "-" : `${days}d`);
+
+export function PipelineMetrics({ metrics, rangeLabel }: PipelineMetricsProps) {
+    const stages = metrics?.stages || [];
+
+    return (
+        <Card className="w-full border-none shadow-lg hover:shadow-xl transition-shadow duration-300 rounded-2xl bg-white/80 backdrop-blur-sm">
+            <CardHeader>
+                <CardTitle className="text-lg font-bold font-serif">Member Pipeline</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                    Time in each stage now, and before moving on in the {rangeLabel}.
+                </p>
+            </CardHeader>
+            <CardContent>
+                {!stages.length ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">No pipeline stages set up yet.</p>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Stage</TableHead>
+                                <TableHead className="text-right">Members</TableHead>
+                                <TableHead className="text-right">Avg. Time In Stage</TableHead>
+                                <TableHead className="text-right">Over Target</TableHead>
+                                <TableHead className="text-right">Moved On</TableHead>
+                                <TableHead className="text-right">Avg. Time Before Moving On</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {stages.map((row) => (
+                                <TableRow key={row.stage._id}>
+                                    <TableCell className="font-medium">{row.stage.name}</TableCell>
+                                    <TableCell className="text-right tabular-nums">{row.current}</TableCell>
+                                    <TableCell className="text-right tabular-nums">{formatDays(row.averageDaysInStage)}</TableCell>
+                                    <TableCell className="text-right tabular-nums">
+                                        {row.stage.targetDays ? (
+                                            <span className={row.stalled ? "text-red-600 font-medium" : undefined}>{row.stalled}</span>
+                                        ) : "-"}
+                                    </TableCell>
+                                    <TableCell className="text-right tabular-nums">{row.movedOn}</TableCell>
+                                    <TableCell className="text-right tabular-nums">
+                                        {formatDays(row.averageDaysBeforeMovingOn)}
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
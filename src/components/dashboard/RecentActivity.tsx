@@ -7,9 +7,10 @@ interface RecentActivityProps {
 }
 
 export function RecentActivity({ members }: RecentActivityProps) {
-    // Sort by join date descending
+    // Newest joiners first; fall back to created_at when joindate is missing
+    const joinedOn = (member: Member) => member.joindate || member.created_at;
     const recentMembers = [...members]
-        .sort((a, b) => new Date(b.joindate).getTime() - new Date(a.joindate).getTime())
+        .sort((a, b) => new Date(joinedOn(b)).getTime() - new Date(joinedOn(a)).getTime())
         .slice(0, 5);
 
     return (
@@ -20,7 +21,7 @@ export function RecentActivity({ members }: RecentActivityProps) {
             <CardContent>
                 <div className="space-y-8">
                     {recentMembers.map((member) => (
-                        <div key={member.id} className="flex items-center">
+                        <div key={member._id || member.id} className="flex items-center">
                             <Avatar className="h-9 w-9">
                                 <AvatarFallback>{member.fullname.slice(0, 2).toUpperCase()}</AvatarFallback>
                             </Avatar>
@@ -29,7 +30,7 @@ export function RecentActivity({ members }: RecentActivityProps) {
                                 <p className="text-sm text-muted-foreground">{member.email}</p>
                             </div>
                             <div className="ml-auto font-medium text-xs text-muted-foreground">
-                                {new Date(member.joindate).toLocaleDateString()}
+                                {new Date(joinedOn(member)).toLocaleDateString()}
                             </div>
                         </div>
                     ))}
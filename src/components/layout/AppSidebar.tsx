@@ -7,7 +7,9 @@ import {
     LogOut,
     UserPlus,
     FileText,
-    Church
+    Church,
+    ClipboardCheck,
+    History
 } from "lucide-react";
 import { Link, useLocation } from "react-router-dom";
 import {
@@ -24,47 +26,68 @@ import {
     SidebarRail,
 } from "@/components/ui/sidebar";
 import { useAuth } from "@/contexts/AuthContext";
+import { useRole } from "@/components/auth/RoleProvider";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 
 const items = [
     {
         title: "Dashboard",
         url: "/",
+        permission: "view_admin_dashboard",
         icon: LayoutDashboard,
     },
     {
         title: "Members",
         url: "/members",
+        permission: "view_members",
         icon: Users,
     },
+    {
+        title: "Check-In",
+        url: "/check-in",
+        permission: "record_attendance",
+        icon: ClipboardCheck,
+    },
     {
         title: "Donations",
         url: "/donations",
+        permission: "manage_donations",
         icon: CreditCard,
     },
     {
         title: "Events",
         url: "/events",
+        permission: "view_events",
         icon: Calendar,
     },
     {
         title: "Messages",
         url: "/messages",
+        permission: "view_messages",
         icon: FileText,
     },
     {
         title: "Users",
         url: "/users",
+        permission: "manage_users",
         icon: UserPlus,
     },
+    {
+        title: "Audit Log",
+        url: "/audit-log",
+        permission: "view_audit_log",
+        icon: History,
+    },
     {
         title: "Auxano Centers",
         url: "/auxano-centers",
+        permission: "view_centers",
         icon: Users,
     },
     {
         title: "Settings",
         url: "/settings",
+        permission: "update_own_profile",
         icon: Settings,
     },
 ];
@@ -72,6 +95,7 @@ const items = [
 export function AppSidebar() {
     const { pathname } = useLocation();
     const { logout, user } = useAuth();
+    const { hasPermission } = useRole();
 
     return (
         <Sidebar collapsible="icon" className="border-r-0">
@@ -92,7 +116,7 @@ export function AppSidebar() {
                     </SidebarGroupLabel>
                     <SidebarGroupContent className="pt-2">
                         <SidebarMenu className="gap-2">
-                            {items.map((item) => (
+                            {items.filter((item) => hasPermission(item.permission)).map((item) => (
                                 <SidebarMenuItem key={item.title}>
                                     <SidebarMenuButton
                                         asChild
@@ -108,19 +132,19 @@ export function AppSidebar() {
                                     </SidebarMenuButton>
                                 </SidebarMenuItem>
                             ))}
-                            {user?.role === 'superadmin' && (
+                            {hasPermission('manage_users') && (
                                 <>
                                     <SidebarMenuItem>
                                         <SidebarMenuButton
                                             asChild
                                             isActive={pathname === "/create-user"}
-                                            tooltip="Create User"
+                                            tooltip="Invite User"
                                             size="lg"
                                             className="rounded-xl text-base font-medium transition-all duration-200 hover:translate-x-1"
                                         >
                                             <Link to="/create-user">
                                                 <UserPlus className="!size-5" />
-                                                <span>Create User</span>
+                                                <span>Invite User</span>
                                             </Link>
                                         </SidebarMenuButton>
                                     </SidebarMenuItem>
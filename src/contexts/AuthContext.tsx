@@ -1,12 +1,16 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import api from '@/lib/api';
+import api, { AUTH_LOGOUT_EVENT, clearTokens, storeTokens } from '@/lib/api';
 import { User } from '@/types/member';
+import { AuthResponse, TwoFactorChallenge } from '@/types/auth';
 
 interface AuthContextType {
     user: User | null;
     isLoading: boolean;
     register: (email: string, password: string, full_name: string) => Promise<void>;
-    login: (email: string, password: string) => Promise<void>;
+    // Resolves with a challenge when the account needs a second factor
+    login: (email: string, password: string) => Promise<TwoFactorChallenge | null>;
+    verifyTwoFactor: (challengeToken: string, factor: { code?: string; recoveryCode?: string }) => Promise<AuthResponse>;
+    completeLogin: (data: AuthResponse) => void;
     logout: () => void;
     isAuthenticated: boolean;
 }
@@ -23,7 +27,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             setUser(response.data);
         } catch (error) {
             console.error('Failed to fetch profile:', error);
-            localStorage.removeItem('token');
+            clearTokens();
             setUser(null);
         } finally {
             setIsLoading(false);
@@ -39,13 +43,28 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }
     }, [fetchProfile]);
 
+    // The api client gives up when a session can't be refreshed
+    useEffect(() => {
+        const handleLogout = () => setUser(null);
+        window.addEventListener(AUTH_LOGOUT_EVENT, handleLogout);
+        return () => window.removeEventListener(AUTH_LOGOUT_EVENT, handleLogout);
+    }, []);
+
+    const completeLogin = useCallback((data: AuthResponse) => {
+        storeTokens(data.token, data.refreshToken);
+        setUser(data.user);
+    }, []);
+
     const login = async (email: string, password: string) => {
         setIsLoading(true);
         try {
             const response = await api.post('/auth/login', { email, password });
-            const { token, user: userData } = response.data;
-            localStorage.setItem('token', token);
-            setUser(userData);
+            const { twoFactorRequired, twoFactorSetupRequired, challengeToken } = response.data;
+            if (twoFactorRequired || twoFactorSetupRequired) {
+                return { step: twoFactorRequired ? 'verify' : 'setup', challengeToken } as TwoFactorChallenge;
+            }
+            completeLogin(response.data);
+            return null;
         } catch (error) {
             console.error('Login failed:', error);
             throw error;
@@ -54,12 +73,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }
     };
 
+    const verifyTwoFactor = async (challengeToken: string, factor: { code?: string; recoveryCode?: string }) => {
+        const response = await api.post('/auth/2fa/verify', { challengeToken, ...factor });
+        completeLogin(response.data);
+        return response.data as AuthResponse;
+    };
+
     const register = async (email: string, password: string, full_name: string) => {
         setIsLoading(true);
         try {
             const response = await api.post('/auth/register', { email, password, full_name });
-            const { token, user: userData } = response.data;
-            localStorage.setItem('token', token);
+            const { token, refreshToken, user: userData } = response.data;
+            storeTokens(token, refreshToken);
             setUser(userData);
         } catch (error) {
             console.error('Registration failed:', error);
@@ -70,7 +95,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
 
     const logout = () => {
-        localStorage.removeItem('token');
+        const refreshToken = localStorage.getItem('refreshToken');
+        if (refreshToken) {
+            // Ends the session server-side; the user is signed out locally either way
+            api.post('/auth/logout', { refreshToken }).catch((error) => {
+                console.error('Logout failed:', error);
+            });
+        }
+        clearTokens();
         setUser(null);
     };
 
@@ -78,6 +110,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         user,
         isLoading,
         login,
+        verifyTwoFactor,
+        completeLogin,
         register,
         logout,
         isAuthenticated: !!user,
@@ -1,9 +1,24 @@
-import axios from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 
 const api = axios.create({
     baseURL: 'http://localhost:5000/api', // Adjust if backend runs on different port
 });
 
+// Fired when the session can no longer be refreshed; AuthContext signs the user out
+export const AUTH_LOGOUT_EVENT = 'auth:logout';
+
+export const storeTokens = (token: string, refreshToken?: string) => {
+    localStorage.setItem('token', token);
+    if (refreshToken) {
+        localStorage.setItem('refreshToken', refreshToken);
+    }
+};
+
+export const clearTokens = () => {
+    localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
+};
+
 // Add a request interceptor to include the token in headers
 api.interceptors.request.use(
     (config) => {
@@ -18,4 +33,63 @@ api.interceptors.request.use(
     }
 );
 
+// Requests that fail while a refresh is in flight wait for the same one
+let refreshing: Promise<string> | null = null;
+
+const refreshAccessToken = (): Promise<string> => {
+    if (!refreshing) {
+        const refreshToken = localStorage.getItem('refreshToken');
+        refreshing = axios
+            .post(`${api.defaults.baseURL}/auth/refresh`, { refreshToken })
+            .then((response) => {
+                storeTokens(response.data.token, response.data.refreshToken);
+                return response.data.token as string;
+            })
+            .catch((error) => {
+                // Another tab may have rotated the token first; use what it stored
+                const stored = localStorage.getItem('refreshToken');
+                if (stored && stored !== refreshToken) {
+                    return localStorage.getItem('token') as string;
+                }
+                throw error;
+            })
+            .finally(() => {
+                refreshing = null;
+            });
+    }
+    return refreshing;
+};
+
+type RetriableRequest = InternalAxiosRequestConfig & { _retried?: boolean };
+
+// Access tokens are short-lived: on a 401, refresh once and replay the request
+api.interceptors.response.use(
+    (response) => response,
+    async (error: AxiosError) => {
+        const request = error.config as RetriableRequest | undefined;
+        const isAuthCall = /\/auth\/(login|refresh|logout)$/.test(request?.url || '');
+
+        if (
+            error.response?.status !== 401
+            || !request
+            || request._retried
+            || isAuthCall
+            || !localStorage.getItem('refreshToken')
+        ) {
+            return Promise.reject(error);
+        }
+
+        request._retried = true;
+        try {
+            const token = await refreshAccessToken();
+            request.headers.Authorization = `Bearer ${token}`;
+            return api(request);
+        } catch (refreshError) {
+            clearTokens();
+            window.dispatchEvent(new Event(AUTH_LOGOUT_EVENT));
+            return Promise.reject(error);
+        }
+    }
+);
+
 export default api;
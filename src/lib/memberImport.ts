@@ -0,0 +1,149 @@
+import * as XLSX from "xlsx";
+import { memberSchema } from "@/types/member";
+import {
+  CHURCH_UNIT_ID_TO_NAME,
+  CHURCH_UNIT_NAMES,
+  LEGACY_TO_OFFICIAL_MAPPING,
+  normalizeChurchUnits,
+} from "@/constants/churchUnits";
+
+export type ImportField = "fullname" | "email" | "phone" | "category" | "churchunits" | "assignedto" | "joindate";
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: "fullname", label: "Full Name", required: true, aliases: ["name", "full name", "fullname", "member name"] },
+  { field: "email", label: "Email", required: true, aliases: ["email", "email address", "e-mail"] },
+  { field: "phone", label: "Phone", aliases: ["phone", "phone number", "mobile", "telephone", "whatsapp"] },
+  { field: "category", label: "Category", aliases: ["category", "member type", "type"] },
+  { field: "churchunits", label: "Church Units", aliases: ["church unit", "church units", "unit", "units", "department"] },
+  { field: "assignedto", label: "Assigned Pastor", aliases: ["assigned to", "assignedto", "pastor", "assigned pastor"] },
+  { field: "joindate", label: "Join Date", aliases: ["join date", "joindate", "date joined", "joined"] },
+];
+
+export const MEMBER_CATEGORIES = memberSchema.shape.category.options;
+
+// Spreadsheet column picked for each member field
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface SpreadsheetData {
+  headers: string[];
+  records: Record<string, unknown>[];
+}
+
+/**
+ * A row ready for POST /api/members/import, or the reasons it isn't
+ */
+export interface PreparedRow {
+  // Spreadsheet row number, counting the header as row 1
+  row: number;
+  data?: Record<string, unknown>;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Reads the first sheet of a CSV or Excel file
+ */
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: "array", cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    return { headers: [], records: [] };
+  }
+
+  const records = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: "" });
+  const [headerRow] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 });
+  const headers = (headerRow || []).map((header) => String(header ?? "").trim()).filter(Boolean);
+
+  return { headers, records };
+};
+
+const simplify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Pairs spreadsheet headers with member fields by name
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const match = headers.find((header) => aliases.some((alias) => simplify(alias) === simplify(header)));
+    if (match) mapping[field] = match;
+  });
+  return mapping;
+};
+
+const cellText = (value: unknown) => {
+  if (value instanceof Date) return value.toISOString().split("T")[0];
+  return value === null || value === undefined ? "" : String(value).trim();
+};
+
+// Official or legacy unit name for whatever case or id the sheet used
+const knownUnitNames = [...CHURCH_UNIT_NAMES, ...Object.keys(LEGACY_TO_OFFICIAL_MAPPING)];
+const unitName = (value: string) =>
+  knownUnitNames.find((name) => simplify(name) === simplify(value))
+  || CHURCH_UNIT_ID_TO_NAME[simplify(value)]
+  || value;
+
+const categoryName = (value: string) =>
+  MEMBER_CATEGORIES.find((category) => category.toLowerCase() === value.toLowerCase()) || value;
+
+/**
+ * Maps spreadsheet records to member fields and validates them against the
+ * member schema. Church units go through normalizeChurchUnits; units it
+ * doesn't recognise are dropped with a warning.
+ */
+export const prepareImportRows = (
+  records: Record<string, unknown>[],
+  mapping: ColumnMapping,
+  defaultCategory: string,
+): PreparedRow[] =>
+  records.map((record, index) => {
+    const value = (field: ImportField) => (mapping[field] ? cellText(record[mapping[field]!]) : "");
+    const warnings: string[] = [];
+
+    const rawUnits = value("churchunits").split(/[,;/]/).map((unit) => unit.trim()).filter(Boolean);
+    const churchunits = normalizeChurchUnits(rawUnits.map(unitName));
+    const dropped = rawUnits.filter((unit) => normalizeChurchUnits([unitName(unit)]).length === 0);
+    if (dropped.length) {
+      warnings.push(`Unknown church unit ignored: ${dropped.join(", ")}`);
+    }
+
+    const joindate = value("joindate");
+    const parsed = memberSchema.safeParse({
+      fullname: value("fullname"),
+      email: value("email"),
+      phone: value("phone") || undefined,
+      category: categoryName(value("category") || defaultCategory),
+      assignedto: value("assignedto") || undefined,
+      churchunits,
+      churchunit: churchunits[0],
+      joindate: joindate || undefined,
+    });
+
+    const row = index + 2;
+    if (!parsed.success) {
+      return {
+        row,
+        errors: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+        warnings,
+      };
+    }
+
+    const { fullname, email, phone, category, assignedto } = parsed.data;
+    return {
+      row,
+      data: {
+        row,
+        fullname,
+        email,
+        phone,
+        category,
+        assignedto,
+        churchunits,
+        churchunit: churchunits[0],
+        // Only dates the sheet gave; the schema's default of today isn't a join date
+        joindate: joindate || undefined,
+      },
+      errors: [],
+      warnings,
+    };
+  });
@@ -1,4 +1,8 @@
 import { QueryClient } from '@tanstack/react-query';
+import type { MemberListParams } from '@/types/member';
+import type { DonationListParams } from '@/types/donation';
+import type { EventListParams } from '@/types/event';
+import type { MessageListParams } from '@/types/message';
 
 /**
  * Default stale time for queries (5 minutes)
@@ -49,20 +53,44 @@ export const queryKeys = {
     list: () => [...queryKeys.users.all, 'list'] as const,
     detail: (id: string) => [...queryKeys.users.all, 'detail', id] as const,
     roles: (id: string) => [...queryKeys.users.all, 'roles', id] as const,
+    // Signed-in devices; without an id, the current user's own
+    sessions: (id?: string) => [...queryKeys.users.all, 'sessions', id ?? 'me'] as const,
+    invitations: (status: string) => [...queryKeys.users.all, 'invitations', status] as const,
+    twoFactor: () => [...queryKeys.users.all, 'two-factor'] as const,
+    loginAttempts: (filters: Record<string, unknown>) => [...queryKeys.users.all, 'login-attempts', filters] as const,
+    loginSummary: () => [...queryKeys.users.all, 'login-attempts', 'summary'] as const,
   },
   
   // Member related queries
   members: {
     all: ['members'] as const,
-    list: (filters?: Record<string, any>) => 
-      [...queryKeys.members.all, 'list', filters] as const,
+    // Prefix for every paginated listing, regardless of page, sort or filters
+    lists: () => [...queryKeys.members.all, 'list'] as const,
+    list: (filters?: MemberListParams) =>
+      [...queryKeys.members.lists(), filters ?? {}] as const,
     detail: (id: string) => [...queryKeys.members.all, 'detail', id] as const,
+    duplicates: () => [...queryKeys.members.all, 'duplicates'] as const,
+    family: (id: string) => [...queryKeys.members.all, 'family', id] as const,
+    stageHistory: (id: string) => [...queryKeys.members.all, 'stage-history', id] as const,
     byPastor: (pastorId: string) => 
       [...queryKeys.members.all, 'byPastor', pastorId] as const,
     byUnit: (unitId: string) => 
       [...queryKeys.members.all, 'byUnit', unitId] as const,
   },
   
+  // Household related queries
+  households: {
+    all: ['households'] as const,
+    list: (searchTerm?: string) => [...queryKeys.households.all, 'list', searchTerm ?? ''] as const,
+  },
+
+  // Lifecycle pipeline queries
+  pipeline: {
+    all: ['pipeline'] as const,
+    stages: () => [...queryKeys.pipeline.all, 'stages'] as const,
+    board: (searchTerm?: string) => [...queryKeys.pipeline.all, 'board', searchTerm ?? ''] as const,
+  },
+
   // Pastor related queries
   pastors: {
     all: ['pastors'] as const,
@@ -78,6 +106,55 @@ export const queryKeys = {
     members: (unitId: string) => [...queryKeys.units.all, 'members', unitId] as const,
   },
   
+  // Attendance related queries
+  attendance: {
+    all: ['attendance'] as const,
+    session: (session: Record<string, any>) => [...queryKeys.attendance.all, 'session', session] as const,
+    member: (memberId: string) => [...queryKeys.attendance.all, 'member', memberId] as const,
+    summary: (filters?: Record<string, any>) => [...queryKeys.attendance.all, 'summary', filters ?? {}] as const,
+  },
+
+  // Audit log queries
+  audit: {
+    all: ['audit'] as const,
+    list: (filters: Record<string, unknown>) => [...queryKeys.audit.all, 'list', filters] as const,
+    entity: (targetType: string, id: string) => [...queryKeys.audit.all, targetType, id] as const,
+  },
+
+  // Analytics queries
+  analytics: {
+    all: ['analytics'] as const,
+    growth: (params: Record<string, any>) => [...queryKeys.analytics.all, 'growth', params] as const,
+    pipeline: (params: Record<string, any>) => [...queryKeys.analytics.all, 'pipeline', params] as const,
+  },
+
+  // Event queries
+  events: {
+    all: ['events'] as const,
+    list: (filters?: EventListParams) => [...queryKeys.events.all, 'list', filters ?? {}] as const,
+    occurrences: (range: EventListParams) => [...queryKeys.events.all, 'occurrences', range] as const,
+    detail: (id: string) => [...queryKeys.events.all, 'detail', id] as const,
+    registrations: (id: string, status?: string) => [...queryKeys.events.all, 'registrations', id, status ?? 'all'] as const,
+    myRegistrations: () => [...queryKeys.events.all, 'registrations', 'mine'] as const,
+  },
+
+  // Donation and giving queries
+  donations: {
+    all: ['donations'] as const,
+    list: (filters?: DonationListParams) => [...queryKeys.donations.all, 'list', filters ?? {}] as const,
+    projects: () => [...queryKeys.donations.all, 'projects'] as const,
+    pledges: (filters?: Record<string, any>) => [...queryKeys.donations.all, 'pledges', filters ?? {}] as const,
+  },
+
+  // Sermon archive queries
+  messages: {
+    all: ['messages'] as const,
+    list: (filters?: MessageListParams) => [...queryKeys.messages.all, 'list', filters ?? {}] as const,
+    detail: (id: string) => [...queryKeys.messages.all, 'detail', id] as const,
+    series: () => [...queryKeys.messages.all, 'series'] as const,
+    seriesDetail: (id: string) => [...queryKeys.messages.all, 'series', id] as const,
+  },
+
   // Profile related queries
   profile: {
     all: ['profile'] as const,
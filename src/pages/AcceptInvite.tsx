@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import api from "@/lib/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { InvitationLookup } from "@/types/auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
+import { useToast } from "@/components/ui/use-toast";
+
+const ROLE_NAMES: Record<string, string> = {
+    superadmin: "Super Admin",
+    admin: "Admin",
+    pastor: "Pastor",
+    user: "User",
+};
+
+export default function AcceptInvite() {
+    const [searchParams] = useSearchParams();
+    const token = searchParams.get("token") || "";
+    const [invitation, setInvitation] = useState<InvitationLookup | null>(null);
+    const [lookupError, setLookupError] = useState(token ? "" : "This invite link is incomplete.");
+    const [form, setForm] = useState({ full_name: "", phone: "", address: "", password: "", confirmPassword: "" });
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const { login } = useAuth();
+    const navigate = useNavigate();
+    const { toast } = useToast();
+
+    useEffect(() => {
+        if (!token) return;
+        api.post("/auth/invitations/lookup", { token })
+            .then((response) => {
+                setInvitation(response.data);
+                setForm((current) => ({ ...current, full_name: response.data.full_name || "" }));
+            })
+            .catch((error) => {
+                setLookupError(error.response?.data?.message || "This invite link can't be used.");
+            });
+    }, [token]);
+
+    const update = (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement>) =>
+        setForm((current) => ({ ...current, [field]: e.target.value }));
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!invitation) return;
+        if (form.password !== form.confirmPassword) {
+            toast({
+                variant: "destructive",
+                title: "Passwords don't match",
+                description: "Type the same password in both fields.",
+            });
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const { confirmPassword, ...details } = form;
+            const response = await api.post("/auth/invitations/accept", { token, ...details });
+            const challenge = await login(response.data.email, form.password);
+            if (challenge) {
+                // Admin roles set up two-factor authentication before their first sign in
+                navigate("/login", { state: { challenge } });
+                return;
+            }
+            toast({
+                title: "Welcome",
+                description: "Your account is ready.",
+            });
+            navigate("/");
+        } catch (error: any) {
+            toast({
+                variant: "destructive",
+                title: "Could not create account",
+                description: error.response?.data?.message || "Please try again.",
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-slate-50 p-4">
+            <Card className="w-full max-w-md">
+                <CardHeader className="space-y-1 text-center">
+                    <CardTitle className="text-2xl font-bold">Gospel Labour Ministry</CardTitle>
+                    <CardDescription>
+                        {invitation
+                            ? `You've been invited as ${ROLE_NAMES[invitation.role] || invitation.role}`
+                                + (invitation.assignedAuxanoCenter ? ` for ${invitation.assignedAuxanoCenter.name}` : "")
+                            : "Accept Invitation"}
+                    </CardDescription>
+                </CardHeader>
+                {lookupError ? (
+                    <CardContent className="space-y-4 text-center">
+                        <p className="text-sm text-slate-600">{lookupError}</p>
+                        <p className="text-xs text-slate-500">Ask the administrator who invited you to send a new link.</p>
+                        <Link to="/login" className="text-sm text-primary hover:underline font-medium">
+                            Go to login
+                        </Link>
+                    </CardContent>
+                ) : !invitation ? (
+                    <CardContent className="flex justify-center py-8">
+                        <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+                    </CardContent>
+                ) : (
+                    <form onSubmit={handleSubmit}>
+                        <CardContent className="space-y-4">
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Email</label>
+                                <Input type="email" value={invitation.email} disabled />
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Full Name</label>
+                                <Input value={form.full_name} onChange={update("full_name")} required />
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium">Phone</label>
+                                    <Input type="tel" value={form.phone} onChange={update("phone")} />
+                                </div>
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium">Address</label>
+                                    <Input value={form.address} onChange={update("address")} />
+                                </div>
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Password</label>
+                                <Input type="password" minLength={8} value={form.password} onChange={update("password")} required />
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Confirm Password</label>
+                                <Input type="password" minLength={8} value={form.confirmPassword} onChange={update("confirmPassword")} required />
+                            </div>
+                        </CardContent>
+                        <CardFooter>
+                            <Button className="w-full h-11 text-base shadow-md" type="submit" disabled={isSubmitting}>
+                                {isSubmitting ? "Creating account..." : "Create Account"}
+                            </Button>
+                        </CardFooter>
+                    </form>
+                )}
+            </Card>
+        </div>
+    );
+}
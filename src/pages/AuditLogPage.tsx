@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { AuditLogFilters, AuditLogListResponse } from "@/types/audit";
+import { AuditChanges, describeAction } from "@/components/admin/audit/AuditChanges";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+
+const ENTITY_LABELS: Record<string, string> = {
+    Member: "Members",
+    Household: "Households",
+    PipelineStage: "Pipeline Stages",
+    AuxanoCenter: "Auxano Centers",
+    User: "Users",
+};
+
+export default function AuditLogPage() {
+    const [actor, setActor] = useState("");
+    const [targetType, setTargetType] = useState("all");
+    const [from, setFrom] = useState("");
+    const [to, setTo] = useState("");
+    const [page, setPage] = useState(1);
+
+    const filters: AuditLogFilters = {
+        page,
+        limit: 50,
+        actor: actor || undefined,
+        targetType: targetType === "all" ? undefined : targetType,
+        from: from || undefined,
+        to: to || undefined,
+    };
+
+    const { data, isLoading, error } = useQuery<AuditLogListResponse>({
+        queryKey: queryKeys.audit.list({ ...filters }),
+        queryFn: async () => {
+            const response = await api.get("/admin/audit-logs", { params: filters });
+            return response.data;
+        },
+        placeholderData: keepPreviousData,
+    });
+
+    // Any filter change starts again from the first page
+    const filterBy = (set: (value: string) => void) => (value: string) => {
+        set(value);
+        setPage(1);
+    };
+
+    return (
+        <div className="flex-1 space-y-4 p-0 md:p-8 pt-6">
+            <div>
+                <h2 className="text-3xl font-bold tracking-tight">Audit Log</h2>
+                <p className="text-muted-foreground">
+                    Who added, changed, approved or deleted records, and when.
+                </p>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Changes</CardTitle>
+                    <CardDescription>
+                        Newest first. Each entry shows the fields before and after the change.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid gap-4 md:grid-cols-4">
+                        <div className="grid gap-2">
+                            <Label htmlFor="audit-actor">Changed by</Label>
+                            <Input
+                                id="audit-actor"
+                                placeholder="Email..."
+                                value={actor}
+                                onChange={(e) => filterBy(setActor)(e.target.value.trim())}
+                            />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label>Record type</Label>
+                            <Select value={targetType} onValueChange={filterBy(setTargetType)}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="all">All records</SelectItem>
+                                    {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+                                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="audit-from">From</Label>
+                            <Input id="audit-from" type="date" value={from} onChange={(e) => filterBy(setFrom)(e.target.value)} />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="audit-to">To</Label>
+                            <Input id="audit-to" type="date" value={to} onChange={(e) => filterBy(setTo)(e.target.value)} />
+                        </div>
+                    </div>
+
+                    {isLoading ? (
+                        <div className="flex justify-center py-6">
+                            <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+                        </div>
+                    ) : error ? (
+                        <div className="text-center text-red-500">
+                            Failed to load the audit log. Please try again.
+                        </div>
+                    ) : !data?.entries.length ? (
+                        <p className="text-sm text-slate-500 text-center py-4">No changes match these filters.</p>
+                    ) : (
+                        <>
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>When</TableHead>
+                                        <TableHead>By</TableHead>
+                                        <TableHead>Action</TableHead>
+                                        <TableHead>Record</TableHead>
+                                        <TableHead>Changes</TableHead>
+                                        <TableHead>IP Address</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {data.entries.map((entry) => (
+                                        <TableRow key={entry._id}>
+                                            <TableCell className="whitespace-nowrap">
+                                                {new Date(entry.created_at).toLocaleString()}
+                                            </TableCell>
+                                            <TableCell>{entry.actorEmail || "-"}</TableCell>
+                                            <TableCell>
+                                                <Badge variant={entry.action.endsWith(".delete") ? "destructive" : "secondary"} className="text-xs">
+                                                    {describeAction(entry)}
+                                                </Badge>
+                                            </TableCell>
+                                            <TableCell>{entry.targetLabel || "-"}</TableCell>
+                                            <TableCell className="max-w-md">
+                                                <AuditChanges changes={entry.changes} />
+                                            </TableCell>
+                                            <TableCell className="font-mono text-xs">{entry.ip || "-"}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                            {data.totalPages > 1 && (
+                                <div className="flex items-center justify-end gap-2">
+                                    <span className="text-sm text-slate-500">Page {data.page} of {data.totalPages}</span>
+                                    <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                                        Previous
+                                    </Button>
+                                    <Button variant="outline" size="sm" disabled={page >= data.totalPages} onClick={() => setPage(page + 1)}>
+                                        Next
+                                    </Button>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
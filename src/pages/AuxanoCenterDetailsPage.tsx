@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { useQuery } from "@tanstack/react-query";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { ArrowLeft, MapPin, Users, Loader2, Mail, Phone, User as UserIcon } from "lucide-react";
 import api from "@/lib/api";
 import { Button } from "@/components/ui/button";
@@ -11,6 +11,7 @@ import { Badge } from "@/components/ui/badge";
 export default function AuxanoCenterDetailsPage() {
     const { id } = useParams();
     const navigate = useNavigate();
+    const [page, setPage] = useState(1);
 
     const { data: center, isLoading: isLoadingCenter } = useQuery({
         queryKey: ["auxano-center", id],
@@ -20,14 +21,20 @@ export default function AuxanoCenterDetailsPage() {
         },
     });
 
-    const { data: members, isLoading: isLoadingMembers } = useQuery({
-        queryKey: ["auxano-center-members", id],
+    const { data: memberPage, isLoading: isLoadingMembers } = useQuery({
+        queryKey: ["auxano-center-members", id, page],
         queryFn: async () => {
-            const response = await api.get(`/members?auxanoCenter=${id}`);
+            const response = await api.get("/members", {
+                params: { auxanoCenter: id, page, pageSize: 50, sort: "fullname" }
+            });
             return response.data;
         },
+        placeholderData: keepPreviousData,
     });
 
+    const members = memberPage?.members;
+    const memberTotal = memberPage?.total || 0;
+
     if (isLoadingCenter) {
         return (
             <div className="flex justify-center items-center h-[70vh]">
@@ -73,7 +80,7 @@ export default function AuxanoCenterDetailsPage() {
                         </div>
                         <div className="flex items-center justify-between">
                             <span className="text-slate-500 text-sm">Members</span>
-                            <Badge variant="secondary">{members?.length || 0}</Badge>
+                            <Badge variant="secondary">{memberTotal}</Badge>
                         </div>
                         <Separator />
                         <div className="pt-2">
@@ -98,7 +105,7 @@ export default function AuxanoCenterDetailsPage() {
                 <Card className="md:col-span-2 border-none shadow-md rounded-2xl bg-white overflow-hidden">
                     <CardHeader className="flex flex-row items-center justify-between">
                         <CardTitle className="text-lg font-serif">Members List</CardTitle>
-                        <Badge variant="outline" className="font-normal">{members?.length || 0} Members</Badge>
+                        <Badge variant="outline" className="font-normal">{memberTotal} Members</Badge>
                     </CardHeader>
                     <CardContent className="p-0">
                         {isLoadingMembers ? (
@@ -154,6 +161,17 @@ export default function AuxanoCenterDetailsPage() {
                                         ))}
                                     </tbody>
                                 </table>
+                                {memberPage.totalPages > 1 && (
+                                    <div className="flex items-center justify-end gap-2 px-6 py-4 border-t border-slate-100">
+                                        <span className="text-sm text-slate-500">Page {memberPage.page} of {memberPage.totalPages}</span>
+                                        <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                                            Previous
+                                        </Button>
+                                        <Button variant="outline" size="sm" disabled={page >= memberPage.totalPages} onClick={() => setPage(page + 1)}>
+                                            Next
+                                        </Button>
+                                    </div>
+                                )}
                             </div>
                         ) : (
                             <div className="text-center py-12 text-slate-400">
@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Search, Plus, MapPin, Users, Loader2, MoreVertical, Edit, Trash2, CheckCircle2, UserPlus, UserMinus, Eye } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useState } from "react";
 import api from "@/lib/api";
 import {
@@ -41,6 +41,8 @@ export default function AuxanoCentersPage() {
     const [assigningMembersCenter, setAssigningMembersCenter] = useState<any>(null);
     const [selectedPastors, setSelectedPastors] = useState<string[]>([]);
     const [selectedMembers, setSelectedMembers] = useState<string[]>([]);
+    const [memberSearch, setMemberSearch] = useState("");
+    const [memberPage, setMemberPage] = useState(1);
 
     const { toast } = useToast();
     const queryClient = useQueryClient();
@@ -62,13 +64,26 @@ export default function AuxanoCentersPage() {
         },
     });
 
-    const { data: members } = useQuery({
-        queryKey: ["members-list"],
+    // The assignment dialog searches and pages through members on the server,
+    // fetching only enough to render a checklist
+    const { data: memberList, isFetching: isFetchingMembers } = useQuery({
+        queryKey: ["members-list", memberSearch, memberPage],
         queryFn: async () => {
-            const response = await api.get("/members");
+            const response = await api.get("/members", {
+                params: {
+                    searchTerm: memberSearch || undefined,
+                    page: memberPage,
+                    pageSize: 50,
+                    sort: "fullname",
+                    fields: "fullname,email,phone,auxanoCenter",
+                }
+            });
             return response.data;
         },
+        enabled: !!assigningMembersCenter,
+        placeholderData: keepPreviousData,
     });
+    const members = memberList?.members;
 
     const createMutation = useMutation({
         mutationFn: async (data: CenterFormData) => {
@@ -179,11 +194,11 @@ export default function AuxanoCentersPage() {
 
     const handleAssignMembers = (center: any) => {
         setAssigningMembersCenter(center);
-        // Find members currently in this center
-        const currentMembers = members?.filter((m: any) =>
-            (m.auxanoCenter?._id || m.auxanoCenter) === center._id
-        ).map((m: any) => m._id);
-        setSelectedMembers(currentMembers || []);
+        // Members already in the center show as ticked on whichever page they are;
+        // only new picks are kept here, across searches and pages
+        setSelectedMembers([]);
+        setMemberSearch("");
+        setMemberPage(1);
     };
 
     const togglePastor = (pastorId: string) => {
@@ -404,20 +419,34 @@ export default function AuxanoCentersPage() {
                     <DialogHeader>
                         <DialogTitle>Assign Members to {assigningMembersCenter?.name}</DialogTitle>
                         <DialogDescription>
-                            Select members to add to this center. Members already in this center are pre-selected.
+                            Select members to add to this center. Members already in this center are ticked.
                         </DialogDescription>
                     </DialogHeader>
+                    <div className="relative">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                        <Input
+                            placeholder="Search members..."
+                            className="pl-9"
+                            value={memberSearch}
+                            onChange={(e) => {
+                                setMemberSearch(e.target.value);
+                                setMemberPage(1);
+                            }}
+                        />
+                    </div>
                     <ScrollArea className="h-[400px] pr-4">
                         <div className="space-y-4 py-4">
                             {members?.map((member: any) => {
-                                const inAnotherCenter = member.auxanoCenter &&
-                                    (member.auxanoCenter?._id || member.auxanoCenter) !== assigningMembersCenter?._id;
+                                const centerId = member.auxanoCenter?._id || member.auxanoCenter;
+                                const inThisCenter = centerId === assigningMembersCenter?._id;
+                                const inAnotherCenter = centerId && !inThisCenter;
 
                                 return (
                                     <div key={member._id} className="flex items-center space-x-3">
                                         <Checkbox
                                             id={`member-${member._id}`}
-                                            checked={selectedMembers.includes(member._id)}
+                                            checked={inThisCenter || selectedMembers.includes(member._id)}
+                                            disabled={inThisCenter}
                                             onCheckedChange={() => toggleMember(member._id)}
                                         />
                                         <Label htmlFor={`member-${member._id}`} className="flex flex-col flex-1">
@@ -434,15 +463,31 @@ export default function AuxanoCentersPage() {
                                     </div>
                                 );
                             })}
+                            {members?.length === 0 && (
+                                <p className="text-sm text-slate-400 text-center">No members found.</p>
+                            )}
                         </div>
                     </ScrollArea>
+                    {memberList?.totalPages > 1 && (
+                        <div className="flex items-center justify-end gap-2">
+                            {isFetchingMembers && <Loader2 className="w-4 h-4 animate-spin text-slate-400" />}
+                            <span className="text-sm text-slate-500">Page {memberList.page} of {memberList.totalPages}</span>
+                            <Button variant="outline" size="sm" disabled={memberPage <= 1} onClick={() => setMemberPage(memberPage - 1)}>
+                                Previous
+                            </Button>
+                            <Button variant="outline" size="sm" disabled={memberPage >= memberList.totalPages} onClick={() => setMemberPage(memberPage + 1)}>
+                                Next
+                            </Button>
+                        </div>
+                    )}
                     <DialogFooter>
+                        <span className="text-sm text-slate-500 mr-auto self-center">{selectedMembers.length} selected</span>
                         <Button
                             onClick={() => assignMembersMutation.mutate({
                                 memberIds: selectedMembers,
                                 centerId: assigningMembersCenter._id
                             })}
-                            disabled={assignMembersMutation.isPending}
+                            disabled={assignMembersMutation.isPending || selectedMembers.length === 0}
                         >
                             {assignMembersMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
                             Save Assignments
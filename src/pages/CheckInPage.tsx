@@ -0,0 +1,384 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { Search, UserCheck, UserPlus, Loader2, X, Home } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { MemberListParams, MemberListResponse } from "@/types/member";
+import { AttendanceRecord, AttendanceSession, ServiceType } from "@/types/attendance";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+
+interface VisitorForm {
+    fullname: string;
+    email?: string;
+    phone?: string;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export default function CheckInPage() {
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [searchTerm, setSearchTerm] = useState("");
+    const [selectedMembers, setSelectedMembers] = useState<string[]>([]);
+    const [isVisitorOpen, setIsVisitorOpen] = useState(false);
+    const { register, handleSubmit, reset } = useForm<VisitorForm>();
+
+    const [session, setSession] = useState<AttendanceSession>({
+        serviceType: user?.assignedAuxanoCenter ? "auxano" : "service",
+        serviceDate: today(),
+        serviceName: user?.assignedAuxanoCenter ? "" : "Sunday Service",
+        auxanoCenter: user?.assignedAuxanoCenter,
+    });
+
+    const { data: centers } = useQuery({
+        queryKey: ["centers"],
+        queryFn: async () => {
+            const response = await api.get("/lists/centers");
+            return response.data;
+        },
+    });
+
+    const memberFilters: MemberListParams = {
+        page: 1,
+        pageSize: 20,
+        sort: "fullname",
+        fields: "fullname,email,phone,category,household",
+        searchTerm: searchTerm || undefined,
+    };
+    const { data: memberPage, isLoading: isLoadingMembers } = useQuery<MemberListResponse>({
+        queryKey: queryKeys.members.list(memberFilters),
+        queryFn: async () => {
+            const response = await api.get("/members", { params: memberFilters });
+            return response.data;
+        },
+    });
+
+    const { data: present, isLoading: isLoadingPresent } = useQuery<AttendanceRecord[]>({
+        queryKey: queryKeys.attendance.session(session),
+        queryFn: async () => {
+            const response = await api.get("/attendance", { params: session });
+            return response.data;
+        },
+    });
+
+    const presentIds = new Set(
+        (present || []).map((record) => (typeof record.member === "string" ? record.member : record.member?._id))
+    );
+
+    const checkInMutation = useMutation({
+        mutationFn: async (checkIn: { memberIds?: string[]; householdIds?: string[] }) => {
+            const response = await api.post("/attendance/check-in", { ...session, ...checkIn });
+            return response.data;
+        },
+        onSuccess: (data) => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.attendance.all });
+            setSelectedMembers([]);
+            toast({
+                title: "Checked in",
+                description: `${data.checkedIn} marked present${data.alreadyCheckedIn ? `, ${data.alreadyCheckedIn} already checked in` : ""}`,
+            });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Error",
+                description: error.response?.data?.message || "Failed to check in members",
+                variant: "destructive"
+            });
+        }
+    });
+
+    const visitorMutation = useMutation({
+        mutationFn: async (data: VisitorForm) => {
+            const response = await api.post("/attendance/visitors", { ...session, ...data });
+            return response.data;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.attendance.all });
+            queryClient.invalidateQueries({ queryKey: queryKeys.members.all });
+            toast({ title: "Welcome!", description: "Visitor added and checked in" });
+            setIsVisitorOpen(false);
+            reset();
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Error",
+                description: error.response?.data?.message || "Failed to add visitor",
+                variant: "destructive"
+            });
+        }
+    });
+
+    const undoMutation = useMutation({
+        mutationFn: async (id: string) => {
+            await api.delete(`/attendance/${id}`);
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.attendance.all });
+        },
+    });
+
+    const toggleMember = (memberId: string) => {
+        setSelectedMembers(prev =>
+            prev.includes(memberId)
+                ? prev.filter(id => id !== memberId)
+                : [...prev, memberId]
+        );
+    };
+
+    const updateSession = (changes: Partial<AttendanceSession>) => {
+        setSession(prev => ({ ...prev, ...changes }));
+        setSelectedMembers([]);
+    };
+
+    return (
+        <div className="space-y-6 pt-4">
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold text-slate-900 font-serif">Check-In</h1>
+                    <p className="text-slate-500 mt-1">Record who is present at services, events and Auxano meetings.</p>
+                </div>
+                <Button variant="outline" className="bg-white rounded-xl shadow-sm" onClick={() => setIsVisitorOpen(true)}>
+                    <UserPlus className="w-4 h-4 mr-2" />
+                    First-time Visitor
+                </Button>
+            </div>
+
+            <Card className="border-none shadow-md rounded-2xl bg-white">
+                <CardContent className="grid gap-4 pt-6 md:grid-cols-4">
+                    <div className="grid gap-2">
+                        <Label>Gathering</Label>
+                        <Select
+                            value={session.serviceType}
+                            onValueChange={(value) => updateSession({ serviceType: value as ServiceType })}
+                        >
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="service">Church Service</SelectItem>
+                                <SelectItem value="event">Event</SelectItem>
+                                <SelectItem value="auxano">Auxano Meeting</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="serviceDate">Date</Label>
+                        <Input
+                            id="serviceDate"
+                            type="date"
+                            value={session.serviceDate}
+                            onChange={(e) => updateSession({ serviceDate: e.target.value })}
+                        />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="serviceName">Name</Label>
+                        <Input
+                            id="serviceName"
+                            placeholder="e.g. Sunday Service"
+                            value={session.serviceName || ""}
+                            onChange={(e) => updateSession({ serviceName: e.target.value })}
+                        />
+                    </div>
+                    {session.serviceType === "auxano" && (
+                        <div className="grid gap-2">
+                            <Label>Auxano Center</Label>
+                            <Select
+                                value={session.auxanoCenter}
+                                onValueChange={(value) => updateSession({ auxanoCenter: value })}
+                                disabled={user?.role === "pastor" && !!user.assignedAuxanoCenter}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Select Center" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {centers?.map((c: any) => (
+                                        <SelectItem key={c._id} value={c._id}>{c.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            <div className="grid gap-6 lg:grid-cols-5">
+                <Card className="lg:col-span-3 border-none shadow-md rounded-2xl bg-white">
+                    <CardHeader className="space-y-4">
+                        <CardTitle className="text-lg font-serif">Find Members</CardTitle>
+                        <div className="relative">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                            <Input
+                                placeholder="Search name, email, or phone..."
+                                className="pl-9 bg-white rounded-xl border-slate-200"
+                                value={searchTerm}
+                                onChange={(e) => setSearchTerm(e.target.value)}
+                            />
+                        </div>
+                    </CardHeader>
+                    <CardContent>
+                        <ScrollArea className="h-[400px] pr-4">
+                            {isLoadingMembers ? (
+                                <div className="flex justify-center py-12">
+                                    <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+                                </div>
+                            ) : (
+                                <div className="space-y-3">
+                                    {memberPage?.members.map((member) => {
+                                        const memberId = member._id || member.id;
+                                        const isPresent = presentIds.has(memberId);
+
+                                        return (
+                                            <div key={memberId} className="flex items-center space-x-3">
+                                                <Checkbox
+                                                    id={`checkin-${memberId}`}
+                                                    checked={isPresent || selectedMembers.includes(memberId)}
+                                                    disabled={isPresent}
+                                                    onCheckedChange={() => toggleMember(memberId)}
+                                                />
+                                                <Label htmlFor={`checkin-${memberId}`} className="flex flex-1 items-center justify-between">
+                                                    <span className="flex flex-col">
+                                                        <span className="font-medium">{member.fullname}</span>
+                                                        <span className="text-xs text-slate-500">{member.email || member.phone}</span>
+                                                    </span>
+                                                    {isPresent && <Badge variant="secondary">Present</Badge>}
+                                                </Label>
+                                                {member.household && (
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        title="Check in the whole household"
+                                                        disabled={checkInMutation.isPending}
+                                                        onClick={() => checkInMutation.mutate({
+                                                            householdIds: [typeof member.household === "string" ? member.household : member.household!._id],
+                                                        })}
+                                                    >
+                                                        <Home className="w-4 h-4 mr-1" />
+                                                        Family
+                                                    </Button>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                    {memberPage?.members.length === 0 && (
+                                        <p className="text-sm text-slate-500 text-center py-8">No members match your search.</p>
+                                    )}
+                                </div>
+                            )}
+                        </ScrollArea>
+                        <div className="pt-4 flex justify-end">
+                            <Button
+                                onClick={() => checkInMutation.mutate({ memberIds: selectedMembers })}
+                                disabled={selectedMembers.length === 0 || checkInMutation.isPending}
+                            >
+                                {checkInMutation.isPending ? (
+                                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                ) : (
+                                    <UserCheck className="w-4 h-4 mr-2" />
+                                )}
+                                Mark {selectedMembers.length || ""} Present
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card className="lg:col-span-2 border-none shadow-md rounded-2xl bg-white">
+                    <CardHeader>
+                        <CardTitle className="text-lg font-serif flex justify-between items-center">
+                            Present
+                            <Badge variant="secondary">{present?.length || 0}</Badge>
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <ScrollArea className="h-[440px] pr-4">
+                            {isLoadingPresent ? (
+                                <div className="flex justify-center py-12">
+                                    <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+                                </div>
+                            ) : (
+                                <div className="space-y-3">
+                                    {present?.map((record) => {
+                                        const member = typeof record.member === "object" ? record.member : null;
+
+                                        return (
+                                            <div key={record._id} className="flex items-center justify-between text-sm">
+                                                <div className="flex flex-col">
+                                                    <span className="font-medium text-slate-900">{member?.fullname || "Unknown member"}</span>
+                                                    <span className="text-xs text-slate-400">
+                                                        {new Date(record.checkedInAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                                                        {record.isFirstTimeVisitor && " · First-time visitor"}
+                                                    </span>
+                                                </div>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-8 w-8"
+                                                    aria-label="Undo check-in"
+                                                    onClick={() => undoMutation.mutate(record._id)}
+                                                >
+                                                    <X className="w-4 h-4 text-slate-400" />
+                                                </Button>
+                                            </div>
+                                        );
+                                    })}
+                                    {present?.length === 0 && (
+                                        <p className="text-sm text-slate-500 text-center py-8">Nobody checked in yet.</p>
+                                    )}
+                                </div>
+                            )}
+                        </ScrollArea>
+                    </CardContent>
+                </Card>
+            </div>
+
+            <Dialog open={isVisitorOpen} onOpenChange={setIsVisitorOpen}>
+                <DialogContent className="sm:max-w-[425px]">
+                    <DialogHeader>
+                        <DialogTitle>Add First-time Visitor</DialogTitle>
+                        <DialogDescription>
+                            The visitor is added to the member directory and checked in to this gathering.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <form onSubmit={handleSubmit((data) => visitorMutation.mutate(data))} className="grid gap-4 py-4">
+                        <div className="grid gap-2">
+                            <Label htmlFor="visitor-fullname">Full Name</Label>
+                            <Input id="visitor-fullname" placeholder="e.g. John Doe" {...register("fullname", { required: true })} />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="visitor-email">Email Address</Label>
+                            <Input id="visitor-email" type="email" placeholder="e.g. john@example.com" {...register("email")} />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="visitor-phone">Phone Number</Label>
+                            <Input id="visitor-phone" placeholder="e.g. +1234567890" {...register("phone")} />
+                        </div>
+                        <DialogFooter>
+                            <Button type="submit" disabled={visitorMutation.isPending}>
+                                {visitorMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                                Add & Check In
+                            </Button>
+                        </DialogFooter>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
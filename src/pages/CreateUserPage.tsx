@@ -1,19 +1,20 @@
-import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { ArrowLeft, Loader2 } from "lucide-react";
 import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { useRole } from "@/components/auth/RoleProvider";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/components/ui/use-toast";
 
-interface CreateUserForm {
-    full_name: string;
+// New accounts are created by invitation: the invitee picks their own password
+interface InviteUserForm {
+    full_name?: string;
     email: string;
-    password: string;
     role: string;
     assignedAuxanoCenter?: string;
 }
@@ -22,7 +23,8 @@ export default function CreateUserPage() {
     const navigate = useNavigate();
     const { toast } = useToast();
     const queryClient = useQueryClient();
-    const { register, handleSubmit, setValue, watch, formState: { errors } } = useForm<CreateUserForm>();
+    const { hasPermission } = useRole();
+    const { register, handleSubmit, setValue, watch, formState: { errors } } = useForm<InviteUserForm>();
     const selectedRole = watch("role");
 
     const { data: centers } = useQuery({
@@ -33,27 +35,27 @@ export default function CreateUserPage() {
         },
     });
 
-    const createMutation = useMutation({
-        mutationFn: async (data: CreateUserForm) => {
-            const response = await api.post("/auth/create-user", data);
+    const inviteMutation = useMutation({
+        mutationFn: async (data: InviteUserForm) => {
+            const response = await api.post("/auth/invitations", data);
             return response.data;
         },
-        onSuccess: () => {
-            queryClient.invalidateQueries({ queryKey: ["users"] }); // If we had a users list
-            toast({ title: "Success", description: "User created successfully" });
-            navigate("/"); // Or to a users list if it existed
+        onSuccess: (invitation) => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.users.invitations("pending") });
+            toast({ title: "Invitation sent", description: `An invite link was emailed to ${invitation.email}` });
+            navigate("/users");
         },
         onError: (error: any) => {
             toast({
                 title: "Error",
-                description: error.response?.data?.message || "Failed to create user",
+                description: error.response?.data?.message || "Failed to send invitation",
                 variant: "destructive"
             });
         }
     });
 
-    const onSubmit = (data: CreateUserForm) => {
-        createMutation.mutate(data);
+    const onSubmit = (data: InviteUserForm) => {
+        inviteMutation.mutate(data);
     };
 
     return (
@@ -69,25 +71,14 @@ export default function CreateUserPage() {
 
             <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 md:p-8">
                 <div className="mb-8">
-                    <h1 className="text-2xl font-bold text-slate-900">Create New User</h1>
-                    <p className="text-slate-500 mt-1">Create an account for a new admin or pastor.</p>
+                    <h1 className="text-2xl font-bold text-slate-900">Invite User</h1>
+                    <p className="text-slate-500 mt-1">
+                        Email an invite link to a new admin or pastor. They choose their own password and complete their profile.
+                    </p>
                 </div>
 
                 <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
                     <div className="space-y-4">
-                        <div className="grid gap-2">
-                            <Label htmlFor="full_name">Full Name</Label>
-                            <Input
-                                id="full_name"
-                                placeholder="e.g. John Doe"
-                                {...register("full_name", { required: "Full name is required" })}
-                                className={errors.full_name ? "border-red-500" : ""}
-                            />
-                            {errors.full_name && (
-                                <p className="text-sm text-red-500">{errors.full_name.message}</p>
-                            )}
-                        </div>
-
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                             <div className="grid gap-2">
                                 <Label htmlFor="email">Email Address</Label>
@@ -110,17 +101,12 @@ export default function CreateUserPage() {
                             </div>
 
                             <div className="grid gap-2">
-                                <Label htmlFor="password">Password</Label>
+                                <Label htmlFor="full_name">Full Name (optional)</Label>
                                 <Input
-                                    id="password"
-                                    type="password"
-                                    placeholder="••••••••"
-                                    {...register("password", { required: "Password is required", minLength: { value: 6, message: "Min 6 characters" } })}
-                                    className={errors.password ? "border-red-500" : ""}
+                                    id="full_name"
+                                    placeholder="e.g. John Doe"
+                                    {...register("full_name")}
                                 />
-                                {errors.password && (
-                                    <p className="text-sm text-red-500">{errors.password.message}</p>
-                                )}
                             </div>
                         </div>
 
@@ -134,7 +120,9 @@ export default function CreateUserPage() {
                                     <SelectItem value="user">User (Standard)</SelectItem>
                                     <SelectItem value="pastor">Pastor</SelectItem>
                                     <SelectItem value="admin">Admin</SelectItem>
-                                    <SelectItem value="superadmin">Super Admin</SelectItem>
+                                    {hasPermission("system_admin") && (
+                                        <SelectItem value="superadmin">Super Admin</SelectItem>
+                                    )}
                                 </SelectContent>
                             </Select>
                         </div>
@@ -161,19 +149,19 @@ export default function CreateUserPage() {
                             type="button"
                             variant="outline"
                             onClick={() => navigate("/")}
-                            disabled={createMutation.isPending}
+                            disabled={inviteMutation.isPending}
                         >
                             Cancel
                         </Button>
                         <Button
                             type="submit"
                             className="bg-black text-white hover:bg-slate-800"
-                            disabled={createMutation.isPending}
+                            disabled={inviteMutation.isPending}
                         >
-                            {createMutation.isPending && (
+                            {inviteMutation.isPending && (
                                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                             )}
-                            Create User
+                            Send Invitation
                         </Button>
                     </div>
                 </form>
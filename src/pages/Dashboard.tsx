@@ -1,25 +1,92 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
 import api from "@/lib/api";
-import { Member } from "@/types/member";
+import { MemberListResponse } from "@/types/member";
+import { MessageListResponse } from "@/types/message";
+import { queryKeys } from "@/lib/react-query-config";
 import { OverviewStats } from "@/components/dashboard/OverviewStats";
 import { GrowthChart } from "@/components/dashboard/GrowthChart";
 import { RecentActivity } from "@/components/dashboard/RecentActivity";
 import { RecentMessages } from "@/components/dashboard/RecentMessages";
+import { GrowthBreakdown } from "@/components/dashboard/GrowthBreakdown";
+import { PipelineMetrics } from "@/components/dashboard/PipelineMetrics";
+import { MemberGrowthReport, GrowthInterval } from "@/types/analytics";
+import { PipelineMetrics as PipelineMetricsReport } from "@/types/pipeline";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const RANGE_OPTIONS = [
+    { value: "1", label: "Last month", interval: "week" as GrowthInterval },
+    { value: "3", label: "Last 3 months", interval: "week" as GrowthInterval },
+    { value: "6", label: "Last 6 months", interval: "month" as GrowthInterval },
+    { value: "12", label: "Last 12 months", interval: "month" as GrowthInterval },
+];
 import { useAuth } from "@/contexts/AuthContext";
 import { PastorDashboard } from "@/components/dashboard/PastorDashboard";
 
 export default function Dashboard() {
-    const { data: members, isLoading, error } = useQuery<Member[]>({
-        queryKey: ["members"],
+    const { user } = useAuth();
+    const [range, setRange] = useState("6");
+    const rangeOption = RANGE_OPTIONS.find(option => option.value === range) || RANGE_OPTIONS[2];
+
+    // Only the newest members are needed for the activity feed
+    const recentFilters = { page: 1, pageSize: 5, sort: "-created_at" };
+    const { data: recent, isLoading, error } = useQuery<MemberListResponse>({
+        queryKey: queryKeys.members.list(recentFilters),
+        queryFn: async () => {
+            const response = await api.get("/members", { params: recentFilters });
+            return response.data;
+        },
+    });
+
+    // The newest uploads double as the archive total for the stats cards
+    const recentMessageFilters = { page: 1, pageSize: 5 };
+    const { data: recentMessages } = useQuery<MessageListResponse>({
+        queryKey: queryKeys.messages.list(recentMessageFilters),
+        queryFn: async () => {
+            const response = await api.get("/messages", { params: recentMessageFilters });
+            return response.data;
+        },
+    });
+
+    const growthParams = {
+        months: Number(range),
+        interval: rangeOption.interval,
+    };
+    const { data: growth } = useQuery<MemberGrowthReport>({
+        queryKey: queryKeys.analytics.growth(growthParams),
+        queryFn: async () => {
+            const to = new Date();
+            const from = new Date(to);
+            from.setMonth(from.getMonth() - growthParams.months);
+            const response = await api.get("/analytics/growth", {
+                params: { from: from.toISOString(), to: to.toISOString(), interval: growthParams.interval }
+            });
+            return response.data;
+        },
+        placeholderData: keepPreviousData,
+    });
+
+    // Stage stays that ended in the same range as the growth chart
+    const { data: pipeline } = useQuery<PipelineMetricsReport>({
+        queryKey: queryKeys.analytics.pipeline({ months: growthParams.months }),
         queryFn: async () => {
-            // Ensure we handle potential wrapper objects from the API
-            const response = await api.get("/members");
-            if (Array.isArray(response.data)) {
-                return response.data;
-            } else if (response.data && Array.isArray(response.data.members)) {
-                return response.data.members;
-            }
-            return [];
+            const to = new Date();
+            const from = new Date(to);
+            from.setMonth(from.getMonth() - growthParams.months);
+            const response = await api.get("/analytics/pipeline", {
+                params: { from: from.toISOString(), to: to.toISOString() }
+            });
+            return response.data;
+        },
+        placeholderData: keepPreviousData,
+        enabled: user?.role !== 'pastor',
+    });
+
+    const { data: pastors } = useQuery({
+        queryKey: ["pastors-list"],
+        queryFn: async () => {
+            const response = await api.get("/lists/pastors");
+            return response.data;
         },
     });
 
@@ -56,18 +123,9 @@ export default function Dashboard() {
         )
     }
 
-    const { data: pastors } = useQuery({
-        queryKey: ["pastors-list"],
-        queryFn: async () => {
-            const response = await api.get("/lists/pastors");
-            return response.data;
-        },
-    });
-
-    const memberData = members || [];
+    const recentMembers = recent?.members || [];
     const pastorsCount = pastors?.length || 0;
-    const messagesCount = 3; // Hardcoded for now based on RecentMessages list
-    const { user } = useAuth();
+    const messagesCount = recentMessages?.total || 0;
 
     if (user?.role === 'pastor') {
         return (
@@ -98,20 +156,38 @@ export default function Dashboard() {
             </div>
 
             <OverviewStats
-                members={memberData}
+                summary={growth?.summary}
+                rangeLabel={rangeOption.label.toLowerCase()}
                 pastorsCount={pastorsCount}
                 messagesCount={messagesCount}
             />
 
             <div className="md:grid space-y-4 md:space-y-0 gap-6 md:grid-cols-2 lg:grid-cols-7">
-                <GrowthChart members={memberData} />
-                <RecentActivity members={memberData} />
+                <GrowthChart
+                    series={growth?.series || []}
+                    actions={
+                        <Select value={range} onValueChange={setRange}>
+                            <SelectTrigger className="h-8 w-[150px] text-xs">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {RANGE_OPTIONS.map(option => (
+                                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    }
+                />
+                <RecentActivity members={recentMembers} />
 
             </div>
 
-            <div className="">
-                <RecentMessages />
+            <div className="md:grid space-y-4 md:space-y-0 gap-6 md:grid-cols-2">
+                <GrowthBreakdown breakdowns={growth?.breakdowns} />
+                <RecentMessages messages={recentMessages?.messages || []} />
             </div>
+
+            <PipelineMetrics metrics={pipeline} rangeLabel={rangeOption.label.toLowerCase()} />
         </div>
     );
 }
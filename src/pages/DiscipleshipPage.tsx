@@ -1,31 +1,28 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
 import api from "@/lib/api";
-import { Member } from "@/types/member";
+import { MemberListParams, MemberListResponse } from "@/types/member";
+import { queryKeys } from "@/lib/react-query-config";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 
 export default function DiscipleshipPage() {
-    const { data: members, isLoading } = useQuery<Member[]>({
-        queryKey: ["members", "discipleship"],
+    const [page, setPage] = useState(1);
+    const filters: MemberListParams = { page, pageSize: 20, discipleshipStatus: true };
+
+    const { data, isLoading } = useQuery<MemberListResponse>({
+        queryKey: queryKeys.members.list(filters),
         queryFn: async () => {
-            const response = await api.get("/members"); // Get all members
-            // Filter locally or backend should support filter
-            // Ideally backend supports filter. For now efficient to just filter here if list is small,
-            // or better add backend filter. Member model added `discipleshipStatus`. 
-            // I'll assume I can filter on frontend for now or update backend query if needed.
-            // Actually, backend getMembers implementation generic query support might not cover boolean strictly without parsing.
-            // Let's rely on client side filtering for this specific flag or update backend.
-            // Checking backend controller: `req.query` is passed to `find(query)`. 
-            // `discipleshipStatus` was not explicitly handled in backend `getMembers` but generic `req.query` might pass through if not destructured?
-            // No, `getMembers` destructures specific fields.
-            // So I should request all and filter, or update backend. 
-            // I'll filter client side for now to minimize backend churn unless list is huge.
+            const response = await api.get("/members", { params: filters });
             return response.data;
         },
+        placeholderData: keepPreviousData,
     });
 
-    const discipleshipMembers = members?.filter(m => m.discipleshipStatus) || [];
+    const discipleshipMembers = data?.members || [];
+    const totalPages = data?.totalPages || 1;
 
     if (isLoading) {
         return <div>Loading...</div>;
@@ -64,6 +61,19 @@ export default function DiscipleshipPage() {
                             )}
                         </TableBody>
                     </Table>
+                    <div className="flex items-center justify-between pt-4">
+                        <span className="text-sm text-muted-foreground">
+                            {data?.total || 0} member{data?.total === 1 ? "" : "s"} · Page {page} of {totalPages}
+                        </span>
+                        <div className="flex gap-2">
+                            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                                Previous
+                            </Button>
+                            <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                                Next
+                            </Button>
+                        </div>
+                    </div>
                 </CardContent>
             </Card>
         </div>
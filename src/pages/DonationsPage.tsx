@@ -0,0 +1,341 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { Download, Loader2, Plus, Trash2 } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { MemberListParams, MemberListResponse } from "@/types/member";
+import { DonationFund, DonationListParams, DonationListResponse, Pledge, Project } from "@/types/donation";
+import { FUND_LABELS, METHOD_LABELS, RecordDonationDialog } from "@/components/admin/donations/RecordDonationDialog";
+import { ProjectsPledgesPanel } from "@/components/admin/donations/ProjectsPledgesPanel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+
+// Radix Select does not allow an empty string as an item value
+const ALL = "all";
+
+const formatAmount = (amount: number, currency = "NGN") =>
+    `${currency} ${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function DonationsPage() {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [page, setPage] = useState(1);
+    const [from, setFrom] = useState("");
+    const [to, setTo] = useState("");
+    const [fund, setFund] = useState<string>(ALL);
+    const [member, setMember] = useState<string>(ALL);
+    const [statementYear, setStatementYear] = useState(new Date().getFullYear());
+    const [isRecordOpen, setIsRecordOpen] = useState(false);
+    const [downloading, setDownloading] = useState<"csv" | "pdf" | null>(null);
+
+    const filters: DonationListParams = {
+        page,
+        pageSize: 20,
+        from: from || undefined,
+        to: to || undefined,
+        fund: fund === ALL ? undefined : (fund as DonationFund),
+        member: member === ALL ? undefined : member,
+    };
+
+    const { data, isLoading } = useQuery<DonationListResponse>({
+        queryKey: queryKeys.donations.list(filters),
+        queryFn: async () => {
+            const response = await api.get("/donations", { params: filters });
+            return response.data;
+        },
+        placeholderData: keepPreviousData,
+    });
+
+    const memberFilters: MemberListParams = { page: 1, pageSize: 100, sort: "fullname", fields: "fullname,email" };
+    const { data: memberPage } = useQuery<MemberListResponse>({
+        queryKey: queryKeys.members.list(memberFilters),
+        queryFn: async () => {
+            const response = await api.get("/members", { params: memberFilters });
+            return response.data;
+        },
+    });
+    const members = memberPage?.members || [];
+
+    const { data: projects = [] } = useQuery<Project[]>({
+        queryKey: queryKeys.donations.projects(),
+        queryFn: async () => {
+            const response = await api.get("/donations/projects");
+            return response.data;
+        },
+    });
+
+    const { data: pledges = [] } = useQuery<Pledge[]>({
+        queryKey: queryKeys.donations.pledges(),
+        queryFn: async () => {
+            const response = await api.get("/donations/pledges");
+            return response.data;
+        },
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: async (id: string) => {
+            await api.delete(`/donations/${id}`);
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.donations.all });
+            toast({ title: "Donation removed" });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Error",
+                description: error.response?.data?.message || "Failed to remove donation",
+                variant: "destructive"
+            });
+        }
+    });
+
+    const downloadStatement = async (format: "csv" | "pdf") => {
+        setDownloading(format);
+        try {
+            const response = await api.get(`/donations/statements/${member}`, {
+                params: { year: statementYear, format },
+                responseType: "blob",
+            });
+            const url = URL.createObjectURL(response.data);
+            const link = document.createElement("a");
+            const memberName = members.find((m) => (m._id || m.id) === member)?.fullname || "member";
+            link.href = url;
+            link.download = `giving-statement-${statementYear}-${memberName.replace(/\s+/g, "-").toLowerCase()}.${format}`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch {
+            toast({ title: "Error", description: "Failed to download statement", variant: "destructive" });
+        } finally {
+            setDownloading(null);
+        }
+    };
+
+    const updateFilter = (setter: (value: string) => void) => (value: string) => {
+        setter(value);
+        setPage(1);
+    };
+
+    const donations = data?.donations || [];
+    const totalPages = data?.totalPages || 1;
+
+    return (
+        <div className="space-y-6 pt-4">
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold text-slate-900 font-serif">Donations</h1>
+                    <p className="text-slate-500 mt-1">Tithes, offerings, pledges and project giving.</p>
+                </div>
+                <Button className="rounded-xl shadow-sm" onClick={() => setIsRecordOpen(true)}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Record Donation
+                </Button>
+            </div>
+
+            <Tabs defaultValue="ledger">
+                <TabsList>
+                    <TabsTrigger value="ledger">Ledger</TabsTrigger>
+                    <TabsTrigger value="projects">Projects & Pledges</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="ledger" className="space-y-6">
+                    <Card className="border-none shadow-md rounded-2xl bg-white">
+                        <CardContent className="grid gap-4 pt-6 md:grid-cols-4">
+                            <div className="grid gap-2">
+                                <Label htmlFor="donations-from">From</Label>
+                                <Input
+                                    id="donations-from"
+                                    type="date"
+                                    value={from}
+                                    onChange={(e) => updateFilter(setFrom)(e.target.value)}
+                                />
+                            </div>
+                            <div className="grid gap-2">
+                                <Label htmlFor="donations-to">To</Label>
+                                <Input
+                                    id="donations-to"
+                                    type="date"
+                                    value={to}
+                                    onChange={(e) => updateFilter(setTo)(e.target.value)}
+                                />
+                            </div>
+                            <div className="grid gap-2">
+                                <Label>Fund</Label>
+                                <Select value={fund} onValueChange={updateFilter(setFund)}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={ALL}>All funds</SelectItem>
+                                        {Object.entries(FUND_LABELS).map(([value, label]) => (
+                                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="grid gap-2">
+                                <Label>Member</Label>
+                                <Select value={member} onValueChange={updateFilter(setMember)}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={ALL}>All members</SelectItem>
+                                        {members.map((m) => (
+                                            <SelectItem key={m._id || m.id} value={m._id || m.id}>{m.fullname}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </CardContent>
+                    </Card>
+
+                    {member !== ALL && (
+                        <Card className="border-none shadow-md rounded-2xl bg-white">
+                            <CardContent className="flex flex-col md:flex-row md:items-end gap-4 pt-6">
+                                <div className="grid gap-2">
+                                    <Label htmlFor="statement-year">Giving statement year</Label>
+                                    <Input
+                                        id="statement-year"
+                                        type="number"
+                                        className="w-32"
+                                        value={statementYear}
+                                        onChange={(e) => setStatementYear(Number(e.target.value))}
+                                    />
+                                </div>
+                                <div className="flex gap-2">
+                                    {(["pdf", "csv"] as const).map((format) => (
+                                        <Button
+                                            key={format}
+                                            variant="outline"
+                                            className="bg-white rounded-xl"
+                                            onClick={() => downloadStatement(format)}
+                                            disabled={downloading !== null}
+                                        >
+                                            {downloading === format ? (
+                                                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                            ) : (
+                                                <Download className="w-4 h-4 mr-2" />
+                                            )}
+                                            {format.toUpperCase()} Statement
+                                        </Button>
+                                    ))}
+                                </div>
+                            </CardContent>
+                        </Card>
+                    )}
+
+                    <Card className="border-none shadow-md rounded-2xl bg-white">
+                        <CardHeader>
+                            <CardTitle className="text-lg font-serif flex justify-between items-center">
+                                Donations
+                                <span className="text-base font-sans font-medium text-slate-600">
+                                    Total: {data?.totals.length
+                                        ? data.totals.map((total) => formatAmount(total.amount, total.currency)).join(" · ")
+                                        : formatAmount(0)}
+                                </span>
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            {isLoading ? (
+                                <div className="flex justify-center py-12">
+                                    <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+                                </div>
+                            ) : (
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Date</TableHead>
+                                            <TableHead>Donor</TableHead>
+                                            <TableHead>Fund</TableHead>
+                                            <TableHead>Method</TableHead>
+                                            <TableHead>Reference</TableHead>
+                                            <TableHead className="text-right">Amount</TableHead>
+                                            <TableHead className="text-right"></TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {donations.map((donation) => (
+                                            <TableRow key={donation._id}>
+                                                <TableCell>{new Date(donation.date).toLocaleDateString()}</TableCell>
+                                                <TableCell className="font-medium">
+                                                    {donation.member?.fullname || donation.donorName || "Anonymous"}
+                                                </TableCell>
+                                                <TableCell>
+                                                    <Badge variant="outline">{FUND_LABELS[donation.fund]}</Badge>
+                                                    {donation.project && (
+                                                        <span className="ml-2 text-xs text-slate-500">{donation.project.title}</span>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell>{METHOD_LABELS[donation.method]}</TableCell>
+                                                <TableCell className="text-slate-500">{donation.reference || "—"}</TableCell>
+                                                <TableCell className="text-right font-medium">
+                                                    {formatAmount(donation.amount, donation.currency)}
+                                                </TableCell>
+                                                <TableCell className="text-right">
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        className="h-8 w-8"
+                                                        aria-label="Remove donation"
+                                                        onClick={() => deleteMutation.mutate(donation._id)}
+                                                        disabled={deleteMutation.isPending}
+                                                    >
+                                                        <Trash2 className="w-4 h-4 text-slate-400" />
+                                                    </Button>
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                        {donations.length === 0 && (
+                                            <TableRow>
+                                                <TableCell colSpan={7} className="text-center text-slate-500 py-8">
+                                                    No donations match these filters.
+                                                </TableCell>
+                                            </TableRow>
+                                        )}
+                                    </TableBody>
+                                </Table>
+                            )}
+                            <div className="flex items-center justify-between pt-4">
+                                <span className="text-sm text-slate-500">
+                                    Page {data?.page || page} of {totalPages} · {data?.total || 0} donations
+                                </span>
+                                <div className="flex gap-2">
+                                    <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                                        Previous
+                                    </Button>
+                                    <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                                        Next
+                                    </Button>
+                                </div>
+                            </div>
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value="projects">
+                    <ProjectsPledgesPanel
+                        projects={projects}
+                        pledges={pledges}
+                        members={members}
+                        formatAmount={formatAmount}
+                    />
+                </TabsContent>
+            </Tabs>
+
+            <RecordDonationDialog
+                open={isRecordOpen}
+                onOpenChange={setIsRecordOpen}
+                members={members}
+                projects={projects}
+                pledges={pledges}
+            />
+        </div>
+    );
+}
@@ -9,6 +9,11 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/components/ui/use-toast";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { queryKeys } from "@/lib/react-query-config";
+import { MemberAttendanceHistory } from "@/components/admin/members/MemberAttendanceHistory";
+import { MemberChangeHistory } from "@/components/admin/members/MemberChangeHistory";
+import { MemberHousehold } from "@/components/admin/members/MemberHousehold";
 
 interface EditMemberForm {
     fullname: string;
@@ -76,6 +81,7 @@ export default function EditMemberPage() {
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ["members"] });
             queryClient.invalidateQueries({ queryKey: ["member", id] });
+            queryClient.invalidateQueries({ queryKey: queryKeys.audit.all });
             toast({ title: "Success", description: "Member updated successfully" });
             navigate("/members");
         },
@@ -255,6 +261,37 @@ export default function EditMemberPage() {
                     </div>
                 </form>
             </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 md:p-8 mt-6">
+                <Tabs defaultValue="attendance">
+                    <TabsList className="mb-6">
+                        <TabsTrigger value="attendance">Attendance</TabsTrigger>
+                        <TabsTrigger value="household">Household</TabsTrigger>
+                        <TabsTrigger value="history">History</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="attendance">
+                        <div className="mb-6">
+                            <h2 className="text-xl font-bold text-slate-900">Attendance History</h2>
+                            <p className="text-slate-500 mt-1">Services, events and Auxano meetings this member checked in to.</p>
+                        </div>
+                        {id && <MemberAttendanceHistory memberId={id} />}
+                    </TabsContent>
+                    <TabsContent value="household">
+                        <div className="mb-6">
+                            <h2 className="text-xl font-bold text-slate-900">Household & Family</h2>
+                            <p className="text-slate-500 mt-1">Who this member lives with and how they are related.</p>
+                        </div>
+                        {id && <MemberHousehold memberId={id} memberName={member?.fullname} />}
+                    </TabsContent>
+                    <TabsContent value="history">
+                        <div className="mb-6">
+                            <h2 className="text-xl font-bold text-slate-900">Change History</h2>
+                            <p className="text-slate-500 mt-1">Who created, edited, approved or reassigned this member.</p>
+                        </div>
+                        {id && <MemberChangeHistory memberId={id} />}
+                    </TabsContent>
+                </Tabs>
+            </div>
         </div>
     );
 }
@@ -0,0 +1,355 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Download, Loader2, UserPlus, X } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { EventRegistrationList, RegistrationStatus } from "@/types/event";
+import { MemberListParams, MemberListResponse } from "@/types/member";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+
+const STATUS_VARIANTS: Record<RegistrationStatus, "default" | "secondary" | "outline"> = {
+    registered: "default",
+    waitlisted: "outline",
+    cancelled: "secondary",
+};
+
+// Radix Select does not allow an empty string as an item value
+const NOT_A_MEMBER = "visitor";
+
+export default function EventAttendeesPage() {
+    const { id = "" } = useParams();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [status, setStatus] = useState<RegistrationStatus | "all">("all");
+    const [isAddOpen, setIsAddOpen] = useState(false);
+    const [newAttendee, setNewAttendee] = useState({ member: NOT_A_MEMBER, name: "", email: "", phone: "" });
+    const [isExporting, setIsExporting] = useState(false);
+
+    const { data, isLoading } = useQuery<EventRegistrationList>({
+        queryKey: queryKeys.events.registrations(id, status),
+        queryFn: async () => {
+            const response = await api.get(`/events/${id}/registrations`, {
+                params: { status: status === "all" ? undefined : status },
+            });
+            return response.data;
+        },
+        enabled: !!id,
+    });
+
+    const memberFilters: MemberListParams = { page: 1, pageSize: 100, sort: "fullname", fields: "fullname,email" };
+    const { data: memberPage } = useQuery<MemberListResponse>({
+        queryKey: queryKeys.members.list(memberFilters),
+        queryFn: async () => {
+            const response = await api.get("/members", { params: memberFilters });
+            return response.data;
+        },
+        enabled: isAddOpen,
+    });
+
+    const onError = (fallback: string) => (error: any) => {
+        toast({
+            title: "Error",
+            description: error.response?.data?.message || fallback,
+            variant: "destructive"
+        });
+    };
+
+    const refresh = () => queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
+
+    const checkInMutation = useMutation({
+        mutationFn: async ({ registrationId, checkedIn }: { registrationId: string; checkedIn: boolean }) => {
+            const response = await api.patch(`/events/${id}/registrations/${registrationId}/check-in`, { checkedIn });
+            return response.data;
+        },
+        onSuccess: () => {
+            refresh();
+            queryClient.invalidateQueries({ queryKey: queryKeys.attendance.all });
+        },
+        onError: onError("Failed to update check-in"),
+    });
+
+    const cancelMutation = useMutation({
+        mutationFn: async (registrationId: string) => {
+            const response = await api.delete(`/events/${id}/registrations/${registrationId}`);
+            return response.data;
+        },
+        onSuccess: (result) => {
+            refresh();
+            toast({
+                title: "Registration cancelled",
+                description: result.promoted ? `${result.promoted} was moved off the waitlist` : undefined,
+            });
+        },
+        onError: onError("Failed to cancel registration"),
+    });
+
+    const addMutation = useMutation({
+        mutationFn: async () => {
+            const { member, ...details } = newAttendee;
+            const response = await api.post(`/events/${id}/registrations`, {
+                ...details,
+                member: member === NOT_A_MEMBER ? undefined : member,
+            });
+            return response.data;
+        },
+        onSuccess: (registration) => {
+            refresh();
+            toast({
+                title: registration.status === "waitlisted" ? "Added to waitlist" : "Attendee registered",
+                description: registration.status === "waitlisted" ? "The event is full" : undefined,
+            });
+            setIsAddOpen(false);
+            setNewAttendee({ member: NOT_A_MEMBER, name: "", email: "", phone: "" });
+        },
+        onError: onError("Failed to register attendee"),
+    });
+
+    const exportCsv = async () => {
+        setIsExporting(true);
+        try {
+            const response = await api.get(`/events/${id}/registrations`, {
+                params: { format: "csv", status: status === "all" ? undefined : status },
+                responseType: "blob",
+            });
+            const url = URL.createObjectURL(response.data);
+            const link = document.createElement("a");
+            link.href = url;
+            link.download = `${(data?.event.title || "event").replace(/\s+/g, "-").toLowerCase()}-attendees.csv`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch {
+            toast({ title: "Error", description: "Failed to export attendees", variant: "destructive" });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const counts = data?.counts;
+    const capacity = data?.event.max_attendees;
+
+    return (
+        <div className="space-y-6 pt-4">
+            <Link to="/events" className="inline-flex items-center text-sm text-slate-500 hover:text-slate-900">
+                <ArrowLeft className="w-4 h-4 mr-1" />
+                Back to events
+            </Link>
+
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold text-slate-900 font-serif">{data?.event.title || "Attendees"}</h1>
+                    {data && (
+                        <p className="text-slate-500 mt-1">
+                            {new Date(data.event.event_date).toLocaleDateString(undefined, {
+                                weekday: "long", year: "numeric", month: "long", day: "numeric", timeZone: "UTC",
+                            })}
+                        </p>
+                    )}
+                </div>
+                <div className="flex gap-2">
+                    <Button variant="outline" className="bg-white rounded-xl" onClick={exportCsv} disabled={isExporting}>
+                        {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+                        Export CSV
+                    </Button>
+                    <Button className="rounded-xl" onClick={() => setIsAddOpen(true)}>
+                        <UserPlus className="w-4 h-4 mr-2" />
+                        Add Attendee
+                    </Button>
+                </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-4">
+                {[
+                    { label: "Registered", value: capacity ? `${counts?.registered ?? 0} / ${capacity}` : counts?.registered ?? 0 },
+                    { label: "Waitlist", value: counts?.waitlisted ?? 0 },
+                    { label: "Checked In", value: counts?.checkedIn ?? 0 },
+                    { label: "Cancelled", value: counts?.cancelled ?? 0 },
+                ].map((stat) => (
+                    <Card key={stat.label} className="border-none shadow-md rounded-2xl bg-white">
+                        <CardContent className="pt-6">
+                            <p className="text-sm text-slate-500">{stat.label}</p>
+                            <p className="text-2xl font-bold text-slate-900">{stat.value}</p>
+                        </CardContent>
+                    </Card>
+                ))}
+            </div>
+
+            <Card className="border-none shadow-md rounded-2xl bg-white">
+                <CardHeader className="flex flex-row items-center justify-between">
+                    <CardTitle className="text-lg font-serif">Attendees</CardTitle>
+                    <Tabs value={status} onValueChange={(value) => setStatus(value as typeof status)}>
+                        <TabsList>
+                            <TabsTrigger value="all">All</TabsTrigger>
+                            <TabsTrigger value="registered">Registered</TabsTrigger>
+                            <TabsTrigger value="waitlisted">Waitlist</TabsTrigger>
+                            <TabsTrigger value="cancelled">Cancelled</TabsTrigger>
+                        </TabsList>
+                    </Tabs>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <div className="flex justify-center py-12">
+                            <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+                        </div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Name</TableHead>
+                                    <TableHead>Email</TableHead>
+                                    <TableHead>Phone</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead>Date</TableHead>
+                                    <TableHead>Registered</TableHead>
+                                    <TableHead>Checked In</TableHead>
+                                    <TableHead className="text-right"></TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {data?.registrations.map((registration) => (
+                                    <TableRow key={registration._id}>
+                                        <TableCell className="font-medium">
+                                            {registration.name}
+                                            {registration.member && <Badge variant="secondary" className="ml-2">Member</Badge>}
+                                        </TableCell>
+                                        <TableCell>{registration.email}</TableCell>
+                                        <TableCell>{registration.phone || "—"}</TableCell>
+                                        <TableCell>
+                                            <Badge variant={STATUS_VARIANTS[registration.status]} className="capitalize">
+                                                {registration.status}
+                                            </Badge>
+                                        </TableCell>
+                                        <TableCell>
+                                            {registration.occurrenceDate
+                                                ? new Date(registration.occurrenceDate).toLocaleDateString(undefined, { timeZone: "UTC" })
+                                                : "—"}
+                                        </TableCell>
+                                        <TableCell className="text-slate-500">
+                                            {new Date(registration.created_at).toLocaleDateString()}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Switch
+                                                checked={registration.checkedIn}
+                                                disabled={registration.status !== "registered" || checkInMutation.isPending}
+                                                onCheckedChange={(checkedIn) => checkInMutation.mutate({ registrationId: registration._id, checkedIn })}
+                                                aria-label={`Check in ${registration.name}`}
+                                            />
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            {registration.status !== "cancelled" && (
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-8 w-8"
+                                                    aria-label="Cancel registration"
+                                                    onClick={() => cancelMutation.mutate(registration._id)}
+                                                    disabled={cancelMutation.isPending}
+                                                >
+                                                    <X className="w-4 h-4 text-slate-400" />
+                                                </Button>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                                {data?.registrations.length === 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={8} className="text-center text-slate-500 py-8">
+                                            No registrations yet.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+                <DialogContent className="sm:max-w-[425px]">
+                    <DialogHeader>
+                        <DialogTitle>Add Attendee</DialogTitle>
+                        <DialogDescription>
+                            Attendees are waitlisted automatically once the event is full.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="grid gap-4 py-2">
+                        <div className="grid gap-2">
+                            <Label>Member</Label>
+                            <Select
+                                value={newAttendee.member}
+                                onValueChange={(member) => setNewAttendee((prev) => ({ ...prev, member }))}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={NOT_A_MEMBER}>Visitor (not in directory)</SelectItem>
+                                    {memberPage?.members.map((member) => (
+                                        <SelectItem key={member._id || member.id} value={member._id || member.id}>
+                                            {member.fullname}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        {newAttendee.member === NOT_A_MEMBER && (
+                            <>
+                                <div className="grid gap-2">
+                                    <Label htmlFor="attendee-name">Full Name</Label>
+                                    <Input
+                                        id="attendee-name"
+                                        value={newAttendee.name}
+                                        onChange={(e) => setNewAttendee((prev) => ({ ...prev, name: e.target.value }))}
+                                    />
+                                </div>
+                                <div className="grid gap-2">
+                                    <Label htmlFor="attendee-email">Email Address</Label>
+                                    <Input
+                                        id="attendee-email"
+                                        type="email"
+                                        value={newAttendee.email}
+                                        onChange={(e) => setNewAttendee((prev) => ({ ...prev, email: e.target.value }))}
+                                    />
+                                </div>
+                                <div className="grid gap-2">
+                                    <Label htmlFor="attendee-phone">Phone Number</Label>
+                                    <Input
+                                        id="attendee-phone"
+                                        value={newAttendee.phone}
+                                        onChange={(e) => setNewAttendee((prev) => ({ ...prev, phone: e.target.value }))}
+                                    />
+                                </div>
+                            </>
+                        )}
+                    </div>
+                    <DialogFooter>
+                        <Button
+                            onClick={() => addMutation.mutate()}
+                            disabled={addMutation.isPending || (newAttendee.member === NOT_A_MEMBER && (!newAttendee.name || !newAttendee.email))}
+                        >
+                            {addMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            Register
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
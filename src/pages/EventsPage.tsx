@@ -1,43 +1,138 @@
 import { useState } from "react";
+import { useMutation, useQuery, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Search, Plus, Calendar as CalendarIcon, MapPin, Clock } from "lucide-react";
+import { Search, Plus, Calendar as CalendarIcon, MapPin, Clock, Users, Loader2, Pencil, Trash2, List, Repeat } from "lucide-react";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { useRole } from "@/components/auth/RoleProvider";
+import { Event, EventListParams, EventRegistration } from "@/types/event";
+import EventForm from "@/components/admin/events/EventForm";
+import DeleteEventDialog from "@/components/admin/events/DeleteEventDialog";
+import EventCalendar from "@/components/admin/events/EventCalendar";
 
-// Mock data for now
-const events = [
-    {
-        id: 1,
-        title: "Sunday Service",
-        date: "2024-05-19",
-        time: "09:00 AM",
-        location: "Main Auditorium",
-        category: "Service",
-        status: "Upcoming"
-    },
-    {
-        id: 2,
-        title: "Mid-week Service",
-        date: "2024-05-22",
-        time: "06:00 PM",
-        location: "Main Auditorium",
-        category: "Service",
-        status: "Upcoming"
-    },
-    {
-        id: 3,
-        title: "Youth Summit",
-        date: "2024-06-01",
-        time: "10:00 AM",
-        location: "Youth Hall",
-        category: "Special",
-        status: "Planning"
-    }
-];
+const EVENT_TYPE_LABELS: Record<Event["event_type"], string> = {
+    regular: "Service",
+    special: "Special",
+    recurring: "Recurring",
+};
+
+const formatTime = (time?: string) => {
+    if (!time) return "";
+    return new Date(`2000-01-01T${time}`).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", hour12: true });
+};
 
 export default function EventsPage() {
+    const { hasPermission } = useRole();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
     const [searchTerm, setSearchTerm] = useState("");
+    const [view, setView] = useState<"list" | "calendar">("list");
+    const [when, setWhen] = useState<"upcoming" | "past">("upcoming");
+    const [status, setStatus] = useState<"all" | "published" | "draft">("all");
+    const [showForm, setShowForm] = useState(false);
+    const [editingEvent, setEditingEvent] = useState<Event | null>(null);
+    const [deletingEvent, setDeletingEvent] = useState<Event | null>(null);
+
+    const canManage = hasPermission("manage_events");
+
+    const filters: EventListParams = {
+        when,
+        status: status === "all" ? undefined : status,
+        searchTerm: searchTerm || undefined,
+    };
+
+    const { data: events = [], isLoading } = useQuery<Event[]>({
+        queryKey: queryKeys.events.list(filters),
+        queryFn: async () => {
+            const response = await api.get("/events", { params: filters });
+            return response.data;
+        },
+        placeholderData: keepPreviousData,
+        enabled: view === "list",
+    });
+
+    const { data: myRegistrations = [] } = useQuery<EventRegistration[]>({
+        queryKey: queryKeys.events.myRegistrations(),
+        queryFn: async () => {
+            const response = await api.get("/events/registrations/mine");
+            return response.data;
+        },
+        enabled: !canManage,
+    });
+    const registrationFor = (event: Event) => myRegistrations.find((registration) => registration.event === event.id);
+
+    const registrationMutation = useMutation({
+        mutationFn: async (event: Event) => {
+            const existing = registrationFor(event);
+            if (existing) {
+                await api.delete(`/events/${event.id}/registrations/${existing._id}`);
+                return null;
+            }
+            const response = await api.post(`/events/${event.id}/registrations`);
+            return response.data as EventRegistration;
+        },
+        onSuccess: (registration) => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
+            toast({
+                title: !registration
+                    ? "Registration cancelled"
+                    : registration.status === "waitlisted" ? "You're on the waitlist" : "You're registered",
+                description: registration?.status === "waitlisted"
+                    ? "This event is full. We'll move you up if a place opens."
+                    : undefined,
+            });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Error",
+                description: error.response?.data?.message || "Failed to update registration",
+                variant: "destructive"
+            });
+        }
+    });
+
+    const openForm = (event: Event | null) => {
+        setEditingEvent(event);
+        setShowForm(true);
+    };
+
+    // Calendar occurrences only carry the occurrence's dates, so load the series itself
+    const editEventById = async (eventId: string) => {
+        try {
+            const response = await api.get(`/events/${eventId}`);
+            openForm(response.data);
+        } catch {
+            toast({ title: "Error", description: "Failed to load event", variant: "destructive" });
+        }
+    };
+
+    const closeForm = () => {
+        setShowForm(false);
+        setEditingEvent(null);
+    };
+
+    const handleDeleteConfirm = async () => {
+        if (!deletingEvent) return;
+
+        try {
+            await api.delete(`/events/${deletingEvent.id}`);
+            queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
+            toast({ title: "Event deleted" });
+            setDeletingEvent(null);
+        } catch (error: any) {
+            toast({
+                title: "Error",
+                description: error.response?.data?.message || "Failed to delete event",
+                variant: "destructive"
+            });
+        }
+    };
 
     return (
         <div className="space-y-6">
@@ -46,13 +141,18 @@ export default function EventsPage() {
                     <h1 className="text-3xl font-bold text-slate-900 font-serif">Events</h1>
                     <p className="text-slate-500 mt-1">Manage church services and upcoming events.</p>
                 </div>
-                <Button className="bg-primary text-white hover:bg-primary/90 rounded-xl shadow-md">
-                    <Plus className="w-4 h-4 mr-2" />
-                    Create Event
-                </Button>
+                {canManage && (
+                    <Button
+                        className="bg-primary text-white hover:bg-primary/90 rounded-xl shadow-md"
+                        onClick={() => openForm(null)}
+                    >
+                        <Plus className="w-4 h-4 mr-2" />
+                        Create Event
+                    </Button>
+                )}
             </div>
 
-            <div className="flex items-center gap-3">
+            <div className="flex flex-col md:flex-row md:items-center gap-3">
                 <div className="relative flex-1 max-w-sm">
                     <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
                     <Input
@@ -62,46 +162,167 @@ export default function EventsPage() {
                         onChange={(e) => setSearchTerm(e.target.value)}
                     />
                 </div>
+                {view === "list" && (
+                    <Tabs value={when} onValueChange={(value) => setWhen(value as typeof when)}>
+                        <TabsList>
+                            <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
+                            <TabsTrigger value="past">Past</TabsTrigger>
+                        </TabsList>
+                    </Tabs>
+                )}
+                {canManage && (
+                    <Tabs value={status} onValueChange={(value) => setStatus(value as typeof status)}>
+                        <TabsList>
+                            <TabsTrigger value="all">All</TabsTrigger>
+                            <TabsTrigger value="published">Published</TabsTrigger>
+                            <TabsTrigger value="draft">Drafts</TabsTrigger>
+                        </TabsList>
+                    </Tabs>
+                )}
+                <Tabs value={view} onValueChange={(value) => setView(value as typeof view)} className="md:ml-auto">
+                    <TabsList>
+                        <TabsTrigger value="list" aria-label="List view">
+                            <List className="w-4 h-4" />
+                        </TabsTrigger>
+                        <TabsTrigger value="calendar" aria-label="Calendar view">
+                            <CalendarIcon className="w-4 h-4" />
+                        </TabsTrigger>
+                    </TabsList>
+                </Tabs>
             </div>
 
-            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-                {events.map((event) => (
-                    <Card key={event.id} className="border-none shadow-md hover:shadow-xl transition-all duration-300 rounded-2xl overflow-hidden bg-white group cursor-pointer hover:-translate-y-1">
-                        <div className="h-32 bg-gradient-to-r from-primary/80 to-primary/40 relative">
-                            <Badge className="absolute top-4 right-4 bg-white/90 text-slate-900 hover:bg-white inset-ring-1 inset-ring-slate-200">
-                                {event.category}
-                            </Badge>
-                        </div>
-                        <CardHeader>
-                            <CardTitle className="flex justify-between items-start">
-                                <span className="font-serif text-xl">{event.title}</span>
-                            </CardTitle>
-                        </CardHeader>
-                        <CardContent className="space-y-3 text-sm text-slate-600">
-                            <div className="flex items-center gap-2">
-                                <CalendarIcon className="w-4 h-4 text-primary" />
-                                <span>{new Date(event.date).toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</span>
-                            </div>
-                            <div className="flex items-center gap-2">
-                                <Clock className="w-4 h-4 text-primary" />
-                                <span>{event.time}</span>
-                            </div>
-                            <div className="flex items-center gap-2">
-                                <MapPin className="w-4 h-4 text-primary" />
-                                <span>{event.location}</span>
-                            </div>
-                        </CardContent>
-                        <CardFooter className="border-t bg-slate-50 p-4">
-                            <div className="flex items-center justify-between w-full">
-                                <span className={`text-xs px-2 py-1 rounded-full ${event.status === 'Upcoming' ? 'bg-green-100 text-green-700' : 'bg-slate-200 text-slate-700'}`}>
-                                    {event.status}
-                                </span>
-                                <Button variant="ghost" size="sm" className="hover:text-primary">View Details</Button>
+            {view === "calendar" ? (
+                <EventCalendar
+                    filters={{ searchTerm: filters.searchTerm, status: filters.status }}
+                    canManage={canManage}
+                    onEditEvent={editEventById}
+                />
+            ) : isLoading ? (
+                <div className="flex justify-center py-12">
+                    <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+                </div>
+            ) : events.length === 0 ? (
+                <Card className="border-none shadow-md rounded-2xl bg-white">
+                    <CardContent className="flex flex-col items-center justify-center py-12 text-slate-500">
+                        <CalendarIcon className="h-10 w-10 text-slate-300 mb-3" />
+                        No {when} events{searchTerm ? " match your search" : ""}.
+                    </CardContent>
+                </Card>
+            ) : (
+                <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                    {events.map((event) => (
+                        <Card key={event.id} className="border-none shadow-md hover:shadow-xl transition-all duration-300 rounded-2xl overflow-hidden bg-white group hover:-translate-y-1">
+                            <div
+                                className="h-32 bg-gradient-to-r from-primary/80 to-primary/40 relative bg-cover bg-center"
+                                style={event.image_url ? { backgroundImage: `url(${event.image_url})` } : undefined}
+                            >
+                                <Badge className="absolute top-4 right-4 bg-white/90 text-slate-900 hover:bg-white inset-ring-1 inset-ring-slate-200">
+                                    {EVENT_TYPE_LABELS[event.event_type]}
+                                </Badge>
                             </div>
-                        </CardFooter>
-                    </Card>
-                ))}
-            </div>
+                            <CardHeader>
+                                <CardTitle className="flex justify-between items-start">
+                                    <span className="font-serif text-xl">{event.title}</span>
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-3 text-sm text-slate-600">
+                                <div className="flex items-center gap-2">
+                                    <CalendarIcon className="w-4 h-4 text-primary" />
+                                    <span>{new Date(event.event_date).toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' })}</span>
+                                </div>
+                                {event.event_time && (
+                                    <div className="flex items-center gap-2">
+                                        <Clock className="w-4 h-4 text-primary" />
+                                        <span>{formatTime(event.event_time)}{event.end_time && ` – ${formatTime(event.end_time)}`}</span>
+                                    </div>
+                                )}
+                                {event.location && (
+                                    <div className="flex items-center gap-2">
+                                        <MapPin className="w-4 h-4 text-primary" />
+                                        <span>{event.location}</span>
+                                    </div>
+                                )}
+                                {event.is_recurring && event.recurrence_pattern && (
+                                    <div className="flex items-center gap-2">
+                                        <Repeat className="w-4 h-4 text-primary" />
+                                        <span>{event.recurrence_pattern}</span>
+                                    </div>
+                                )}
+                                {(event.max_attendees || event.registration_required) && (
+                                    <div className="flex items-center gap-2">
+                                        <Users className="w-4 h-4 text-primary" />
+                                        <span>
+                                            {event.registration_required
+                                                ? `${event.registered_count ?? 0}${event.max_attendees ? ` / ${event.max_attendees}` : ""} registered`
+                                                : `Capacity ${event.max_attendees}`}
+                                        </span>
+                                    </div>
+                                )}
+                            </CardContent>
+                            <CardFooter className="border-t bg-slate-50 p-4">
+                                <div className="flex items-center justify-between w-full">
+                                    <span className={`text-xs px-2 py-1 rounded-full ${event.is_published ? 'bg-green-100 text-green-700' : 'bg-slate-200 text-slate-700'}`}>
+                                        {event.is_published ? "Published" : "Draft"}
+                                    </span>
+                                    {!canManage && event.registration_required && when === "upcoming" && (
+                                        <Button
+                                            variant={registrationFor(event) ? "outline" : "default"}
+                                            size="sm"
+                                            disabled={registrationMutation.isPending}
+                                            onClick={() => registrationMutation.mutate(event)}
+                                        >
+                                            {!registrationFor(event)
+                                                ? "Register"
+                                                : registrationFor(event)?.status === "waitlisted" ? "Leave Waitlist" : "Cancel Registration"}
+                                        </Button>
+                                    )}
+                                    {canManage && (
+                                        <div className="flex gap-1">
+                                            {event.registration_required && (
+                                                <Button variant="ghost" size="sm" className="hover:text-primary" asChild>
+                                                    <Link to={`/events/${event.id}/attendees`}>
+                                                        <Users className="w-4 h-4 mr-1" />
+                                                        Attendees
+                                                    </Link>
+                                                </Button>
+                                            )}
+                                            <Button variant="ghost" size="sm" className="hover:text-primary" onClick={() => openForm(event)}>
+                                                <Pencil className="w-4 h-4 mr-1" />
+                                                Edit
+                                            </Button>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-8 w-8"
+                                                aria-label="Delete event"
+                                                onClick={() => setDeletingEvent(event)}
+                                            >
+                                                <Trash2 className="w-4 h-4 text-slate-400" />
+                                            </Button>
+                                        </div>
+                                    )}
+                                </div>
+                            </CardFooter>
+                        </Card>
+                    ))}
+                </div>
+            )}
+
+            {showForm && (
+                <EventForm
+                    event={editingEvent}
+                    onClose={closeForm}
+                    onSaved={() => queryClient.invalidateQueries({ queryKey: queryKeys.events.all })}
+                />
+            )}
+
+            {deletingEvent && (
+                <DeleteEventDialog
+                    event={deletingEvent}
+                    onClose={() => setDeletingEvent(null)}
+                    onConfirm={handleDeleteConfirm}
+                />
+            )}
         </div>
     );
 }
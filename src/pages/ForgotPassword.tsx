@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import api from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
+import { useToast } from "@/components/ui/use-toast";
+
+export default function ForgotPassword() {
+    const [email, setEmail] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [sentMessage, setSentMessage] = useState("");
+    const { toast } = useToast();
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        try {
+            const response = await api.post("/auth/forgot-password", { email });
+            setSentMessage(response.data.message);
+        } catch (error: any) {
+            toast({
+                variant: "destructive",
+                title: "Request Failed",
+                description: error.response?.data?.message || "Please try again.",
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-slate-50 p-4">
+            <Card className="w-full max-w-md">
+                <CardHeader className="space-y-1 text-center">
+                    <CardTitle className="text-2xl font-bold">Forgot Password</CardTitle>
+                    <CardDescription>We'll email you a link to choose a new one</CardDescription>
+                </CardHeader>
+                {sentMessage ? (
+                    <CardContent className="space-y-4 text-center">
+                        <p className="text-sm text-slate-600">{sentMessage}.</p>
+                        <Link to="/login" className="text-sm text-primary hover:underline font-medium">
+                            Back to login
+                        </Link>
+                    </CardContent>
+                ) : (
+                    <form onSubmit={handleSubmit}>
+                        <CardContent className="space-y-4">
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Email</label>
+                                <Input
+                                    type="email"
+                                    placeholder="m@example.com"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    required
+                                />
+                            </div>
+                        </CardContent>
+                        <CardFooter className="flex flex-col">
+                            <Button className="w-full h-11 text-base shadow-md" type="submit" disabled={isSubmitting}>
+                                {isSubmitting ? "Sending..." : "Send Reset Link"}
+                            </Button>
+                            <p className="text-xs text-center text-slate-500 mt-4">
+                                Remembered it?{" "}
+                                <Link to="/login" className="text-primary hover:underline font-medium">
+                                    Log in
+                                </Link>
+                            </p>
+                        </CardFooter>
+                    </form>
+                )}
+            </Card>
+        </div>
+    );
+}
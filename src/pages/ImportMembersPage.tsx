@@ -0,0 +1,303 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, FileSpreadsheet, Loader2 } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import {
+    ColumnMapping,
+    IMPORT_FIELDS,
+    MEMBER_CATEGORIES,
+    SpreadsheetData,
+    guessColumnMapping,
+    prepareImportRows,
+    readSpreadsheet,
+} from "@/lib/memberImport";
+import { MemberImportResult } from "@/types/member";
+import { AuditChanges } from "@/components/admin/audit/AuditChanges";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+
+type Step = "upload" | "map" | "preview";
+
+const NOT_MAPPED = "__none";
+const NO_CENTER = "__none";
+
+const ACTION_BADGES: Record<string, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+    create: { label: "Create", variant: "default" },
+    update: { label: "Update", variant: "secondary" },
+    unchanged: { label: "No change", variant: "outline" },
+    error: { label: "Error", variant: "destructive" },
+};
+
+export default function ImportMembersPage() {
+    const navigate = useNavigate();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+
+    const [step, setStep] = useState<Step>("upload");
+    const [fileName, setFileName] = useState("");
+    const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [defaultCategory, setDefaultCategory] = useState<string>("Members");
+    const [auxanoCenter, setAuxanoCenter] = useState(NO_CENTER);
+    const [reading, setReading] = useState(false);
+    const [preview, setPreview] = useState<MemberImportResult | null>(null);
+
+    const { data: centers } = useQuery({
+        queryKey: ["centers"],
+        queryFn: async () => {
+            const response = await api.get("/lists/centers");
+            return response.data;
+        },
+    });
+
+    const prepared = useMemo(
+        () => (sheet ? prepareImportRows(sheet.records, mapping, defaultCategory) : []),
+        [sheet, mapping, defaultCategory]
+    );
+    const validRows = prepared.filter((row) => row.data).map((row) => row.data!);
+    const invalidRows = prepared.filter((row) => !row.data);
+    const warningsByRow = new Map(prepared.map((row) => [row.row, row.warnings]));
+
+    const importMutation = useMutation({
+        mutationFn: async (dryRun: boolean): Promise<MemberImportResult> => {
+            const response = await api.post("/members/import", {
+                rows: validRows,
+                auxanoCenter: auxanoCenter === NO_CENTER ? undefined : auxanoCenter,
+                dryRun,
+            });
+            return response.data;
+        },
+        onSuccess: (result) => {
+            if (result.dryRun) {
+                setPreview(result);
+                setStep("preview");
+                return;
+            }
+            queryClient.invalidateQueries({ queryKey: queryKeys.members.all });
+            toast({
+                title: "Import complete",
+                description: `${result.summary.create} members added, ${result.summary.update} updated.`,
+            });
+            navigate("/members");
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Error",
+                description: error.response?.data?.message || "Failed to import members",
+                variant: "destructive"
+            });
+        }
+    });
+
+    const handleFile = async (file?: File) => {
+        if (!file) return;
+        setReading(true);
+        try {
+            const data = await readSpreadsheet(file);
+            if (data.records.length === 0) {
+                toast({ title: "Empty file", description: "No rows were found in the first sheet.", variant: "destructive" });
+                return;
+            }
+            setFileName(file.name);
+            setSheet(data);
+            setMapping(guessColumnMapping(data.headers));
+            setPreview(null);
+            setStep("map");
+        } catch {
+            toast({ title: "Unreadable file", description: "Choose a CSV or Excel file.", variant: "destructive" });
+        } finally {
+            setReading(false);
+        }
+    };
+
+    const requiredMapped = IMPORT_FIELDS.every(({ field, required }) => !required || mapping[field]);
+
+    // Rows the browser rejected, in sheet order with what the server would do with the rest
+    const previewRows = [
+        ...invalidRows.map((row) => ({ row: row.row, action: "error", fullname: undefined, email: undefined, changes: undefined, errors: row.errors })),
+        ...(preview?.rows || []),
+    ].sort((a, b) => a.row - b.row);
+
+    return (
+        <div className="max-w-5xl mx-auto py-8">
+            <Button
+                variant="ghost"
+                className="mb-6 pl-0 hover:bg-transparent hover:text-slate-600"
+                onClick={() => navigate("/members")}
+            >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Members
+            </Button>
+
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 md:p-8 space-y-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-slate-900">Import Members</h1>
+                    <p className="text-slate-500 mt-1">
+                        Add or update members from a CSV or Excel spreadsheet. Nothing is saved until you confirm the preview.
+                    </p>
+                </div>
+
+                {step === "upload" && (
+                    <label className="flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed border-slate-300 p-10 cursor-pointer hover:bg-slate-50">
+                        {reading ? (
+                            <Loader2 className="w-8 h-8 animate-spin text-slate-400" />
+                        ) : (
+                            <FileSpreadsheet className="w-8 h-8 text-slate-400" />
+                        )}
+                        <span className="text-sm text-slate-600">Choose a .csv, .xlsx or .xls file</span>
+                        <Input
+                            type="file"
+                            accept=".csv,.xlsx,.xls"
+                            className="hidden"
+                            onChange={(e) => handleFile(e.target.files?.[0])}
+                        />
+                    </label>
+                )}
+
+                {step === "map" && sheet && (
+                    <div className="space-y-6">
+                        <p className="text-sm text-slate-600">
+                            {fileName}: {sheet.records.length} rows. Match the spreadsheet columns to member fields.
+                        </p>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {IMPORT_FIELDS.map(({ field, label, required }) => (
+                                <div key={field} className="grid gap-2">
+                                    <Label>{label}{required && " *"}</Label>
+                                    <Select
+                                        value={mapping[field] ?? NOT_MAPPED}
+                                        onValueChange={(value) => setMapping({
+                                            ...mapping,
+                                            [field]: value === NOT_MAPPED ? undefined : value,
+                                        })}
+                                    >
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={NOT_MAPPED}>Not in this file</SelectItem>
+                                            {sheet.headers.map((header) => (
+                                                <SelectItem key={header} value={header}>{header}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            ))}
+                            <div className="grid gap-2">
+                                <Label>Category for rows without one</Label>
+                                <Select value={defaultCategory} onValueChange={setDefaultCategory}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {MEMBER_CATEGORIES.map((category) => (
+                                            <SelectItem key={category} value={category}>{category}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="grid gap-2">
+                                <Label>Auxano center for new members</Label>
+                                <Select value={auxanoCenter} onValueChange={setAuxanoCenter}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={NO_CENTER}>None</SelectItem>
+                                        {centers?.map((c: any) => (
+                                            <SelectItem key={c._id} value={c._id}>{c.name}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                        <div className="flex justify-end gap-3">
+                            <Button variant="outline" onClick={() => setStep("upload")}>
+                                Choose another file
+                            </Button>
+                            <Button
+                                className="bg-black text-white hover:bg-slate-800"
+                                disabled={!requiredMapped || importMutation.isPending || validRows.length === 0}
+                                onClick={() => importMutation.mutate(true)}
+                            >
+                                {importMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                                Preview Import
+                            </Button>
+                        </div>
+                        {requiredMapped && validRows.length === 0 && (
+                            <p className="text-sm text-red-500 text-right">None of the rows are valid with this mapping.</p>
+                        )}
+                    </div>
+                )}
+
+                {step === "preview" && preview && (
+                    <div className="space-y-6">
+                        <div className="flex flex-wrap gap-3 text-sm">
+                            <Badge>{preview.summary.create} to create</Badge>
+                            <Badge variant="secondary">{preview.summary.update} to update</Badge>
+                            <Badge variant="outline">{preview.summary.unchanged} unchanged</Badge>
+                            <Badge variant="destructive">{preview.summary.error + invalidRows.length} with errors</Badge>
+                        </div>
+
+                        <div className="max-h-[480px] overflow-auto rounded-md border">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Row</TableHead>
+                                        <TableHead>Name</TableHead>
+                                        <TableHead>Email</TableHead>
+                                        <TableHead>Result</TableHead>
+                                        <TableHead>Details</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {previewRows.map((row) => (
+                                        <TableRow key={row.row}>
+                                            <TableCell>{row.row}</TableCell>
+                                            <TableCell>{row.fullname || "-"}</TableCell>
+                                            <TableCell>{row.email || "-"}</TableCell>
+                                            <TableCell>
+                                                <Badge variant={ACTION_BADGES[row.action].variant} className="text-xs">
+                                                    {ACTION_BADGES[row.action].label}
+                                                </Badge>
+                                            </TableCell>
+                                            <TableCell className="text-xs">
+                                                {row.errors?.map((error) => (
+                                                    <p key={error} className="text-red-600">{error}</p>
+                                                ))}
+                                                {row.action === "update" && <AuditChanges changes={row.changes} />}
+                                                {warningsByRow.get(row.row)?.map((warning) => (
+                                                    <p key={warning} className="text-amber-700">{warning}</p>
+                                                ))}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+
+                        <div className="flex justify-end gap-3">
+                            <Button variant="outline" onClick={() => setStep("map")} disabled={importMutation.isPending}>
+                                Back to columns
+                            </Button>
+                            <Button
+                                className="bg-black text-white hover:bg-slate-800"
+                                disabled={importMutation.isPending || preview.summary.create + preview.summary.update === 0}
+                                onClick={() => importMutation.mutate(false)}
+                            >
+                                {importMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                                Import {preview.summary.create + preview.summary.update} Members
+                            </Button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
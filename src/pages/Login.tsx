@@ -1,81 +1,209 @@
 import { useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { useNavigate, Link } from "react-router-dom";
+import { useNavigate, useLocation, Link } from "react-router-dom";
+import { TwoFactorChallenge, TwoFactorEnableResponse, AuthResponse } from "@/types/auth";
+import { OtpCodeInput, TwoFactorSetup } from "@/components/auth/TwoFactorSetup";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
 import { useToast } from "@/components/ui/use-toast";
 
 export default function Login() {
+    const location = useLocation();
     const [email, setEmail] = useState("");
     const [password, setPassword] = useState("");
     const [isSubmitting, setIsSubmitting] = useState(false);
-    const { login } = useAuth();
+    // Set once the password is accepted but a second factor is still needed
+    const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(
+        (location.state as { challenge?: TwoFactorChallenge } | null)?.challenge || null
+    );
+    const [code, setCode] = useState("");
+    const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+    const { login, verifyTwoFactor, completeLogin } = useAuth();
     const navigate = useNavigate();
     const { toast } = useToast();
 
+    const finish = () => {
+        toast({
+            title: "Success",
+            description: "Logged in successfully",
+        });
+        navigate("/");
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsSubmitting(true);
         try {
-            await login(email, password);
+            const nextStep = await login(email, password);
+            if (nextStep) {
+                setChallenge(nextStep);
+            } else {
+                finish();
+            }
+        } catch (error: any) {
             toast({
-                title: "Success",
-                description: "Logged in successfully",
+                variant: "destructive",
+                title: "Login Failed",
+                description: error.response?.data?.message || "Check your credentials and try again.",
             });
-            navigate("/");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleVerify = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!challenge) return;
+        setIsSubmitting(true);
+        try {
+            const result = await verifyTwoFactor(
+                challenge.challengeToken,
+                useRecoveryCode ? { recoveryCode: code } : { code }
+            );
+            if (result.recoveryCodesRemaining !== undefined) {
+                toast({
+                    title: "Recovery code used",
+                    description: `You have ${result.recoveryCodesRemaining} left. New codes can be generated in Settings.`,
+                });
+                navigate("/");
+            } else {
+                finish();
+            }
         } catch (error: any) {
+            setCode("");
+            if (error.response?.status === 401 && /expired/.test(error.response?.data?.message || "")) {
+                setChallenge(null);
+            }
             toast({
                 variant: "destructive",
                 title: "Login Failed",
-                description: error.response?.data?.message || "Check your credentials and try again.",
+                description: error.response?.data?.message || "Check the code and try again.",
             });
         } finally {
             setIsSubmitting(false);
         }
     };
 
+    const handleSetupComplete = (result: TwoFactorEnableResponse) => {
+        completeLogin(result as AuthResponse);
+        finish();
+    };
+
+    const startOver = () => {
+        setChallenge(null);
+        setCode("");
+        setUseRecoveryCode(false);
+        navigate(location.pathname, { replace: true, state: null });
+    };
+
     return (
         <div className="flex items-center justify-center min-h-screen bg-slate-50 p-4">
             <Card className="w-full max-w-md">
                 <CardHeader className="space-y-1 text-center">
                     <CardTitle className="text-2xl font-bold">Gospel Labour Ministry</CardTitle>
-                    <CardDescription>Admin Portal</CardDescription>
+                    <CardDescription>
+                        {challenge?.step === "setup"
+                            ? "Your role requires two-factor authentication. Set it up to continue."
+                            : challenge?.step === "verify"
+                                ? "Two-factor authentication"
+                                : "Admin Portal"}
+                    </CardDescription>
                 </CardHeader>
-                <form onSubmit={handleSubmit}>
-                    <CardContent className="space-y-4">
-                        <div className="space-y-2">
-                            <label className="text-sm font-medium">Email</label>
-                            <Input
-                                type="email"
-                                placeholder="m@example.com"
-                                value={email}
-                                onChange={(e) => setEmail(e.target.value)}
-                                required
-                            />
-                        </div>
-                        <div className="space-y-2">
-                            <label className="text-sm font-medium">Password</label>
-                            <Input
-                                type="password"
-                                value={password}
-                                onChange={(e) => setPassword(e.target.value)}
-                                required
-                            />
-                        </div>
-                    </CardContent>
-                    <CardFooter>
-                        <Button className="w-full h-11 text-base shadow-md" type="submit" disabled={isSubmitting}>
-                            {isSubmitting ? "Logging in..." : "Login"}
-                        </Button>
-                        <p className="text-xs text-center text-slate-500 mt-4">
-                            Don't have an account?{" "}
-                            <Link to="/signup" className="text-primary hover:underline font-medium">
-                                Sign up
-                            </Link>
-                        </p>
-                    </CardFooter>
-                </form>
+                {challenge?.step === "setup" ? (
+                    <>
+                        <CardContent>
+                            <TwoFactorSetup challengeToken={challenge.challengeToken} onComplete={handleSetupComplete} />
+                        </CardContent>
+                        <CardFooter className="justify-center">
+                            <Button variant="link" size="sm" onClick={startOver}>Back to login</Button>
+                        </CardFooter>
+                    </>
+                ) : challenge?.step === "verify" ? (
+                    <form onSubmit={handleVerify}>
+                        <CardContent className="space-y-4">
+                            {useRecoveryCode ? (
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium">Recovery code</label>
+                                    <Input
+                                        placeholder="xxxxx-xxxxx"
+                                        value={code}
+                                        onChange={(e) => setCode(e.target.value)}
+                                        autoFocus
+                                        required
+                                    />
+                                </div>
+                            ) : (
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium">Enter the 6-digit code from your authenticator app</label>
+                                    <div className="flex justify-center">
+                                        <OtpCodeInput value={code} onChange={setCode} disabled={isSubmitting} />
+                                    </div>
+                                </div>
+                            )}
+                            <button
+                                type="button"
+                                className="text-xs text-primary hover:underline"
+                                onClick={() => {
+                                    setUseRecoveryCode(!useRecoveryCode);
+                                    setCode("");
+                                }}
+                            >
+                                {useRecoveryCode ? "Use your authenticator app instead" : "Lost your phone? Use a recovery code"}
+                            </button>
+                        </CardContent>
+                        <CardFooter className="flex-col gap-2">
+                            <Button
+                                className="w-full h-11 text-base shadow-md"
+                                type="submit"
+                                disabled={isSubmitting || (!useRecoveryCode && code.length !== 6)}
+                            >
+                                {isSubmitting ? "Verifying..." : "Verify"}
+                            </Button>
+                            <Button type="button" variant="link" size="sm" onClick={startOver}>Back to login</Button>
+                        </CardFooter>
+                    </form>
+                ) : (
+                    <form onSubmit={handleSubmit}>
+                        <CardContent className="space-y-4">
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Email</label>
+                                <Input
+                                    type="email"
+                                    placeholder="m@example.com"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    required
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <label className="text-sm font-medium">Password</label>
+                                    <Link to="/forgot-password" className="text-xs text-primary hover:underline">
+                                        Forgot password?
+                                    </Link>
+                                </div>
+                                <Input
+                                    type="password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    required
+                                />
+                            </div>
+                        </CardContent>
+                        <CardFooter>
+                            <Button className="w-full h-11 text-base shadow-md" type="submit" disabled={isSubmitting}>
+                                {isSubmitting ? "Logging in..." : "Login"}
+                            </Button>
+                            <p className="text-xs text-center text-slate-500 mt-4">
+                                Don't have an account?{" "}
+                                <Link to="/signup" className="text-primary hover:underline font-medium">
+                                    Sign up
+                                </Link>
+                            </p>
+                        </CardFooter>
+                    </form>
+                )}
             </Card>
         </div>
     );
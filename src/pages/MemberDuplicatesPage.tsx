@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { DuplicateMemberPair, DuplicateMembersResponse, MemberMergeResult } from "@/types/member";
+import { MergeMembersDialog } from "@/components/admin/members/MergeMembersDialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { useToast } from "@/components/ui/use-toast";
+
+const REASON_LABELS: Record<DuplicateMemberPair["reasons"][number], string> = {
+    email: "Same mailbox",
+    phone: "Same phone",
+    name: "Similar name",
+};
+
+export default function MemberDuplicatesPage() {
+    const navigate = useNavigate();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [reviewing, setReviewing] = useState<DuplicateMemberPair | null>(null);
+
+    const { data, isLoading, error } = useQuery<DuplicateMembersResponse>({
+        queryKey: queryKeys.members.duplicates(),
+        queryFn: async () => {
+            const response = await api.get("/members/duplicates");
+            return response.data;
+        },
+    });
+
+    const handleMerged = ({ member, moved }: MemberMergeResult) => {
+        setReviewing(null);
+        queryClient.invalidateQueries({ queryKey: queryKeys.members.all });
+        toast({
+            title: "Members merged",
+            description: `${member.fullname} kept, with ${moved.attendance} check-ins, ${moved.donations} donations, `
+                + `${moved.pledges} pledges and ${moved.eventRegistrations} event registrations moved over.`,
+        });
+    };
+
+    return (
+        <div className="flex-1 space-y-4 p-0 md:p-8 pt-6">
+            <Button
+                variant="ghost"
+                className="pl-0 hover:bg-transparent hover:text-slate-600"
+                onClick={() => navigate("/members")}
+            >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Members
+            </Button>
+
+            <div>
+                <h2 className="text-3xl font-bold tracking-tight">Duplicate Members</h2>
+                <p className="text-muted-foreground">
+                    Records that look like the same person, matched on name, phone number and email.
+                </p>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Possible Duplicates</CardTitle>
+                    <CardDescription>
+                        Strongest matches first. Review a pair to merge it field by field.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <div className="flex justify-center py-6">
+                            <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+                        </div>
+                    ) : error ? (
+                        <div className="text-center text-red-500">
+                            Failed to look for duplicates. Please try again.
+                        </div>
+                    ) : !data?.pairs.length ? (
+                        <p className="text-sm text-slate-500 text-center py-4">No likely duplicates found.</p>
+                    ) : (
+                        <>
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Record</TableHead>
+                                        <TableHead>Possible duplicate</TableHead>
+                                        <TableHead>Why</TableHead>
+                                        <TableHead>Match</TableHead>
+                                        <TableHead className="text-right">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {data.pairs.map((pair) => (
+                                        <TableRow key={pair.members.map((member) => member._id).join(":")}>
+                                            {pair.members.map((member) => (
+                                                <TableCell key={member._id}>
+                                                    <div className="font-medium">{member.fullname}</div>
+                                                    <div className="text-xs text-slate-500">
+                                                        {[member.email, member.phone].filter(Boolean).join(" · ") || "-"}
+                                                    </div>
+                                                </TableCell>
+                                            ))}
+                                            <TableCell>
+                                                <div className="flex flex-wrap gap-1">
+                                                    {pair.reasons.map((reason) => (
+                                                        <Badge key={reason} variant="secondary" className="text-xs">
+                                                            {REASON_LABELS[reason]}
+                                                        </Badge>
+                                                    ))}
+                                                </div>
+                                            </TableCell>
+                                            <TableCell>{Math.round(pair.score * 100)}%</TableCell>
+                                            <TableCell className="text-right">
+                                                <Button variant="outline" size="sm" onClick={() => setReviewing(pair)}>
+                                                    Review
+                                                </Button>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                            {data.total > data.pairs.length && (
+                                <p className="text-sm text-slate-500 text-right mt-4">
+                                    Showing the {data.pairs.length} strongest of {data.total} matches.
+                                </p>
+                            )}
+                        </>
+                    )}
+                </CardContent>
+            </Card>
+
+            <MergeMembersDialog
+                pair={reviewing}
+                onOpenChange={(open) => !open && setReviewing(null)}
+                onMerged={handleMerged}
+            />
+        </div>
+    );
+}
@@ -1,52 +1,50 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import api from "@/lib/api";
-import { Member } from "@/types/member";
-import {
-    Table,
-    TableBody,
-    TableCell,
-    TableHead,
-    TableHeader,
-    TableRow
-} from "@/components/ui/table";
+import { MemberListParams, MemberListResponse } from "@/types/member";
+import { queryKeys } from "@/lib/react-query-config";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import {
     Search,
     UserPlus,
-    MoreVertical,
     Filter,
-    Trash2,
-    Edit
+    Upload,
+    Users,
 } from "lucide-react";
-import {
-    DropdownMenu,
-    DropdownMenuContent,
-    DropdownMenuItem,
-    DropdownMenuTrigger,
-} from "@/components/ui/dropdown-menu";
-import { Badge } from "@/components/ui/badge";
-import { Card, CardContent } from "@/components/ui/card";
+import { PaginatedMembersTable } from "@/components/admin/members/PaginatedMembersTable";
+import { MemberExportMenu } from "@/components/admin/members/MemberExportMenu";
+import { PipelineBoard } from "@/components/admin/members/PipelineBoard";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useRole } from "@/components/auth/RoleProvider";
 import { useToast } from "@/components/ui/use-toast";
-import { useAuth } from "@/contexts/AuthContext";
 
 export default function MembersPage() {
     const navigate = useNavigate();
     const [searchTerm, setSearchTerm] = useState("");
+    const [page, setPage] = useState(1);
+    const [pageSize, setPageSize] = useState(20);
+    const [sort, setSort] = useState("-created_at");
     const queryClient = useQueryClient();
     const { toast } = useToast();
-    const { user } = useAuth(); // Assuming useAuth is available and provides user info
+    const { hasPermission } = useRole();
+
+    const filters: MemberListParams = {
+        page,
+        pageSize,
+        sort,
+        searchTerm: searchTerm || undefined,
+    };
 
-    const { data: members, isLoading } = useQuery<Member[]>({
-        queryKey: ["members", searchTerm],
+    const { data, isLoading } = useQuery<MemberListResponse>({
+        queryKey: queryKeys.members.list(filters),
         queryFn: async () => {
-            const response = await api.get("/members", {
-                params: { searchTerm: searchTerm || undefined }
-            });
+            const response = await api.get("/members", { params: filters });
             return response.data;
         },
+        // Keep the current page on screen while the next one loads
+        placeholderData: keepPreviousData,
     });
 
     const deleteMutation = useMutation({
@@ -54,7 +52,7 @@ export default function MembersPage() {
             await api.delete(`/members/${id}`);
         },
         onSuccess: () => {
-            queryClient.invalidateQueries({ queryKey: ["members"] });
+            queryClient.invalidateQueries({ queryKey: queryKeys.members.all });
             toast({ title: "Deleted", description: "Member removed successfully" });
         },
     });
@@ -64,7 +62,7 @@ export default function MembersPage() {
             await api.put(`/members/${id}/approve`);
         },
         onSuccess: () => {
-            queryClient.invalidateQueries({ queryKey: ["members"] });
+            queryClient.invalidateQueries({ queryKey: queryKeys.members.all });
             toast({ title: "Approved", description: "Member approved successfully" });
         },
     });
@@ -76,130 +74,82 @@ export default function MembersPage() {
                     <h1 className="text-3xl font-bold text-slate-900">Member Directory</h1>
                     <p className="text-slate-500 mt-1">Manage and track all church members across categories.</p>
                 </div>
-                <Button
-                    className="bg-black text-white hover:bg-slate-800"
-                    onClick={() => navigate("/members/add")}
-                >
-                    <UserPlus className="w-4 h-4 mr-2" />
-                    Add Member
-                </Button>
+                <div className="flex gap-2">
+                    <MemberExportMenu filters={filters} />
+                    {hasPermission("merge_members") && (
+                        <Button variant="outline" onClick={() => navigate("/members/duplicates")}>
+                            <Users className="w-4 h-4 mr-2" />
+                            Duplicates
+                        </Button>
+                    )}
+                    <Button variant="outline" onClick={() => navigate("/members/import")}>
+                        <Upload className="w-4 h-4 mr-2" />
+                        Import
+                    </Button>
+                    <Button
+                        className="bg-black text-white hover:bg-slate-800"
+                        onClick={() => navigate("/members/add")}
+                    >
+                        <UserPlus className="w-4 h-4 mr-2" />
+                        Add Member
+                    </Button>
+                </div>
             </div>
 
-            <div className="flex items-center gap-3">
-                <div className="relative flex-1 max-w-sm">
-                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
-                    <Input
-                        placeholder="Search name, email, or phone..."
-                        className="pl-9 bg-white"
-                        value={searchTerm}
-                        onChange={(e) => setSearchTerm(e.target.value)}
-                    />
+            <Tabs defaultValue="directory" className="space-y-4">
+                <div className="flex items-center gap-3">
+                    <TabsList>
+                        <TabsTrigger value="directory">Directory</TabsTrigger>
+                        <TabsTrigger value="pipeline">Pipeline</TabsTrigger>
+                    </TabsList>
+                    <div className="relative flex-1 max-w-sm">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                        <Input
+                            placeholder="Search name, email, or phone..."
+                            className="pl-9 bg-white"
+                            value={searchTerm}
+                            onChange={(e) => {
+                                setSearchTerm(e.target.value);
+                                setPage(1);
+                            }}
+                        />
+                    </div>
+                    <Button variant="outline" className="bg-white">
+                        <Filter className="w-4 h-4 mr-2" />
+                        Filter
+                    </Button>
                 </div>
-                <Button variant="outline" className="bg-white">
-                    <Filter className="w-4 h-4 mr-2" />
-                    Filter
-                </Button>
-            </div>
 
-            <div className="bg-white rounded-xl shadow-sm outline outline-1 outline-slate-200 overflow-hidden">
-                <Table>
-                    <TableHeader className="bg-slate-50">
-                        <TableRow>
-                            <TableHead className="font-bold">Full Name</TableHead>
-                            <TableHead className="font-bold">Category</TableHead>
-                            <TableHead className="font-bold">Center / Unit</TableHead>
-                            <TableHead className="font-bold">Status</TableHead>
-                            <TableHead className="font-bold md:table-cell hidden">Phone</TableHead>
-                            <TableHead className="text-right font-bold w-[50px]"></TableHead>
-                        </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                        {isLoading ? (
-                            [1, 2, 3].map(i => (
-                                <TableRow key={i}>
-                                    <TableCell><div className="h-4 w-32 bg-slate-100 rounded animate-pulse" /></TableCell>
-                                    <TableCell><div className="h-4 w-20 bg-slate-100 rounded animate-pulse" /></TableCell>
-                                    <TableCell><div className="h-4 w-24 bg-slate-100 rounded animate-pulse" /></TableCell>
-                                    <TableCell><div className="h-4 w-16 bg-slate-100 rounded animate-pulse" /></TableCell>
-                                    <TableCell><div className="h-4 w-24 bg-slate-100 rounded animate-pulse" /></TableCell>
-                                    <TableCell />
-                                </TableRow>
-                            ))
-                        ) : members?.length === 0 ? (
-                            <TableRow>
-                                <TableCell colSpan={6} className="text-center py-12 text-slate-500">
-                                    No members found.
-                                </TableCell>
-                            </TableRow>
-                        ) : (
-                            members?.map((member) => (
-                                <TableRow key={member.id} className="hover:bg-slate-50 transition-colors">
-                                    <TableCell className="font-medium text-slate-900">
-                                        <div>{member.fullname}</div>
-                                        <div className="text-xs text-slate-400 font-normal">{member.email}</div>
-                                    </TableCell>
-                                    <TableCell>
-                                        <span className="px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider bg-slate-100 text-slate-600 border border-slate-200">
-                                            {member.category}
-                                        </span>
-                                    </TableCell>
-                                    <TableCell>
-                                        <div className="text-sm text-slate-600">
-                                            {(member.auxanoCenter as any)?.name || "-"}
-                                        </div>
-                                        <div className="text-xs text-slate-400">
-                                            {(member.unit as any)?.name || "-"}
-                                        </div>
-                                    </TableCell>
-                                    <TableCell>
-                                        <div className="flex flex-col gap-1">
-                                            <div className="flex items-center gap-1.5">
-                                                <div className={cn("w-1.5 h-1.5 rounded-full", member.isactive ? "bg-green-500" : "bg-slate-300")} />
-                                                <span className="text-sm text-slate-600">{member.isactive ? "Active" : "Inactive"}</span>
-                                            </div>
-                                            {member.status === 'pending' && (
-                                                <span className="inline-flex max-w-fit px-2 py-0.5 rounded-full text-[10px] font-bold uppercase bg-yellow-100 text-yellow-700 border border-yellow-200">
-                                                    Pending
-                                                </span>
-                                            )}
-                                        </div>
-                                    </TableCell>
-                                    <TableCell className="text-slate-600 md:table-cell hidden">{member.phone || "-"}</TableCell>
-                                    <TableCell className="text-right">
-                                        <DropdownMenu>
-                                            <DropdownMenuTrigger asChild>
-                                                <Button variant="ghost" size="icon" className="h-8 w-8">
-                                                    <MoreVertical className="w-4 h-4 text-slate-500" />
-                                                </Button>
-                                            </DropdownMenuTrigger>
-                                            <DropdownMenuContent align="end" className="w-40">
-                                                {member.status === 'pending' && (
-                                                    <DropdownMenuItem onClick={() => approveMutation.mutate(member.id)}>
-                                                        <UserPlus className="w-4 h-4 mr-2" /> Approve
-                                                    </DropdownMenuItem>
-                                                )}
-                                                <DropdownMenuItem onClick={() => navigate(`/members/edit/${member.id}`)}>
-                                                    <Edit className="w-4 h-4 mr-2" /> Edit
-                                                </DropdownMenuItem>
-                                                <DropdownMenuItem
-                                                    className="text-red-600 hover:text-red-600 hover:bg-red-50"
-                                                    onClick={() => deleteMutation.mutate(member.id)}
-                                                >
-                                                    <Trash2 className="w-4 h-4 mr-2" /> Delete
-                                                </DropdownMenuItem>
-                                            </DropdownMenuContent>
-                                        </DropdownMenu>
-                                    </TableCell>
-                                </TableRow>
-                            ))
-                        )}
-                    </TableBody>
-                </Table>
-            </div>
+                <TabsContent value="directory">
+                    <div className="bg-white rounded-xl shadow-sm outline outline-1 outline-slate-200 overflow-hidden p-4">
+                        <PaginatedMembersTable
+                            members={data?.members || []}
+                            isLoading={isLoading}
+                            onEdit={(member) => navigate(`/members/edit/${member._id || member.id}`)}
+                            onDelete={(member) => deleteMutation.mutate(member._id || member.id)}
+                            onApprove={(member) => approveMutation.mutate(member._id || member.id)}
+                            sort={sort}
+                            onSortChange={(value) => {
+                                setSort(value);
+                                setPage(1);
+                            }}
+                            currentPage={data?.page || page}
+                            totalPages={data?.totalPages || 1}
+                            pageSize={pageSize}
+                            totalItems={data?.total || 0}
+                            onPageChange={setPage}
+                            onPageSizeChange={(size) => {
+                                setPageSize(size);
+                                setPage(1);
+                            }}
+                        />
+                    </div>
+                </TabsContent>
+
+                <TabsContent value="pipeline">
+                    <PipelineBoard searchTerm={searchTerm || undefined} />
+                </TabsContent>
+            </Tabs>
         </div>
     );
 }
-
-function cn(...inputs: any[]) {
-    return inputs.filter(Boolean).join(" ");
-}
@@ -1,39 +1,130 @@
 import { useState } from "react";
+import { useMutation, useQuery, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Search, Upload, PlayCircle, Music, FileAudio } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Search, Upload, PlayCircle, Music, Download, MoreVertical, Edit, Trash2, Library, Loader2, Rss } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-
-const messages = [
-    {
-        id: 1,
-        title: "The Power of Faith",
-        preacher: "Pastor John Doe",
-        date: "2024-05-19",
-        duration: "1:15:30",
-        type: "Audio"
-    },
-    {
-        id: 2,
-        title: "Walking in Dominion",
-        preacher: "Pastor Jane Doe",
-        date: "2024-05-12",
-        duration: "58:20",
-        type: "Audio"
-    },
-    {
-        id: 3,
-        title: "Grace Abounds",
-        preacher: "Bishop Smith",
-        date: "2024-05-05",
-        duration: "1:02:15",
-        type: "Video"
-    }
-];
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { useRole } from "@/components/auth/RoleProvider";
+import { useToast } from "@/components/ui/use-toast";
+import { Message, MessageListParams, MessageListResponse, MessageSeries } from "@/types/message";
+import { MessageFormDialog, formatDuration } from "@/components/admin/messages/MessageFormDialog";
+import { MessagePlayerDialog, messageStreamUrl } from "@/components/admin/messages/MessagePlayerDialog";
+import { SeriesFormDialog } from "@/components/admin/messages/SeriesFormDialog";
+import { SeriesDetail } from "@/components/admin/messages/SeriesDetail";
+
+type MessagesTab = "all" | "audio" | "video" | "series";
 
 export default function MessagesPage() {
+    const { hasPermission } = useRole();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [tab, setTab] = useState<MessagesTab>("all");
     const [searchTerm, setSearchTerm] = useState("");
+    const [page, setPage] = useState(1);
+    const [series, setSeries] = useState<string | null>(null);
+    const [playing, setPlaying] = useState<Message | null>(null);
+    const [editing, setEditing] = useState<Message | null>(null);
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [editingSeries, setEditingSeries] = useState<MessageSeries | null>(null);
+    const [isSeriesFormOpen, setIsSeriesFormOpen] = useState(false);
+
+    const isAdmin = hasPermission("manage_messages");
+
+    const filters: MessageListParams = {
+        page,
+        pageSize: 20,
+        searchTerm: searchTerm || undefined,
+        type: tab === "audio" || tab === "video" ? tab : undefined,
+    };
+
+    const { data, isLoading } = useQuery<MessageListResponse>({
+        queryKey: queryKeys.messages.list(filters),
+        queryFn: async () => {
+            const response = await api.get("/messages", { params: filters });
+            return response.data;
+        },
+        placeholderData: keepPreviousData,
+        enabled: tab !== "series",
+    });
+
+    const { data: seriesList = [], isLoading: isSeriesLoading } = useQuery<MessageSeries[]>({
+        queryKey: queryKeys.messages.series(),
+        queryFn: async () => {
+            const response = await api.get("/series");
+            return response.data;
+        },
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: async (id: string) => {
+            await api.delete(`/messages/${id}`);
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.messages.all });
+            toast({ title: "Message deleted" });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Error",
+                description: error.response?.data?.message || "Failed to delete message",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const deleteSeriesMutation = useMutation({
+        mutationFn: async (id: string) => {
+            await api.delete(`/series/${id}`);
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.messages.all });
+            toast({ title: "Series deleted" });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Error",
+                description: error.response?.data?.message || "Failed to delete series",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const changeTab = (value: string) => {
+        setTab(value as MessagesTab);
+        setSeries(null);
+        setPage(1);
+    };
+
+    const openForm = (message: Message | null) => {
+        setEditing(message);
+        setIsFormOpen(true);
+    };
+
+    const copyPodcastUrl = async () => {
+        await navigator.clipboard.writeText(`${api.defaults.baseURL}/public/podcast.xml`);
+        toast({ title: "Podcast feed URL copied", description: "Submit it to your podcast directories once." });
+    };
+
+    const openSeriesForm = (item: MessageSeries | null) => {
+        setEditingSeries(item);
+        setIsSeriesFormOpen(true);
+    };
+
+    const messages = data?.messages || [];
+    const totalPages = data?.totalPages || 1;
+    const visibleSeries = seriesList.filter((item) =>
+        item.title.toLowerCase().includes(searchTerm.toLowerCase())
+    );
 
     return (
         <div className="space-y-6 pt-4">
@@ -42,59 +133,242 @@ export default function MessagesPage() {
                     <h1 className="text-3xl font-bold text-slate-900 font-serif">Messages</h1>
                     <p className="text-slate-500 mt-1">Upload and manage sermon archives.</p>
                 </div>
-                <div className="flex gap-2">
-                    <Button variant="outline" className="bg-white hover:bg-slate-50 rounded-xl shadow-sm">
-                        Create Playlist
-                    </Button>
-                    <Button className="bg-primary text-white hover:bg-primary/90 rounded-xl shadow-md">
-                        <Upload className="w-4 h-4 mr-2" />
-                        Upload Message
-                    </Button>
-                </div>
+                {isAdmin && (
+                    <div className="flex gap-2">
+                        <Button variant="outline" className="bg-white hover:bg-slate-50 rounded-xl shadow-sm" onClick={copyPodcastUrl}>
+                            <Rss className="w-4 h-4 mr-2" />
+                            Podcast Feed
+                        </Button>
+                        <Button variant="outline" className="bg-white hover:bg-slate-50 rounded-xl shadow-sm" onClick={() => openSeriesForm(null)}>
+                            Create Playlist
+                        </Button>
+                        <Button className="bg-primary text-white hover:bg-primary/90 rounded-xl shadow-md" onClick={() => openForm(null)}>
+                            <Upload className="w-4 h-4 mr-2" />
+                            Upload Message
+                        </Button>
+                    </div>
+                )}
             </div>
 
-            <Tabs defaultValue="all" className="w-full">
+            <Tabs value={tab} onValueChange={changeTab} className="w-full">
                 <TabsList className="bg-slate-200/50 p-1 rounded-xl mb-6">
                     <TabsTrigger value="all" className="rounded-lg data-[state=active]:bg-white data-[state=active]:shadow-sm">All Messages</TabsTrigger>
                     <TabsTrigger value="audio" className="rounded-lg data-[state=active]:bg-white data-[state=active]:shadow-sm">Audio</TabsTrigger>
                     <TabsTrigger value="video" className="rounded-lg data-[state=active]:bg-white data-[state=active]:shadow-sm">Video</TabsTrigger>
                     <TabsTrigger value="series" className="rounded-lg data-[state=active]:bg-white data-[state=active]:shadow-sm">Series</TabsTrigger>
                 </TabsList>
+            </Tabs>
 
-                <TabsContent value="all" className="space-y-4">
+            {tab === "series" && series ? (
+                <SeriesDetail
+                    seriesId={series}
+                    canManage={isAdmin}
+                    onBack={() => setSeries(null)}
+                    onPlay={setPlaying}
+                />
+            ) : (
+                <div className="space-y-4">
                     <div className="flex items-center gap-3 mb-6">
                         <div className="relative flex-1 max-w-sm">
                             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
                             <Input
-                                placeholder="Search messages..."
+                                placeholder={tab === "series" ? "Search series..." : "Search messages..."}
                                 className="pl-9 bg-white rounded-xl border-slate-200"
                                 value={searchTerm}
-                                onChange={(e) => setSearchTerm(e.target.value)}
+                                onChange={(e) => {
+                                    setSearchTerm(e.target.value);
+                                    setPage(1);
+                                }}
                             />
                         </div>
                     </div>
 
-                    <div className="grid gap-4">
-                        {messages.map((msg) => (
-                            <Card key={msg.id} className="border-none shadow-sm hover:shadow-md transition-shadow rounded-xl overflow-hidden bg-white">
-                                <CardContent className="p-4 flex items-center gap-4">
-                                    <div className="h-12 w-12 rounded-lg bg-slate-100 flex items-center justify-center shrink-0">
-                                        {msg.type === 'Video' ? <PlayCircle className="text-primary w-6 h-6" /> : <Music className="text-primary w-6 h-6" />}
-                                    </div>
-                                    <div className="flex-1 min-w-0">
-                                        <h3 className="font-semibold text-slate-900 truncate">{msg.title}</h3>
-                                        <p className="text-sm text-slate-500">{msg.preacher} • {new Date(msg.date).toLocaleDateString()}</p>
+                    {tab === "series" ? (
+                        isSeriesLoading ? (
+                            <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin text-slate-400" /></div>
+                        ) : visibleSeries.length === 0 ? (
+                            <p className="text-center text-slate-500 py-12">No series found.</p>
+                        ) : (
+                            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                                {visibleSeries.map((item) => (
+                                    <Card
+                                        key={item._id}
+                                        className="border-none shadow-sm hover:shadow-md transition-shadow rounded-xl bg-white cursor-pointer"
+                                        onClick={() => {
+                                            setSeries(item._id);
+                                            setSearchTerm("");
+                                        }}
+                                    >
+                                        <CardContent className="p-4 flex items-center gap-4">
+                                            <div className="h-14 w-14 rounded-lg bg-slate-100 overflow-hidden flex items-center justify-center shrink-0">
+                                                {item.coverImage
+                                                    ? <img src={item.coverImage} alt="" className="h-full w-full object-cover" />
+                                                    : <Library className="text-primary w-6 h-6" />}
+                                            </div>
+                                            <div className="flex-1 min-w-0">
+                                                <div className="flex items-center gap-2">
+                                                    <h3 className="font-semibold text-slate-900 truncate">{item.title}</h3>
+                                                    {!item.isPublished && <Badge variant="outline">Draft</Badge>}
+                                                </div>
+                                                <p className="text-sm text-slate-500 truncate">
+                                                    {item.messageCount} {item.messageCount === 1 ? "message" : "messages"}
+                                                    {item.preachers.length > 0 && ` • ${item.preachers.join(", ")}`}
+                                                </p>
+                                                {item.firstDate && item.latestDate && (
+                                                    <p className="text-xs text-slate-400">
+                                                        {new Date(item.firstDate).toLocaleDateString()} – {new Date(item.latestDate).toLocaleDateString()}
+                                                    </p>
+                                                )}
+                                            </div>
+                                            {isAdmin && (
+                                                <DropdownMenu>
+                                                    <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                                                        <Button variant="ghost" className="h-8 w-8 p-0">
+                                                            <MoreVertical className="h-4 w-4" />
+                                                        </Button>
+                                                    </DropdownMenuTrigger>
+                                                    <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                                                        <DropdownMenuItem onClick={() => openSeriesForm(item)}>
+                                                            <Edit className="mr-2 h-4 w-4" />
+                                                            Edit
+                                                        </DropdownMenuItem>
+                                                        <DropdownMenuItem
+                                                            className="text-red-600"
+                                                            onClick={() => {
+                                                                if (confirm(`Delete "${item.title}"? Its messages stay in the archive.`)) {
+                                                                    deleteSeriesMutation.mutate(item._id);
+                                                                }
+                                                            }}
+                                                        >
+                                                            <Trash2 className="mr-2 h-4 w-4" />
+                                                            Delete
+                                                        </DropdownMenuItem>
+                                                    </DropdownMenuContent>
+                                                </DropdownMenu>
+                                            )}
+                                        </CardContent>
+                                    </Card>
+                                ))}
+                            </div>
+                        )
+                    ) : (
+                        <>
+                            {isLoading ? (
+                                <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin text-slate-400" /></div>
+                            ) : messages.length === 0 ? (
+                                <p className="text-center text-slate-500 py-12">No messages found.</p>
+                            ) : (
+                                <div className="grid gap-4">
+                                    {messages.map((msg) => (
+                                        <Card key={msg._id} className="border-none shadow-sm hover:shadow-md transition-shadow rounded-xl overflow-hidden bg-white">
+                                            <CardContent className="p-4 flex items-center gap-4">
+                                                <button
+                                                    type="button"
+                                                    aria-label={`Play ${msg.title}`}
+                                                    onClick={() => setPlaying(msg)}
+                                                    className="h-12 w-12 rounded-lg bg-slate-100 hover:bg-slate-200 transition-colors flex items-center justify-center shrink-0"
+                                                >
+                                                    {msg.mediaType === "video" ? <PlayCircle className="text-primary w-6 h-6" /> : <Music className="text-primary w-6 h-6" />}
+                                                </button>
+                                                <div className="flex-1 min-w-0">
+                                                    <div className="flex items-center gap-2">
+                                                    <h3 className="font-semibold text-slate-900 truncate">{msg.title}</h3>
+                                                    {!msg.isPublished && <Badge variant="outline">Draft</Badge>}
+                                                </div>
+                                                    <p className="text-sm text-slate-500">{msg.preacher} • {new Date(msg.date).toLocaleDateString()}</p>
+                                                    {((msg.series?.length ?? 0) > 0 || msg.scriptureReferences.length > 0) && (
+                                                        <div className="flex flex-wrap gap-1 mt-1">
+                                                            {msg.series?.map((item) => (
+                                                                <Badge key={item._id} variant="outline">{item.title}</Badge>
+                                                            ))}
+                                                            {msg.scriptureReferences.map((reference) => (
+                                                                <Badge key={reference} variant="secondary">{reference}</Badge>
+                                                            ))}
+                                                        </div>
+                                                    )}
+                                                </div>
+                                                <div className="text-sm font-medium text-slate-500 tabular-nums hidden md:block">
+                                                    {formatDuration(msg.duration)}
+                                                </div>
+                                                <div className="ml-auto flex items-center gap-1">
+                                                    {msg.file && (
+                                                        <Button variant="ghost" size="icon" asChild aria-label="Download">
+                                                            <a href={messageStreamUrl(msg, true)}>
+                                                                <Download className="w-4 h-4" />
+                                                            </a>
+                                                        </Button>
+                                                    )}
+                                                    {isAdmin && (
+                                                        <DropdownMenu>
+                                                            <DropdownMenuTrigger asChild>
+                                                                <Button variant="ghost" size="sm">
+                                                                    Manage
+                                                                    <MoreVertical className="w-4 h-4 ml-1" />
+                                                                </Button>
+                                                            </DropdownMenuTrigger>
+                                                            <DropdownMenuContent align="end">
+                                                                <DropdownMenuItem onClick={() => openForm(msg)}>
+                                                                    <Edit className="mr-2 h-4 w-4" />
+                                                                    Edit
+                                                                </DropdownMenuItem>
+                                                                <DropdownMenuItem
+                                                                    className="text-red-600"
+                                                                    onClick={() => {
+                                                                        if (confirm(`Delete "${msg.title}" and its recording?`)) {
+                                                                            deleteMutation.mutate(msg._id);
+                                                                        }
+                                                                    }}
+                                                                >
+                                                                    <Trash2 className="mr-2 h-4 w-4" />
+                                                                    Delete
+                                                                </DropdownMenuItem>
+                                                            </DropdownMenuContent>
+                                                        </DropdownMenu>
+                                                    )}
+                                                </div>
+                                            </CardContent>
+                                        </Card>
+                                    ))}
+                                </div>
+                            )}
+                            {totalPages > 1 && (
+                                <div className="flex items-center justify-between pt-4">
+                                    <span className="text-sm text-slate-500">
+                                        Page {data?.page || page} of {totalPages} · {data?.total || 0} messages
+                                    </span>
+                                    <div className="flex gap-2">
+                                        <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                                            Previous
+                                        </Button>
+                                        <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                                            Next
+                                        </Button>
                                     </div>
-                                    <div className="text-sm font-medium text-slate-500 tabular-nums hidden md:block">
-                                        {msg.duration}
-                                    </div>
-                                    <Button variant="ghost" size="sm" className="ml-auto">Manage</Button>
-                                </CardContent>
-                            </Card>
-                        ))}
-                    </div>
-                </TabsContent>
-            </Tabs>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+
+            <MessagePlayerDialog message={playing} onClose={() => setPlaying(null)} />
+            <MessageFormDialog
+                open={isFormOpen}
+                onOpenChange={setIsFormOpen}
+                message={editing}
+                seriesOptions={seriesList}
+            />
+            <SeriesFormDialog
+                open={isSeriesFormOpen}
+                onOpenChange={setIsSeriesFormOpen}
+                series={editingSeries}
+                onSaved={(saved) => {
+                    if (!editingSeries) {
+                        setTab("series");
+                        setSeries(saved._id);
+                    }
+                }}
+            />
         </div>
     );
 }
@@ -0,0 +1,370 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowDown, ArrowLeft, ArrowUp, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import api from "@/lib/api";
+import { queryKeys } from "@/lib/react-query-config";
+import { MemberCategory } from "@/types/member";
+import { PipelineStage, PipelineStageInput } from "@/types/pipeline";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+
+const CATEGORIES: MemberCategory[] = ["Visitors", "Members", "Workers", "Partners", "Sons", "MINT", "Pastors", "Others"];
+
+const EMPTY_STAGE: PipelineStageInput = {
+    name: "",
+    description: "",
+    category: undefined,
+    entryCriteria: { minCheckIns: 0, requireApproved: false, requireChurchUnit: false, minDaysInPreviousStage: 0 },
+    followUpSteps: [],
+    targetDays: 0,
+};
+
+// The requirements of a stage in words, for the stage list
+const describeCriteria = ({ entryCriteria }: PipelineStage) => [
+    entryCriteria.requireApproved && "approved",
+    entryCriteria.requireChurchUnit && "in a church unit",
+    entryCriteria.minCheckIns > 0 && `${entryCriteria.minCheckIns}+ check-ins`,
+    entryCriteria.minDaysInPreviousStage > 0 && `${entryCriteria.minDaysInPreviousStage}+ days in previous stage`,
+].filter(Boolean).join(", ");
+
+export default function PipelineStagesPage() {
+    const navigate = useNavigate();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [editing, setEditing] = useState<{ id?: string; form: PipelineStageInput; steps: string } | null>(null);
+
+    const { data: stages, isLoading, error } = useQuery<PipelineStage[]>({
+        queryKey: queryKeys.pipeline.stages(),
+        queryFn: async () => {
+            const response = await api.get("/pipeline/stages");
+            return response.data;
+        },
+    });
+
+    const onError = (fallback: string) => (error: any) => {
+        toast({
+            title: "Error",
+            description: error.response?.data?.message || fallback,
+            variant: "destructive",
+        });
+    };
+
+    const refresh = () => queryClient.invalidateQueries({ queryKey: queryKeys.pipeline.all });
+
+    const saveMutation = useMutation({
+        mutationFn: async ({ id, form }: { id?: string; form: PipelineStageInput }) => {
+            // An empty category, unlike a missing one, clears it on the server
+            const body = { ...form, category: form.category ?? "" };
+            if (id) {
+                await api.put(`/pipeline/stages/${id}`, body);
+            } else {
+                await api.post("/pipeline/stages", body);
+            }
+        },
+        onSuccess: (_, { id }) => {
+            setEditing(null);
+            refresh();
+            toast({ title: id ? "Stage updated" : "Stage added" });
+        },
+        onError: onError("Failed to save the stage"),
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: async (id: string) => {
+            await api.delete(`/pipeline/stages/${id}`);
+        },
+        onSuccess: () => {
+            refresh();
+            toast({ title: "Stage removed" });
+        },
+        onError: onError("Failed to remove the stage"),
+    });
+
+    const reorderMutation = useMutation({
+        mutationFn: async (ids: string[]) => {
+            await api.put("/pipeline/stages/order", { ids });
+        },
+        onSuccess: refresh,
+        onError: onError("Failed to reorder the stages"),
+    });
+
+    const move = (index: number, offset: number) => {
+        const ids = (stages || []).map((stage) => stage._id);
+        [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+        reorderMutation.mutate(ids);
+    };
+
+    const openEditor = (stage?: PipelineStage) => {
+        const form = stage
+            ? {
+                name: stage.name,
+                description: stage.description || "",
+                category: stage.category,
+                entryCriteria: { ...EMPTY_STAGE.entryCriteria, ...stage.entryCriteria },
+                followUpSteps: stage.followUpSteps,
+                targetDays: stage.targetDays,
+            }
+            : EMPTY_STAGE;
+        setEditing({ id: stage?._id, form, steps: form.followUpSteps.join("\n") });
+    };
+
+    const setForm = (changes: Partial<PipelineStageInput>) =>
+        editing && setEditing({ ...editing, form: { ...editing.form, ...changes } });
+
+    const setCriteria = (changes: Partial<PipelineStageInput["entryCriteria"]>) =>
+        editing && setForm({ entryCriteria: { ...editing.form.entryCriteria, ...changes } });
+
+    const save = () => {
+        if (!editing) return;
+        saveMutation.mutate({
+            id: editing.id,
+            form: {
+                ...editing.form,
+                followUpSteps: editing.steps.split("\n").map((step) => step.trim()).filter(Boolean),
+            },
+        });
+    };
+
+    return (
+        <div className="flex-1 space-y-4 p-0 md:p-8 pt-6">
+            <Button
+                variant="ghost"
+                className="pl-0 hover:bg-transparent hover:text-slate-600"
+                onClick={() => navigate("/members")}
+            >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Members
+            </Button>
+
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                <div>
+                    <h2 className="text-3xl font-bold tracking-tight">Pipeline Stages</h2>
+                    <p className="text-muted-foreground">
+                        The steps members move through, what they need to enter each one and the follow-up before
+                        they move on.
+                    </p>
+                </div>
+                <Button onClick={() => openEditor()}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Stage
+                </Button>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Stages</CardTitle>
+                    <CardDescription>
+                        In order. Requirements only apply when a member moves forward; admins can move them anyway.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <div className="flex justify-center py-6">
+                            <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+                        </div>
+                    ) : error ? (
+                        <div className="text-center text-red-500">Failed to load the stages. Please try again.</div>
+                    ) : !stages?.length ? (
+                        <p className="text-sm text-slate-500 text-center py-4">No stages yet. Add the first one.</p>
+                    ) : (
+                        <div className="divide-y">
+                            {stages.map((stage, index) => (
+                                <div key={stage._id} className="flex items-start justify-between gap-4 py-4">
+                                    <div className="space-y-1">
+                                        <div className="flex items-center gap-2">
+                                            <span className="font-medium">{index + 1}. {stage.name}</span>
+                                            {stage.category && <Badge variant="secondary">{stage.category}</Badge>}
+                                            {stage.targetDays > 0 && (
+                                                <Badge variant="outline">Target {stage.targetDays} days</Badge>
+                                            )}
+                                        </div>
+                                        {stage.description && (
+                                            <p className="text-sm text-slate-500">{stage.description}</p>
+                                        )}
+                                        <p className="text-xs text-slate-500">
+                                            Requires: {describeCriteria(stage) || "nothing"}
+                                        </p>
+                                        {stage.followUpSteps.length > 0 && (
+                                            <p className="text-xs text-slate-500">
+                                                Follow-up: {stage.followUpSteps.join(", ")}
+                                            </p>
+                                        )}
+                                    </div>
+                                    <div className="flex gap-1 shrink-0">
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            disabled={index === 0 || reorderMutation.isPending}
+                                            onClick={() => move(index, -1)}
+                                        >
+                                            <ArrowUp className="w-4 h-4" />
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            disabled={index === stages.length - 1 || reorderMutation.isPending}
+                                            onClick={() => move(index, 1)}
+                                        >
+                                            <ArrowDown className="w-4 h-4" />
+                                        </Button>
+                                        <Button variant="ghost" size="icon" onClick={() => openEditor(stage)}>
+                                            <Pencil className="w-4 h-4" />
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            disabled={deleteMutation.isPending}
+                                            onClick={() => deleteMutation.mutate(stage._id)}
+                                        >
+                                            <Trash2 className="w-4 h-4 text-red-500" />
+                                        </Button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+                <DialogContent className="sm:max-w-[560px]">
+                    <DialogHeader>
+                        <DialogTitle>{editing?.id ? "Edit Stage" : "Add Stage"}</DialogTitle>
+                        <DialogDescription>
+                            Members entering the stage take on its category, if it has one.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {editing && (
+                        <div className="grid gap-4 max-h-[60vh] overflow-auto pr-1">
+                            <div className="grid gap-2">
+                                <Label htmlFor="stage-name">Name</Label>
+                                <Input
+                                    id="stage-name"
+                                    value={editing.form.name}
+                                    onChange={(e) => setForm({ name: e.target.value })}
+                                />
+                            </div>
+                            <div className="grid gap-2">
+                                <Label htmlFor="stage-description">Description</Label>
+                                <Input
+                                    id="stage-description"
+                                    value={editing.form.description || ""}
+                                    onChange={(e) => setForm({ description: e.target.value })}
+                                />
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="grid gap-2">
+                                    <Label>Category on entry</Label>
+                                    <Select
+                                        value={editing.form.category || "none"}
+                                        onValueChange={(value) =>
+                                            setForm({ category: value === "none" ? undefined : value as MemberCategory })}
+                                    >
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="none">Leave unchanged</SelectItem>
+                                            {CATEGORIES.map((category) => (
+                                                <SelectItem key={category} value={category}>{category}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="grid gap-2">
+                                    <Label htmlFor="stage-target">Target days (0 for none)</Label>
+                                    <Input
+                                        id="stage-target"
+                                        type="number"
+                                        min={0}
+                                        value={editing.form.targetDays}
+                                        onChange={(e) => setForm({ targetDays: Number(e.target.value) || 0 })}
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="grid gap-3 rounded-md border p-3">
+                                <h4 className="text-sm font-medium">Entry requirements</h4>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="stage-check-ins">Minimum check-ins</Label>
+                                        <Input
+                                            id="stage-check-ins"
+                                            type="number"
+                                            min={0}
+                                            value={editing.form.entryCriteria.minCheckIns}
+                                            onChange={(e) => setCriteria({ minCheckIns: Number(e.target.value) || 0 })}
+                                        />
+                                    </div>
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="stage-min-days">Days in previous stage</Label>
+                                        <Input
+                                            id="stage-min-days"
+                                            type="number"
+                                            min={0}
+                                            value={editing.form.entryCriteria.minDaysInPreviousStage}
+                                            onChange={(e) =>
+                                                setCriteria({ minDaysInPreviousStage: Number(e.target.value) || 0 })}
+                                        />
+                                    </div>
+                                </div>
+                                <label className="flex items-center justify-between text-sm">
+                                    Must be approved
+                                    <Switch
+                                        checked={editing.form.entryCriteria.requireApproved}
+                                        onCheckedChange={(checked) => setCriteria({ requireApproved: checked })}
+                                    />
+                                </label>
+                                <label className="flex items-center justify-between text-sm">
+                                    Must belong to a church unit
+                                    <Switch
+                                        checked={editing.form.entryCriteria.requireChurchUnit}
+                                        onCheckedChange={(checked) => setCriteria({ requireChurchUnit: checked })}
+                                    />
+                                </label>
+                            </div>
+
+                            <div className="grid gap-2">
+                                <Label htmlFor="stage-steps">Follow-up steps, one per line</Label>
+                                <Textarea
+                                    id="stage-steps"
+                                    rows={4}
+                                    placeholder={"Welcome call\nInvite to newcomers class"}
+                                    value={editing.steps}
+                                    onChange={(e) => setEditing({ ...editing, steps: e.target.value })}
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setEditing(null)} disabled={saveMutation.isPending}>
+                            Cancel
+                        </Button>
+                        <Button onClick={save} disabled={!editing?.form.name.trim() || saveMutation.isPending}>
+                            {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            Save Stage
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import api from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
+import { useToast } from "@/components/ui/use-toast";
+
+export default function ResetPassword() {
+    const [searchParams] = useSearchParams();
+    const token = searchParams.get("token") || "";
+    const [password, setPassword] = useState("");
+    const [confirmPassword, setConfirmPassword] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const navigate = useNavigate();
+    const { toast } = useToast();
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (password !== confirmPassword) {
+            toast({
+                variant: "destructive",
+                title: "Passwords don't match",
+                description: "Type the same password in both fields.",
+            });
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const response = await api.post("/auth/reset-password", { token, password });
+            toast({
+                title: "Success",
+                description: response.data.message,
+            });
+            navigate("/login");
+        } catch (error: any) {
+            toast({
+                variant: "destructive",
+                title: "Reset Failed",
+                description: error.response?.data?.message || "Please request a new link.",
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-slate-50 p-4">
+            <Card className="w-full max-w-md">
+                <CardHeader className="space-y-1 text-center">
+                    <CardTitle className="text-2xl font-bold">Choose a New Password</CardTitle>
+                    <CardDescription>You'll be signed out on every device</CardDescription>
+                </CardHeader>
+                {!token ? (
+                    <CardContent className="space-y-4 text-center">
+                        <p className="text-sm text-slate-600">This reset link is incomplete.</p>
+                        <Link to="/forgot-password" className="text-sm text-primary hover:underline font-medium">
+                            Request a new link
+                        </Link>
+                    </CardContent>
+                ) : (
+                    <form onSubmit={handleSubmit}>
+                        <CardContent className="space-y-4">
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">New Password</label>
+                                <Input
+                                    type="password"
+                                    minLength={8}
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    required
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Confirm Password</label>
+                                <Input
+                                    type="password"
+                                    minLength={8}
+                                    value={confirmPassword}
+                                    onChange={(e) => setConfirmPassword(e.target.value)}
+                                    required
+                                />
+                            </div>
+                        </CardContent>
+                        <CardFooter className="flex flex-col">
+                            <Button className="w-full h-11 text-base shadow-md" type="submit" disabled={isSubmitting}>
+                                {isSubmitting ? "Saving..." : "Reset Password"}
+                            </Button>
+                            <p className="text-xs text-center text-slate-500 mt-4">
+                                Link expired?{" "}
+                                <Link to="/forgot-password" className="text-primary hover:underline font-medium">
+                                    Send another
+                                </Link>
+                            </p>
+                        </CardFooter>
+                    </form>
+                )}
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,99 @@
+import { useMutation } from "@tanstack/react-query";
+import { MailCheck, MailWarning } from "lucide-react";
+import api from "@/lib/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { ActiveSessions } from "@/components/auth/ActiveSessions";
+import { TwoFactorSettings } from "@/components/auth/TwoFactorSettings";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/components/ui/use-toast";
+
+export default function SettingsPage() {
+    const { user } = useAuth();
+    const { toast } = useToast();
+
+    const resendMutation = useMutation({
+        mutationFn: async () => {
+            const response = await api.post("/auth/verify-email/resend");
+            return response.data.message as string;
+        },
+        onSuccess: (message) => {
+            toast({ title: "Email sent", description: message });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Error",
+                description: error.response?.data?.message || "Failed to send verification email",
+                variant: "destructive"
+            });
+        }
+    });
+
+    return (
+        <div className="flex-1 space-y-4 p-0 md:p-8 pt-6">
+            <div>
+                <h2 className="text-3xl font-bold tracking-tight">Settings</h2>
+                <p className="text-muted-foreground">
+                    Signed in as {user?.email}
+                </p>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Email Address</CardTitle>
+                    <CardDescription>
+                        Password reset links are sent to {user?.email}.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="flex items-center justify-between gap-4">
+                    {user?.emailVerified ? (
+                        <div className="flex items-center gap-2 text-sm text-green-700">
+                            <MailCheck className="w-4 h-4" />
+                            Confirmed
+                        </div>
+                    ) : (
+                        <>
+                            <div className="flex items-center gap-2 text-sm text-amber-700">
+                                <MailWarning className="w-4 h-4" />
+                                Not confirmed yet
+                            </div>
+                            <Button
+                                variant="outline"
+                                disabled={resendMutation.isPending}
+                                onClick={() => resendMutation.mutate()}
+                            >
+                                Resend confirmation email
+                            </Button>
+                        </>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Two-Factor Authentication</CardTitle>
+                    <CardDescription>
+                        {user?.twoFactorRequired
+                            ? "Required for your role. Sign in with a code from an authenticator app as well as your password."
+                            : "Sign in with a code from an authenticator app as well as your password."}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <TwoFactorSettings />
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Active Sessions</CardTitle>
+                    <CardDescription>
+                        Devices currently signed in to your account. Revoke any you don't recognise.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <ActiveSessions />
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -1,12 +1,49 @@
-import { useQuery } from "@tanstack/react-query";
-import { Loader2 } from "lucide-react";
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, LockOpen, MonitorSmartphone, MoreHorizontal, Pencil, Trash2, UserCheck, UserPlus, UserX } from "lucide-react";
 import api from "@/lib/api";
+import { useRole } from "@/components/auth/RoleProvider";
+import { useAuth } from "@/contexts/AuthContext";
+import { ActiveSessions } from "@/components/auth/ActiveSessions";
+import { PendingInvitations } from "@/components/admin/users/PendingInvitations";
+import { LoginActivity } from "@/components/admin/users/LoginActivity";
+import EditUserDialog from "@/components/admin/users/EditUserDialog";
+import DeleteUserDialog from "@/components/admin/users/DeleteUserDialog";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
 import { User } from "@/types/member";
 
+const isLocked = (user: User) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+const isDeactivated = (user: User) => user.isActive === false;
+
 export default function UsersPage() {
+    const { hasPermission } = useRole();
+    const isSuperAdmin = hasPermission("system_admin");
+    const { user: currentUser } = useAuth();
+    const [sessionsUser, setSessionsUser] = useState<User | null>(null);
+    const [editingUser, setEditingUser] = useState<User | null>(null);
+    const [deletingUser, setDeletingUser] = useState<User | null>(null);
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+
     const { data: users, isLoading, error } = useQuery<User[]>({
         queryKey: ["users"],
         queryFn: async () => {
@@ -20,6 +57,52 @@ export default function UsersPage() {
         },
     });
 
+    const unlockMutation = useMutation({
+        mutationFn: async (user: User) => {
+            await api.post(`/auth/users/${user._id}/unlock`);
+            return user;
+        },
+        onSuccess: (user) => {
+            queryClient.invalidateQueries({ queryKey: ["users"] });
+            toast({ title: "Account unlocked", description: `${user.email} can log in again.` });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Error",
+                description: error.response?.data?.message || "Failed to unlock account",
+                variant: "destructive"
+            });
+        }
+    });
+
+    const activeMutation = useMutation({
+        mutationFn: async (user: User) => {
+            const action = isDeactivated(user) ? "reactivate" : "deactivate";
+            await api.post(`/auth/users/${user._id}/${action}`);
+            return user;
+        },
+        onSuccess: (user) => {
+            queryClient.invalidateQueries({ queryKey: ["users"] });
+            toast(isDeactivated(user)
+                ? { title: "Account reactivated", description: `${user.email} can log in again.` }
+                : { title: "Account deactivated", description: `${user.email} has been signed out and can no longer log in.` });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Error",
+                description: error.response?.data?.message || "Failed to update account",
+                variant: "destructive"
+            });
+        }
+    });
+
+    const refreshUsers = () => queryClient.invalidateQueries({ queryKey: ["users"] });
+
+    // Only superadmins manage superadmin accounts, and nobody deactivates or
+    // deletes themselves
+    const canManage = (user: User) => isSuperAdmin || user.role !== "superadmin";
+    const isSelf = (user: User) => user._id === currentUser?._id;
+
     if (isLoading) {
         return (
             <div className="flex justify-center items-center h-full">
@@ -45,6 +128,12 @@ export default function UsersPage() {
                         Manage admins, pastors, and system users.
                     </p>
                 </div>
+                <Button asChild>
+                    <Link to="/create-user">
+                        <UserPlus className="w-4 h-4 mr-2" />
+                        Invite User
+                    </Link>
+                </Button>
             </div>
 
             <Card>
@@ -62,15 +151,28 @@ export default function UsersPage() {
                                 <TableHead>Email</TableHead>
                                 <TableHead>Role</TableHead>
                                 <TableHead>Assigned Center</TableHead>
+                                <TableHead className="text-right">Actions</TableHead>
                             </TableRow>
                         </TableHeader>
                         <TableBody>
                             {users?.map((user) => (
-                                <TableRow key={user._id}>
+                                <TableRow key={user._id} className={isDeactivated(user) ? "opacity-60" : undefined}>
                                     <TableCell className="font-medium">
                                         {user.profile?.full_name || "N/A"}
                                     </TableCell>
-                                    <TableCell>{user.email}</TableCell>
+                                    <TableCell>
+                                        {user.email}
+                                        {isLocked(user) && (
+                                            <Badge variant="outline" className="ml-2 text-xs text-amber-700 border-amber-300">
+                                                Locked
+                                            </Badge>
+                                        )}
+                                        {isDeactivated(user) && (
+                                            <Badge variant="outline" className="ml-2 text-xs text-slate-500">
+                                                Deactivated
+                                            </Badge>
+                                        )}
+                                    </TableCell>
                                     <TableCell>
                                         <Badge
                                             variant={
@@ -90,12 +192,119 @@ export default function UsersPage() {
                                     <TableCell>
                                         {(user.assignedAuxanoCenter as any)?.name || "-"}
                                     </TableCell>
+                                    <TableCell className="text-right space-x-1">
+                                        {(isLocked(user) || !!user.failedLoginAttempts) && (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                disabled={unlockMutation.isPending}
+                                                onClick={() => unlockMutation.mutate(user)}
+                                            >
+                                                <LockOpen className="w-4 h-4 mr-2" />
+                                                {isLocked(user) ? "Unlock" : "Reset attempts"}
+                                            </Button>
+                                        )}
+                                        {isSuperAdmin && (
+                                            <Button variant="ghost" size="sm" onClick={() => setSessionsUser(user)}>
+                                                <MonitorSmartphone className="w-4 h-4 mr-2" />
+                                                Sessions
+                                            </Button>
+                                        )}
+                                        {canManage(user) && (
+                                            <DropdownMenu>
+                                                <DropdownMenuTrigger asChild>
+                                                    <Button variant="ghost" size="sm" aria-label={`Manage ${user.email}`}>
+                                                        <MoreHorizontal className="w-4 h-4" />
+                                                    </Button>
+                                                </DropdownMenuTrigger>
+                                                <DropdownMenuContent align="end">
+                                                    <DropdownMenuItem onClick={() => setEditingUser(user)}>
+                                                        <Pencil className="w-4 h-4 mr-2" />
+                                                        Edit details &amp; role
+                                                    </DropdownMenuItem>
+                                                    {!isSelf(user) && (
+                                                        <>
+                                                            <DropdownMenuItem
+                                                                disabled={activeMutation.isPending}
+                                                                onClick={() => activeMutation.mutate(user)}
+                                                            >
+                                                                {isDeactivated(user) ? (
+                                                                    <><UserCheck className="w-4 h-4 mr-2" />Reactivate</>
+                                                                ) : (
+                                                                    <><UserX className="w-4 h-4 mr-2" />Deactivate</>
+                                                                )}
+                                                            </DropdownMenuItem>
+                                                            <DropdownMenuSeparator />
+                                                            <DropdownMenuItem
+                                                                className="text-red-600"
+                                                                onClick={() => setDeletingUser(user)}
+                                                            >
+                                                                <Trash2 className="w-4 h-4 mr-2" />
+                                                                Delete
+                                                            </DropdownMenuItem>
+                                                        </>
+                                                    )}
+                                                </DropdownMenuContent>
+                                            </DropdownMenu>
+                                        )}
+                                    </TableCell>
                                 </TableRow>
                             ))}
                         </TableBody>
                     </Table>
                 </CardContent>
             </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Pending Invitations</CardTitle>
+                    <CardDescription>
+                        People who have been invited but haven't set up their account yet.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <PendingInvitations />
+                </CardContent>
+            </Card>
+
+            {isSuperAdmin && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Login Activity</CardTitle>
+                        <CardDescription>
+                            Successful and failed logins. Repeated failures from one address or against one account may be an attack.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <LoginActivity />
+                    </CardContent>
+                </Card>
+            )}
+
+            <EditUserDialog
+                user={editingUser}
+                open={!!editingUser}
+                onOpenChange={(open) => !open && setEditingUser(null)}
+                onUserUpdated={refreshUsers}
+            />
+            <DeleteUserDialog
+                user={deletingUser}
+                open={!!deletingUser}
+                onOpenChange={(open) => !open && setDeletingUser(null)}
+                onUserDeleted={refreshUsers}
+            />
+
+            <Dialog open={!!sessionsUser} onOpenChange={(open) => !open && setSessionsUser(null)}>
+                <DialogContent className="sm:max-w-[560px]">
+                    <DialogHeader>
+                        <DialogTitle>Active Sessions</DialogTitle>
+                        <DialogDescription>
+                            Devices signed in as {sessionsUser?.profile?.full_name || sessionsUser?.email}.
+                        </DialogDescription>
+                    </DialogHeader>
+                    {sessionsUser && <ActiveSessions userId={sessionsUser._id} />}
+                </DialogContent>
+            </Dialog>
         </div>
     );
 }
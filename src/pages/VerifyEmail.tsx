@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import api from "@/lib/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+
+export default function VerifyEmail() {
+    const [searchParams] = useSearchParams();
+    const token = searchParams.get("token") || "";
+    const { isAuthenticated } = useAuth();
+    const [status, setStatus] = useState<"verifying" | "verified" | "failed">(token ? "verifying" : "failed");
+    const [message, setMessage] = useState(token ? "" : "This verification link is incomplete.");
+    // Tokens are single-use, so StrictMode's double effect must not post twice
+    const submitted = useRef(false);
+
+    useEffect(() => {
+        if (!token || submitted.current) return;
+        submitted.current = true;
+
+        api.post("/auth/verify-email", { token })
+            .then((response) => {
+                setStatus("verified");
+                setMessage(response.data.message);
+            })
+            .catch((error) => {
+                setStatus("failed");
+                setMessage(error.response?.data?.message || "Verification failed.");
+            });
+    }, [token]);
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-slate-50 p-4">
+            <Card className="w-full max-w-md">
+                <CardHeader className="space-y-1 text-center">
+                    <CardTitle className="text-2xl font-bold">Email Verification</CardTitle>
+                </CardHeader>
+                <CardContent className="flex flex-col items-center gap-4 text-center">
+                    {status === "verifying" && <Loader2 className="w-8 h-8 animate-spin text-slate-400" />}
+                    {status === "verified" && <CheckCircle2 className="w-8 h-8 text-green-600" />}
+                    {status === "failed" && <XCircle className="w-8 h-8 text-red-500" />}
+                    <p className="text-sm text-slate-600">
+                        {status === "verifying" ? "Confirming your email address..." : message}
+                    </p>
+                    {status === "failed" && isAuthenticated && (
+                        <p className="text-xs text-slate-500">You can send a new link from Settings.</p>
+                    )}
+                    {status !== "verifying" && (
+                        <Link
+                            to={isAuthenticated ? "/" : "/login"}
+                            className="text-sm text-primary hover:underline font-medium"
+                        >
+                            {isAuthenticated ? "Go to dashboard" : "Go to login"}
+                        </Link>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,42 @@
+export type GrowthInterval = 'week' | 'month';
+
+export interface GrowthPoint {
+  period: string;   // ISO date of the bucket start
+  label: string;    // e.g. "Jan 2025" or "Jan 5"
+  joined: number;
+  churned: number;  // members who went inactive in the bucket
+  net: number;
+  total: number;    // active members at the end of the bucket
+}
+
+export interface GrowthBreakdownItem {
+  key: string | null;
+  label: string;
+  count: number;
+}
+
+/**
+ * Response of GET /api/analytics/growth
+ */
+export interface MemberGrowthReport {
+  interval: GrowthInterval;
+  from: string;
+  to: string;
+  series: GrowthPoint[];
+  summary: {
+    members: number;
+    active: number;
+    joined: number;
+    churned: number;
+    net: number;
+    previousJoined: number;
+    previousChurned: number;
+    previousNet: number;
+    joinedChange: number | null;
+  };
+  breakdowns: {
+    category: GrowthBreakdownItem[];
+    unit: GrowthBreakdownItem[];
+    auxanoCenter: GrowthBreakdownItem[];
+  };
+}
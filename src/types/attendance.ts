@@ -0,0 +1,48 @@
+import type { Member } from "./member";
+
+export type ServiceType = 'service' | 'event' | 'auxano';
+
+/**
+ * Identifies a single gathering that members can be checked into
+ */
+export interface AttendanceSession {
+  serviceType: ServiceType;
+  serviceDate: string;   // YYYY-MM-DD
+  serviceName?: string;  // e.g. "Sunday Service"
+  event?: string;
+  auxanoCenter?: string;
+}
+
+/**
+ * A single check-in as returned by /api/attendance
+ */
+export interface AttendanceRecord {
+  _id: string;
+  member: Member | string;
+  serviceType: ServiceType;
+  serviceDate: string;
+  serviceName: string;
+  event?: string;
+  auxanoCenter?: { _id: string; name: string } | string;
+  isFirstTimeVisitor: boolean;
+  checkedInBy?: string;
+  checkedInAt: string;
+}
+
+/**
+ * Head count for one gathering, as returned by /api/attendance/summary
+ */
+export interface AttendanceSessionSummary {
+  serviceDate: string;
+  serviceType: ServiceType;
+  serviceName: string;
+  auxanoCenter?: string;
+  present: number;
+  firstTimeVisitors: number;
+}
+
+export interface MemberAttendanceHistory {
+  records: AttendanceRecord[];
+  total: number;
+  lastAttended: string | null;
+}
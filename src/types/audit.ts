@@ -0,0 +1,42 @@
+/**
+ * One field's value before and after a change
+ */
+export interface AuditChange {
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * A data-changing action, as returned by /api/admin/audit-logs
+ */
+export interface AuditLogEntry {
+  _id: string;
+  actor?: string;
+  actorEmail?: string;
+  // "<area>.<verb>", e.g. "member.approve"
+  action: string;
+  targetType?: string;
+  target?: string;
+  targetLabel?: string;
+  changes?: Record<string, AuditChange>;
+  ip?: string;
+  userAgent?: string;
+  created_at: string;
+}
+
+export interface AuditLogListResponse {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export interface AuditLogFilters {
+  page?: number;
+  limit?: number;
+  actor?: string;
+  targetType?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+}
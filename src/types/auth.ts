@@ -0,0 +1,119 @@
+import { AppRole, User } from "./member";
+
+export interface AuthSession {
+    _id: string;
+    user: string;
+    userAgent?: string;
+    ip?: string;
+    lastUsedAt: string;
+    expiresAt: string;
+    created_at: string;
+    isActive: boolean;
+    // True for the session making the request
+    current: boolean;
+}
+
+export type InvitationStatus = "pending" | "accepted" | "revoked" | "expired";
+
+export interface Invitation {
+    _id: string;
+    email: string;
+    role: AppRole;
+    full_name?: string;
+    assignedAuxanoCenter?: { _id: string; name: string } | null;
+    invitedBy?: { _id: string; email: string } | null;
+    expiresAt: string;
+    lastSentAt?: string;
+    sentCount: number;
+    acceptedAt?: string;
+    revokedAt?: string;
+    status: InvitationStatus;
+    created_at: string;
+}
+
+// What the accept page learns from an invite link
+export interface InvitationLookup {
+    email: string;
+    role: AppRole;
+    full_name?: string;
+    assignedAuxanoCenter?: { _id: string; name: string } | null;
+    expiresAt: string;
+}
+
+// GET /api/auth/permissions: the signed-in user's grants and the whole matrix
+export interface RoleData {
+    role: AppRole;
+    permissions: string[];
+    roles: Record<AppRole, string[]>;
+    descriptions: Record<string, string>;
+}
+
+// Login answers with one of these instead of tokens when a second factor is needed
+export interface TwoFactorChallenge {
+    step: "verify" | "setup";
+    challengeToken: string;
+}
+
+// A completed sign in
+export interface AuthResponse {
+    token: string;
+    refreshToken: string;
+    user: User;
+    // Set when a recovery code was used to sign in
+    recoveryCodesRemaining?: number;
+}
+
+export interface TwoFactorSetupData {
+    secret: string;
+    otpauthUrl: string;
+    // PNG data URL of the otpauth link
+    qrCode: string;
+}
+
+// POST /api/auth/2fa/enable; the token pair is only present when enrolling during login
+export interface TwoFactorEnableResponse extends Partial<AuthResponse> {
+    recoveryCodes: string[];
+}
+
+export interface TwoFactorStatus {
+    enabled: boolean;
+    required: boolean;
+    recoveryCodesRemaining: number;
+}
+
+export type LoginAttemptReason =
+    | "success"
+    | "unknown-email"
+    | "invalid-password"
+    | "invalid-2fa-code"
+    | "throttled"
+    | "locked"
+    | "deactivated";
+
+export interface LoginAttempt {
+    _id: string;
+    email?: string;
+    user?: string;
+    ip?: string;
+    userAgent?: string;
+    success: boolean;
+    reason: LoginAttemptReason;
+    created_at: string;
+}
+
+export interface LoginAttemptListResponse {
+    attempts: LoginAttempt[];
+    total: number;
+    page: number;
+    totalPages: number;
+}
+
+// GET /api/auth/login-attempts/summary
+export interface LoginSummary {
+    hours: number;
+    succeeded: number;
+    failed: number;
+    topIps: { ip: string; failures: number; lastAt: string }[];
+    topEmails: { email: string; failures: number; lastAt: string }[];
+    lockedUsers: { _id: string; email: string; role: AppRole; lockedUntil: string }[];
+}
@@ -0,0 +1,80 @@
+import type { Member } from "./member";
+
+export type DonationFund = 'tithe' | 'offering' | 'pledge' | 'project';
+export type DonationMethod = 'cash' | 'transfer' | 'card' | 'cheque' | 'other';
+export type PledgeStatus = 'open' | 'fulfilled' | 'cancelled';
+
+type MemberRef = Pick<Member, '_id' | 'fullname' | 'email'>;
+
+/**
+ * A partnership project that members can give or pledge towards
+ */
+export interface Project {
+  _id: string;
+  title: string;
+  description?: string;
+  goal: number;
+  image?: string;
+  isactive: boolean;
+  raised: number;
+  pledged: number;
+  pledgeCount: number;
+  progress: number;   // 0-100, raised against goal
+}
+
+export interface Pledge {
+  _id: string;
+  member: MemberRef | string;
+  project: { _id: string; title: string } | string;
+  amount: number;
+  currency: string;
+  dueDate?: string;
+  status: PledgeStatus;
+  notes?: string;
+  paid: Record<string, number>;   // payments by currency
+  fulfilled: number;   // paid in the pledge's own currency
+  outstanding: number;
+  progress: number;   // 0-100, paid against amount
+}
+
+/**
+ * A single gift as returned by /api/donations
+ */
+export interface Donation {
+  _id: string;
+  member?: MemberRef | null;
+  donorName?: string;
+  fund: DonationFund;
+  amount: number;
+  currency: string;
+  date: string;
+  method: DonationMethod;
+  reference?: string;
+  project?: { _id: string; title: string } | null;
+  pledge?: string | null;
+  notes?: string;
+}
+
+export interface DonationListParams {
+  page?: number;
+  pageSize?: number;
+  from?: string;
+  to?: string;
+  fund?: DonationFund;
+  member?: string;
+  project?: string;
+}
+
+export interface DonationTotal {
+  currency: string;
+  amount: number;
+}
+
+export interface DonationListResponse {
+  donations: Donation[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  totals: DonationTotal[];   // one per currency, never added together
+}
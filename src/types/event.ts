@@ -0,0 +1,110 @@
+export type EventType = 'regular' | 'special' | 'recurring';
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+/**
+ * RRULE-like recurrence rule, e.g. { freq: 'monthly', byDay: ['FR'], bySetPos: 1 }
+ * for a first-Friday vigil
+ */
+export interface Recurrence {
+  freq: RecurrenceFrequency;
+  interval?: number;
+  byDay?: Weekday[];
+  bySetPos?: 1 | 2 | 3 | 4 | 5 | -1;
+  byMonthDay?: number;
+  until?: string;
+  count?: number;
+}
+
+/**
+ * A change to one occurrence of a recurring event, keyed by its original date
+ */
+export interface EventException {
+  date: string;
+  cancelled?: boolean;
+  event_date?: string;
+  title?: string;
+  event_time?: string;
+  end_time?: string;
+  location?: string;
+  note?: string;
+}
+
+/**
+ * An event as returned by /api/events
+ */
+export interface Event {
+  id: string;
+  _id?: string; // Mongoose ID
+  title: string;
+  description?: string;
+  event_date: string;    // ISO date; the day the event starts
+  event_time?: string;   // HH:mm
+  end_date?: string;
+  end_time?: string;
+  location?: string;
+  image_url?: string;
+  event_type: EventType;
+  is_recurring: boolean;
+  recurrence?: Recurrence | null;
+  recurrence_pattern?: string;   // readable summary of `recurrence`
+  exceptions?: EventException[];
+  max_attendees?: number;
+  registration_required: boolean;
+  registered_count?: number;   // confirmed registrations for the next occurrence, excluding the waitlist
+  is_published: boolean;
+  created_at: string;
+}
+
+export interface EventListParams {
+  searchTerm?: string;
+  status?: 'published' | 'draft';
+  when?: 'upcoming' | 'past';
+  eventType?: EventType;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * One concrete occurrence as returned by /api/events/occurrences
+ */
+export interface EventOccurrence extends Event {
+  event_id: string;
+  occurrence_id: string;   // `${event_id}:${original YYYY-MM-DD}`
+  original_date: string;
+  is_cancelled: boolean;
+  is_exception: boolean;
+  exception_note?: string;
+}
+
+export type RegistrationStatus = 'registered' | 'waitlisted' | 'cancelled';
+
+/**
+ * A registration for an event, as returned by /api/events/:id/registrations
+ */
+export interface EventRegistration {
+  _id: string;
+  event: string;
+  member?: { _id: string; fullname: string } | string | null;
+  name: string;
+  email: string;
+  phone?: string;
+  occurrenceDate?: string; // original date of the occurrence registered for
+  status: RegistrationStatus;
+  checkedIn: boolean;
+  checkedInAt?: string;
+  promotedAt?: string;
+  cancelledAt?: string;
+  created_at: string;
+}
+
+export interface EventRegistrationList {
+  event: Pick<Event, 'id' | 'title' | 'event_date' | 'max_attendees'>;
+  counts: {
+    registered: number;
+    waitlisted: number;
+    cancelled: number;
+    checkedIn: number;
+  };
+  registrations: EventRegistration[];
+}
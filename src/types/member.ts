@@ -1,5 +1,6 @@
 
 import * as z from "zod";
+import type { PipelineStage } from "./pipeline";
 
 export type MemberCategory = 'Members' | 'Pastors' | 'Workers' | 'Visitors' | 'Partners' | 'Sons' | 'MINT' | 'Others';
 export type AppRole = 'user' | 'admin' | 'superadmin' | 'pastor';
@@ -44,6 +45,11 @@ export interface Member {
   auxanoCenter?: AuxanoCenter | string; // Populated or ID
   unit?: Unit | string; // Populated or ID
   discipleshipStatus?: boolean;
+  household?: Household | string; // Populated or ID
+  relationships?: { member: string; type: RelationshipType }[];
+  stage?: PipelineStage | string; // Populated or ID
+  stageEnteredAt?: string;
+  completedSteps?: string[]; // Follow-up steps done in the current stage
 
   // Metadata
   created_at: string;
@@ -60,6 +66,82 @@ export interface Member {
   assignedPastor?: Pastor; // Not a DB column - populated in code when needed
 }
 
+/**
+ * Query parameters accepted by GET /api/members
+ */
+export interface MemberListParams {
+  page?: number;
+  pageSize?: number;
+  sort?: string;         // e.g. "-created_at" or "fullname,-updated_at"
+  fields?: string;       // comma separated projection, e.g. "fullname,email"
+  searchTerm?: string;
+  category?: string;
+  churchUnit?: string;
+  pastorId?: string;
+  isActive?: boolean;
+  status?: 'pending' | 'approved';
+  auxanoCenter?: string;
+  discipleshipStatus?: boolean;
+}
+
+/**
+ * Paginated envelope returned by GET /api/members
+ */
+export interface MemberListResponse {
+  members: Member[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+/**
+ * What POST /api/members/import did, or with dryRun would do, with each row
+ */
+export interface MemberImportResult {
+  dryRun: boolean;
+  summary: Record<"create" | "update" | "unchanged" | "error", number>;
+  rows: {
+    row: number;
+    action: "create" | "update" | "unchanged" | "error";
+    fullname?: string;
+    email?: string;
+    memberId?: string;
+    changes?: Record<string, { from: unknown; to: unknown }>;
+    errors?: string[];
+  }[];
+}
+
+/**
+ * Two records GET /api/members/duplicates takes for the same person, older first
+ */
+export interface DuplicateMemberPair {
+  score: number;           // 0 to 1
+  reasons: ("email" | "phone" | "name")[];
+  nameSimilarity: number;  // 0 to 1
+  members: [Member, Member];
+}
+
+export interface DuplicateMembersResponse {
+  pairs: DuplicateMemberPair[];
+  total: number;
+}
+
+/**
+ * What POST /api/members/merge kept and moved over from the removed record
+ */
+export interface MemberMergeResult {
+  member: Member;
+  moved: {
+    attendance: number;
+    duplicateCheckIns: number;
+    donations: number;
+    pledges: number;
+    eventRegistrations: number;
+    stageTransitions: number;
+  };
+}
+
 export const memberSchema = z.object({
   fullname: z.string().min(2, { message: "Full name is required" }),
   email: z.string().email({ message: "Valid email is required" }),
@@ -195,9 +277,59 @@ export interface Unit {
   updated_at: string;
 }
 
+/**
+ * What another member is to this one. Each relationship is stored on both
+ * members: a parent on one side is a child on the other, a guardian a ward.
+ */
+export type RelationshipType = "spouse" | "parent" | "child" | "guardian" | "ward";
+
+export interface HouseholdAddress {
+  line1?: string;
+  line2?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+/**
+ * Members sharing a home, with the address used for their mailing label
+ */
+export interface Household {
+  _id: string;
+  name: string;
+  address?: HouseholdAddress;
+  phone?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * GET /api/members/:id/family
+ */
+export interface MemberFamily {
+  household: Household | null;
+  householdMembers: Pick<Member, "_id" | "fullname" | "email" | "phone" | "category" | "isactive" | "relationships">[];   // only those in your scope
+  relationships: {
+    type: RelationshipType;
+    // No contact details for relatives outside your scope
+    member: Pick<Member, "_id" | "fullname"> & Partial<Pick<Member, "email" | "phone">>;
+  }[];
+}
+
 export interface User {
   _id: string;
   email: string;
+  emailVerified?: boolean;
+  twoFactorEnabled?: boolean;
+  // The user's role may not sign in without a second factor
+  twoFactorRequired?: boolean;
+  // Set while too many failed logins keep the account locked
+  lockedUntil?: string;
+  failedLoginAttempts?: number;
+  // Deactivated users keep their account but can't sign in
+  isActive?: boolean;
+  deactivatedAt?: string;
   role: AppRole;
   assignedAuxanoCenter?: string;
   profile?: {
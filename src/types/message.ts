@@ -0,0 +1,74 @@
+export type MessageMediaType = 'audio' | 'video';
+
+export interface MessageSeriesRef {
+  _id: string;
+  title: string;
+  slug: string;
+}
+
+/**
+ * A sermon or teaching in the message archive, as returned by /api/messages
+ */
+export interface Message {
+  _id: string;
+  title: string;
+  preacher: string;
+  date: string;
+  duration?: number;   // seconds
+  mediaType: MessageMediaType;
+  series?: MessageSeriesRef[];   // series containing this message; list and detail responses only
+  scriptureReferences: string[];
+  tags: string[];
+  description?: string | null;
+  file?: {
+    filename: string;
+    originalName: string;
+    mimetype: string;
+    size: number;
+  };
+  mediaUrl?: string | null;   // externally hosted recording, used when nothing was uploaded
+  isPublished: boolean;
+  created_at: string;
+}
+
+export interface MessageListParams {
+  page?: number;
+  pageSize?: number;
+  searchTerm?: string;
+  type?: MessageMediaType;
+  series?: string;
+  preacher?: string;
+  tag?: string;
+}
+
+export interface MessageListResponse {
+  messages: Message[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+/**
+ * A series or playlist as listed by /api/series
+ */
+export interface MessageSeries {
+  _id: string;
+  title: string;
+  slug: string;
+  description?: string | null;
+  coverImage?: string | null;
+  isPublished: boolean;
+  created_at: string;
+  messageCount: number;
+  firstDate?: string | null;
+  latestDate?: string | null;
+  preachers: string[];
+}
+
+/**
+ * A single series from /api/series/:id, with its messages in play order
+ */
+export interface MessageSeriesDetail extends Omit<MessageSeries, 'messageCount' | 'firstDate' | 'latestDate' | 'preachers'> {
+  messages: Message[];
+}
@@ -0,0 +1,84 @@
+import type { Member, MemberCategory } from './member';
+
+/**
+ * What a member needs before entering a stage
+ */
+export interface StageEntryCriteria {
+  minCheckIns: number;
+  requireApproved: boolean;
+  requireChurchUnit: boolean;
+  minDaysInPreviousStage: number;
+}
+
+/**
+ * One step of the member lifecycle pipeline, e.g. Visitor -> Member -> Worker
+ */
+export interface PipelineStage {
+  _id: string;
+  name: string;
+  order: number;
+  description?: string;
+  category?: MemberCategory; // Taken on by members entering the stage
+  entryCriteria: StageEntryCriteria;
+  followUpSteps: string[];   // To complete before moving on
+  targetDays: number;        // 0 for no target
+  created_at: string;
+  updated_at: string;
+}
+
+export type PipelineStageInput = Pick<
+  PipelineStage,
+  'name' | 'description' | 'category' | 'entryCriteria' | 'followUpSteps' | 'targetDays'
+>;
+
+export type PipelineMember = Pick<
+  Member,
+  '_id' | 'fullname' | 'email' | 'phone' | 'category' | 'status' | 'stageEnteredAt' | 'completedSteps' | 'created_at'
+> & { stage?: string };
+
+export interface PipelineColumn {
+  members: PipelineMember[];
+  total: number; // May be more than the members returned
+}
+
+/**
+ * Response of GET /api/pipeline/board
+ */
+export interface PipelineBoard {
+  unstaged: PipelineColumn;
+  columns: (PipelineColumn & { stage: PipelineStage })[];
+}
+
+/**
+ * A member's move between stages or categories, from GET /api/members/:id/stage-history
+ */
+export interface StageTransition {
+  _id: string;
+  member: string;
+  fromStage?: { _id: string; name: string } | null;
+  // Missing for a category changed on the member's record; null once the stage is deleted
+  toStage?: { _id: string; name: string } | null;
+  fromCategory?: string;
+  toCategory?: string;
+  daysInStage?: number;
+  overridden: string[]; // Requirements an admin let the member skip
+  movedBy?: { _id: string; email: string } | null;
+  created_at: string;
+}
+
+/**
+ * Response of GET /api/analytics/pipeline
+ */
+export interface PipelineMetrics {
+  from: string;
+  to: string;
+  stages: {
+    stage: Pick<PipelineStage, '_id' | 'name' | 'order' | 'targetDays'>;
+    current: number;
+    averageDaysInStage: number | null;
+    stalled: number; // Over the stage's target days
+    entered: number;
+    movedOn: number;
+    averageDaysBeforeMovingOn: number | null;
+  }[];
+}